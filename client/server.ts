@@ -10,9 +10,45 @@ import { ModuleLoader } from "../src/coc_multiagents_system/agents/memory/module
 import { ScenarioLoader } from "../src/coc_multiagents_system/agents/memory/scenarioloader/index.js";
 import { RAGEngine } from "../src/rag/engine.js";
 import { buildGraph, type GraphState } from "../src/graph.js";
-import { initialGameState, type GameState } from "../src/state.js";
+import { GameStateManager, initialGameState, type GameState } from "../src/state.js";
 import { HumanMessage, type BaseMessage } from "@langchain/core/messages";
-import { TurnManager } from "../src/coc_multiagents_system/agents/memory/index.js";
+import {
+  RollLogManager,
+  RoundCollector,
+  SessionManager,
+  TurnCancelledError,
+  TurnManager,
+  TurnProgressHub,
+  TurnQueue,
+  isFinalTurnEvent,
+  type RoundDeclaration,
+  type TurnProgressEvent,
+} from "../src/coc_multiagents_system/agents/memory/index.js";
+import { MemoryAgent } from "../src/coc_multiagents_system/agents/memory/util.js";
+import type {
+  CharacterAttributes,
+  CharacterProfile,
+  DerivedStats,
+  GeneratedInvestigator,
+  InventoryItem,
+  Occupation,
+  WeaponData,
+} from "../src/coc_multiagents_system/agents/models/gameTypes.js";
+import {
+  addInventoryItem,
+  calculateDerivedStats,
+  checkDerivedStats,
+  createDerivedStatus,
+  createDiceState,
+  formatDerivedMismatches,
+  generateInvestigator,
+  getSkillBase,
+  isIncapacitated,
+  matchWeapon,
+  normalizeInventory,
+  SeededDiceRng,
+  validateSkillAllocation,
+} from "../src/coc_multiagents_system/mechanics/index.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -22,9 +58,28 @@ let db: CoCDatabase | null = null;
 let graph: any = null;
 let ragEngine: any = null;
 let turnManager: TurnManager | null = null;
+let rollLog: RollLogManager | null = null;
 
-// **PERSISTENT GAME STATE** - will be initialized when user starts the game
-let persistentGameState: GameState | null = null;
+// **SESSION GAME STATES** - one per started game, routed by session id
+let sessionManager: SessionManager | null = null;
+
+// Sessions idle this long are saved to their checkpoint and dropped from memory
+const SESSION_IDLE_MINUTES = Number(process.env.SESSION_IDLE_MINUTES) || 30;
+
+// **TURN QUEUE** - a session's turns run one at a time against its latest state;
+// in collect round mode the party's actions are gathered first and queued as one round
+const turnQueue = new TurnQueue();
+const roundCollector = new RoundCollector((round) => queueTurns(round.sessionId, round.declarations));
+
+// How long a collect round waits for the whole party unless the game sets its own timeout
+const DEFAULT_ROUND_TIMEOUT_SECONDS = 120;
+
+// **TURN PROGRESS** - live events of each turn (queue, analysis, rolls, director, narrative),
+// streamed to the chat over server-sent events
+const turnProgress = new TurnProgressHub();
+
+// How often an open event stream gets a comment line, so proxies keep it open
+const EVENT_STREAM_HEARTBEAT_MS = 15 * 1000;
 
 console.log("✅ Frontend server ready (nothing initialized yet)");
 
@@ -55,7 +110,8 @@ app.get("/", (_req, res) => {
 // API endpoint to start/initialize the game
 app.post("/api/game/start", async (req, res) => {
   try {
-    const { characterId } = req.body;
+    const { characterId, characterIds, diceSeed } = req.body;
+    const collectRound = parseCollectRound(req.body.collectRound);
 
     console.log(`[${new Date().toISOString()}] Initializing multi-agent system...`);
 
@@ -86,92 +142,80 @@ app.post("/api/game/start", async (req, res) => {
       
       // Initialize TurnManager
       turnManager = new TurnManager(db);
+      rollLog = new RollLogManager(db);
+      sessionManager = new SessionManager(db, SESSION_IDLE_MINUTES * 60 * 1000);
 
       console.log(`[${new Date().toISOString()}] Multi-agent system loaded successfully (no resources loaded)`);
     }
 
-    // Check if character exists
-    if (characterId) {
-      const database = db.getDatabase();
-      const character = database.prepare(`
-        SELECT character_id, name, attributes, status, skills, inventory, notes
-        FROM characters
-        WHERE character_id = ? AND is_npc = 0
-      `).get(characterId) as {
-        character_id: string;
-        name: string;
-        attributes: string;
-        status: string;
-        skills: string;
-        inventory: string;
-        notes: string;
-      } | undefined;
-
-      if (!character) {
-        return res.status(404).json({ error: "Character not found" });
+    // One or more saved investigators; the first takes the first turn
+    const requestedIds: string[] = Array.isArray(characterIds)
+      ? characterIds.filter((id: unknown): id is string => typeof id === "string" && id.length > 0)
+      : characterId ? [characterId] : [];
+
+    if (requestedIds.length > 0) {
+      if (new Set(requestedIds).size !== requestedIds.length) {
+        return res.status(400).json({ error: "Each investigator can join the party only once" });
       }
 
-      // Parse character data and create game state with this character
-      const parsedAttributes = JSON.parse(character.attributes);
-      const parsedStatus = JSON.parse(character.status);
-      const parsedSkills = JSON.parse(character.skills);
-      const parsedInventory = JSON.parse(character.inventory);
+      const investigators: CharacterProfile[] = [];
+      for (const id of requestedIds) {
+        const investigator = loadInvestigator(db, id);
+        if (!investigator) {
+          return res.status(404).json({ error: `Character not found: ${id}` });
+        }
+        investigators.push(investigator);
+      }
 
-      persistentGameState = {
+      const [playerCharacter, ...party] = investigators;
+      const gameState = startSession({
         ...JSON.parse(JSON.stringify(initialGameState)),
-        playerCharacter: {
-          id: character.character_id,
-          name: character.name,
-          attributes: parsedAttributes,
-          status: parsedStatus,
-          skills: parsedSkills,
-          inventory: parsedInventory,
-          notes: character.notes || "",
-          actionLog: [],
-        },
-      };
+        playerCharacter,
+        party,
+        collectRound,
+      }, diceSeed);
 
-      console.log(`[${new Date().toISOString()}] Game started with character: ${character.name} (${characterId})`);
-      
-      if (!persistentGameState) {
-        throw new Error("Failed to initialize game state");
-      }
+      const names = investigators.map(investigator => investigator.name).join(", ");
+      console.log(`[${new Date().toISOString()}] Game started with ${investigators.length > 1 ? "party" : "character"}: ${names} (${requestedIds.join(", ")}) in ${gameState.sessionId}`);
 
       res.json({
         success: true,
-        message: `游戏已开始！欢迎，${character.name}！`,
-        sessionId: persistentGameState.sessionId,
-        characterId: character.character_id,
-        characterName: character.name,
+        message: `游戏已开始！欢迎，${names}！`,
+        sessionId: gameState.sessionId,
+        characterId: playerCharacter.id,
+        characterName: playerCharacter.name,
+        characterIds: investigators.map(investigator => investigator.id),
         gameState: {
-          phase: persistentGameState.phase,
-          playerCharacter: persistentGameState.playerCharacter,
-          timeOfDay: persistentGameState.timeOfDay,
-          tension: persistentGameState.tension,
+          phase: gameState.phase,
+          playerCharacter: gameState.playerCharacter,
+          party: gameState.party,
+          collectRound: gameState.collectRound,
+          timeOfDay: gameState.timeOfDay,
+          tension: gameState.tension,
         },
         timestamp: new Date().toISOString(),
       });
     } else {
       // Start with default character
-      persistentGameState = JSON.parse(JSON.stringify(initialGameState));
-      
-      console.log(`[${new Date().toISOString()}] Game started with default character`);
+      const gameState = startSession({
+        ...JSON.parse(JSON.stringify(initialGameState)),
+        collectRound,
+      }, diceSeed);
       
-      if (!persistentGameState) {
-        throw new Error("Failed to initialize game state");
-      }
+      console.log(`[${new Date().toISOString()}] Game started with default character in ${gameState.sessionId}`);
 
       res.json({
         success: true,
         message: "游戏已开始！使用默认角色。",
-        sessionId: persistentGameState.sessionId,
-        characterId: persistentGameState.playerCharacter.id,
-        characterName: persistentGameState.playerCharacter.name,
+        sessionId: gameState.sessionId,
+        characterId: gameState.playerCharacter.id,
+        characterName: gameState.playerCharacter.name,
         gameState: {
-          phase: persistentGameState.phase,
-          playerCharacter: persistentGameState.playerCharacter,
-          timeOfDay: persistentGameState.timeOfDay,
-          tension: persistentGameState.tension,
+          phase: gameState.phase,
+          playerCharacter: gameState.playerCharacter,
+          collectRound: gameState.collectRound,
+          timeOfDay: gameState.timeOfDay,
+          tension: gameState.tension,
         },
         timestamp: new Date().toISOString(),
       });
@@ -186,7 +230,8 @@ app.post("/api/game/start", async (req, res) => {
 app.post("/api/message", async (req, res) => {
   try {
     // Check if game is initialized
-    if (!persistentGameState) {
+    const session = getSession(req);
+    if (!session) {
       return res.status(400).json({ 
         error: "Game not started. Please start the game first by calling /api/game/start" 
       });
@@ -203,14 +248,19 @@ app.post("/api/message", async (req, res) => {
     // Create initial messages for the graph
     const initialMessages = [new HumanMessage(message)];
 
-    // Invoke the graph with persistent state
-    const result = (await graph.invoke({
-      messages: initialMessages,
-      gameState: persistentGameState,
-    })) as unknown as GraphState;
-
-    // Update the persistent state with the result
-    persistentGameState = result.gameState as GameState;
+    // Invoke the graph with the session's latest state, after any turns already queued
+    const result = await turnQueue.enqueue(session.sessionId, [], async () => {
+      const latest = sessionManager?.getGameState(session.sessionId) ?? session.gameState;
+      const graphResult = (await graph.invoke({
+        messages: initialMessages,
+        gameState: latest,
+      })) as unknown as GraphState;
+
+      // Save the session's state with the result
+      sessionManager?.saveGameState(session.sessionId, graphResult.gameState as GameState);
+      return graphResult;
+    });
+    const gameState = result.gameState as GameState;
 
     // Extract the keeper's response (last AI message)
     const agentMessages = (result.messages as BaseMessage[]).filter(
@@ -229,12 +279,12 @@ app.post("/api/message", async (req, res) => {
       userMessage: message,
       response: lastResponse,
       gameState: {
-        phase: persistentGameState.phase,
-        currentScenario: persistentGameState.currentScenario,
-        timeOfDay: persistentGameState.timeOfDay,
-        tension: persistentGameState.tension,
-        playerCharacter: persistentGameState.playerCharacter,
-        npcCharacters: persistentGameState.npcCharacters,
+        phase: gameState.phase,
+        currentScenario: gameState.currentScenario,
+        timeOfDay: gameState.timeOfDay,
+        tension: gameState.tension,
+        playerCharacter: gameState.playerCharacter,
+        npcCharacters: gameState.npcCharacters,
       },
     });
   } catch (error) {
@@ -243,10 +293,11 @@ app.post("/api/message", async (req, res) => {
   }
 });
 
-// API endpoint to get current game state
+// API endpoint to get a session's current game state
 app.get("/api/gamestate", (req, res) => {
   try {
-    if (!persistentGameState) {
+    const session = getSession(req);
+    if (!session) {
       return res.json({
         success: true,
         gameState: null,
@@ -257,7 +308,8 @@ app.get("/api/gamestate", (req, res) => {
 
     res.json({
       success: true,
-      gameState: persistentGameState,
+      sessionId: session.sessionId,
+      gameState: session.gameState,
       initialized: true,
     });
   } catch (error) {
@@ -266,10 +318,28 @@ app.get("/api/gamestate", (req, res) => {
   }
 });
 
-// API endpoint to reset/stop game
-app.post("/api/game/stop", (req, res) => {
+// API endpoint to reset/stop a session's game
+app.post("/api/game/stop", async (req, res) => {
   try {
-    if (!persistentGameState) {
+    const sessionId = getRequestSessionId(req);
+
+    // Turns still waiting will not run; the one running finishes before the session ends.
+    // Dropped turns are marked and reported here only
+    if (sessionId) {
+      const round = roundCollector.cancel(sessionId);
+      const dropped = [
+        ...(round?.declarations.map(declaration => declaration.turnId) ?? []),
+        ...turnQueue.cancelWaiting(sessionId, "Game stopped before the turn ran"),
+      ];
+      for (const turnId of dropped) {
+        turnManager?.markError(turnId, "Game stopped before the turn ran");
+        turnProgress.publish({ type: "error", turnId, message: "Game stopped before the turn ran" });
+      }
+    }
+    const gameState = sessionId
+      ? await turnQueue.enqueue(sessionId, [], async () => sessionManager?.endSession(sessionId) ?? null)
+      : null;
+    if (!gameState) {
       return res.json({
         success: true,
         message: "Game was not running",
@@ -277,10 +347,14 @@ app.post("/api/game/stop", (req, res) => {
       });
     }
 
-    // Clear the game state
-    persistentGameState = null;
+    // Keep every investigator's experience checks (and current status) for the next session
+    if (db) {
+      for (const investigator of new GameStateManager(gameState).getInvestigators()) {
+        db.saveCharacterProgress(investigator.id, investigator.skills, investigator.status, investigator.experienceChecks || []);
+      }
+    }
     
-    console.log(`[${new Date().toISOString()}] Game stopped and state cleared`);
+    console.log(`[${new Date().toISOString()}] Game stopped and state cleared for ${sessionId}`);
     
     res.json({
       success: true,
@@ -293,6 +367,288 @@ app.post("/api/game/stop", (req, res) => {
   }
 });
 
+// API endpoint to run the end-of-session development phase
+app.post("/api/game/development", async (req, res) => {
+  try {
+    const session = getSession(req);
+    if (!session || !db) {
+      return res.status(400).json({ 
+        error: "Game not started. Please start the game first by calling /api/game/start" 
+      });
+    }
+
+    // Every investigator in the party improves in turn, from the same dice stream,
+    // once the session's queued turns have run
+    const { gameState, developments } = await turnQueue.enqueue(session.sessionId, [], async () => {
+      const latest = sessionManager?.getGameState(session.sessionId) ?? session.gameState;
+      const gsm = new GameStateManager(latest);
+      const rng = new SeededDiceRng(latest.dice ?? createDiceState(session.sessionId));
+      const developments = gsm.getInvestigators().map(investigator => {
+        const rngState = rng.getState().state;
+        const development = gsm.runDevelopmentPhase(rng, investigator.id);
+        return { development, rngState };
+      });
+      gsm.setDiceState(rng.getState());
+      const gameState = gsm.getGameState() as GameState;
+      sessionManager?.saveGameState(session.sessionId, gameState);
+      return { gameState, developments };
+    });
+    const gsm = new GameStateManager(gameState);
+
+    // Persist improvements so they carry across sessions
+    for (const investigator of gsm.getInvestigators()) {
+      db.saveCharacterProgress(investigator.id, investigator.skills, investigator.status, investigator.experienceChecks || []);
+    }
+    for (const { development, rngState } of developments) {
+      rollLog?.recordDevelopmentRolls(session.sessionId, development, rngState, gameState.dice.seed);
+      console.log(`[${new Date().toISOString()}] Development phase for ${development.character}: ${development.improvements.filter(i => i.improved).length}/${development.improvements.length} skills improved`);
+    }
+
+    res.json({
+      success: true,
+      development: developments[0].development,
+      developments: developments.map(({ development }) => development),
+      playerCharacter: gameState.playerCharacter,
+      party: gameState.party,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Error running development phase:", error);
+    res.status(500).json({ error: "Failed to run development phase: " + (error as Error).message });
+  }
+});
+
+// API endpoint to switch a session's collect round mode on ({ collectRound: true | { timeoutSeconds } }) or off
+app.post("/api/game/collect-round", async (req, res) => {
+  try {
+    const session = getSession(req);
+    if (!session) {
+      return res.status(400).json({ 
+        error: "Game not started. Please start the game first by calling /api/game/start" 
+      });
+    }
+
+    // Actions already collected are resolved now rather than dropped
+    const collectRound = parseCollectRound(req.body.collectRound);
+    if (!collectRound) {
+      roundCollector.close(session.sessionId);
+    }
+
+    const gameState = await turnQueue.enqueue(session.sessionId, [], async () => {
+      const latest = sessionManager?.getGameState(session.sessionId) ?? session.gameState;
+      new GameStateManager(latest).setCollectRound(collectRound);
+      sessionManager?.saveGameState(session.sessionId, latest);
+      return latest;
+    });
+
+    console.log(`[${new Date().toISOString()}] Collect round mode ${collectRound ? `on (${collectRound.timeoutSeconds}s)` : "off"} for ${session.sessionId}`);
+
+    res.json({
+      success: true,
+      sessionId: session.sessionId,
+      collectRound: gameState.collectRound,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Error setting collect round mode:", error);
+    res.status(500).json({ error: "Failed to set collect round mode: " + (error as Error).message });
+  }
+});
+
+/**
+ * Sheet the rules reject; its message and details go back with a 400
+ */
+class CharacterSheetError extends Error {
+  constructor(message: string, readonly details: Record<string, unknown> = {}) {
+    super(message);
+    this.name = "CharacterSheetError";
+  }
+}
+
+/**
+ * Character sheet as the creation form posts it; blank numbers arrive as 0
+ * and blank text as ""
+ */
+interface CharacterSheet {
+  identity: {
+    name: string;
+    era?: string;
+    occupation?: string;
+    age?: number | null;
+    gender?: string;
+    residence?: string;
+    birthplace?: string;
+  };
+  attributes?: Record<string, number>; // the eight characteristics and LCK
+  derived?: {
+    HP?: number;
+    SAN?: number;
+    MP?: number;
+    LUCK?: number;
+    MOV?: number;
+    BUILD?: string;
+    DB?: string;
+    ARMOR?: string;
+  };
+  skills?: Record<string, { value?: number; checked?: boolean }>;
+  weapons?: CharacterSheetWeapon[];
+  notes?: {
+    appearance?: string;
+    ideology?: string;
+    people?: string;
+    gear?: string;
+    backstory?: string;
+  };
+}
+
+interface CharacterSheetWeapon {
+  name: string;
+  skill: string;
+  damage: string;
+  range: string;
+  attacks: string;
+  ammo: string;
+}
+
+/**
+ * Check a character sheet (in the creation form's shape) against the rules
+ * and save it as a player character
+ */
+function saveCharacterSheet(
+  database: CoCDatabase,
+  characterData: CharacterSheet
+): { characterId: string; derived: DerivedStats; skills: Record<string, number> } {
+  // Derived statistics come from the characteristics, not the browser
+  const attributes = (characterData.attributes || {}) as CharacterAttributes;
+  const missing = ["STR", "CON", "SIZ", "DEX", "APP", "INT", "POW", "EDU"].filter(
+    key => !(typeof attributes[key] === "number" && attributes[key] > 0)
+  );
+  if (missing.length > 0) {
+    throw new CharacterSheetError(`Characteristics required: ${missing.join(", ")}`);
+  }
+  const derived = calculateDerivedStats(
+    attributes,
+    Number(characterData.identity?.age) || undefined,
+    Number(characterData.skills?.["Cthulhu Mythos"]?.value) || 0
+  );
+  // Blank fields arrive as 0 or ""; only filled-in values are checked
+  const sent = characterData.derived || {};
+  const filled = (value: unknown) => (value === 0 || value === "" ? undefined : value as number | string);
+  const mismatches = checkDerivedStats(derived, {
+    hp: filled(sent.HP),
+    sanity: filled(sent.SAN),
+    mp: filled(sent.MP),
+    damageBonus: filled(sent.DB),
+    build: filled(sent.BUILD),
+    mov: filled(sent.MOV),
+  });
+  if (mismatches.length > 0) {
+    throw new CharacterSheetError(
+      `Derived statistics do not match the characteristics: ${formatDerivedMismatches(mismatches)}`,
+      { mismatches, derived }
+    );
+  }
+
+  // Skill points must fit the occupation; blank skills stay at their base
+  const memory = new MemoryAgent(database);
+  const occupation = memory.getOccupation(characterData.identity?.occupation || "");
+  if (!occupation) {
+    throw new CharacterSheetError(
+      `Choose an occupation from the catalogue: ${memory.getAllOccupations().map(o => o.name).join(", ")}`
+    );
+  }
+  const baseSkills = memory.getAllSkills();
+  const skills: Record<string, number> = {};
+  for (const [name, data] of Object.entries(characterData.skills || {})) {
+    const value = Number(data?.value) || getSkillBase(name, baseSkills, attributes);
+    if (value !== undefined) skills[name] = value;
+  }
+  const allocation = validateSkillAllocation({ attributes, occupation, skills, baseSkills });
+  if (!allocation.valid) {
+    throw new CharacterSheetError(
+      `Skills do not fit the ${occupation.name} occupation: ${allocation.errors.map(e => e.message).join("; ")}`,
+      { errors: allocation.errors, allocation }
+    );
+  }
+
+  // Weapons keep the sheet's stats, with blanks filled from the weapons table;
+  // the gear list becomes items as well
+  const weaponsTable = memory.getAllWeapons();
+  let inventory: InventoryItem[] = [];
+  for (const w of characterData.weapons || []) {
+    if (!w?.name) continue;
+    const known = matchWeapon(w.name, weaponsTable);
+    const skill = w.skill || known?.skill;
+    const weapon: WeaponData | undefined = skill
+      ? {
+          ...known,
+          name: w.name,
+          skill,
+          damage: w.damage || known?.damage || "1d3",
+          range: w.range || known?.range || "Touch",
+          attacksPerRound: Number.parseInt(w.attacks, 10) || known?.attacksPerRound || 1,
+          ammo: Number.parseInt(w.ammo, 10) || known?.ammo,
+        }
+      : undefined;
+    inventory = addInventoryItem(inventory, { name: w.name, type: "weapon", weapon }).inventory;
+  }
+  for (const gear of String(characterData.notes?.gear || "").split(/[,;\n]/)) {
+    if (gear.trim()) {
+      inventory = addInventoryItem(inventory, gear, weaponsTable).inventory;
+    }
+  }
+
+  // Generate character ID
+  const characterId = `char-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+  // Prepare character data for database
+  const dbCharacter = {
+    character_id: characterId,
+    name: characterData.identity.name,
+    attributes: JSON.stringify(characterData.attributes || {}),
+    status: JSON.stringify(
+      createDerivedStatus(derived, Number(sent.LUCK) || attributes.LCK || 50)
+    ),
+    inventory: JSON.stringify(inventory),
+    skills: JSON.stringify(skills),
+    notes: JSON.stringify({
+      era: characterData.identity?.era || "",
+      gender: characterData.identity?.gender || "",
+      residence: characterData.identity?.residence || "",
+      birthplace: characterData.identity?.birthplace || "",
+      appearance: characterData.notes?.appearance || "",
+      ideology: characterData.notes?.ideology || "",
+      people: characterData.notes?.people || "",
+      gear: characterData.notes?.gear || "",
+      backstory: characterData.notes?.backstory || "",
+      weapons: characterData.weapons || [],
+    }),
+    is_npc: 0, // Player character
+    occupation: occupation.name,
+    age: characterData.identity?.age || null,
+    appearance: characterData.notes?.appearance || null,
+    personality: characterData.notes?.ideology || null,
+    background: characterData.notes?.backstory || null,
+    goals: null,
+    secrets: null,
+  };
+
+  // Insert into database
+  const insertStmt = database.getDatabase().prepare(`
+    INSERT INTO characters (
+      character_id, name, attributes, status, inventory, skills, notes,
+      is_npc, occupation, age, appearance, personality, background, goals, secrets
+    ) VALUES (
+      @character_id, @name, @attributes, @status, @inventory, @skills, @notes,
+      @is_npc, @occupation, @age, @appearance, @personality, @background, @goals, @secrets
+    )
+  `);
+
+  insertStmt.run(dbCharacter);
+
+  return { characterId, derived, skills };
+}
+
 // API endpoint to create/save a character
 app.post("/api/character", (req, res) => {
   try {
@@ -313,87 +669,163 @@ app.post("/api/character", (req, res) => {
       return res.status(400).json({ error: "Character name is required" });
     }
 
-    // Generate character ID
-    const characterId = `char-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-
-    // Prepare character data for database
-    const dbCharacter = {
-      character_id: characterId,
-      name: characterData.identity.name,
-      attributes: JSON.stringify(characterData.attributes || {}),
-      status: JSON.stringify({
-        hp: characterData.derived?.HP || 10,
-        maxHp: characterData.derived?.HP || 10,
-        sanity: characterData.derived?.SAN || 60,
-        maxSanity: characterData.attributes?.POW ? characterData.attributes.POW * 5 : 99,
-        luck: characterData.derived?.LUCK || characterData.attributes?.LCK || 50,
-        mp: characterData.derived?.MP || 10,
-        damageBonus: characterData.derived?.DB || "0",
-        build: characterData.derived?.BUILD || 0,
-        mov: characterData.derived?.MOV || 8,
-        conditions: [],
-      }),
-      inventory: JSON.stringify(
-        (characterData.weapons || [])
-          .filter((w: any) => w.name)
-          .map((w: any) => w.name)
-      ),
-      skills: JSON.stringify(
-        Object.entries(characterData.skills || {}).reduce((acc: any, [name, data]: [string, any]) => {
-          acc[name] = data.value || 0;
-          return acc;
-        }, {})
-      ),
-      notes: JSON.stringify({
-        era: characterData.identity?.era || "",
-        gender: characterData.identity?.gender || "",
-        residence: characterData.identity?.residence || "",
-        birthplace: characterData.identity?.birthplace || "",
-        appearance: characterData.notes?.appearance || "",
-        ideology: characterData.notes?.ideology || "",
-        people: characterData.notes?.people || "",
-        gear: characterData.notes?.gear || "",
-        backstory: characterData.notes?.backstory || "",
-        weapons: characterData.weapons || [],
-      }),
-      is_npc: 0, // Player character
-      occupation: characterData.identity?.occupation || null,
-      age: characterData.identity?.age || null,
-      appearance: characterData.notes?.appearance || null,
-      personality: characterData.notes?.ideology || null,
-      background: characterData.notes?.backstory || null,
-      goals: null,
-      secrets: null,
-    };
-
-    // Insert into database
-    const database = db.getDatabase();
-    const insertStmt = database.prepare(`
-      INSERT INTO characters (
-        character_id, name, attributes, status, inventory, skills, notes,
-        is_npc, occupation, age, appearance, personality, background, goals, secrets
-      ) VALUES (
-        @character_id, @name, @attributes, @status, @inventory, @skills, @notes,
-        @is_npc, @occupation, @age, @appearance, @personality, @background, @goals, @secrets
-      )
-    `);
-
-    insertStmt.run(dbCharacter);
+    const { characterId, derived } = saveCharacterSheet(db, characterData);
 
     console.log(`[${new Date().toISOString()}] Character created: ${characterData.identity.name} (${characterId})`);
 
     res.json({
       success: true,
       characterId: characterId,
+      derived,
       message: `角色 ${characterData.identity.name} 创建成功！`,
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
+    if (error instanceof CharacterSheetError) {
+      return res.status(400).json({ error: error.message, ...error.details });
+    }
     console.error("Error creating character:", error);
     res.status(500).json({ error: "Failed to create character: " + (error as Error).message });
   }
 });
 
+// API endpoint to generate an investigator (rolled or point-buy) and save it
+app.post("/api/character/generate", (req, res) => {
+  try {
+    // Initialize database if not already initialized
+    if (!db) {
+      const dataDir = path.join(process.cwd(), "data");
+      if (!fs.existsSync(dataDir)) {
+        fs.mkdirSync(dataDir, { recursive: true });
+      }
+      db = new CoCDatabase();
+      seedDatabase(db);
+      console.log("Database initialized for character generation");
+    }
+
+    const {
+      name,
+      occupation: occupationName,
+      age,
+      method = "rolled",
+      characteristics,
+      allocateSkills = true,
+      save = true,
+      diceSeed,
+    } = req.body || {};
+
+    if (!name) {
+      return res.status(400).json({ error: "Character name is required" });
+    }
+    if (method !== "rolled" && method !== "point_buy") {
+      return res.status(400).json({ error: 'method must be "rolled" or "point_buy"' });
+    }
+
+    const memory = new MemoryAgent(db);
+    const rng = new SeededDiceRng(createDiceState(diceSeed || `generate-${Date.now()}`));
+
+    // Skill points need an occupation; without one named, draw one
+    let occupation: Occupation | null = null;
+    if (allocateSkills) {
+      const occupations = memory.getAllOccupations();
+      occupation = occupationName
+        ? memory.getOccupation(occupationName) ?? null
+        : occupations[Math.floor(rng.next() * occupations.length)] ?? null;
+      if (!occupation) {
+        return res.status(400).json({
+          error: `Choose an occupation from the catalogue: ${occupations.map(o => o.name).join(", ")}`,
+        });
+      }
+    }
+
+    let generated: GeneratedInvestigator;
+    try {
+      generated = generateInvestigator({
+        method,
+        characteristics,
+        age: age === undefined ? undefined : Number(age),
+        occupation,
+        baseSkills: memory.getAllSkills(),
+        rng,
+      });
+    } catch (error) {
+      return res.status(400).json({ error: (error as Error).message });
+    }
+
+    // Saved through the same checks as a sheet from the creation form
+    let characterId: string | null = null;
+    if (save && occupation) {
+      characterId = saveCharacterSheet(db, {
+        identity: { name, occupation: occupation.name, age: generated.age },
+        attributes: { ...generated.attributes, LCK: generated.luck },
+        derived: { LUCK: generated.luck },
+        skills: Object.fromEntries(
+          Object.entries(generated.skills).map(([skill, value]) => [skill, { value }])
+        ),
+        weapons: [],
+        notes: {},
+      }).characterId;
+      console.log(`[${new Date().toISOString()}] Investigator generated: ${name} (${characterId}), ${generated.method}, ${occupation.name}, age ${generated.age}`);
+    }
+
+    const playerCharacter: CharacterProfile = {
+      id: characterId ?? `generated-${rng.seed}`,
+      name,
+      attributes: { ...generated.attributes, LCK: generated.luck },
+      status: createDerivedStatus(generated.derived, generated.luck),
+      inventory: [],
+      skills: generated.skills,
+      notes: [
+        generated.occupation && `Occupation: ${generated.occupation}`,
+        `Age: ${generated.age}`,
+      ]
+        .filter(Boolean)
+        .join("\n\n"),
+    };
+
+    res.json({
+      success: true,
+      saved: characterId !== null,
+      characterId,
+      playerCharacter,
+      generation: generated,
+      diceSeed: rng.seed,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof CharacterSheetError) {
+      return res.status(400).json({ error: error.message, ...error.details });
+    }
+    console.error("Error generating investigator:", error);
+    res.status(500).json({ error: "Failed to generate investigator: " + (error as Error).message });
+  }
+});
+
+// API endpoint to list the occupations a new investigator can take
+app.get("/api/occupations", (req, res) => {
+  try {
+    // Initialize database if not already initialized
+    if (!db) {
+      const dataDir = path.join(process.cwd(), "data");
+      if (!fs.existsSync(dataDir)) {
+        fs.mkdirSync(dataDir, { recursive: true });
+      }
+      db = new CoCDatabase();
+      seedDatabase(db);
+      console.log("Database initialized for occupation retrieval");
+    }
+
+    res.json({
+      success: true,
+      occupations: new MemoryAgent(db).getAllOccupations(),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Error retrieving occupations:", error);
+    res.status(500).json({ error: "Failed to retrieve occupations: " + (error as Error).message });
+  }
+});
+
 // API endpoint to get all characters
 app.get("/api/characters", (req, res) => {
   try {
@@ -430,41 +862,76 @@ app.get("/api/characters", (req, res) => {
 // POST /api/turns - Create a new turn and start processing
 app.post("/api/turns", async (req, res) => {
   try {
-    if (!persistentGameState || !turnManager || !graph) {
+    const session = getSession(req);
+    if (!session || !turnManager || !graph) {
       return res.status(400).json({ 
         error: "Game not started. Please start the game first by calling /api/game/start" 
       });
     }
 
-    const { message } = req.body;
+    const { message, characterId } = req.body;
 
     if (!message || typeof message !== "string") {
       return res.status(400).json({ error: "Message is required" });
     }
 
+    // The turn belongs to the investigator named in the request (default: whoever acted last);
+    // they become the acting investigator when the turn runs
+    const gsm = new GameStateManager(session.gameState);
+    const investigator = characterId === undefined
+      ? session.gameState.playerCharacter
+      : typeof characterId === "string" ? gsm.findInvestigator(characterId) : undefined;
+    if (!investigator) {
+      return res.status(400).json({ error: `No investigator ${characterId} in this session's party` });
+    }
+
+    const collectRound = session.gameState.collectRound;
+    if (collectRound && roundCollector.hasDeclared(session.sessionId, investigator.id)) {
+      return res.status(409).json({ error: `${investigator.name} has already declared an action this round` });
+    }
+
     // Create turn record in database
     const turnId = turnManager.createTurnFromGameState(
-      persistentGameState.sessionId,
+      session.sessionId,
       message,
-      persistentGameState
+      session.gameState,
+      investigator,
+      collectRound ? "collecting" : "queued"
     );
+    if (collectRound) {
+      turnProgress.publish({ type: "status", turnId, status: "collecting", queuePosition: null });
+    }
+    const declaration: RoundDeclaration = {
+      turnId,
+      characterId: investigator.id,
+      characterName: investigator.name,
+      input: message,
+    };
 
-    console.log(`[${new Date().toISOString()}] Turn created: ${turnId} for message: ${message}`);
-
-    // Start async processing (don't wait for it)
-    processGameTurn(turnId, message, persistentGameState)
-      .catch((error) => {
-        console.error(`Error processing turn ${turnId}:`, error);
-        if (turnManager) {
-          turnManager.markError(turnId, error);
-        }
-      });
+    console.log(`[${new Date().toISOString()}] Turn created: ${turnId} in ${session.sessionId} by ${investigator.name} for message: ${message}`);
+
+    // Queue the turn now, or hold it until the round has every investigator's action
+    // (processing runs in the background; the client follows the turn's event stream)
+    const round = collectRound
+      ? roundCollector.declare(
+          session.sessionId,
+          declaration,
+          gsm.getInvestigators().filter(character => !isIncapacitated(character.status)),
+          collectRound.timeoutSeconds * 1000
+        )
+      : null;
+    if (!round) {
+      queueTurns(session.sessionId, [declaration]);
+    }
 
-    // Immediately return the turnId
+    // Immediately return the turnId with its place in the queue or round
     res.json({
       success: true,
       turnId: turnId,
-      status: 'processing',
+      sessionId: session.sessionId,
+      characterId: investigator.id,
+      characterName: investigator.name,
+      ...getTurnProgress(turnId),
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
@@ -487,6 +954,12 @@ app.get("/api/turns/:turnId", (req, res) => {
       return res.status(404).json({ error: "Turn not found" });
     }
 
+    // Luck can only be spent right after the session's latest turn, while the offer stands
+    const isLatestTurn =
+      turn.status === "completed" &&
+      turnManager.getLatest(turn.sessionId)?.turnId === turn.turnId;
+    const luckOption = isLatestTurn ? sessionManager?.getGameState(turn.sessionId)?.luckSpendOption : null;
+
     res.json({
       success: true,
       turn: {
@@ -494,13 +967,22 @@ app.get("/api/turns/:turnId", (req, res) => {
         turnNumber: turn.turnNumber,
         characterInput: turn.characterInput,
         keeperNarrative: turn.keeperNarrative,
-        status: turn.status,
+        ...getTurnProgress(turnId),
         errorMessage: turn.errorMessage,
         startedAt: turn.startedAt,
         completedAt: turn.completedAt,
         sceneId: turn.sceneId,
         sceneName: turn.sceneName,
         location: turn.location,
+        luckSpendOption: luckOption
+          ? {
+              characterName: luckOption.characterName,
+              skill: luckOption.check.skill,
+              roll: luckOption.check.roll,
+              target: luckOption.check.target,
+              cost: luckOption.cost,
+            }
+          : null,
       },
     });
   } catch (error) {
@@ -509,6 +991,99 @@ app.get("/api/turns/:turnId", (req, res) => {
   }
 });
 
+// GET /api/turns/:turnId/events - Stream a turn's progress as server-sent events
+app.get("/api/turns/:turnId/events", (req, res) => {
+  try {
+    if (!turnManager) {
+      return res.status(400).json({ error: "Game not initialized" });
+    }
+
+    const { turnId } = req.params;
+    const turn = turnManager.getTurn(turnId);
+
+    if (!turn) {
+      return res.status(404).json({ error: "Turn not found" });
+    }
+
+    res.set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    res.flushHeaders();
+
+    const send = (event: TurnProgressEvent) => {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    };
+
+    // A turn that ended before the server kept its events (e.g. before a restart)
+    // gets its outcome from the turn record
+    if (!turnProgress.hasEvents(turnId) && (turn.status === "completed" || turn.status === "error")) {
+      send(turn.status === "completed"
+        ? { type: "narrative", turnId, narrative: turn.keeperNarrative ?? "", clueRevelations: turn.clueRevelations }
+        : { type: "error", turnId, message: turn.errorMessage ?? "Turn failed" });
+      return res.end();
+    }
+
+    // Where the turn stands now, then everything it has done so far and each new step
+    const { status, queuePosition } = getTurnProgress(turnId);
+    if (status && !turnProgress.hasEvents(turnId)) {
+      send({ type: "status", turnId, status, queuePosition });
+    }
+
+    let heartbeat: ReturnType<typeof setInterval> | null = null;
+    let unsubscribe = () => {};
+    const close = () => {
+      if (heartbeat) clearInterval(heartbeat);
+      unsubscribe();
+    };
+
+    let ended = false;
+    unsubscribe = turnProgress.subscribe(turnId, (event) => {
+      send(event);
+      if (isFinalTurnEvent(event)) {
+        ended = true;
+        close();
+        res.end();
+      }
+    });
+    if (ended) return;
+
+    heartbeat = setInterval(() => res.write(": heartbeat\n\n"), EVENT_STREAM_HEARTBEAT_MS);
+    req.on("close", close);
+  } catch (error) {
+    console.error("Error streaming turn events:", error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: "Failed to stream turn events" });
+    } else {
+      res.end();
+    }
+  }
+});
+
+// GET /api/turns/:turnId/rolls - Get the dice rolls made during a turn
+app.get("/api/turns/:turnId/rolls", (req, res) => {
+  try {
+    if (!turnManager || !rollLog) {
+      return res.status(400).json({ error: "Game not initialized" });
+    }
+
+    const { turnId } = req.params;
+    if (!turnManager.getTurn(turnId)) {
+      return res.status(404).json({ error: "Turn not found" });
+    }
+
+    res.json({
+      success: true,
+      turnId,
+      rolls: rollLog.getTurnRolls(turnId),
+    });
+  } catch (error) {
+    console.error("Error fetching turn rolls:", error);
+    res.status(500).json({ error: "Failed to fetch turn rolls" });
+  }
+});
+
 // GET /api/sessions/:sessionId/conversation - Get conversation history
 app.get("/api/sessions/:sessionId/conversation", (req, res) => {
   try {
@@ -553,27 +1128,243 @@ app.get("/api/sessions/:sessionId/turns", (req, res) => {
   }
 });
 
-// Helper function to process a game turn asynchronously
-async function processGameTurn(turnId: string, userInput: string, gameState: GameState) {
+// GET /api/sessions/:sessionId/queue - Get the session's running and waiting turns and its open round
+app.get("/api/sessions/:sessionId/queue", (req, res) => {
   try {
-    console.log(`[${new Date().toISOString()}] Processing turn ${turnId}...`);
+    const { sessionId } = req.params;
 
-    // Create initial messages for the graph
-    const initialMessages = [new HumanMessage(userInput)];
+    res.json({
+      success: true,
+      sessionId,
+      queue: turnQueue.getQueue(sessionId),
+      round: roundCollector.getRound(sessionId),
+    });
+  } catch (error) {
+    console.error("Error fetching turn queue:", error);
+    res.status(500).json({ error: "Failed to fetch turn queue" });
+  }
+});
 
-    // Invoke the graph with turnId in state
-    const result = (await graph.invoke({
-      messages: initialMessages,
-      gameState: gameState,
-      turnId: turnId,  // Pass turnId to graph
-    })) as unknown as GraphState;
+// GET /api/sessions/:sessionId/rolls - Get recent dice rolls for a session
+app.get("/api/sessions/:sessionId/rolls", (req, res) => {
+  try {
+    if (!rollLog) {
+      return res.status(400).json({ error: "Game not initialized" });
+    }
 
-    // Update the persistent state
-    persistentGameState = result.gameState as GameState;
+    const { sessionId } = req.params;
+    const limit = parseInt(req.query.limit as string) || 100;
 
-    console.log(`[${new Date().toISOString()}] Turn ${turnId} completed successfully`);
+    res.json({
+      success: true,
+      rolls: rollLog.getSessionRolls(sessionId, limit),
+    });
   } catch (error) {
-    console.error(`[${new Date().toISOString()}] Turn ${turnId} failed:`, error);
+    console.error("Error fetching session rolls:", error);
+    res.status(500).json({ error: "Failed to fetch session rolls" });
+  }
+});
+
+/**
+ * Session id a request is for: from the JSON body, or the query string
+ */
+function getRequestSessionId(req: express.Request): string | null {
+  const sessionId = req.body?.sessionId ?? req.query.sessionId;
+  return typeof sessionId === "string" && sessionId ? sessionId : null;
+}
+
+/**
+ * The running session a request is for, or null without one
+ */
+function getSession(req: express.Request): { sessionId: string; gameState: GameState } | null {
+  const sessionId = getRequestSessionId(req);
+  const gameState = sessionId ? sessionManager?.getGameState(sessionId) : null;
+  return sessionId && gameState ? { sessionId, gameState } : null;
+}
+
+/**
+ * A saved investigator as a character profile, or null if there is none with that id
+ */
+function loadInvestigator(database: CoCDatabase, characterId: string): CharacterProfile | null {
+  const character = database.getDatabase().prepare(`
+    SELECT character_id, name, attributes, status, skills, inventory, notes, experience_checks
+    FROM characters
+    WHERE character_id = ? AND is_npc = 0
+  `).get(characterId) as {
+    character_id: string;
+    name: string;
+    attributes: string;
+    status: string;
+    skills: string;
+    inventory: string;
+    notes: string;
+    experience_checks: string | null;
+  } | undefined;
+  if (!character) return null;
+
+  return {
+    id: character.character_id,
+    name: character.name,
+    attributes: JSON.parse(character.attributes),
+    status: JSON.parse(character.status),
+    skills: JSON.parse(character.skills),
+    inventory: normalizeInventory(JSON.parse(character.inventory || "[]")),
+    notes: character.notes || "",
+    actionLog: [],
+    experienceChecks: character.experience_checks ? JSON.parse(character.experience_checks) : [],
+  };
+}
+
+/**
+ * Register a new game under a fresh session id, with its dice seeded for that session
+ */
+function startSession(gameState: GameState, diceSeed?: string): GameState {
+  if (!sessionManager) {
+    throw new Error("Session manager not initialized");
+  }
+  const sessionState = sessionManager.createSession(gameState);
+  sessionState.dice = createSessionDiceState(sessionState.sessionId, diceSeed);
+  sessionManager.saveGameState(sessionState.sessionId, sessionState);
+  return sessionState;
+}
+
+// Helper function to seed a session's dice RNG (explicit seed > DICE_SEED env > fresh per game)
+function createSessionDiceState(sessionId: string, diceSeed?: string) {
+  const seed = diceSeed || process.env.DICE_SEED || `${sessionId}:${Date.now()}`;
+  console.log(`[${new Date().toISOString()}] Dice RNG seeded for ${sessionId}: ${seed}`);
+  return createDiceState(String(seed));
+}
+
+/**
+ * Where a turn is: its status, its place in the session's queue (0 = running)
+ * and, while it waits for the rest of the party, its collect round
+ */
+function getTurnProgress(turnId: string) {
+  const turn = turnManager?.getTurn(turnId);
+  return {
+    status: turn?.status ?? null,
+    queuePosition: turnQueue.getPosition(turnId),
+    round: roundCollector.findRound(turnId),
+  };
+}
+
+/**
+ * Normalise the collect round option of a game: true for the default
+ * timeout, an object with timeoutSeconds, anything else turns the mode off
+ */
+function parseCollectRound(option: unknown): GameState["collectRound"] {
+  if (option === true) {
+    return { timeoutSeconds: DEFAULT_ROUND_TIMEOUT_SECONDS };
+  }
+  if (option && typeof option === "object") {
+    const timeoutSeconds = Number((option as { timeoutSeconds?: unknown }).timeoutSeconds);
+    return {
+      timeoutSeconds: Number.isFinite(timeoutSeconds) && timeoutSeconds > 0
+        ? timeoutSeconds
+        : DEFAULT_ROUND_TIMEOUT_SECONDS,
+    };
+  }
+  return null;
+}
+
+/**
+ * Queue declared turns (one, or a closed collect round) to run after the
+ * session's earlier turns; a failure marks every one of them
+ */
+function queueTurns(sessionId: string, declarations: RoundDeclaration[]): void {
+  const turnIds = declarations.map(declaration => declaration.turnId);
+  for (const turnId of turnIds) {
+    turnManager?.markQueued(turnId);
+  }
+
+  turnQueue.enqueue(sessionId, turnIds, () => processGameTurn(sessionId, declarations))
+    .catch((error) => {
+      // Cancelled turns were already marked and reported by whoever cancelled them
+      if (error instanceof TurnCancelledError) return;
+      console.error(`Error processing turn(s) ${turnIds.join(", ")}:`, error);
+      for (const turnId of turnIds) {
+        turnManager?.markError(turnId, error);
+        turnProgress.publish({ type: "error", turnId, message: (error as Error).message });
+      }
+    });
+  publishQueuePositions(sessionId);
+}
+
+/**
+ * Tell every turn waiting in the session's queue where it now stands
+ */
+function publishQueuePositions(sessionId: string): void {
+  for (const job of turnQueue.getQueue(sessionId)) {
+    if (job.position === 0) continue;
+    for (const turnId of job.turnIds) {
+      turnProgress.publish({ type: "status", turnId, status: "queued", queuePosition: job.position });
+    }
+  }
+}
+
+/**
+ * Run the graph, publishing the progress events its nodes write to the
+ * custom stream; resolves with the final graph state
+ */
+async function runGraph(input: Partial<GraphState>): Promise<GraphState> {
+  let result: GraphState | null = null;
+  const stream = await graph.stream(input, { streamMode: ["custom", "values"] });
+  for await (const [mode, chunk] of stream) {
+    if (mode === "custom") {
+      turnProgress.publish(chunk as TurnProgressEvent);
+    } else {
+      result = chunk as GraphState;
+    }
+  }
+  if (!result) {
+    throw new Error("Graph finished without a state");
+  }
+  return result;
+}
+
+// Helper function to process queued turns against the session's latest state
+async function processGameTurn(sessionId: string, declarations: RoundDeclaration[]) {
+  const turnIds = declarations.map(declaration => declaration.turnId).join(", ");
+  try {
+    const sessionState = sessionManager?.getGameState(sessionId);
+    if (!sessionState) {
+      throw new Error(`Session ${sessionId} is not running`);
+    }
+    // The graph works on a copy; the session keeps its state until the turn succeeds
+    const gameState = structuredClone(sessionState);
+    for (const declaration of declarations) {
+      turnManager?.markProcessing(declaration.turnId);
+      turnProgress.publish({ type: "status", turnId: declaration.turnId, status: "processing", queuePosition: 0 });
+    }
+    publishQueuePositions(sessionId);
+    console.log(`[${new Date().toISOString()}] Processing turn(s) ${turnIds}...`);
+
+    // A lone turn runs for its investigator; a collect round resolves each
+    // declaration in order and ends in one narrative
+    let result: GraphState;
+    if (declarations.length === 1) {
+      const [declaration] = declarations;
+      new GameStateManager(gameState).setActingInvestigator(declaration.characterId);
+      result = await runGraph({
+        messages: [new HumanMessage(declaration.input)],
+        gameState: gameState,
+        turnId: declaration.turnId,  // Pass turnId to graph
+      });
+    } else {
+      result = await runGraph({
+        messages: [new HumanMessage(declarations.map(d => `${d.characterName}: ${d.input}`).join("\n"))],
+        gameState: gameState,
+        round: declarations,
+        roundIndex: 0,
+      });
+    }
+
+    // Save the session's state for its next turn
+    sessionManager?.saveGameState(sessionId, result.gameState as GameState);
+
+    console.log(`[${new Date().toISOString()}] Turn(s) ${turnIds} completed successfully`);
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] Turn(s) ${turnIds} failed:`, error);
     throw error;
   }
 }
@@ -596,6 +1387,9 @@ app.listen(PORT, () => {
   console.log(`Server running on http://localhost:${PORT}`);
 });
 
+// Save idle sessions to their checkpoints and free their memory
+setInterval(() => sessionManager?.evictIdle(), 60 * 1000).unref();
+
 // Graceful shutdown
 process.on("SIGINT", () => {
   console.log("\nShutting down gracefully...");
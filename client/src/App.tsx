@@ -1,4 +1,4 @@
-import React, { useMemo, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import Homes from "./views/Homes";
 import { GameChat } from "./components/GameChat";
 import { CharacterSelector } from "./components/CharacterSelector";
@@ -103,6 +103,15 @@ const App: React.FC = () => {
   const [selectedCharacterId, setSelectedCharacterId] = useState<string>("");
 
   const [form, setForm] = React.useState<Record<string, string>>({});
+  const [occupations, setOccupations] = useState<string[]>([]);
+
+  // Occupations the server accepts, offered as suggestions on the sheet
+  useEffect(() => {
+    fetch("http://localhost:3000/api/occupations")
+      .then((response) => response.json())
+      .then((data) => setOccupations((data.occupations || []).map((o: { name: string }) => o.name)))
+      .catch((error) => console.error("Error loading occupations:", error));
+  }, []);
 
   // Show character selector
   const handleShowCharacterSelector = () => {
@@ -272,7 +281,12 @@ const App: React.FC = () => {
               </td>
               <th>Occupation</th>
               <td>
-                <input name="occupation" placeholder="调查员" value={form.occupation || ""} onChange={(e) => onChange("occupation", e.target.value)} />
+                <input name="occupation" list="occupation-options" placeholder="Journalist" value={form.occupation || ""} onChange={(e) => onChange("occupation", e.target.value)} />
+                <datalist id="occupation-options">
+                  {occupations.map((name) => (
+                    <option key={name} value={name} />
+                  ))}
+                </datalist>
               </td>
             </tr>
             <tr>
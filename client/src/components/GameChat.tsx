@@ -5,7 +5,7 @@
  */
 
 import { useState, useEffect, useRef } from 'react';
-import { useTurnPolling } from '../hooks/useTurnPolling';
+import { useTurnEvents, type LuckSpendOption, type TurnProgressEvent } from '../hooks/useTurnEvents';
 
 interface Message {
   role: 'character' | 'keeper';
@@ -14,6 +14,26 @@ interface Message {
   turnNumber: number;
 }
 
+// One line of the loading bubble for a step of the turn, or null if it has none
+function describeProgress(event: TurnProgressEvent): string | null {
+  switch (event.type) {
+    case 'analysis':
+      return event.actionAnalysis ? `🧭 ${event.actionAnalysis.character}: ${event.actionAnalysis.action}` : null;
+    case 'roll':
+      if (event.roll.kind === 'skill_check') {
+        return `🎲 ${event.roll.character} ${event.roll.skill}: ${event.roll.roll} vs ${event.roll.target} (${event.roll.successLevel})`;
+      }
+      if (event.roll.kind === 'opposed_check') {
+        return `🎲 Opposed roll: ${event.roll.winnerName ?? 'no winner'} (${event.roll.reason})`;
+      }
+      return `🎲 ${event.roll.expression} = ${event.roll.total}`;
+    case 'director':
+      return event.directorDecision?.shouldProgress ? '🎬 The scene moves on' : null;
+    default:
+      return null;
+  }
+}
+
 interface GameChatProps {
   sessionId: string;
   apiBaseUrl?: string;
@@ -24,9 +44,18 @@ export function GameChat({ sessionId, apiBaseUrl = 'http://localhost:3000/api',
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputValue, setInputValue] = useState('');
   const [isSending, setIsSending] = useState(false);
+  const [luckSpendOption, setLuckSpendOption] = useState<LuckSpendOption | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   
-  const { turn, isPolling, error, startPolling } = useTurnPolling(apiBaseUrl);
+  const { turn, progress, isStreaming, error, startStreaming } = useTurnEvents(apiBaseUrl);
+  const latestStatus = progress
+    .filter((event): event is Extract<TurnProgressEvent, { type: 'status' }> => event.type === 'status')
+    .at(-1);
+  // Keyed by turn and place in the turn's stream, which only ever grows
+  const progressLines = progress.flatMap((event, sequence) => {
+    const line = describeProgress(event);
+    return line === null ? [] : [{ key: `${event.turnId}-${sequence}`, line }];
+  });
 
   // Load conversation history on mount
   useEffect(() => {
@@ -57,10 +86,18 @@ export function GameChat({ sessionId, apiBaseUrl = 'http://localhost:3000/api',
           turnNumber: turn.turnNumber,
         }
       ]);
+      setLuckSpendOption(turn.luckSpendOption ?? null);
       setIsSending(false);
     }
   }, [turn]);
 
+  // A failed turn frees the input again
+  useEffect(() => {
+    if (error) {
+      setIsSending(false);
+    }
+  }, [error]);
+
   const loadConversationHistory = async () => {
     try {
       const response = await fetch(`${apiBaseUrl}/sessions/${sessionId}/conversation`);
@@ -79,6 +116,16 @@ export function GameChat({ sessionId, apiBaseUrl = 'http://localhost:3000/api',
 
     const messageText = inputValue.trim();
     setInputValue('');
+    await sendAction(messageText);
+  };
+
+  const handleSpendLuck = async () => {
+    if (!luckSpendOption || isSending) return;
+    await sendAction(`I spend ${luckSpendOption.cost} Luck to pass the ${luckSpendOption.skill} roll.`);
+  };
+
+  const sendAction = async (messageText: string) => {
+    setLuckSpendOption(null);
     setIsSending(true);
 
     try {
@@ -89,6 +136,7 @@ export function GameChat({ sessionId, apiBaseUrl = 'http://localhost:3000/api',
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
+          sessionId,
           message: messageText,
         }),
       });
@@ -99,8 +147,8 @@ export function GameChat({ sessionId, apiBaseUrl = 'http://localhost:3000/api',
         throw new Error(data.error || 'Failed to send message');
       }
 
-      // Start polling for turn completion
-      startPolling(data.turnId);
+      // Follow the turn's progress until the Keeper answers
+      startStreaming(data.turnId);
 
     } catch (err) {
       console.error('Failed to send message:', err);
@@ -156,7 +204,7 @@ export function GameChat({ sessionId, apiBaseUrl = 'http://localhost:3000/api',
           </div>
         ))}
 
-        {(isSending || isPolling) && (
+        {(isSending || isStreaming) && (
           <div className="chat-message keeper loading">
             <div className="message-meta">
               <span className="sender-name">🎭 Keeper</span>
@@ -165,7 +213,14 @@ export function GameChat({ sessionId, apiBaseUrl = 'http://localhost:3000/api',
               <span className="typing-indicator">
                 <span>•</span><span>•</span><span>•</span>
               </span>
-              {isPolling ? ' The Keeper contemplates...' : ' Processing your action...'}
+              {latestStatus?.status === 'collecting'
+                ? ' Waiting for the rest of the party to declare...'
+                : latestStatus?.status === 'queued' && latestStatus.queuePosition
+                  ? ` Queued behind ${latestStatus.queuePosition} turn(s)...`
+                  : isStreaming ? ' The Keeper contemplates...' : ' Processing your action...'}
+              {progressLines.map(({ key, line }) => (
+                <div key={key} className="turn-progress-line">{line}</div>
+              ))}
             </div>
           </div>
         )}
@@ -176,6 +231,17 @@ export function GameChat({ sessionId, apiBaseUrl = 'http://localhost:3000/api',
           </div>
         )}
 
+        {luckSpendOption && !isSending && !isStreaming && (
+          <div className="luck-spend-option">
+            <span>
+              🍀 {luckSpendOption.characterName} failed {luckSpendOption.skill} ({luckSpendOption.roll} vs {luckSpendOption.target}).
+            </span>
+            <button type="button" className="luck-spend-btn" onClick={handleSpendLuck}>
+              Spend {luckSpendOption.cost} Luck to succeed
+            </button>
+          </div>
+        )}
+
         <div ref={messagesEndRef} />
       </div>
 
@@ -187,15 +253,15 @@ export function GameChat({ sessionId, apiBaseUrl = 'http://localhost:3000/api',
           onChange={(e) => setInputValue(e.target.value)}
           onKeyPress={handleKeyPress}
           placeholder="I examine the ancient tome on the desk..."
-          disabled={isSending || isPolling}
+          disabled={isSending || isStreaming}
           rows={3}
         />
         <button
           className="submit-action-btn"
           onClick={handleSendMessage}
-          disabled={!inputValue.trim() || isSending || isPolling}
+          disabled={!inputValue.trim() || isSending || isStreaming}
         >
-          {isSending || isPolling ? '⏳ Processing...' : '🎲 Declare Action'}
+          {isSending || isStreaming ? '⏳ Processing...' : '🎲 Declare Action'}
         </button>
       </div>
     </div>
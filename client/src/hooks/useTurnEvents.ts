@@ -0,0 +1,161 @@
+/**
+ * Custom hook for following a turn's progress
+ *
+ * This hook subscribes to the server's event stream for a turn and collects each
+ * step as it happens (queue, action analysis, dice rolls, director decision). When
+ * the narrative (or an error) arrives it fetches the finished turn once.
+ */
+
+import { useState, useEffect, useRef } from 'react';
+
+export interface LuckSpendOption {
+  characterName: string;
+  skill: string;
+  roll: number;
+  target: number;
+  cost: number;
+}
+
+export interface CollectRound {
+  roundId: string;
+  waitingFor: Array<{ characterId: string; characterName: string }>;
+  closesAt: string;
+}
+
+export interface TurnStatus {
+  turnId: string;
+  turnNumber: number;
+  characterInput: string;
+  keeperNarrative: string | null;
+  status: 'collecting' | 'queued' | 'processing' | 'completed' | 'error';
+  queuePosition: number | null;  // 0 while running, otherwise turns ahead of it in the session's queue
+  round: CollectRound | null;  // Collect round the turn is waiting in for the rest of the party
+  errorMessage: string | null;
+  startedAt: string;
+  completedAt: string | null;
+  sceneId: string | null;
+  sceneName: string | null;
+  location: string | null;
+  luckSpendOption: LuckSpendOption | null;  // Failed check the player can still buy with Luck
+}
+
+export type DiceRoll =
+  | { kind: 'skill_check'; character: string; skill: string; roll: number; target: number; successLevel: string }
+  | { kind: 'opposed_check'; winnerName: string | null; reason: string }
+  | { kind: 'roll'; expression: string; total: number };
+
+export type TurnProgressEvent =
+  | { type: 'status'; turnId: string; status: TurnStatus['status']; queuePosition: number | null }
+  | { type: 'analysis'; turnId: string; actionAnalysis: { character: string; action: string; actionType: string } | null }
+  | { type: 'roll'; turnId: string; roll: DiceRoll }
+  | { type: 'director'; turnId: string; directorDecision: { shouldProgress: boolean; reasoning: string } | null }
+  | { type: 'narrative'; turnId: string; narrative: string }
+  | { type: 'error'; turnId: string; message: string };
+
+export interface UseTurnEventsResult {
+  turn: TurnStatus | null;
+  progress: TurnProgressEvent[];  // Steps of the turn so far, in order
+  isStreaming: boolean;
+  error: string | null;
+  startStreaming: (turnId: string) => void;
+  stopStreaming: () => void;
+}
+
+const EVENT_TYPES: TurnProgressEvent['type'][] = ['status', 'analysis', 'roll', 'director', 'narrative', 'error'];
+
+export function useTurnEvents(
+  apiBaseUrl = 'http://localhost:3000/api'
+): UseTurnEventsResult {
+  const [turn, setTurn] = useState<TurnStatus | null>(null);
+  const [progress, setProgress] = useState<TurnProgressEvent[]>([]);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const sourceRef = useRef<EventSource | null>(null);
+
+  const stopStreaming = () => {
+    if (sourceRef.current) {
+      sourceRef.current.close();
+      sourceRef.current = null;
+    }
+    setIsStreaming(false);
+  };
+
+  const fetchTurn = async (turnId: string) => {
+    try {
+      const response = await fetch(`${apiBaseUrl}/turns/${turnId}`);
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to fetch turn status');
+      }
+
+      setTurn(data.turn);
+
+      if (data.turn.status === 'error') {
+        setError(data.turn.errorMessage || 'Turn processing failed');
+      }
+    } catch (err) {
+      console.error('Error fetching turn:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIsStreaming(false);
+    }
+  };
+
+  const startStreaming = (turnId: string) => {
+    // Close any existing stream
+    stopStreaming();
+    setError(null);
+    setTurn(null);
+    setProgress([]);
+    setIsStreaming(true);
+
+    const source = new EventSource(`${apiBaseUrl}/turns/${turnId}/events`);
+    sourceRef.current = source;
+
+    const handleEvent = (message: MessageEvent) => {
+      const event = JSON.parse(message.data) as TurnProgressEvent;
+      setProgress(prev => [...prev, event]);
+
+      // The turn is over: stop listening and load its final record
+      if (event.type === 'narrative' || event.type === 'error') {
+        source.close();
+        sourceRef.current = null;
+        fetchTurn(turnId);
+      }
+    };
+
+    for (const type of EVENT_TYPES) {
+      source.addEventListener(type, handleEvent);
+    }
+
+    // The server ends the stream after the last event; any other drop is a failure
+    source.onerror = () => {
+      if (sourceRef.current !== source) return;
+      console.error('Turn event stream failed');
+      setError('Lost connection to the turn');
+      stopStreaming();
+    };
+  };
+
+  // Cleanup on unmount
+  useEffect(() => {
+    return () => {
+      sourceRef.current?.close();
+    };
+  }, []);
+
+  return {
+    turn,
+    progress,
+    isStreaming,
+    error,
+    startStreaming,
+    stopStreaming,
+  };
+}
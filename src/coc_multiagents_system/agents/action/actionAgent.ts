@@ -1,29 +1,259 @@
+import { HumanMessage, SystemMessage, ToolMessage, type BaseMessage } from "@langchain/core/messages";
 import { ModelClass } from "../../../models/types.js";
-import { generateText } from "../../../models/index.js";
+import { generateStructured, generateWithTools, type ModelRuntime, parseStructuredOutput, StructuredOutputError, supportsToolCalling } from "../../../models/index.js";
 import { GameStateManager, GameState, ActionResult, ActionAnalysis, SceneChangeRequest } from "../../../state.js";
-import type { CharacterProfile, ActionLogEntry } from "../models/gameTypes.js";
+import type { CharacterProfile, ActionLogEntry, ConditionDuration, ConditionEvent, DamageResult, DiceRollRecord, Difficulty, FirearmAttackResult, HealthEvent, InventoryChange, LuckSpendResult, OpposedContest, PhysicalCondition, RangeBand, ReloadResult, SanityCheckResult, SanityRecoveryMethod, Skill, SkillCheckResult, WeaponData } from "../models/gameTypes.js";
+import type { MemoryAgent } from "../memory/util.js";
+import {
+  chooseMeleeDefence,
+  CONDITION_DURATION_UNITS,
+  createDiceState,
+  createLuckSpendOption,
+  createPushableCheck,
+  describeConditions,
+  describeInventoryItem,
+  type DiceRng,
+  getBlockingConditions,
+  getCarriedFirearms,
+  getCarriedWeapons,
+  getConditionDice,
+  getFirearmState,
+  getReadiedWeapon,
+  isIncapacitated,
+  getSkillBase,
+  INVENTORY_ITEM_TYPES,
+  matchWeapon,
+  isPushableCheck,
+  parseSanityLoss,
+  PHYSICAL_CONDITIONS,
+  RANGE_BANDS,
+  resolveConditionId,
+  resolveLuckRoll,
+  resolveLuckSpend,
+  resolveOpposedCheck,
+  resolvePushedRoll,
+  resolveSkillCheck,
+  resolveSkillValue,
+  rollDiceExpression,
+  SeededDiceRng,
+  setCombatantStatus,
+  type TreatmentSkill,
+  UNARMED,
+  withConditionModifiers,
+} from "../../mechanics/index.js";
 import { actionTypeTemplates } from "./example.js";
+import { type ActionReply, type ActionResultReply, actionReplySchema, actionResultSchema } from "./actionSchema.js";
+import { type ActionToolCall, type ActionToolParameters, actionTools, executeActionTool } from "./tools.js";
+
+const TREATMENT_SKILLS: TreatmentSkill[] = ["First Aid", "Medicine"];
+
+const MAX_TOOL_ITERATIONS = 10;
+
+/**
+ * Parameters each tool cannot do without, from the tool definitions
+ */
+const REQUIRED_TOOL_PARAMETERS: Record<string, string[]> = Object.fromEntries(
+  actionTools.map(tool => [tool.function.name, (tool.function.parameters as { required?: string[] }).required ?? []])
+);
+
+/**
+ * Tells a model with bound tools how the JSON formats in the prompt apply to it
+ */
+const NATIVE_TOOL_CALLING_NOTE = `
+
+TOOL CALLING:
+The tools described above are available as functions. Call them directly instead of writing "tool_call" JSON; their parameters are the same. When you have everything needed, reply with the final "result" JSON only, without calling a tool.`;
+
+/**
+ * What the tools have rolled and resolved during one action
+ */
+interface ActionTurn {
+  gameState: GameState;
+  rng: SeededDiceRng;
+  toolLogs: DiceRollRecord[];
+  sanityChecks: SanityCheckResult[];
+  firearmAttacks: FirearmAttackResult[];
+  damage: DamageResult[];
+  reload: ReloadResult | null;
+  onRoll?: (roll: DiceRollRecord) => void;  // told about each roll as it is made
+}
 
 
 /**
  * Action Agent class - handles action resolution and skill checks
  */
 export class ActionAgent {
+  private memoryAgent: MemoryAgent | null;
 
   /**
-   * Process character action and resolve with dice rolls and state updates
+   * @param memoryAgent rules database, for looking up sanity triggers
    */
-  async processAction(runtime: any, gameState: GameState, userMessage: string): Promise<GameState> {
+  constructor(memoryAgent?: MemoryAgent) {
+    this.memoryAgent = memoryAgent ?? null;
+  }
+
+  /**
+   * Process character action and resolve with dice rolls and state updates.
+   * onRoll hears about every roll as soon as it is made, before the action is resolved.
+   */
+  async processAction(runtime: ModelRuntime, gameState: GameState, userMessage: string, onRoll?: (roll: DiceRollRecord) => void): Promise<GameState> {
     const baseSystemPrompt = `You are an action resolution specialist for Call of Cthulhu.
 
 Your job is to analyze character actions and resolve them step by step. You MUST respond with JSON in one of these formats:
 
 FOR TOOL CALLS (when you need to roll dice):
+Skill or characteristic checks MUST use "skill_check". The engine picks the target number and grades the roll; do not reinterpret it.
+{
+  "type": "tool_call",
+  "tool": "skill_check",
+  "parameters": {
+    "character": "Character name (defaults to the player character)",
+    "skill": "Spot Hidden",
+    "difficulty": "regular|hard|extreme",
+    "bonusDice": 0,
+    "penaltyDice": 0,
+    "target": "For attacks (Fighting, Throw): who is attacked (defaults to the action target)",
+    "patient": "For First Aid/Medicine only: who is treated (defaults to the action target, then the character)"
+  }
+}
+A successful First Aid or Medicine check is applied by the engine: First Aid stabilises the dying, revives the unconscious or heals 1 HP; Medicine heals 1d3 HP. Each helps only once per injury. Natural healing happens as game time passes. Do not add any healing to stateUpdate yourself.
+
+Contests between two characters (Stealth vs Listen/Spot Hidden, Fighting vs Fight Back or Dodge, Persuade vs Psychology) MUST use "opposed_check". Both sides roll; cite the returned "winnerName" and "reason":
+{
+  "type": "tool_call",
+  "tool": "opposed_check",
+  "parameters": {
+    "character": "Acting character name (defaults to the player character)",
+    "skill": "Stealth",
+    "opponent": "Target NPC name",
+    "opponentSkill": "Listen",
+    "contest": "standard|fight_back|dodge",
+    "bonusDice": 0,
+    "penaltyDice": 0,
+    "opponentBonusDice": 0,
+    "opponentPenaltyDice": 0
+  }
+}
+
+Shooting MUST use "firearm_attack". The engine rolls each shot with the weapon's Firearms skill, applies range and multiple-shot dice, tracks rounds and malfunctions, and applies the damage of every hit to the target; do not roll or add that damage yourself:
+{
+  "type": "tool_call",
+  "tool": "firearm_attack",
+  "parameters": {
+    "character": "Character name (defaults to the player character)",
+    "weapon": "Carried firearm (defaults to the first one carried)",
+    "target": "Target name",
+    "range": "point_blank|normal|long|very_long",
+    "shots": 1
+  }
+}
+
+Reloading a firearm, or clearing a jammed one, uses "reload". In combat it takes the character's whole action, so it cannot be combined with firing:
+{
+  "type": "tool_call",
+  "tool": "reload",
+  "parameters": {
+    "character": "Character name (defaults to the player character)",
+    "weapon": "Carried firearm (defaults to the first one carried)"
+  }
+}
+
+After a successful melee or thrown attack (a won opposed_check, a won Fight Back, or a successful Throw), call "apply_damage". The engine rolls the weapon's dice plus damage bonus, handles extreme successes and impales, subtracts armour and applies the result to the target; never roll attack damage with roll_dice or put it in stateUpdate:
+{
+  "type": "tool_call",
+  "tool": "apply_damage",
+  "parameters": {
+    "character": "Attacking character name (defaults to the player character)",
+    "target": "Target name",
+    "weapon": "Weapon used (defaults to the weapon carried, or Unarmed)"
+  }
+}
+
+Sanity rolls MUST use "sanity_check". Name a known trigger, or give the loss pair yourself ("success/failure", e.g. "0/1d6"). The engine rolls SAN, applies the loss, and decides temporary/indefinite insanity and any Bout of Madness; do not add sanity to stateUpdate yourself:
+{
+  "type": "tool_call",
+  "tool": "sanity_check",
+  "parameters": {
+    "character": "Character name (defaults to the player character)",
+    "trigger": "Seeing a dead body",
+    "sanityLoss": "0/1d3"
+  }
+}
+
+In downtime, Sanity is recovered with "sanity_recovery", once a month per method: "psychotherapy" with a therapist present in the game (they roll Psychoanalysis), or "self_help" through a skill tied to the character's core concept (e.g. "Art and Craft (Painting)", "Library Use"). The engine rolls and applies the SAN change:
+{
+  "type": "tool_call",
+  "tool": "sanity_recovery",
+  "parameters": {
+    "character": "Character name (defaults to the player character)",
+    "method": "psychotherapy|self_help",
+    "therapist": "Therapist's name (psychotherapy only)",
+    "skill": "Skill used (self_help only; POW if none fits)"
+  }
+}
+
+Physical conditions MUST be applied or removed with "condition", by id: "prone" (knocked down), "restrained" (grappled, tied up), "stunned", "blinded", "intoxicated", "exhausted". Give a duration when the condition wears off by itself; without one it lasts until removed (or for its usual time). The engine adds each condition's dice to later rolls and expires it as rounds, scenes and game time pass. Wounds and insanity are set by the damage and Sanity rules, never with this tool:
+{
+  "type": "tool_call",
+  "tool": "condition",
+  "parameters": {
+    "character": "Character name (defaults to the player character)",
+    "condition": "prone",
+    "action": "apply|remove",
+    "duration": { "amount": 1, "unit": "rounds|scenes|minutes|hours|days" }
+  }
+}
+
+Items change hands only with "inventory". "add" needs a "source": the character who hands it over (they lose it) or where it is found or bought; nothing appears from nowhere. "remove" drops, loses or gives away carried items; "consume" uses up charges (a lantern's oil, a flask's doses) or single-use items (a flare, a stick of dynamite). Only carried items can be removed or used; do not list the inventory in stateUpdate:
+{
+  "type": "tool_call",
+  "tool": "inventory",
+  "parameters": {
+    "character": "Character name (defaults to the player character)",
+    "operation": "add|remove|consume",
+    "item": "Item name or id",
+    "quantity": 1,
+    "type": "weapon|tool|tome|consumable|evidence|other",
+    "charges": 3,
+    "source": "Who gives it, or where it is found (add only)"
+  }
+}
+
+When the Keeper leaves something to chance in the environment (is there a taxi passing, does the lamp hold out, is the book on the shelf), call "luck_roll". Set "group" to true when the chance affects the whole party; the engine rolls for the unluckiest investigator:
+{
+  "type": "tool_call",
+  "tool": "luck_roll",
+  "parameters": {
+    "character": "Character name (defaults to the player character)",
+    "group": false,
+    "difficulty": "regular|hard|extreme"
+  }
+}
+
+To check a value before deciding on a roll, "lookup_skill" gives a character's skill or characteristic with the rules' base value, and "lookup_weapon" a weapon's skill, damage, range and ammunition:
+{
+  "type": "tool_call",
+  "tool": "lookup_skill",
+  "parameters": {
+    "character": "Character name (defaults to the player character)",
+    "skill": "Library Use"
+  }
+}
+{
+  "type": "tool_call",
+  "tool": "lookup_weapon",
+  "parameters": {
+    "weapon": ".38 Revolver"
+  }
+}
+
+Other rolls (falls, fire, random tables) use "roll_dice".
+Expressions support multiple terms ("1d6+1d4+2"), keep highest/lowest ("2d6kh1", "2d6kl1") and percentile bonus/penalty dice ("1d100b1", "1d100p2"):
 {
   "type": "tool_call",
   "tool": "roll_dice",
   "parameters": {
-    "expression": "1d100"
+    "expression": "1d6+1"
   }
 }
 
@@ -49,109 +279,1023 @@ SCENE CHANGE DETECTION:
 
 DICE ROLLING GUIDELINES:
 1. Use character skills from the provided character data to determine appropriate skill checks
-2. Apply environmental conditions and temporary rules as modifiers when calculating success thresholds
-3. For skill checks: Always use 1d100, compare against modified skill value
-4. For damage: Use weapon damage dice (1d3 for fist, 1d6 for knife, 2d6 for gun, etc.)
-5. For attribute checks: Use 1d100, compare against attribute value
-6. For luck rolls: Use 1d100, compare against Luck value
-7. Consider situational modifiers from scenario conditions and temporary rules
+2. Express environmental conditions and temporary rules as difficulty (hard/extreme) or bonus/penalty dice, never as percentage modifiers
+3. For skill checks, attribute checks and luck rolls: call skill_check (skill can be a skill name, a characteristic like "DEX", or "Luck")
+4. For attack damage: call apply_damage after a successful melee or thrown attack; firearm_attack rolls gunshot damage itself. Other harm (falls, fire, drowning) uses roll_dice and stateUpdate
+5. A skill_check result is final: "success" and "successLevel" (fumble, failure, regular, hard, extreme, critical) decide the outcome
+6. Conditions on the roller or the target (prone, blinded, intoxicated, ...) add their own dice in skill_check, opposed_check and firearm_attack; do not add them again
 
 EXAMPLES:
-- Fighting (Brawl) skill 50% in darkness (-20%): Roll 1d100, succeed if ≤30
-- Damage from successful punch: Roll 1d3+STR bonus
-- Sanity loss from horror: Roll 1d4, 1d8, etc. based on threat level
-- Dodge in difficult terrain: Roll 1d100, compare against modified Dodge skill
+- Fighting (Brawl) in darkness: skill_check "Fighting (Brawl)" with penaltyDice 1
+- Damage from a successful punch: apply_damage with weapon "Unarmed"
+- Seeing a corpse: sanity_check with trigger "Seeing a dead body"
+- Tackling someone to the floor: after the winning opposed_check, condition "prone" on the target
+- Dodge in difficult terrain: skill_check "Dodge" with difficulty "hard"
 
 Always analyze the current situation, character capabilities, environmental conditions, and applicable rules before determining what dice to roll.
 
 IMPORTANT: You MUST respond with valid JSON format only. Do not include any text outside the JSON structure.`;
 
-    const systemPrompt = baseSystemPrompt + actionTypeTemplate + diceGuidelines;
+    // Every roll this turn draws from the session's seeded RNG
+    const rng = new SeededDiceRng(gameState.dice ?? createDiceState(gameState.sessionId));
 
-    // Tool call loop
-    const toolLogs: string[] = [];
-    let conversation = [`Character action: ${userMessage}`];
-    let maxIterations = 10;
-    
-    for (let iteration = 0; iteration < maxIterations; iteration++) {
-      const characterContext = this.buildCharacterContext(gameState);
+    // A declared push is rolled by the engine up front; the model only narrates it
+    const pushedRollState = rng.getState().state;
+    const pushedRoll = this.resolveDeclaredPush(gameState, rng);
+
+    // A declared Luck spend is applied by the engine up front as well
+    const luckSpend = this.resolveDeclaredLuckSpend(gameState);
+
+    const systemPrompt = baseSystemPrompt + actionTypeTemplate + diceGuidelines + this.getPushedRollGuidelines(gameState, pushedRoll) + this.getLuckSpendGuidelines(luckSpend) + this.getCombatGuidelines(gameState) + this.getChaseGuidelines(gameState) + this.getFirearmsGuidelines(gameState) + this.getConditionGuidelines(gameState) + this.getInventoryGuidelines(gameState) + this.getPartyGuidelines(gameState) + this.getSanityGuidelines();
+
+    // Everything the tools roll and resolve this turn
+    const turn: ActionTurn = {
+      gameState,
+      rng,
+      toolLogs: [],
+      sanityChecks: [],
+      firearmAttacks: [],
+      damage: [],
+      reload: null,
+      onRoll,
+    };
+    const opening = [`Character action: ${userMessage}`];
+    if (pushedRoll) {
+      turn.toolLogs.push({ kind: "skill_check", ...pushedRoll, rngState: pushedRollState });
+      opening.push(`Pushed roll result (already rolled, do not roll this check again): ${JSON.stringify(pushedRoll)}`);
+    }
+    if (luckSpend) {
+      turn.toolLogs.push({ kind: "skill_check", ...luckSpend.check });
+      opening.push(`Luck spend result (already applied, do not roll this check again): ${JSON.stringify(luckSpend)}`);
+    }
+    turn.toolLogs.forEach(roll => onRoll?.(roll));
+
+    // Models that bind tools call them natively; others use the JSON protocol.
+    // A reply that cannot be repaired throws; the graph works on a copy of the
+    // game state, so the failed turn's changes are dropped with it
+    const result = supportsToolCalling(runtime)
+      ? await this.runNativeToolLoop(runtime, systemPrompt, opening, turn)
+      : await this.runJsonToolLoop(runtime, systemPrompt, opening, turn);
+
+    const { toolLogs, sanityChecks, firearmAttacks, reload, damage } = turn;
+    return this.buildFinalResult(gameState, result, toolLogs, sanityChecks, luckSpend, { firearmAttacks, reload, damage }, rng);
+  }
+
+  /**
+   * Tool loop over the JSON protocol: the model answers with a "tool_call"
+   * or a "result" object, and tool results are appended to the conversation.
+   * Replies that match neither are sent back to the model to repair.
+   */
+  private async runJsonToolLoop(
+    runtime: ModelRuntime,
+    systemPrompt: string,
+    opening: string[],
+    turn: ActionTurn
+  ): Promise<ActionResultReply> {
+    const conversation = [...opening];
+
+    for (let iteration = 0; iteration < MAX_TOOL_ITERATIONS; iteration++) {
+      const characterContext = this.buildCharacterContext(turn.gameState);
       const contextWithHistory = systemPrompt + characterContext + "\n\nConversation so far:\n" + conversation.join("\n");
       
-      const response = await generateText({
+      const parsed = await generateStructured<ActionReply>({
         runtime,
         context: contextWithHistory,
         modelClass: ModelClass.SMALL,
+        schema: actionReplySchema,
+        schemaName: "ActionAgent",
       });
 
-      // Parse JSON response
-      let parsed;
-      try {
-        parsed = JSON.parse(response);
-      } catch (error) {
-        return this.buildErrorResult("Invalid JSON response from model");
-      }
-
-      if (parsed.type === "tool_call") {
-        // Execute tool call
-        if (parsed.tool === "roll_dice" && parsed.parameters?.expression) {
-          const rollResult = this.executeDiceRoll(parsed.parameters.expression);
-          conversation.push(`AI: ${JSON.stringify(parsed)}`);
-          conversation.push(`Tool result: ${JSON.stringify(rollResult)}`);
-          toolLogs.push(`${parsed.parameters.expression} -> ${rollResult.breakdown}`);
-        } else {
-          return this.buildErrorResult("Invalid tool call format");
-        }
-      } else if (parsed.type === "result") {
-        // Final result
-        return this.buildFinalResult(gameState, parsed, toolLogs);
-      } else {
-        return this.buildErrorResult("Invalid response type");
+      if (parsed.type === "result") {
+        return parsed;
       }
+      const toolResult = this.runTool(turn, String(parsed.tool), parsed.parameters || {});
+      conversation.push(`AI: ${JSON.stringify(parsed)}`);
+      conversation.push(`Tool result: ${JSON.stringify(toolResult)}`);
     }
     
-    return this.buildErrorResult("Maximum iterations reached");
+    throw new Error(`ActionAgent did not reach a result within ${MAX_TOOL_ITERATIONS} steps`);
+  }
+
+  /**
+   * Tool loop with the tools bound to the model: tool calls come back as
+   * AIMessage.tool_calls, and the final answer is the "result" JSON.
+   * Malformed tool arguments or a reply that is neither are sent back to
+   * the model to correct, with the validation errors, instead of ending the turn.
+   */
+  private async runNativeToolLoop(
+    runtime: ModelRuntime,
+    systemPrompt: string,
+    opening: string[],
+    turn: ActionTurn
+  ): Promise<ActionResultReply> {
+    const log: string[] = [];
+    let invalidReply: { errors: string[]; text: string } | null = null;
+    const messages: BaseMessage[] = [new SystemMessage(systemPrompt), new HumanMessage(opening.join("\n"))];
+
+    for (let iteration = 0; iteration < MAX_TOOL_ITERATIONS; iteration++) {
+      // Tools change HP, SAN and items, so the character sheet is rebuilt each time
+      messages[0] = new SystemMessage(systemPrompt + NATIVE_TOOL_CALLING_NOTE + this.buildCharacterContext(turn.gameState));
+
+      const response = await generateWithTools({
+        runtime,
+        messages,
+        tools: actionTools,
+        modelClass: ModelClass.SMALL,
+      });
+      messages.push(response);
+
+      const calls = response.tool_calls ?? [];
+      const invalidCalls = response.invalid_tool_calls ?? [];
+      if (calls.length > 0 || invalidCalls.length > 0) {
+        for (const call of calls) {
+          messages.push(executeActionTool(call, (name, args) => this.runTool(turn, name, args), log));
+        }
+        for (const call of invalidCalls) {
+          messages.push(new ToolMessage({
+            content: JSON.stringify({ error: `Malformed arguments for ${call.name}: ${call.error ?? "not valid JSON"}` }),
+            name: call.name ?? "unknown",
+            tool_call_id: call.id ?? "invalid",
+          }));
+        }
+        invalidReply = null;
+        continue;
+      }
+
+      const parsed = parseStructuredOutput<ActionResultReply>(response.text, actionResultSchema);
+      if ("value" in parsed) {
+        if (log.length > 0) {
+          console.log(`Action Agent tools: ${log.join("; ")}`);
+        }
+        return parsed.value;
+      }
+      invalidReply = { errors: parsed.errors, text: response.text };
+      messages.push(new HumanMessage(`Your reply could not be used:\n${parsed.errors.map(error => `- ${error}`).join("\n")}\n\nCall a tool, or reply with the final result JSON ({"type": "result", ...}) and nothing else.`));
+    }
+
+    if (invalidReply) {
+      throw new StructuredOutputError("ActionAgent", invalidReply.errors, invalidReply.text);
+    }
+    throw new Error(`ActionAgent did not reach a result within ${MAX_TOOL_ITERATIONS} steps`);
   }
 
-  private executeDiceRoll(expression: string) {
+  /**
+   * Run one tool against the game and report the rolls it made.
+   * Both tool protocols call tools through here; problems come back as { error }.
+   */
+  private runTool(turn: ActionTurn, tool: string, parameters: Record<string, unknown>): unknown {
+    const rollsBefore = turn.toolLogs.length;
+    const result = this.resolveTool(turn, tool, parameters);
+    turn.toolLogs.slice(rollsBefore).forEach(roll => turn.onRoll?.(roll));
+    return result;
+  }
+
+  /**
+   * Resolve a tool call and record what it rolled and resolved
+   */
+  private resolveTool(turn: ActionTurn, tool: string, parameters: Record<string, unknown>): unknown {
+    const { gameState, rng, toolLogs } = turn;
+    const name = tool === "damage" ? "apply_damage" : tool; // the JSON protocol's earlier name
+    const required = REQUIRED_TOOL_PARAMETERS[name];
+    if (!required) {
+      return { error: `Unknown tool: ${tool}; use one of ${Object.keys(REQUIRED_TOOL_PARAMETERS).join(", ")}` };
+    }
+    const missing = required.filter(key => parameters[key] === undefined || parameters[key] === "");
+    if (missing.length > 0) {
+      return { error: `${name} needs ${missing.join(", ")}` };
+    }
+
+    // Every roll of the call is stamped with the state before the call; they
+    // are logged in the order made, so replaying them from it reproduces each
+    const rngState = rng.getState().state;
+    // A known tool with its required parameters present
+    const call = { tool: name, parameters } as ActionToolCall;
+    switch (call.tool) {
+      case "roll_dice": {
+        const rollResult = this.executeDiceRoll(call.parameters.expression, rng);
+        if (!("error" in rollResult)) {
+          toolLogs.push({ kind: "roll", ...rollResult, rngState });
+        }
+        return rollResult;
+      }
+      case "skill_check": {
+        const checkResult = this.executeSkillCheck(gameState, call.parameters, rng);
+        if ("error" in checkResult) return checkResult;
+        toolLogs.push({ kind: "skill_check", ...checkResult, rngState });
+        const treatment = this.applyTreatment(gameState, call.parameters, checkResult, rng);
+        return treatment.length > 0
+          ? { ...checkResult, treatment: treatment.map(e => e.summary) }
+          : checkResult;
+      }
+      case "opposed_check": {
+        const opposedResult = this.executeOpposedCheck(gameState, call.parameters, rng);
+        if (!("error" in opposedResult)) {
+          toolLogs.push({ kind: "opposed_check", ...opposedResult, rngState });
+        }
+        return opposedResult;
+      }
+      case "lookup_skill":
+        return this.executeLookupSkill(gameState, call.parameters);
+      case "lookup_weapon":
+        return this.executeLookupWeapon(gameState, call.parameters);
+      case "sanity_check": {
+        if (!call.parameters.trigger && !call.parameters.sanityLoss) {
+          return { error: "sanity_check needs a trigger or a sanityLoss" };
+        }
+        const sanityResult = this.executeSanityCheck(gameState, call.parameters, rng);
+        if (!("error" in sanityResult)) {
+          turn.sanityChecks.push(sanityResult);
+          toolLogs.push(...sanityResult.rolls.map(roll => ({ ...roll, rngState })));
+        }
+        return sanityResult;
+      }
+      case "firearm_attack": {
+        const attackResult = turn.reload && this.inCombat(gameState)
+          ? { error: "Reloading took this combat action; the weapon can fire next round" }
+          : this.executeFirearmAttack(gameState, call.parameters, rng);
+        if (!("error" in attackResult)) {
+          turn.firearmAttacks.push(attackResult);
+          toolLogs.push(...attackResult.rolls.map(roll => ({ ...roll, rngState })));
+        }
+        return attackResult;
+      }
+      case "apply_damage": {
+        const damageResult = this.executeDamage(gameState, call.parameters, toolLogs, turn.damage, rng);
+        if (!("error" in damageResult)) {
+          turn.damage.push(damageResult);
+          toolLogs.push(...damageResult.rolls.map(roll => ({ ...roll, rngState })));
+        }
+        return damageResult;
+      }
+      case "reload": {
+        const reloadResult = turn.firearmAttacks.length > 0 && this.inCombat(gameState)
+          ? { error: "Reloading takes a whole combat action; this action was spent firing" }
+          : this.executeReload(gameState, call.parameters);
+        if (!("error" in reloadResult)) {
+          turn.reload = reloadResult;
+        }
+        return reloadResult;
+      }
+      case "sanity_recovery": {
+        const recoveryResult = this.executeSanityRecovery(gameState, call.parameters, rng);
+        if (!("error" in recoveryResult)) {
+          for (const event of recoveryResult) {
+            if (event.check) {
+              toolLogs.push({ kind: "skill_check", ...event.check, rngState });
+            }
+          }
+        }
+        return recoveryResult;
+      }
+      case "condition":
+        return this.executeCondition(gameState, call.parameters);
+      case "inventory":
+        return this.executeInventory(gameState, call.parameters);
+      case "luck_roll": {
+        const luckResult = this.executeLuckRoll(gameState, call.parameters, rng);
+        if (!("error" in luckResult)) {
+          toolLogs.push({ kind: "skill_check", ...luckResult, rngState });
+        }
+        return luckResult;
+      }
+      default:
+        return { error: `Unknown tool: ${tool}` };
+    }
+  }
+
+  /**
+   * A character's value in a skill or characteristic, with the rules' base value
+   */
+  private executeLookupSkill(gameState: GameState, parameters: ActionToolParameters["lookup_skill"]) {
     try {
-      const { count, sides, modifier } = this.parseDiceExpression(expression);
-      
-      const rolls = Array.from(
-        { length: count },
-        () => Math.floor(Math.random() * sides) + 1
+      const character = this.requireCharacter(gameState, parameters.character);
+      const skill = String(parameters.skill);
+      const onSheet = resolveSkillValue(character, skill);
+      const rules = this.getSkills().find(s => s.name.toLowerCase() === skill.toLowerCase());
+      const baseValue = getSkillBase(skill, this.getSkills(), character.attributes);
+      if (!onSheet && baseValue === undefined) {
+        throw new Error(`Unknown skill or characteristic: ${skill}`);
+      }
+
+      return {
+        character: character.name,
+        skill: onSheet?.name ?? rules?.name ?? skill,
+        value: onSheet?.value ?? null, // null: not on the character sheet
+        baseValue: baseValue ?? null,
+        description: rules?.description ?? null,
+      };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * A weapon's statistics from the weapons table or a carried item
+   */
+  private executeLookupWeapon(gameState: GameState, parameters: ActionToolParameters["lookup_weapon"]) {
+    try {
+      const name = String(parameters.weapon);
+      const weapons = this.getWeapons();
+      const carried = [...this.getInvestigators(gameState), ...gameState.npcCharacters]
+        .flatMap(character => getCarriedWeapons(character, weapons));
+      const weapon = matchWeapon(name, weapons) ?? matchWeapon(name, carried);
+      if (!weapon) {
+        throw new Error(`${name} is not in the weapons table`);
+      }
+      return weapon;
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private executeDiceRoll(expression: string, rng: DiceRng) {
+    try {
+      return rollDiceExpression(expression, rng);
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Re-roll the pending failed check when the orchestrator flagged a push
+   */
+  private resolveDeclaredPush(gameState: GameState, rng: DiceRng): SkillCheckResult | null {
+    const actionAnalysis = gameState.temporaryInfo.currentActionAnalysis;
+    const pushable = gameState.pushableCheck;
+    if (!actionAnalysis?.isPush || !pushable) return null;
+
+    const character = this.findCharacter(gameState, pushable.characterName);
+    if (!character) return null;
+    return resolvePushedRoll(pushable, character, rng);
+  }
+
+  /**
+   * Spend Luck on the pending failed check when the orchestrator flagged it
+   */
+  private resolveDeclaredLuckSpend(gameState: GameState): LuckSpendResult | null {
+    const actionAnalysis = gameState.temporaryInfo.currentActionAnalysis;
+    const option = gameState.luckSpendOption;
+    if (!actionAnalysis?.isLuckSpend || !option) return null;
+
+    const stateManager = new GameStateManager(gameState);
+    const character = stateManager.findCharacterById(option.characterId);
+    if (!character) return null;
+
+    try {
+      const { status, result } = resolveLuckSpend(option, character);
+      character.status = status;
+      return result;
+    } catch (error) {
+      console.warn("Action Agent: Luck spend failed:", error);
+      return null;
+    } finally {
+      stateManager.clearLuckSpendOption();
+    }
+  }
+
+  private getLuckSpendGuidelines(luckSpend: LuckSpendResult | null): string {
+    if (!luckSpend) return "";
+
+    return `
+
+LUCK SPENT:
+${luckSpend.character} spent ${luckSpend.pointsSpent} Luck (${luckSpend.luckBefore} → ${luckSpend.luckAfter}) to turn the failed ${luckSpend.skill} roll (${luckSpend.originalRoll}) into a success. The engine has already applied it (see conversation).
+- Resolve the original action as a success at its difficulty; do not roll it again and do not deduct Luck in stateUpdate.`;
+  }
+
+  private getPushedRollGuidelines(gameState: GameState, pushedRoll: SkillCheckResult | null): string {
+    if (!pushedRoll) return "";
+
+    const pushJustification = gameState.temporaryInfo.currentActionAnalysis?.pushJustification;
+    const justification = pushJustification ? ` (justification: ${pushJustification})` : "";
+    return `
+
+PUSHED ROLL:
+The character is pushing a failed ${pushedRoll.skill} check${justification}. The engine has already re-rolled it (see conversation).
+- If the pushed roll succeeded, the character achieves the goal, but the extra effort may still show.
+- If the pushed roll FAILED, apply a harsher consequence than the original failure (injury, lost equipment, alerted enemies, lost time, Sanity loss) and record it in stateUpdate/scenarioUpdate.
+- A pushed roll can never be pushed again.`;
+  }
+
+  /**
+   * Round, initiative order and how each opponent defends during an encounter
+   */
+  private getCombatGuidelines(gameState: GameState): string {
+    const encounter = gameState.combat;
+    if (!encounter || encounter.endedReason) return "";
+
+    const order = encounter.order
+      .map(c => `${c.name} (${c.side}, initiative ${c.initiative}${c.usesFirearm ? ", firearm" : ""}, ${c.status})`)
+      .join(" > ");
+    const defences = encounter.order
+      .filter(c => c.side === "opponents" && c.status === "active")
+      .map(c => {
+        const npc = gameState.npcCharacters.find(n => n.id === c.characterId);
+        if (!npc) return null;
+        const defence = chooseMeleeDefence(npc);
+        return `- ${c.name}: opponentSkill "${defence.skill}", contest "${defence.contest}"`;
+      })
+      .filter(Boolean)
+      .join("\n");
+    const npcActions = encounter.events.length > 0
+      ? encounter.events.map(e => `- ${e.summary}`).join("\n")
+      : "- none";
+
+    return `
+
+COMBAT ENCOUNTER (round ${encounter.round}):
+Initiative order: ${order}
+It is now the investigator's turn. NPC actions already resolved this round:
+${npcActions}
+- A melee attack on an opponent MUST be an opposed_check against that opponent's defence:
+${defences || "- (no active opponents)"}
+- Gunfire MUST use firearm_attack; the target cannot Dodge or Fight Back
+- Damage from a hit MUST use the apply_damage tool, which applies it; report anyone fleeing or surrendering in "combatUpdate"`;
+  }
+
+  /**
+   * Track, positions and the movement the chase engine resolved this round
+   */
+  private getChaseGuidelines(gameState: GameState): string {
+    const chase = gameState.chase;
+    if (!chase) return "";
+
+    const track = chase.track
+      .map(location => {
+        const here = chase.participants.filter(p => p.position === location.index).map(p => p.name);
+        const obstacle = location.obstacle ? ` [${location.obstacle.type}: ${location.obstacle.name}]` : "";
+        return `${location.index}. ${location.name}${obstacle}${here.length > 0 ? ` <- ${here.join(", ")}` : ""}`;
+      })
+      .join("\n");
+    const movement = chase.events.length > 0
+      ? chase.events.map(e => `- ${e.summary}`).join("\n")
+      : "- none";
+    const outcome = chase.endedReason
+      ? `The chase is over: ${chase.endedReason}.`
+      : "The chase continues next turn.";
+
+    return `
+
+CHASE (round ${chase.round}):
+${chase.participants.map(p => `${p.name} (${p.role}, MOV ${p.mov}, ${p.status})`).join(", ")}
+Track (the quarry escapes off the last location):
+${track}
+Resolved by the chase engine this turn:
+${movement}
+${outcome}
+- Do NOT roll speed, movement or the obstacles above again, and do not apply their damage in stateUpdate; the engine has done so
+- Only roll for anything else the investigator does on the run (Throw to block the path, Spot Hidden for a shortcut, Stealth to hide once clear)`;
+  }
+
+  /**
+   * Carried firearms with their rounds, range and rate of fire
+   */
+  private getFirearmsGuidelines(gameState: GameState): string {
+    const character = gameState.playerCharacter;
+    const firearms = getCarriedFirearms(character, this.getWeapons());
+    if (firearms.length === 0) return "";
+
+    const lines = firearms.map(weapon => {
+      const state = getFirearmState(character, weapon);
+      return `- ${weapon.name}: ${weapon.skill}, damage ${weapon.damage}, base range ${weapon.range}, up to ${weapon.attacksPerRound} shot(s) per round, ${state.rounds}/${weapon.ammo ?? "?"} rounds loaded${state.jammed ? ", JAMMED" : ""}`;
+    });
+
+    return `
+
+FIREARMS CARRIED BY ${character.name.toUpperCase()}:
+${lines.join("\n")}
+- Range: "point_blank" (within a few feet) gives a bonus die; "long" (up to twice the base range) one penalty die; "very_long" (up to four times) two
+- Firing more than one shot in a round puts a penalty die on every shot
+- An empty or jammed weapon cannot fire until reloaded or cleared`;
+  }
+
+  /**
+   * Conditions on the investigator and NPCs, and what they allow this action
+   */
+  private getConditionGuidelines(gameState: GameState): string {
+    const player = gameState.playerCharacter;
+    const characters = [player, ...gameState.npcCharacters]
+      .filter(character => (character.status.conditions || []).length > 0);
+    if (characters.length === 0) return "";
+
+    const lines = characters.flatMap(character => [
+      `${character.name} (HP ${character.status.hp}/${character.status.maxHp}):`,
+      ...describeConditions(character.status).map(line => `  - ${line}`),
+    ]);
+    const blocking = getBlockingConditions(player.status);
+    const notes = [
+      blocking.length > 0
+        ? `- ${player.name} is ${blocking.join(", ")} and cannot act; resolve only what is still possible (nothing, or others acting on them)`
+        : null,
+      (player.status.conditions || []).includes("dying")
+        ? "- A dying investigator needs First Aid to stabilise, then Medicine"
+        : null,
+      "- Play an insane character within their condition's behaviour; the Keeper describes phobias, manias and delusions",
+      "- Remove a condition with the condition tool once the fiction ends it (standing up, breaking free, sobering up)",
+    ].filter(Boolean);
+
+    return `
+
+CONDITIONS:
+${lines.join("\n")}
+${notes.join("\n")}`;
+  }
+
+  /**
+   * What the investigator carries, by id, for the inventory tool
+   */
+  private getInventoryGuidelines(gameState: GameState): string {
+    const character = gameState.playerCharacter;
+    const items = character.inventory || [];
+
+    return `
+
+INVENTORY OF ${character.name.toUpperCase()}:
+${items.length > 0 ? items.map(item => `- ${describeInventoryItem(item)}`).join("\n") : "- (nothing)"}
+- An action that needs an item the character does not carry cannot use it`;
+  }
+
+  /**
+   * The other investigators present, who can help, be helped or be hurt
+   */
+  private getPartyGuidelines(gameState: GameState): string {
+    const party = gameState.party || [];
+    if (party.length === 0) return "";
+
+    const members = party.map(member =>
+      `- ${member.name} [${member.id}] (HP ${member.status.hp}/${member.status.maxHp}, SAN ${member.status.sanity}/${member.status.maxSanity}${isIncapacitated(member.status) ? ", incapacitated" : ""})`
+    );
+
+    return `
+
+PARTY (other investigators, not acting this turn):
+${members.join("\n")}
+- This turn is ${gameState.playerCharacter.name}'s action; the others only react to it (opposed rolls, being treated or attacked)
+- Tools take any investigator's name as "character", "target" or "patient"
+- Changes to another investigator go in "stateUpdate": { "party": [{ "id": "...", "status": { ... } }] }, never in "playerCharacter"`;
+  }
+
+  /**
+   * Known sanity triggers from the rules database, with their loss pairs
+   */
+  private getSanityGuidelines(): string {
+    let triggers: string[] = [];
+    try {
+      triggers = (this.memoryAgent?.getAllSanityTriggers() ?? [])
+        .map(t => `- ${t.trigger}: ${t.sanityLoss}`);
+    } catch (error) {
+      console.error("Action Agent: Failed to load sanity triggers:", error);
+    }
+    if (triggers.length === 0) return "";
+
+    return `
+
+KNOWN SANITY TRIGGERS (trigger: success/failure loss):
+${triggers.join("\n")}`;
+  }
+
+  /**
+   * Skills table from the rules database
+   */
+  private getSkills(): Skill[] {
+    try {
+      return this.memoryAgent?.getAllSkills() ?? [];
+    } catch (error) {
+      console.error("Action Agent: Failed to load skills:", error);
+      return [];
+    }
+  }
+
+  private getWeapons(): WeaponData[] {
+    try {
+      return this.memoryAgent?.getAllWeapons() ?? [];
+    } catch (error) {
+      console.error("Action Agent: Failed to load weapons:", error);
+      return [];
+    }
+  }
+
+  /**
+   * The character's carried firearm by name, or the first one they carry
+   */
+  private findFirearm(character: CharacterProfile, name?: string): WeaponData {
+    const firearms = getCarriedFirearms(character, this.getWeapons());
+    const lower = name ? String(name).toLowerCase() : null;
+    const weapon = lower
+      ? firearms.find(w => w.name.toLowerCase() === lower || w.name.toLowerCase().includes(lower) || lower.includes(w.name.toLowerCase()))
+      : firearms[0];
+    if (!weapon) {
+      throw new Error(`${character.name} carries no firearm${name ? ` matching "${name}"` : ""}`);
+    }
+    return weapon;
+  }
+
+  private inCombat(gameState: GameState): boolean {
+    return Boolean(gameState.combat && !gameState.combat.endedReason);
+  }
+
+  /**
+   * Fire a carried weapon; the engine applies the damage of every hit
+   */
+  private executeFirearmAttack(gameState: GameState, parameters: ActionToolParameters["firearm_attack"], rng: DiceRng): FirearmAttackResult | { error: string } {
+    try {
+      const character = this.requireCharacter(gameState, parameters.character);
+      const weapon = this.findFirearm(character, parameters.weapon);
+      const range: RangeBand = parameters.range && RANGE_BANDS.includes(parameters.range) ? parameters.range : "normal";
+      const target = this.findOpponent(gameState, parameters.target);
+
+      const result = new GameStateManager(gameState).applyFirearmAttack(
+        character.id,
+        weapon,
+        target?.id ?? null,
+        range,
+        Number(parameters.shots) || 1,
+        rng
       );
-      
-      const rollTotal = rolls.reduce((a, b) => a + b, 0);
-      const finalTotal = rollTotal + modifier;
-      
+      if (!result) {
+        throw new Error(`Unknown character: ${parameters.character}`);
+      }
+      return result;
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * The character's successful melee or thrown attacks this action, in order:
+   * a successful Fighting or Throw check, a won attack, or a won Fight Back
+   */
+  private findAttackChecks(toolLogs: DiceRollRecord[], characterName: string): SkillCheckResult[] {
+    const isAttack = (check: SkillCheckResult) =>
+      check.character === characterName && /^(fighting|throw)/i.test(check.skill);
+
+    return toolLogs.flatMap(record => {
+      if (record.kind === "skill_check") {
+        return isAttack(record) && record.success ? [record] : [];
+      }
+      if (record.kind === "opposed_check") {
+        if (record.winner === "initiator" && isAttack(record.initiator)) {
+          return [record.initiator];
+        }
+        if (record.winner === "opponent" && record.contest === "fight_back" && isAttack(record.opponent)) {
+          return [record.opponent];
+        }
+      }
+      return [];
+    });
+  }
+
+  /**
+   * Damage of the character's successful attack, applied to the target.
+   * Each successful attack deals damage once.
+   */
+  private executeDamage(
+    gameState: GameState,
+    parameters: ActionToolParameters["apply_damage"],
+    toolLogs: DiceRollRecord[],
+    dealt: DamageResult[],
+    rng: DiceRng
+  ): DamageResult | { error: string } {
+    try {
+      const character = this.requireCharacter(gameState, parameters.character);
+      const alreadyDealt = dealt.filter(d => d.attacker === character.name).length;
+      const check = this.findAttackChecks(toolLogs, character.name)[alreadyDealt];
+      if (!check) {
+        throw new Error(`${character.name} has no successful attack this action left to deal damage with`);
+      }
+
+      const target = this.findOpponent(gameState, parameters.target);
+      if (!target) {
+        throw new Error(`Unknown target: ${parameters.target}`);
+      }
+
+      const weapons = this.getWeapons();
+      const named = parameters.weapon ? matchWeapon(String(parameters.weapon), weapons) : undefined;
+      const weapon = named
+        ?? (/^fighting/i.test(check.skill) ? getReadiedWeapon(character, weapons, false) : undefined)
+        ?? UNARMED;
+      if (/^throw/i.test(check.skill) && weapon === UNARMED) {
+        throw new Error(`Name the thrown weapon (e.g. "Dynamite Stick") to deal damage`);
+      }
+
+      const result = new GameStateManager(gameState).applyWeaponDamage(character.id, target.id, weapon, check, undefined, rng);
+      if (!result) {
+        throw new Error(`Unknown character: ${parameters.character}`);
+      }
+      return result;
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Reload a carried weapon, or clear its jam
+   */
+  private executeReload(gameState: GameState, parameters: ActionToolParameters["reload"]): ReloadResult | { error: string } {
+    try {
+      const character = this.requireCharacter(gameState, parameters.character);
+      const weapon = this.findFirearm(character, parameters.weapon);
+      const result = new GameStateManager(gameState).reloadFirearm(character.id, weapon);
+      if (!result) {
+        throw new Error(`Unknown character: ${parameters.character}`);
+      }
+      return result;
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Roll SAN from a named trigger (looked up in the rules database) or an explicit loss pair
+   */
+  private executeSanityCheck(gameState: GameState, parameters: ActionToolParameters["sanity_check"], rng: DiceRng): SanityCheckResult | { error: string } {
+    try {
+      const character = this.requireCharacter(gameState, parameters.character);
+      let trigger: string | null = parameters.trigger ? String(parameters.trigger) : null;
+      let sanityLoss: string | null = parameters.sanityLoss ? String(parameters.sanityLoss) : null;
+
+      if (trigger) {
+        const known = this.memoryAgent?.getSanityTrigger(trigger);
+        if (known) {
+          trigger = known.trigger;
+          sanityLoss = known.sanityLoss;
+        }
+      }
+      if (!sanityLoss) {
+        throw new Error(`Unknown sanity trigger: ${trigger}; provide "sanityLoss" (e.g. "0/1d6")`);
+      }
+      parseSanityLoss(sanityLoss);
+
+      const result = new GameStateManager(gameState).applySanityCheck(character.id, sanityLoss, trigger, rng);
+      if (!result) {
+        throw new Error(`Unknown character: ${parameters.character}`);
+      }
+      return result;
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Apply a successful First Aid or Medicine check to its patient
+   */
+  private applyTreatment(gameState: GameState, parameters: ActionToolParameters["skill_check"], check: SkillCheckResult, rng: DiceRng): HealthEvent[] {
+    if (!check.success) return [];
+    const skill = TREATMENT_SKILLS.find(s => s.toLowerCase() === check.skill.toLowerCase());
+    if (!skill) return [];
+
+    const patientName = parameters.patient || gameState.temporaryInfo.currentActionAnalysis?.target?.name || undefined;
+    const patient = this.findOpponent(gameState, patientName) || this.findCharacter(gameState, parameters.character);
+    if (!patient) return [];
+    return new GameStateManager(gameState).applyTreatment(patient.id, skill, rng);
+  }
+
+  private executeSkillCheck(gameState: GameState, parameters: ActionToolParameters["skill_check"], rng: DiceRng) {
+    try {
+      const character = this.requireCharacter(gameState, parameters.character);
+      const difficulty: Difficulty = parameters.difficulty === "hard" || parameters.difficulty === "extreme"
+        ? parameters.difficulty
+        : "regular";
+
+      const skill = String(parameters.skill);
+      const target = this.findOpponent(gameState, parameters.target);
+      const dice = getConditionDice(
+        character.status,
+        skill,
+        target && target !== character ? target.status : null
+      );
+
+      return withConditionModifiers(resolveSkillCheck({
+        character,
+        skill,
+        difficulty,
+        bonusDice: (Number(parameters.bonusDice) || 0) + dice.bonusDice,
+        penaltyDice: (Number(parameters.penaltyDice) || 0) + dice.penaltyDice,
+        rng,
+      }), dice);
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Psychotherapy or self-help during downtime, once a month each
+   */
+  private executeSanityRecovery(gameState: GameState, parameters: ActionToolParameters["sanity_recovery"], rng: DiceRng): HealthEvent[] | { error: string } {
+    try {
+      const character = this.requireCharacter(gameState, parameters.character);
+      const method: SanityRecoveryMethod = parameters.method === "psychotherapy" ? "psychotherapy" : "self_help";
+      let therapistId: string | undefined;
+      if (method === "psychotherapy") {
+        const therapist = this.findOpponent(gameState, parameters.therapist || "");
+        if (!therapist || therapist === character) {
+          throw new Error(`Unknown therapist: ${parameters.therapist}; psychotherapy needs a therapist present in the game`);
+        }
+        therapistId = therapist.id;
+      }
+
+      return new GameStateManager(gameState).applySanityRecovery(
+        character.id,
+        method,
+        { therapistId, skill: parameters.skill },
+        rng
+      );
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Apply or remove a physical condition by id, with an optional duration
+   */
+  private executeCondition(gameState: GameState, parameters: ActionToolParameters["condition"]): ConditionEvent | { error: string } {
+    try {
+      const character = this.requireCharacter(gameState, parameters.character);
+      const condition = resolveConditionId(String(parameters.condition));
+      if (!condition || !PHYSICAL_CONDITIONS.includes(condition as PhysicalCondition)) {
+        throw new Error(`Unknown condition: ${parameters.condition}; use one of ${PHYSICAL_CONDITIONS.join(", ")}`);
+      }
+
+      const gameStateManager = new GameStateManager(gameState);
+      const event = parameters.action === "remove"
+        ? gameStateManager.removeCondition(character.id, condition)
+        : gameStateManager.applyCondition(character.id, condition, this.parseDuration(parameters.duration));
+      if (!event) {
+        throw new Error(`${character.name} is not ${condition}`);
+      }
+      return event;
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Add, remove or use up an item; an added item needs a source
+   */
+  private executeInventory(gameState: GameState, parameters: ActionToolParameters["inventory"]): InventoryChange | { error: string } {
+    try {
+      const character = this.requireCharacter(gameState, parameters.character);
+      const gameStateManager = new GameStateManager(gameState);
+      const item = String(parameters.item);
+      const quantity = parameters.quantity === undefined ? undefined : Number(parameters.quantity);
+
+      switch (parameters.operation) {
+        case "add":
+          return gameStateManager.addInventoryItem(
+            character.id,
+            {
+              name: item,
+              quantity,
+              type: parameters.type && INVENTORY_ITEM_TYPES.includes(parameters.type) ? parameters.type : undefined,
+              charges: parameters.charges === undefined ? undefined : Number(parameters.charges),
+              notes: parameters.notes,
+            },
+            parameters.source,
+            this.getWeapons()
+          );
+        case "remove":
+          return gameStateManager.removeInventoryItem(character.id, item, quantity);
+        case "consume":
+          return gameStateManager.consumeInventoryItem(character.id, item, quantity ?? 1);
+        default:
+          throw new Error(`Unknown inventory operation: ${parameters.operation}; use add, remove or consume`);
+      }
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private parseDuration(duration: ActionToolParameters["condition"]["duration"]): ConditionDuration | null {
+    if (!duration) return null;
+    const amount = Number(duration.amount);
+    if (!(amount > 0) || !CONDITION_DURATION_UNITS.includes(duration.unit)) {
+      throw new Error(`Invalid duration: ${JSON.stringify(duration)}; give an amount and one of ${CONDITION_DURATION_UNITS.join(", ")}`);
+    }
+    return { amount, unit: duration.unit };
+  }
+
+  /**
+   * Luck roll for environmental chance; a group roll uses the lowest Luck in the party
+   */
+  private executeLuckRoll(gameState: GameState, parameters: ActionToolParameters["luck_roll"], rng: DiceRng) {
+    try {
+      const difficulty: Difficulty = parameters.difficulty === "hard" || parameters.difficulty === "extreme"
+        ? parameters.difficulty
+        : "regular";
+      const characters = parameters.group
+        ? this.getInvestigators(gameState)
+        : [this.requireCharacter(gameState, parameters.character)];
+      return resolveLuckRoll(characters, difficulty, rng);
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private executeOpposedCheck(gameState: GameState, parameters: ActionToolParameters["opposed_check"], rng: DiceRng) {
+    try {
+      const opponent = this.findOpponent(gameState, parameters.opponent);
+      if (!opponent) {
+        throw new Error(`Unknown opponent: ${parameters.opponent}`);
+      }
+
+      const contest: OpposedContest = parameters.contest === "fight_back" || parameters.contest === "dodge"
+        ? parameters.contest
+        : "standard";
+
+      const character = this.requireCharacter(gameState, parameters.character);
+      const skill = String(parameters.skill);
+      const opponentSkill = String(parameters.opponentSkill);
+      const dice = getConditionDice(character.status, skill, opponent.status);
+      const opponentDice = getConditionDice(opponent.status, opponentSkill, character.status);
+
+      const result = resolveOpposedCheck({
+        initiator: {
+          character,
+          skill,
+          bonusDice: (Number(parameters.bonusDice) || 0) + dice.bonusDice,
+          penaltyDice: (Number(parameters.penaltyDice) || 0) + dice.penaltyDice,
+        },
+        opponent: {
+          character: opponent,
+          skill: opponentSkill,
+          bonusDice: (Number(parameters.opponentBonusDice) || 0) + opponentDice.bonusDice,
+          penaltyDice: (Number(parameters.opponentPenaltyDice) || 0) + opponentDice.penaltyDice,
+        },
+        contest,
+        rng,
+      });
       return {
-        expression,
-        rolls,
-        rollTotal,
-        modifier,
-        total: finalTotal,
-        breakdown: `${rolls.join('+')}${modifier !== 0 ? `${modifier >= 0 ? '+' : ''}${modifier}` : ''} = ${finalTotal}`
+        ...result,
+        initiator: withConditionModifiers(result.initiator, dice),
+        opponent: withConditionModifiers(result.opponent, opponentDice),
       };
     } catch (error) {
       return { error: error instanceof Error ? error.message : String(error) };
     }
   }
 
-  private parseDiceExpression(expression: string): { count: number; sides: number; modifier: number } {
-    const cleaned = expression.toLowerCase().replace(/\s/g, '');
-    const match = cleaned.match(/^(\d*)d(\d+)(([+-])(\d+))?$/);
-    
-    if (!match) {
-      throw new Error(`Invalid dice expression: ${expression}`);
+  /**
+   * Find the opposing side of a contest; falls back to the analysed target
+   */
+  private findOpponent(gameState: GameState, name?: string): CharacterProfile | null {
+    const wanted = name || gameState.temporaryInfo.currentActionAnalysis?.target.name;
+    if (!wanted) return null;
+
+    const lower = String(wanted).toLowerCase();
+    const investigator = this.matchInvestigator(gameState, lower);
+    if (investigator) return investigator;
+
+    return gameState.npcCharacters.find(n =>
+      n.name.toLowerCase() === lower ||
+      n.id.toLowerCase() === lower ||
+      n.name.toLowerCase().includes(lower)
+    ) || null;
+  }
+
+  /**
+   * Find the character making a check; defaults to the player character when
+   * no name is given. An unknown name is null, never someone else.
+   */
+  private findCharacter(gameState: GameState, name?: string): CharacterProfile | null {
+    if (!name) return gameState.playerCharacter;
+
+    const lower = String(name).toLowerCase();
+    const investigator = this.matchInvestigator(gameState, lower);
+    if (investigator) return investigator;
+
+    const npc = gameState.npcCharacters.find(n =>
+      n.name.toLowerCase() === lower ||
+      n.id.toLowerCase() === lower ||
+      n.name.toLowerCase().includes(lower)
+    );
+    return npc || null;
+  }
+
+  /**
+   * The character making a check; an unknown name is an error for the model to correct
+   */
+  private requireCharacter(gameState: GameState, name?: string): CharacterProfile {
+    const character = this.findCharacter(gameState, name);
+    if (!character) {
+      throw new Error(`Unknown character: ${name}; use the name of an investigator or an NPC in the scene`);
     }
-    
-    const count = parseInt(match[1] || '1');
-    const sides = parseInt(match[2]);
-    const modifierSign = match[4] || '+';
-    const modifierValue = parseInt(match[5] || '0');
-    const modifier = modifierSign === '+' ? modifierValue : -modifierValue;
-    
-    return { count, sides, modifier };
+    return character;
+  }
+
+  /**
+   * Every investigator: the one acting this turn first, then the rest of the party
+   */
+  private getInvestigators(gameState: GameState): CharacterProfile[] {
+    return [gameState.playerCharacter, ...(gameState.party || [])];
+  }
+
+  /**
+   * An investigator whose name or id is exactly the given (lower-case) text
+   */
+  private matchInvestigator(gameState: GameState, lower: string): CharacterProfile | undefined {
+    return this.getInvestigators(gameState).find(character =>
+      character.name.toLowerCase() === lower || character.id.toLowerCase() === lower
+    );
   }
 
   private getActionTypeTemplate(gameState: GameState): string {
@@ -202,7 +1346,17 @@ IMPORTANT: You MUST respond with valid JSON format only. Do not include any text
       });
     }
     
-    context += "\n\nCharacter:\n" + JSON.stringify(gameState.playerCharacter, null, 2);
+    context += "\n\nActing investigator:\n" + JSON.stringify(gameState.playerCharacter, null, 2);
+
+    if (gameState.party?.length) {
+      const party = gameState.party.map(member => ({
+        id: member.id,
+        name: member.name,
+        status: member.status,
+        skills: member.skills,
+      }));
+      context += `\n\nRest of the party:\n${JSON.stringify(party, null, 2)}`;
+    }
     
     // Add target NPC if applicable
     if (actionAnalysis?.target.name) {
@@ -219,13 +1373,30 @@ IMPORTANT: You MUST respond with valid JSON format only. Do not include any text
     return context;
   }
 
-  private buildFinalResult(gameState: GameState, parsed: any, toolLogs: string[]): GameState {
+  private buildFinalResult(
+    gameState: GameState,
+    parsed: ActionResultReply,
+    toolLogs: DiceRollRecord[],
+    sanityChecks: SanityCheckResult[],
+    luckSpend: LuckSpendResult | null,
+    attacks: { firearmAttacks: FirearmAttackResult[]; reload: ReloadResult | null; damage: DamageResult[] },
+    rng: SeededDiceRng
+  ): GameState {
     const stateManager = new GameStateManager(gameState);
     
-    // Apply the state update from LLM result
+    // Apply the state update from LLM result (damage may trigger CON rolls,
+    // stamped like a tool call's with the state before the update)
     if (parsed.stateUpdate) {
-      stateManager.applyActionUpdate(parsed.stateUpdate);
+      const rngState = rng.getState().state;
+      const healthEventCount = gameState.temporaryInfo.healthEvents?.length ?? 0;
+      stateManager.applyActionUpdate(parsed.stateUpdate, rng);
+      for (const healthEvent of gameState.temporaryInfo.healthEvents?.slice(healthEventCount) ?? []) {
+        if (healthEvent.check) {
+          toolLogs.push({ kind: "skill_check", ...healthEvent.check, rngState });
+        }
+      }
     }
+    stateManager.setDiceState(rng.getState());
 
     // Handle scene change request
     if (parsed.sceneChange) {
@@ -251,7 +1422,7 @@ IMPORTANT: You MUST respond with valid JSON format only. Do not include any text
       }
       
       if (parsed.scenarioUpdate.conditions && parsed.scenarioUpdate.conditions.length > 0) {
-        scenarioChanges.push(`Environmental conditions changed: ${parsed.scenarioUpdate.conditions.map((c: any) => c.description).join(', ')}`);
+        scenarioChanges.push(`Environmental conditions changed: ${parsed.scenarioUpdate.conditions.map(c => c.description).join(', ')}`);
       }
       
       if (parsed.scenarioUpdate.events && parsed.scenarioUpdate.events.length > 0) {
@@ -266,7 +1437,7 @@ IMPORTANT: You MUST respond with valid JSON format only. Do not include any text
       }
 
       if (parsed.scenarioUpdate.exits && parsed.scenarioUpdate.exits.length > 0) {
-        parsed.scenarioUpdate.exits.forEach((exit: any) => {
+        parsed.scenarioUpdate.exits.forEach(exit => {
           const changeDesc = `Exit ${exit.direction} to ${exit.destination}: ${exit.condition || 'modified'}`;
           scenarioChanges.push(changeDesc);
           // Record structural changes as permanent
@@ -275,7 +1446,7 @@ IMPORTANT: You MUST respond with valid JSON format only. Do not include any text
       }
       
       if (parsed.scenarioUpdate.clues && parsed.scenarioUpdate.clues.length > 0) {
-        parsed.scenarioUpdate.clues.forEach((clue: any) => {
+        parsed.scenarioUpdate.clues.forEach(clue => {
           if (clue.discovered) {
             scenarioChanges.push(`Clue discovered: ${clue.id}`);
           } else {
@@ -285,6 +1456,14 @@ IMPORTANT: You MUST respond with valid JSON format only. Do not include any text
       }
     }
     
+    // Record opponents (or the investigator) leaving the fight
+    this.applyCombatUpdate(stateManager, gameState, parsed.combatUpdate);
+
+    // Offer the latest failed check as a push on the next turn (any earlier offer lapses)
+    this.updatePushableCheck(stateManager, gameState, toolLogs);
+    stateManager.markExperienceChecks(toolLogs);
+    this.updateLuckSpendOption(stateManager, gameState, toolLogs);
+
     // Create structured action result
     const actionResult: ActionResult = {
       timestamp: new Date(),
@@ -292,9 +1471,14 @@ IMPORTANT: You MUST respond with valid JSON format only. Do not include any text
       location: gameState.currentScenario?.location || "Unknown location", 
       character: parsed.stateUpdate?.playerCharacter?.name || gameState.playerCharacter.name,
       result: parsed.summary || "performed an action",
-      diceRolls: toolLogs.map(log => log), // toolLogs already contain "expression -> result" format
+      diceRolls: [...toolLogs], // structured skill checks and dice rolls from the tool loop
       timeConsumption: parsed.timeConsumption || "instant", // Default to instant if not specified
-      scenarioChanges: scenarioChanges.length > 0 ? scenarioChanges : undefined
+      scenarioChanges: scenarioChanges.length > 0 ? scenarioChanges : undefined,
+      sanityChecks: sanityChecks.length > 0 ? sanityChecks : undefined,
+      luckSpend: luckSpend ?? undefined,
+      firearmAttacks: attacks.firearmAttacks.length > 0 ? attacks.firearmAttacks : undefined,
+      reload: attacks.reload ?? undefined,
+      damage: attacks.damage.length > 0 ? attacks.damage : undefined
     };
     
     // Add to action results
@@ -317,10 +1501,13 @@ IMPORTANT: You MUST respond with valid JSON format only. Do not include any text
       character.actionLog.push(logEntry);
     };
 
-    // Acting character (player or NPC)
+    const investigators = this.getInvestigators(updatedState);
+
+    // Acting character (investigator or NPC)
     const actorNameLower = actionResult.character.toLowerCase();
-    if (updatedState.playerCharacter.name.toLowerCase() === actorNameLower) {
-      appendLog(updatedState.playerCharacter);
+    const actor = investigators.find(character => character.name.toLowerCase() === actorNameLower);
+    if (actor) {
+      appendLog(actor);
     } else {
       const actorNpc = updatedState.npcCharacters.find(
         (npc) => npc.name.toLowerCase() === actorNameLower
@@ -331,8 +1518,9 @@ IMPORTANT: You MUST respond with valid JSON format only. Do not include any text
     // Target character (if present)
     if (targetName) {
       const targetLower = targetName.toLowerCase();
-      if (updatedState.playerCharacter.name.toLowerCase().includes(targetLower)) {
-        appendLog(updatedState.playerCharacter);
+      const target = investigators.find(character => character.name.toLowerCase().includes(targetLower));
+      if (target) {
+        appendLog(target);
       } else {
         const targetNpc = updatedState.npcCharacters.find((npc) =>
           npc.name.toLowerCase().includes(targetLower)
@@ -346,12 +1534,68 @@ IMPORTANT: You MUST respond with valid JSON format only. Do not include any text
   }
 
 
-  private buildErrorResult(errorMessage: string): any {
-    return {
-      error: errorMessage,
-      agentId: "action",
-      content: `Action processing error: ${errorMessage}`,
-      timestamp: new Date(),
-    };
+  private applyCombatUpdate(stateManager: GameStateManager, gameState: GameState, combatUpdate: ActionResultReply["combatUpdate"]): void {
+    let encounter = gameState.combat;
+    if (!encounter || !combatUpdate) return;
+
+    const names = (value: unknown): string[] => Array.isArray(value) ? value.map(String) : [];
+    for (const name of names(combatUpdate.fled)) {
+      encounter = setCombatantStatus(encounter, name, "fled");
+    }
+    for (const name of names(combatUpdate.surrendered)) {
+      encounter = setCombatantStatus(encounter, name, "surrendered");
+    }
+    stateManager.setCombat(encounter);
+  }
+
+  private updatePushableCheck(stateManager: GameStateManager, gameState: GameState, toolLogs: DiceRollRecord[]): void {
+    stateManager.clearPushableCheck();
+
+    const actionAnalysis = gameState.temporaryInfo.currentActionAnalysis;
+    const player = gameState.playerCharacter;
+    const lastPlayerCheck = this.findLastPlayerCheck(gameState, toolLogs);
+
+    if (!lastPlayerCheck || !isPushableCheck(lastPlayerCheck, actionAnalysis?.actionType)) {
+      return;
+    }
+
+    stateManager.setPushableCheck(
+      createPushableCheck(
+        lastPlayerCheck,
+        player,
+        actionAnalysis?.action || lastPlayerCheck.skill,
+        actionAnalysis?.actionType || "narrative"
+      )
+    );
+  }
+
+  /**
+   * Offer Luck on the latest failed check the investigator can afford to buy (any earlier offer lapses)
+   */
+  private updateLuckSpendOption(stateManager: GameStateManager, gameState: GameState, toolLogs: DiceRollRecord[]): void {
+    stateManager.clearLuckSpendOption();
+
+    const lastPlayerCheck = this.findLastPlayerCheck(gameState, toolLogs);
+    if (!lastPlayerCheck) return;
+
+    const { rngState, kind, ...check } = lastPlayerCheck;
+    const actionAnalysis = gameState.temporaryInfo.currentActionAnalysis;
+    stateManager.setLuckSpendOption(
+      createLuckSpendOption(
+        check,
+        gameState.playerCharacter,
+        actionAnalysis?.action || check.skill,
+        actionAnalysis?.actionType || "narrative"
+      )
+    );
+  }
+
+  private findLastPlayerCheck(gameState: GameState, toolLogs: DiceRollRecord[]) {
+    const player = gameState.playerCharacter;
+    return [...toolLogs]
+      .reverse()
+      .find((record): record is Extract<DiceRollRecord, { kind: "skill_check" }> =>
+        record.kind === "skill_check" && record.character === player.name
+      );
   }
 }
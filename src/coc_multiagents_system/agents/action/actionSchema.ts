@@ -0,0 +1,99 @@
+import type { OutputSchema } from "../../../models/index.js";
+import type { InventoryUpdate, TimeConsumption } from "../../../state.js";
+import type { ScenarioSnapshot } from "../models/scenarioTypes.js";
+
+/**
+ * Changes to one character in a result's stateUpdate
+ */
+export interface CharacterUpdate {
+  id?: string;
+  name?: string;
+  status?: Record<string, unknown>;
+  inventory?: InventoryUpdate;
+  [field: string]: unknown;
+}
+
+/**
+ * The ActionAgent's final result, as validated by actionResultSchema
+ */
+export interface ActionResultReply {
+  type: "result";
+  summary: string;
+  stateUpdate?: {
+    playerCharacter?: CharacterUpdate;
+    party?: CharacterUpdate[];
+    npcCharacters?: CharacterUpdate[];
+  } | null;
+  scenarioUpdate?: Partial<
+    Pick<ScenarioSnapshot, "description" | "conditions" | "events" | "exits" | "clues" | "permanentChanges">
+  > | null;
+  sceneChange?: {
+    shouldChange: boolean;
+    targetSceneName?: string | null;
+    reason?: string | null;
+  } | null;
+  combatUpdate?: { fled?: string[]; surrendered?: string[] } | null;
+  timeConsumption?: TimeConsumption;
+  log?: string[];
+}
+
+/**
+ * A reply over the JSON protocol, as validated by actionReplySchema
+ */
+export type ActionReply =
+  | { type: "tool_call"; tool: string; parameters?: Record<string, unknown> }
+  | ActionResultReply;
+
+/**
+ * A tool call over the JSON protocol
+ */
+export const actionToolCallSchema: OutputSchema = {
+  type: "object",
+  properties: {
+    type: { type: "string", enum: ["tool_call"] },
+    tool: { type: "string" },
+    parameters: { type: "object" },
+  },
+  required: ["type", "tool"],
+};
+
+/**
+ * The ActionAgent's final result for the turn
+ */
+export const actionResultSchema: OutputSchema = {
+  type: "object",
+  properties: {
+    type: { type: "string", enum: ["result"] },
+    summary: { type: "string" },
+    stateUpdate: { type: "object", nullable: true },
+    scenarioUpdate: { type: "object", nullable: true },
+    sceneChange: {
+      type: "object",
+      nullable: true,
+      properties: {
+        shouldChange: { type: "boolean" },
+        targetSceneName: { type: "string", nullable: true },
+        reason: { type: "string", nullable: true },
+      },
+      required: ["shouldChange"],
+    },
+    combatUpdate: {
+      type: "object",
+      nullable: true,
+      properties: {
+        fled: { type: "array", items: { type: "string" } },
+        surrendered: { type: "array", items: { type: "string" } },
+      },
+    },
+    timeConsumption: { type: "string", enum: ["instant", "short", "scene"] },
+    log: { type: "array", items: { type: "string" } },
+  },
+  required: ["type", "summary"],
+};
+
+/**
+ * Any reply over the JSON protocol: a tool call or the final result
+ */
+export const actionReplySchema: OutputSchema = {
+  anyOf: [actionToolCallSchema, actionResultSchema],
+};
@@ -112,23 +112,16 @@ TIME CONSUMPTION ANALYSIS:
 - "short": Attack, dodge, reload, get up/help others (= round actions)
 - "scene": ❌ Generally not applicable ✔ Post-combat "battlefield cleanup/stabilize situation"
 
+COMBAT STATUS:
+- "combatUpdate" lists characters who flee or surrender this turn (names); omit it or leave arrays empty otherwise
+- Characters reduced to 0 HP are taken out of the fight automatically
+- Attack damage is applied by the damage and firearm_attack tools; never repeat it in stateUpdate
+
 {
   "type": "result",
   "summary": "Detective Smith successfully punches the cultist, dealing significant damage and stunning the opponent",
   "timeConsumption": "short",
-  "stateUpdate": {
-    "playerCharacter": {
-      "name": "Detective Smith",
-      "status": { "hp": 0 }
-    },
-    "npcCharacters": [
-      {
-        "id": "cultist-1",
-        "name": "Hooded Cultist",
-        "status": { "hp": -4 }
-      }
-    ]
-  },
+  "stateUpdate": {},
   "scenarioUpdate": {
     "description": "The library shows signs of violent struggle, with overturned furniture and blood stains on the floor",
     "events": ["Combat occurred between Detective Smith and the cultist"],
@@ -143,12 +136,16 @@ TIME CONSUMPTION ANALYSIS:
       "Library now bears visible signs of combat: overturned furniture and blood stains"
     ]
   },
+  "combatUpdate": {
+    "fled": [],
+    "surrendered": ["Hooded Cultist"]
+  },
   "sceneChange": {
     "shouldChange": false,
     "targetSceneName": null,
     "reason": "Combat occurs in current location"
   },
-  "log": ["Fighting (Brawl) 50% vs roll 32 = success", "Damage 1d3+1 = 4", "Cultist HP: -4"]
+  "log": ["Fighting (Brawl) 50% vs roll 32 = success", "Damage 1d3+1d4 = 4, applied by the engine"]
 }`;
 
 export const chaseTemplate = `
@@ -161,20 +158,15 @@ TIME CONSUMPTION ANALYSIS:
 
 {
   "type": "result",
-  "summary": "Detective Smith sprints down the alley but stumbles on loose cobblestones, allowing the suspect to gain distance",
+  "summary": "Detective Smith sprints through the market square but the high fence stops him, and the suspect gains ground toward the docks",
   "timeConsumption": "short",
-  "stateUpdate": {
-    "playerCharacter": {
-      "name": "Detective Smith",
-      "status": { "hp": -1 }
-    }
-  },
+  "stateUpdate": {},
   "sceneChange": {
-    "shouldChange": true,
-    "targetSceneName": "dark-alley",
-    "reason": "Chase moves to a new location"
+    "shouldChange": false,
+    "targetSceneName": null,
+    "reason": "The chase track locations are not scenes; change scene only once the chase is over"
   },
-  "log": ["Athletics 40% vs roll 78 = failure", "Fall damage 1 point", "Target escapes"]
+  "log": ["Chase round 2 resolved by the chase engine", "High fence: Climb 20% vs roll 78 = failure", "Gap to the suspect: 3 locations"]
 }`;
 
 export const mentalTemplate = `
@@ -189,19 +181,14 @@ TIME CONSUMPTION ANALYSIS:
   "type": "result",
   "summary": "Detective Smith witnesses the eldritch horror but maintains composure, though the sight leaves lasting psychological scars",
   "timeConsumption": "instant",
-  "stateUpdate": {
-    "playerCharacter": {
-      "name": "Detective Smith",
-      "status": { "sanity": -3 }
-    }
-  },
   "sceneChange": {
     "shouldChange": false,
     "targetSceneName": null,
     "reason": "Mental state change does not trigger scene change"
   },
-  "log": ["Sanity 65% vs roll 82 = failure", "Sanity loss 1d4 = 3", "Current sanity: 62"]
-}`;
+  "log": ["sanity_check: Seeing a mutilated corpse (0/1d6)", "Sanity 65% vs roll 82 = failure", "Sanity loss 1d6 = 3", "Current sanity: 62"]
+}
+SAN loss is applied by the sanity_check tool; never put sanity changes in stateUpdate.`;
 
 export const environmentalTemplate = `
 ENVIRONMENTAL ACTIONS - Confronting environment and physiological limits:
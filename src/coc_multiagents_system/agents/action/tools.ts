@@ -1,97 +1,359 @@
-import { ToolMessage } from "@langchain/core/messages";
+import type { ToolDefinition } from "@langchain/core/language_models/base";
+import { type ToolCall, ToolMessage } from "@langchain/core/messages";
+import type {
+  ConditionDurationUnit,
+  Difficulty,
+  InventoryItemType,
+  OpposedContest,
+  RangeBand,
+  SanityRecoveryMethod,
+} from "../models/gameTypes.js";
 
-// 解析骰子表达式，如 "3d6", "1d100", "2d4+1"
-const parseDiceExpression = (expression: string): { count: number; sides: number; modifier: number } => {
-  const cleaned = expression.toLowerCase().replace(/\s/g, '');
-  
-  // 匹配 XdY+Z 或 XdY-Z 或 XdY 格式
-  const match = cleaned.match(/^(\d*)d(\d+)(([+-])(\d+))?$/);
-  
-  if (!match) {
-    throw new Error(`Invalid dice expression: ${expression}`);
-  }
-  
-  const count = parseInt(match[1] || '1');
-  const sides = parseInt(match[2]);
-  const modifierSign = match[4] || '+';
-  const modifierValue = parseInt(match[5] || '0');
-  const modifier = modifierSign === '+' ? modifierValue : -modifierValue;
-  
-  return { count, sides, modifier };
+/**
+ * Arguments of each tool as the model sends them. Only a tool's required
+ * parameters are checked before it runs, so the enums and numbers here are
+ * what the model was asked for; the tools still check and coerce them.
+ */
+export interface ActionToolParameters {
+  roll_dice: { expression: string };
+  skill_check: {
+    character?: string;
+    skill: string;
+    difficulty?: Difficulty;
+    bonusDice?: number;
+    penaltyDice?: number;
+    target?: string;
+    patient?: string;
+  };
+  opposed_check: {
+    character?: string;
+    skill: string;
+    opponent?: string;
+    opponentSkill: string;
+    contest?: OpposedContest;
+    bonusDice?: number;
+    penaltyDice?: number;
+    opponentBonusDice?: number;
+    opponentPenaltyDice?: number;
+  };
+  lookup_skill: { character?: string; skill: string };
+  lookup_weapon: { weapon: string };
+  sanity_check: { character?: string; trigger?: string; sanityLoss?: string };
+  firearm_attack: {
+    character?: string;
+    weapon?: string;
+    target?: string;
+    range?: RangeBand;
+    shots?: number;
+  };
+  apply_damage: { character?: string; target?: string; weapon?: string };
+  reload: { character?: string; weapon?: string };
+  sanity_recovery: {
+    character?: string;
+    method: SanityRecoveryMethod;
+    therapist?: string;
+    skill?: string;
+  };
+  condition: {
+    character?: string;
+    condition: string;
+    action?: "apply" | "remove";
+    duration?: { amount: number; unit: ConditionDurationUnit };
+  };
+  inventory: {
+    character?: string;
+    operation: "add" | "remove" | "consume";
+    item: string;
+    quantity?: number;
+    type?: InventoryItemType;
+    charges?: number;
+    notes?: string;
+    source?: string;
+  };
+  luck_roll: { character?: string; group?: boolean; difficulty?: Difficulty };
+}
+
+export type ActionToolName = keyof ActionToolParameters;
+
+/**
+ * A tool call with its arguments, told apart by the tool's name
+ */
+export type ActionToolCall = {
+  [Name in ActionToolName]: { tool: Name; parameters: ActionToolParameters[Name] };
+}[ActionToolName];
+
+const characterParameter = {
+  type: "string",
+  description: "Character name (defaults to the player character)",
 };
 
-export const actionTools = [
+const difficultyParameter = {
+  type: "string",
+  enum: ["regular", "hard", "extreme"],
+  description: "Difficulty of the check (defaults to regular)",
+};
+
+/**
+ * Tools the ActionAgent offers models with native tool calling. The same
+ * tools are described as JSON tool_call formats in the ActionAgent's prompt
+ * for providers without it.
+ */
+export const actionTools: ToolDefinition[] = [
   {
     type: "function",
     function: {
       name: "roll_dice",
-      description: "Roll dice using standard notation like '1d100', '3d6', '2d4+1', etc. Returns format: 'XdY+Z = result'",
+      description: "Roll dice using standard notation like '1d100', '3d6', '2d4+1', '1d6+1d4+2', '4d6kh3' (keep highest), '1d100b1' (bonus die) or '1d100p2' (penalty dice). Returns a breakdown like '1d6[4] + 2 = 6'. For falls, fire, random tables; never for checks or attack damage",
       parameters: {
         type: "object",
         properties: {
-          expression: { 
-            type: "string", 
-            description: "Dice expression in format like '1d100', '3d6', '2d4+1', '1d20-1'" 
+          expression: {
+            type: "string",
+            description: "Dice expression in format like '1d100', '3d6', '2d4+1', '1d6+1d4+2', '2d6kl1', '1d100p1'"
           },
         },
         required: ["expression"],
       },
-      returns: {
-        description: "Returns simple format like '3d6+2 = 14' or '1d100 = 73'"
-      }
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "skill_check",
+      description: "Roll a skill or characteristic check (a skill name, 'DEX', 'Luck'). The engine picks the target number, adds condition dice and grades the roll; a successful First Aid or Medicine check is applied to the patient",
+      parameters: {
+        type: "object",
+        properties: {
+          character: characterParameter,
+          skill: { type: "string", description: "Skill or characteristic, e.g. 'Spot Hidden', 'DEX', 'Luck'" },
+          difficulty: difficultyParameter,
+          bonusDice: { type: "integer", minimum: 0, maximum: 2 },
+          penaltyDice: { type: "integer", minimum: 0, maximum: 2 },
+          target: { type: "string", description: "For attacks (Fighting, Throw): who is attacked (defaults to the action target)" },
+          patient: { type: "string", description: "For First Aid/Medicine only: who is treated (defaults to the action target, then the character)" },
+        },
+        required: ["skill"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "opposed_check",
+      description: "Contest between two characters (Stealth vs Listen, Fighting vs Fight Back or Dodge, Persuade vs Psychology). Both sides roll; cite the returned winnerName and reason",
+      parameters: {
+        type: "object",
+        properties: {
+          character: { ...characterParameter, description: "Acting character name (defaults to the player character)" },
+          skill: { type: "string" },
+          opponent: { type: "string", description: "Opponent's name" },
+          opponentSkill: { type: "string" },
+          contest: { type: "string", enum: ["standard", "fight_back", "dodge"] },
+          bonusDice: { type: "integer", minimum: 0, maximum: 2 },
+          penaltyDice: { type: "integer", minimum: 0, maximum: 2 },
+          opponentBonusDice: { type: "integer", minimum: 0, maximum: 2 },
+          opponentPenaltyDice: { type: "integer", minimum: 0, maximum: 2 },
+        },
+        required: ["skill", "opponentSkill"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "lookup_skill",
+      description: "Look up a character's value in a skill or characteristic, with the skill's base value and description from the rules",
+      parameters: {
+        type: "object",
+        properties: {
+          character: characterParameter,
+          skill: { type: "string" },
+        },
+        required: ["skill"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "lookup_weapon",
+      description: "Look up a weapon's skill, damage, range, attacks per round and ammunition in the weapons table",
+      parameters: {
+        type: "object",
+        properties: {
+          weapon: { type: "string", description: "Weapon name, e.g. '.38 Revolver', 'Knife'" },
+        },
+        required: ["weapon"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "apply_damage",
+      description: "After a successful melee or thrown attack: roll the weapon's damage plus damage bonus, handle extreme successes and impales, subtract armour and apply it to the target",
+      parameters: {
+        type: "object",
+        properties: {
+          character: { ...characterParameter, description: "Attacking character name (defaults to the player character)" },
+          target: { type: "string", description: "Target name (defaults to the action target)" },
+          weapon: { type: "string", description: "Weapon used (defaults to the weapon carried, or Unarmed)" },
+        },
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "firearm_attack",
+      description: "Shoot a carried firearm: rolls each shot, applies range and multiple-shot dice, tracks rounds and malfunctions, and applies the damage of every hit",
+      parameters: {
+        type: "object",
+        properties: {
+          character: characterParameter,
+          weapon: { type: "string", description: "Carried firearm (defaults to the first one carried)" },
+          target: { type: "string", description: "Target name (defaults to the action target)" },
+          range: { type: "string", enum: ["point_blank", "normal", "long", "very_long"] },
+          shots: { type: "integer", minimum: 1 },
+        },
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "reload",
+      description: "Reload a carried firearm or clear a jam; in combat it takes the character's whole action",
+      parameters: {
+        type: "object",
+        properties: {
+          character: characterParameter,
+          weapon: { type: "string", description: "Carried firearm (defaults to the first one carried)" },
+        },
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "sanity_check",
+      description: "Roll SAN against a known trigger or a loss pair ('0/1d6'); the engine applies the loss and any insanity",
+      parameters: {
+        type: "object",
+        properties: {
+          character: characterParameter,
+          trigger: { type: "string", description: "What was witnessed, e.g. 'Seeing a dead body'" },
+          sanityLoss: { type: "string", description: "Loss pair 'success/failure', e.g. '0/1d3'" },
+        },
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "sanity_recovery",
+      description: "Downtime Sanity recovery, once a month per method: psychotherapy with a therapist in the game, or self-help through a skill tied to the character's core concept",
+      parameters: {
+        type: "object",
+        properties: {
+          character: characterParameter,
+          method: { type: "string", enum: ["psychotherapy", "self_help"] },
+          therapist: { type: "string", description: "Therapist's name (psychotherapy only)" },
+          skill: { type: "string", description: "Skill used (self_help only; POW if none fits)" },
+        },
+        required: ["method"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "condition",
+      description: "Apply or remove a physical condition (prone, restrained, stunned, blinded, intoxicated, exhausted), with an optional duration",
+      parameters: {
+        type: "object",
+        properties: {
+          character: characterParameter,
+          condition: { type: "string", enum: ["prone", "restrained", "stunned", "blinded", "intoxicated", "exhausted"] },
+          action: { type: "string", enum: ["apply", "remove"] },
+          duration: {
+            type: "object",
+            properties: {
+              amount: { type: "number" },
+              unit: { type: "string", enum: ["rounds", "scenes", "minutes", "hours", "days"] },
+            },
+            required: ["amount", "unit"],
+          },
+        },
+        required: ["condition"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "inventory",
+      description: "Add (from a source: a character who hands it over, or where it is found), remove or use up a carried item",
+      parameters: {
+        type: "object",
+        properties: {
+          character: characterParameter,
+          operation: { type: "string", enum: ["add", "remove", "consume"] },
+          item: { type: "string", description: "Item name or id" },
+          quantity: { type: "integer", minimum: 1 },
+          type: { type: "string", enum: ["weapon", "tool", "tome", "consumable", "evidence", "other"] },
+          charges: { type: "integer", minimum: 0 },
+          source: { type: "string", description: "Who gives it, or where it is found (add only)" },
+        },
+        required: ["operation", "item"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "luck_roll",
+      description: "Roll Luck for chance in the environment; a group roll uses the unluckiest investigator",
+      parameters: {
+        type: "object",
+        properties: {
+          character: characterParameter,
+          group: { type: "boolean" },
+          difficulty: difficultyParameter,
+        },
+      },
     },
   },
 ];
 
-export const executeActionTool = (call: any, log: string[]): ToolMessage => {
+/**
+ * Run a tool call from the model and wrap its result for the conversation.
+ * `run` resolves the tool against the game; an error it throws or returns
+ * is reported back to the model rather than ending the turn.
+ */
+export const executeActionTool = (
+  call: ToolCall,
+  run: (name: string, args: Record<string, unknown>) => unknown,
+  log: string[]
+): ToolMessage => {
   const name = call.name;
-  const args = call.args as Record<string, any>;
-  let result: any;
+  let result: unknown;
 
-  switch (name) {
-    case "roll_dice": {
-      try {
-        const expression = args?.expression;
-        if (!expression) {
-          throw new Error("Missing dice expression");
-        }
+  try {
+    result = run(name, call.args ?? {});
+  } catch (error) {
+    result = { error: error instanceof Error ? error.message : String(error) };
+  }
 
-        const { count, sides, modifier } = parseDiceExpression(expression);
-        
-        // 执行骰子投掷
-        const rolls = Array.from(
-          { length: count },
-          () => Math.floor(Math.random() * sides) + 1
-        );
-        
-        const rollTotal = rolls.reduce((a, b) => a + b, 0);
-        const finalTotal = rollTotal + modifier;
-        
-        result = {
-          expression,
-          rolls,
-          rollTotal,
-          modifier,
-          total: finalTotal,
-          breakdown: `${rolls.join('+')}${modifier !== 0 ? `${modifier >= 0 ? '+' : ''}${modifier}` : ''} = ${finalTotal}`
-        };
-        
-        log.push(`roll_dice: ${expression} -> ${result.breakdown}`);
-      } catch (error) {
-        result = { error: error instanceof Error ? error.message : String(error) };
-        log.push(`roll_dice error: ${result.error}`);
-      }
-      break;
-    }
-    default: {
-      result = { error: `Unknown tool: ${name}` };
-      log.push(`unknown tool: ${name}`);
-    }
+  if (result && typeof result === "object" && "error" in result) {
+    log.push(`${name} error: ${result.error}`);
+  } else {
+    log.push(`${name}: ${JSON.stringify(call.args ?? {})}`);
   }
 
   return new ToolMessage({
     content: typeof result === "string" ? result : JSON.stringify(result),
     name,
-    tool_call_id: call.id,
+    tool_call_id: call.id ?? name,
   });
 };
@@ -11,12 +11,17 @@ import { ChatOpenAI } from "@langchain/openai";
 import type { CoCDatabase } from "../../memory/database/schema.js";
 import type {
   CharacterAttributes,
-  CharacterStatus,
   NPCClue,
   NPCProfile,
   NPCRelationship,
   ParsedNPCData,
 } from "../../models/gameTypes.js";
+import {
+  deriveSheetStatus,
+  formatDerivedMismatches,
+  formatInventoryItem,
+  normalizeInventory,
+} from "../../../mechanics/index.js";
 import {
   createChatModel,
   ModelClass,
@@ -38,61 +43,6 @@ const DEFAULT_ATTRIBUTES: CharacterAttributes = {
   EDU: 50,
 };
 
-/**
- * Calculate default status from attributes
- */
-function calculateDefaultStatus(
-  attributes: CharacterAttributes
-): CharacterStatus {
-  const hp = Math.floor((attributes.CON + attributes.SIZ) / 10);
-  const maxSanity = attributes.POW * 5;
-  const mp = Math.floor(attributes.POW / 5);
-  const { damageBonus, build } = calculateDamageBonusAndBuild(
-    attributes.STR,
-    attributes.SIZ
-  );
-  const mov = calculateMovement(attributes);
-
-  return {
-    hp,
-    maxHp: hp,
-    sanity: maxSanity,
-    maxSanity,
-    luck: 50,
-    mp,
-    damageBonus,
-    build,
-    mov,
-    conditions: [],
-  };
-}
-
-/**
- * Compute damage bonus and build from STR+SIZ (CoC 7e)
- */
-function calculateDamageBonusAndBuild(
-  str: number,
-  siz: number
-): { damageBonus: string; build: number } {
-  const total = str + siz;
-  if (total <= 64) return { damageBonus: "-1d4", build: -2 };
-  if (total <= 84) return { damageBonus: "0", build: -1 };
-  if (total <= 124) return { damageBonus: "+1d4", build: 0 };
-  if (total <= 164) return { damageBonus: "+1d6", build: 1 };
-  if (total <= 204) return { damageBonus: "+2d6", build: 2 };
-  return { damageBonus: "+3d6", build: 3 };
-}
-
-/**
- * Compute movement (MOV) based on STR/DEX vs SIZ (simplified CoC 7e rules)
- */
-function calculateMovement(attributes: CharacterAttributes): number {
-  const { STR, DEX, SIZ } = attributes;
-  if (STR > SIZ && DEX > SIZ) return 9;
-  if (STR < SIZ && DEX < SIZ) return 7;
-  return 8;
-}
-
 /**
  * NPC Loader class
  */
@@ -365,12 +315,19 @@ export class NPCLoader {
       parsedData.attributes
     );
 
-    // Calculate or use provided status
-    const defaultStatus = calculateDefaultStatus(attributes);
-    const status: CharacterStatus = {
-      ...defaultStatus,
-      ...parsedData.status,
-    };
+    // Derive status from the characteristics; the sheet's own values win,
+    // but ones that break the rules are flagged. NPCs take no age penalty.
+    const { status, mismatches } = deriveSheetStatus(
+      attributes,
+      parsedData.status,
+      undefined,
+      parsedData.skills?.["Cthulhu Mythos"]
+    );
+    if (mismatches.length > 0) {
+      console.warn(
+        `⚠️ ${parsedData.name}'s sheet disagrees with the derived statistics: ${formatDerivedMismatches(mismatches)}`
+      );
+    }
 
     // Convert clues
     const clues: NPCClue[] = (parsedData.clues || []).map((clue, index) => ({
@@ -399,7 +356,7 @@ export class NPCLoader {
       name: parsedData.name,
       attributes,
       status,
-      inventory: parsedData.inventory || [],
+      inventory: normalizeInventory(parsedData.inventory),
       skills: parsedData.skills || {},
       notes: parsedData.notes,
       occupation: parsedData.occupation,
@@ -453,7 +410,7 @@ export class NPCLoader {
       attributes: npc.attributes,
       status: npc.status,
       skills: npc.skills,
-      inventory: npc.inventory,
+      inventory: npc.inventory.map(formatInventoryItem),
       clues: npc.clues?.map((c) => ({
         clueText: c.clueText,
         category: c.category,
@@ -879,7 +836,7 @@ Return ONLY JSON array, no extra text.`;
       name: character.name,
       attributes: JSON.parse(character.attributes),
       status: JSON.parse(character.status),
-      inventory: JSON.parse(character.inventory || "[]"),
+      inventory: normalizeInventory(JSON.parse(character.inventory || "[]")),
       skills: JSON.parse(character.skills || "{}"),
       notes: character.notes,
       occupation: character.occupation,
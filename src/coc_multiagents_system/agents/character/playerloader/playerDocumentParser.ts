@@ -13,6 +13,7 @@ import type {
   CharacterStatus,
   CharacterProfile,
 } from "../../models/gameTypes.js";
+import { normalizeConditions } from "../../../mechanics/index.js";
 import {
   createChatModel,
   ModelClass,
@@ -295,7 +296,11 @@ Return JSON:`;
     }
 
     if (Array.isArray(status.conditions)) {
-      result.conditions = status.conditions.filter((c: any) => typeof c === "string");
+      const { conditions, unknown } = normalizeConditions(status.conditions);
+      result.conditions = conditions;
+      if (unknown.length > 0) {
+        console.warn(`⚠️ Ignoring conditions not in the catalogue: ${unknown.join(", ")}`);
+      }
     }
 
     if (typeof status.notes === "string") {
@@ -10,9 +10,13 @@ import path from "path";
 import type { CoCDatabase } from "../../memory/database/schema.js";
 import type {
   CharacterAttributes,
-  CharacterStatus,
   CharacterProfile,
 } from "../../models/gameTypes.js";
+import {
+  deriveSheetStatus,
+  formatDerivedMismatches,
+  normalizeInventory,
+} from "../../../mechanics/index.js";
 import {
   PlayerDocumentParser,
   type ParsedPlayerData,
@@ -32,61 +36,6 @@ const DEFAULT_ATTRIBUTES: CharacterAttributes = {
   EDU: 50,
 };
 
-/**
- * Calculate default status from attributes
- */
-function calculateDefaultStatus(
-  attributes: CharacterAttributes
-): CharacterStatus {
-  const hp = Math.floor((attributes.CON + attributes.SIZ) / 10);
-  const maxSanity = attributes.POW * 5;
-  const mp = Math.floor(attributes.POW / 5);
-  const { damageBonus, build } = calculateDamageBonusAndBuild(
-    attributes.STR,
-    attributes.SIZ
-  );
-  const mov = calculateMovement(attributes);
-
-  return {
-    hp,
-    maxHp: hp,
-    sanity: maxSanity,
-    maxSanity,
-    luck: 50,
-    mp,
-    damageBonus,
-    build,
-    mov,
-    conditions: [],
-  };
-}
-
-/**
- * Compute damage bonus and build from STR+SIZ (CoC 7e)
- */
-function calculateDamageBonusAndBuild(
-  str: number,
-  siz: number
-): { damageBonus: string; build: number } {
-  const total = str + siz;
-  if (total <= 64) return { damageBonus: "-1d4", build: -2 };
-  if (total <= 84) return { damageBonus: "0", build: -1 };
-  if (total <= 124) return { damageBonus: "+1d4", build: 0 };
-  if (total <= 164) return { damageBonus: "+1d6", build: 1 };
-  if (total <= 204) return { damageBonus: "+2d6", build: 2 };
-  return { damageBonus: "+3d6", build: 3 };
-}
-
-/**
- * Compute movement (MOV) based on STR/DEX vs SIZ (simplified CoC 7e rules)
- */
-function calculateMovement(attributes: CharacterAttributes): number {
-  const { STR, DEX, SIZ } = attributes;
-  if (STR > SIZ && DEX > SIZ) return 9;
-  if (STR < SIZ && DEX < SIZ) return 7;
-  return 8;
-}
-
 /**
  * Player Loader class
  */
@@ -247,19 +196,26 @@ export class PlayerLoader {
       parsedData.attributes
     );
 
-    // Calculate or use provided status
-    const defaultStatus = calculateDefaultStatus(attributes);
-    const status: CharacterStatus = {
-      ...defaultStatus,
-      ...parsedData.status,
-    };
+    // Derive status from the characteristics; the sheet's own values win,
+    // but ones that break the rules are flagged
+    const { status, mismatches } = deriveSheetStatus(
+      attributes,
+      parsedData.status,
+      parsedData.age,
+      parsedData.skills?.["Cthulhu Mythos"]
+    );
+    if (mismatches.length > 0) {
+      console.warn(
+        `⚠️ ${parsedData.name}'s sheet disagrees with the derived statistics: ${formatDerivedMismatches(mismatches)}`
+      );
+    }
 
     const playerProfile: CharacterProfile = {
       id: playerId,
       name: parsedData.name,
       attributes,
       status,
-      inventory: parsedData.inventory || [],
+      inventory: normalizeInventory(parsedData.inventory),
       skills: parsedData.skills || {},
       notes: [
         parsedData.notes,
@@ -350,7 +306,7 @@ export class PlayerLoader {
       name: character.name,
       attributes: JSON.parse(character.attributes),
       status: JSON.parse(character.status),
-      inventory: JSON.parse(character.inventory || "[]"),
+      inventory: normalizeInventory(JSON.parse(character.inventory || "[]")),
       skills: JSON.parse(character.skills || "{}"),
       notes: character.notes,
     };
@@ -0,0 +1,192 @@
+import type { GameState, GameStateManager } from "../../../state.js";
+import type {
+  CharacterProfile,
+  ChaseEvent,
+  ChaseState,
+  NPCProfile,
+} from "../models/gameTypes.js";
+import {
+  beginChaseRound,
+  createDiceState,
+  getChaseEndReason,
+  isIncapacitated,
+  resolveChaseTurn,
+  SeededDiceRng,
+  setChaseParticipantStatus,
+  startChase,
+} from "../../mechanics/index.js";
+
+/**
+ * Chase Manager - runs chase rounds around the investigator's actions
+ *
+ * A chase action sets up a chase (speed rolls and a track of locations); from
+ * then on every chase action runs one round of movement for everyone, until
+ * the quarry is caught or escapes. Any other action breaks off the chase.
+ */
+export class ChaseManager {
+  /**
+   * Before the Action Agent runs: open, continue or break off the chase
+   */
+  beginTurn(gameStateManager: GameStateManager): ChaseState | null {
+    const gameState = gameStateManager.getGameState() as GameState;
+
+    // A finished chase has been narrated; drop it
+    if (gameState.chase?.endedReason) {
+      gameStateManager.clearChase();
+    }
+
+    const analysis = gameState.temporaryInfo.currentActionAnalysis;
+    let chase = gameState.chase;
+    if (chase && analysis?.actionType !== "chase") {
+      chase = this.breakOff(gameState, chase);
+      gameStateManager.setChase(chase);
+      console.log(`🏃 Chase ended: ${chase.endedReason}`);
+      return chase;
+    }
+    if (!chase && analysis?.actionType !== "chase") return null;
+
+    const rng = new SeededDiceRng(gameState.dice ?? createDiceState(gameState.sessionId));
+    if (chase) {
+      chase = { ...chase, events: [] };
+    } else {
+      chase = this.openChase(gameState, rng);
+      if (!chase) return null;
+      console.log(`🏃 Chase started: ${chase.participants.map(p => `${p.name}(${p.role}, MOV ${p.mov})`).join(", ")}`);
+    }
+
+    if (!chase.endedReason) {
+      chase = this.runRound(gameStateManager, chase, rng);
+    }
+    gameStateManager.setDiceState(rng.getState());
+    gameStateManager.setChase(chase);
+
+    if (chase.endedReason) {
+      console.log(`🏃 Chase ended: ${chase.endedReason}`);
+    }
+    return chase;
+  }
+
+  /**
+   * Speed rolls and the track, from the investigators able to run and the other side
+   */
+  private openChase(gameState: GameState, rng: SeededDiceRng): ChaseState | null {
+    if (isIncapacitated(gameState.playerCharacter.status)) return null;
+    const opponents = this.findOpponents(gameState);
+    if (opponents.length === 0) return null;
+
+    // Investigators are far more often running from something than after it
+    const role = gameState.temporaryInfo.currentActionAnalysis?.chaseRole ?? "quarry";
+    const rngState = rng.getState().state;
+    const party = (gameState.party || []).filter(member => !isIncapacitated(member.status));
+    const chase = startChase([gameState.playerCharacter, ...party], opponents, role, rng);
+    return { ...chase, events: this.withRngState(chase.events, rngState) };
+  }
+
+  /**
+   * The other side is the action's target, or failing that the NPCs in the
+   * scene hostile to the party
+   */
+  private findOpponents(gameState: GameState): CharacterProfile[] {
+    const investigators = [gameState.playerCharacter, ...(gameState.party || [])];
+    const targetName = gameState.temporaryInfo.currentActionAnalysis?.target?.name?.toLowerCase();
+    const presentNames = new Set(
+      (gameState.currentScenario?.characters || []).map(c => c.name.toLowerCase())
+    );
+    const able = gameState.npcCharacters.filter(npc =>
+      npc.status.hp > 0 && !isIncapacitated(npc.status)
+    );
+
+    if (targetName) {
+      const targets = able.filter(npc => {
+        const name = npc.name.toLowerCase();
+        return name === targetName || name.includes(targetName);
+      });
+      if (targets.length > 0) return targets;
+    }
+
+    return able.filter(npc => {
+      const present = presentNames.size === 0 || presentNames.has(npc.name.toLowerCase());
+      const hostile = ((npc as NPCProfile).relationships || []).some(rel =>
+        investigators.some(investigator => rel.targetId === investigator.id || rel.targetName === investigator.name) &&
+        (rel.relationshipType === "enemy" || rel.attitude <= -50)
+      );
+      return present && hostile;
+    });
+  }
+
+  /**
+   * The investigator stopped running (hid, turned to fight, gave up)
+   */
+  private breakOff(gameState: GameState, chase: ChaseState): ChaseState {
+    let updated: ChaseState = { ...chase, events: [] };
+    for (const participant of chase.participants) {
+      if (participant.side === "investigators" && participant.status === "active") {
+        updated = setChaseParticipantStatus(updated, participant.characterId, "stopped");
+      }
+    }
+    return {
+      ...updated,
+      endedReason: `${gameState.playerCharacter.name} broke off the chase`,
+    };
+  }
+
+  /**
+   * Participants at 0 HP, unconscious, dying or dead stop running
+   */
+  private refreshStopped(gameStateManager: GameStateManager, chase: ChaseState): ChaseState {
+    let updated = chase;
+    for (const participant of chase.participants) {
+      if (participant.status !== "active") continue;
+      const character = gameStateManager.findCharacterById(participant.characterId);
+      if (!character || character.status.hp <= 0 || isIncapacitated(character.status)) {
+        updated = setChaseParticipantStatus(updated, participant.characterId, "stopped");
+      }
+    }
+    return updated;
+  }
+
+  /**
+   * Everyone still running spends their movement actions, in DEX order.
+   * Damage from failed hazards is applied as it happens, and conditions
+   * timed in rounds run down as the round begins.
+   */
+  private runRound(
+    gameStateManager: GameStateManager,
+    start: ChaseState,
+    rng: SeededDiceRng
+  ): ChaseState {
+    gameStateManager.advanceConditionTimers("rounds");
+    let chase = beginChaseRound(this.refreshStopped(gameStateManager, start));
+
+    for (const participant of chase.participants) {
+      if (getChaseEndReason(chase)) break;
+      const character = gameStateManager.findCharacterById(participant.characterId);
+      if (!character) continue;
+
+      const rngState = rng.getState().state;
+      const turn = resolveChaseTurn(chase, participant.characterId, character, rng);
+      chase = turn.chase;
+      if (!turn.event) continue;
+
+      const [event] = this.withRngState([turn.event], rngState);
+      gameStateManager.markExperienceChecks(event.rolls);
+      if (event.damage > 0) {
+        const healthEvents = gameStateManager.applyDamage(event.characterId, event.damage, rng);
+        event.summary = [event.summary, ...healthEvents.map(e => e.summary)].join("; ");
+        event.rolls.push(
+          ...healthEvents.flatMap(e => e.check ? [{ kind: "skill_check" as const, ...e.check }] : [])
+        );
+      }
+      chase = this.refreshStopped(gameStateManager, { ...chase, events: [...chase.events, event] });
+    }
+
+    return { ...chase, endedReason: getChaseEndReason(chase) };
+  }
+
+  private withRngState(events: ChaseEvent[], rngState: number): ChaseEvent[] {
+    return events.map(event => ({
+      ...event,
+      rolls: event.rolls.map(roll => ({ ...roll, rngState })),
+    }));
+  }
+}
@@ -0,0 +1 @@
+export { ChaseManager } from './chaseManager.js';
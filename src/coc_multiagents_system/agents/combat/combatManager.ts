@@ -0,0 +1,317 @@
+import type { ActionResult, GameState, GameStateManager } from "../../../state.js";
+import type {
+  CharacterProfile,
+  Combatant,
+  CombatEncounter,
+  HealthEvent,
+  NPCProfile,
+  WeaponData,
+} from "../models/gameTypes.js";
+import type { MemoryAgent } from "../memory/util.js";
+import {
+  advanceCombatTurn,
+  canAct,
+  createDiceState,
+  getBlockingConditions,
+  getCombatEndReason,
+  getCurrentCombatant,
+  getReadiedWeapon,
+  getWaitingInvestigator,
+  isIncapacitated,
+  resolveCombatAttack,
+  SeededDiceRng,
+  setCombatantStatus,
+  startEncounter,
+} from "../../mechanics/index.js";
+
+/**
+ * Combat Manager - runs combat rounds around the investigator's actions
+ *
+ * A combat action opens an encounter; from then on every turn resolves the
+ * NPCs acting ahead of the investigator, the investigator's own action (via
+ * the Action Agent), then the NPCs acting after them, until one side is out.
+ * An investigator can only act on their own turn; the fight waits for them.
+ */
+export class CombatManager {
+  private memoryAgent: MemoryAgent | null;
+
+  /**
+   * @param memoryAgent rules database, for looking up the weapons characters carry
+   */
+  constructor(memoryAgent?: MemoryAgent) {
+    this.memoryAgent = memoryAgent ?? null;
+  }
+
+  /**
+   * Before the Action Agent runs: open or continue an encounter and let NPCs
+   * with higher initiative act before the investigator
+   */
+  beginTurn(gameStateManager: GameStateManager): CombatEncounter | null {
+    const gameState = gameStateManager.getGameState() as GameState;
+
+    // A finished fight has been narrated; drop it
+    if (gameState.combat?.endedReason) {
+      gameStateManager.clearCombat();
+    }
+
+    let encounter = gameState.combat;
+    if (!encounter) {
+      if (gameState.temporaryInfo.currentActionAnalysis?.actionType !== "combat") {
+        return null;
+      }
+      encounter = this.openEncounter(gameState);
+      if (!encounter) return null;
+      console.log(`⚔️ Combat started: ${encounter.order.map(c => `${c.name}(${c.initiative})`).join(" > ")}`);
+    }
+
+    encounter = { ...encounter, events: [] };
+    encounter = this.runNpcTurns(gameStateManager, encounter, false);
+    gameStateManager.setCombat(encounter);
+    return encounter;
+  }
+
+  /**
+   * Before the Action Agent runs: when it is another investigator's turn,
+   * record that the acting investigator's action waits for them and return
+   * true; the action is not resolved
+   */
+  rejectOutOfTurnAction(gameStateManager: GameStateManager): boolean {
+    const gameState = gameStateManager.getGameState() as GameState;
+    const waiting = gameState.combat && getWaitingInvestigator(gameState.combat, gameState.playerCharacter.id);
+    if (!waiting) return false;
+
+    const actionResult: ActionResult = {
+      timestamp: new Date(),
+      gameTime: gameState.timeOfDay || "Unknown time",
+      location: gameState.currentScenario?.location || "Unknown location",
+      character: gameState.playerCharacter.name,
+      result: `${gameState.playerCharacter.name} cannot act yet: it is ${waiting.name}'s turn in the combat round`,
+      diceRolls: [],
+      timeConsumption: "instant",
+    };
+    gameStateManager.addActionResult(actionResult);
+    console.log(`⚔️ ${gameState.playerCharacter.name} acted out of turn; waiting for ${waiting.name}`);
+    return true;
+  }
+
+  /**
+   * After the Action Agent runs (flee/surrender already recorded on the
+   * encounter): end the investigator's turn and resolve NPC turns until the
+   * next investigator is up
+   */
+  endInvestigatorTurn(gameStateManager: GameStateManager): CombatEncounter | null {
+    const gameState = gameStateManager.getGameState() as GameState;
+    let encounter = gameState.combat;
+    if (!encounter || encounter.endedReason) return encounter;
+    // Another investigator's turn: nobody has acted, so nothing moves on
+    if (getWaitingInvestigator(encounter, gameState.playerCharacter.id)) return encounter;
+
+    const current = getCurrentCombatant(encounter);
+    const investigatorActed = !current || current.characterId === gameState.playerCharacter.id;
+    encounter = this.runNpcTurns(gameStateManager, encounter, investigatorActed);
+    gameStateManager.setCombat(encounter);
+
+    if (encounter.endedReason) {
+      console.log(`⚔️ Combat ended: ${encounter.endedReason}`);
+    }
+    return encounter;
+  }
+
+  /**
+   * Build initiative from the investigators able to fight and the opponents present
+   */
+  private openEncounter(gameState: GameState): CombatEncounter | null {
+    if (isIncapacitated(gameState.playerCharacter.status)) return null;
+    const opponents = this.findOpponents(gameState);
+    if (opponents.length === 0) return null;
+    const party = (gameState.party || []).filter(member => !isIncapacitated(member.status));
+    return startEncounter([gameState.playerCharacter, ...party], opponents);
+  }
+
+  /**
+   * Opponents are the action's target plus NPCs in the scene hostile to the party
+   */
+  private findOpponents(gameState: GameState): CharacterProfile[] {
+    const investigators = [gameState.playerCharacter, ...(gameState.party || [])];
+    const targetName = gameState.temporaryInfo.currentActionAnalysis?.target?.name?.toLowerCase();
+    const presentNames = new Set(
+      (gameState.currentScenario?.characters || []).map(c => c.name.toLowerCase())
+    );
+
+    return gameState.npcCharacters.filter(npc => {
+      if (npc.status.hp <= 0 || isIncapacitated(npc.status)) return false;
+      const name = npc.name.toLowerCase();
+      if (targetName && (name === targetName || name.includes(targetName))) {
+        return true;
+      }
+
+      const present = presentNames.size === 0 || presentNames.has(name);
+      const hostile = ((npc as NPCProfile).relationships || []).some(rel =>
+        investigators.some(investigator => rel.targetId === investigator.id || rel.targetName === investigator.name) &&
+        (rel.relationshipType === "enemy" || rel.attitude <= -50)
+      );
+      return present && hostile;
+    });
+  }
+
+  /**
+   * Mark combatants at 0 HP, unconscious, dying or dead as fallen
+   */
+  private refreshFallen(gameStateManager: GameStateManager, encounter: CombatEncounter): CombatEncounter {
+    let updated = encounter;
+    for (const combatant of encounter.order) {
+      if (combatant.status !== "active") continue;
+      const character = gameStateManager.findCharacterById(combatant.characterId);
+      if (!character || character.status.hp <= 0 || isIncapacitated(character.status)) {
+        updated = setCombatantStatus(updated, combatant.characterId, "fallen");
+      }
+    }
+    return updated;
+  }
+
+  /**
+   * Resolve opponent turns until an investigator is up or the fight ends;
+   * an investigator other than the acting one is waited for, not skipped.
+   * Whenever a new round begins, conditions timed in rounds run down and
+   * dying characters roll CON.
+   */
+  private runNpcTurns(
+    gameStateManager: GameStateManager,
+    start: CombatEncounter,
+    advanceFirst: boolean
+  ): CombatEncounter {
+    const gameState = gameStateManager.getGameState() as GameState;
+    const rng = new SeededDiceRng(gameState.dice ?? createDiceState(gameState.sessionId));
+    const advance = (current: CombatEncounter): CombatEncounter => {
+      const next = advanceCombatTurn(current);
+      if (next.round <= current.round) return next;
+      gameStateManager.advanceConditionTimers("rounds");
+      return this.resolveDyingChecks(gameStateManager, next, rng);
+    };
+
+    let encounter = this.refreshFallen(gameStateManager, start);
+    if (advanceFirst) {
+      encounter = advance(encounter);
+    }
+
+    // Each opponent acts at most once per call; bounds the loop
+    for (let step = 0; step < encounter.order.length; step++) {
+      const endedReason = getCombatEndReason(encounter);
+      if (endedReason) {
+        encounter = { ...encounter, endedReason };
+        break;
+      }
+
+      const current = getCurrentCombatant(encounter);
+      if (!current) {
+        encounter = advance(encounter);
+        continue;
+      }
+      if (current.side === "investigators") break;
+
+      encounter = this.resolveNpcTurn(gameStateManager, encounter, current, rng);
+      encounter = this.refreshFallen(gameStateManager, encounter);
+      if (getCombatEndReason(encounter)) continue;
+      encounter = advance(encounter);
+    }
+
+    const endedReason = encounter.endedReason ?? getCombatEndReason(encounter);
+    gameStateManager.setDiceState(rng.getState());
+    return { ...encounter, endedReason };
+  }
+
+  /**
+   * An opponent attacks the first investigator still standing, unless a
+   * condition (stunned) costs it the turn
+   */
+  private resolveNpcTurn(
+    gameStateManager: GameStateManager,
+    encounter: CombatEncounter,
+    attackerEntry: Combatant,
+    rng: SeededDiceRng
+  ): CombatEncounter {
+    const attacker = gameStateManager.findCharacterById(attackerEntry.characterId);
+    const targetEntry = encounter.order.find(c => c.side === "investigators" && c.status === "active");
+    const target = targetEntry ? gameStateManager.findCharacterById(targetEntry.characterId) : undefined;
+    if (!attacker || !target) return encounter;
+
+    if (!canAct(attacker.status)) {
+      const event = {
+        round: encounter.round,
+        actor: attacker.name,
+        target: attacker.name,
+        summary: `${attacker.name} is ${getBlockingConditions(attacker.status).join(", ")} and loses the turn`,
+        damage: 0,
+        rolls: [],
+      };
+      return { ...encounter, events: [...encounter.events, event] };
+    }
+
+    const rngState = rng.getState().state;
+    const weapons = this.getWeapons();
+    const { event, damagedId, firearm } = resolveCombatAttack(
+      attacker,
+      target,
+      attackerEntry.usesFirearm,
+      encounter.round,
+      rng,
+      {
+        attacker: getReadiedWeapon(attacker, weapons, attackerEntry.usesFirearm),
+        defender: getReadiedWeapon(target, weapons, false),
+      }
+    );
+    event.rolls = event.rolls.map(roll => ({ ...roll, rngState }));
+    if (firearm) {
+      gameStateManager.setFirearmState(attacker, firearm.weapon, firearm.state);
+    }
+    // A successful Dodge or Fight Back earns the investigator an experience check
+    gameStateManager.markExperienceChecks(event.rolls);
+
+    if (damagedId) {
+      const healthEvents = gameStateManager.applyDamage(damagedId, event.damage, rng);
+      event.summary = [event.summary, ...healthEvents.map(e => e.summary)].join("; ");
+      event.rolls.push(...this.healthChecks(healthEvents));
+    }
+
+    return { ...encounter, events: [...encounter.events, event] };
+  }
+
+  /**
+   * New round: every dying character rolls CON
+   */
+  private resolveDyingChecks(
+    gameStateManager: GameStateManager,
+    encounter: CombatEncounter,
+    rng: SeededDiceRng
+  ): CombatEncounter {
+    const rngState = rng.getState().state;
+    const healthEvents = gameStateManager.resolveDyingChecks(rng);
+    if (healthEvents.length === 0) return encounter;
+
+    const events = healthEvents.map(healthEvent => ({
+      round: encounter.round,
+      actor: healthEvent.characterName,
+      target: healthEvent.characterName,
+      summary: healthEvent.summary,
+      damage: 0,
+      rolls: this.healthChecks([healthEvent]).map(roll => ({ ...roll, rngState })),
+    }));
+    return this.refreshFallen(gameStateManager, { ...encounter, events: [...encounter.events, ...events] });
+  }
+
+  /**
+   * Weapons table from the rules database
+   */
+  private getWeapons(): WeaponData[] {
+    try {
+      return this.memoryAgent?.getAllWeapons() ?? [];
+    } catch (error) {
+      console.error("Combat Manager: Failed to load weapons:", error);
+      return [];
+    }
+  }
+
+  private healthChecks(healthEvents: HealthEvent[]) {
+    return healthEvents.flatMap(e => e.check ? [{ kind: "skill_check" as const, ...e.check }] : []);
+  }
+}
@@ -0,0 +1 @@
+export { CombatManager } from './combatManager.js';
@@ -5,11 +5,18 @@ import type { ScenarioProfile, ScenarioSnapshot } from "../models/scenarioTypes.
 import { ScenarioLoader } from "../memory/scenarioloader/scenarioLoader.js";
 import { updateCurrentScenarioWithCheckpoint } from "../memory/index.js";
 import type { CoCDatabase } from "../memory/database/index.js";
+import { isIncapacitated } from "../../mechanics/index.js";
 import {
   ModelProviderName,
   ModelClass,
-  generateText,
+  generateStructured,
 } from "../../../models/index.js";
+import {
+  progressionDecisionSchema,
+  type ProgressionDecisionReply,
+  sceneTransitionDecisionSchema,
+  type SceneTransitionDecisionReply,
+} from "./directorSchema.js";
 
 interface DirectorRuntime {
   modelProvider: ModelProviderName;
@@ -41,6 +48,7 @@ export class DirectorAgent {
   async analyzeProgressionNeeds(gameStateManager: GameStateManager, userQuery?: string): Promise<DirectorDecision> {
     const runtime = createRuntime();
     const gameState = gameStateManager.getGameState();
+    const investigators = gameStateManager.getInvestigators();
     
     // 记录用户查询历史
     if (userQuery) {
@@ -90,12 +98,17 @@ export class DirectorAgent {
         tension: gameState.tension,
         totalCluesDiscovered: gameState.discoveredClues.length,
         visitedScenarioCount: gameState.visitedScenarios.length,
-        playerStatus: {
-          hp: gameState.playerCharacter.status.hp,
-          maxHp: gameState.playerCharacter.status.maxHp,
-          sanity: gameState.playerCharacter.status.sanity,
-          maxSanity: gameState.playerCharacter.status.maxSanity
-        }
+        partyStatus: investigators.map(investigator => ({
+          name: investigator.name,
+          hp: investigator.status.hp,
+          maxHp: investigator.status.maxHp,
+          sanity: investigator.status.sanity,
+          maxSanity: investigator.status.maxSanity,
+          conditions: investigator.status.conditions || [],
+          incapacitated: isIncapacitated(investigator.status)
+        })),
+        // 全队都无法行动时不推进场景
+        partyIncapacitated: investigators.every(investigator => isIncapacitated(investigator.status))
       },
       
       // 最新用户查询
@@ -105,26 +118,15 @@ export class DirectorAgent {
     // 使用模板和LLM分析剧情推进需求
     const prompt = composeTemplate(template, {}, templateContext, "handlebars");
 
-    const response = await generateText({
+    // 按 schema 校验 LLM 的 JSON 响应，无法修复时抛出 StructuredOutputError
+    const parsedResponse = await generateStructured<ProgressionDecisionReply>({
       runtime,
       context: prompt,
       modelClass: ModelClass.MEDIUM,
+      schema: progressionDecisionSchema,
+      schemaName: "Director",
     });
 
-    // 解析LLM的JSON响应
-    let parsedResponse;
-    try {
-      parsedResponse = JSON.parse(response);
-    } catch (error) {
-      console.error("Failed to parse director response as JSON:", error);
-      return {
-        shouldProgress: false,
-        targetSnapshotId: undefined,
-        reasoning: "Unable to analyze progression needs - JSON parse error",
-        timestamp: new Date()
-      };
-    }
-
     const estimatedShortActions = 
       typeof parsedResponse.estimatedShortActions === "number" && parsedResponse.estimatedShortActions > 0
         ? parsedResponse.estimatedShortActions
@@ -137,10 +139,10 @@ export class DirectorAgent {
     // 构建 Director Decision
     const decision: DirectorDecision = {
       shouldProgress: parsedResponse.shouldProgress || false,
-      targetSnapshotId: parsedResponse.targetSnapshotId,
+      targetSnapshotId: parsedResponse.targetSnapshotId ?? undefined,
       estimatedShortActions,
       increaseShortActionCapBy,
-      reasoning: parsedResponse.reasoning || parsedResponse.recommendation || "No reasoning provided",
+      reasoning: parsedResponse.reasoning,
       timestamp: new Date()
     };
 
@@ -413,6 +415,15 @@ export class DirectorAgent {
     console.log(`\n=== Director Agent: Handling action-driven scene change ===`);
     console.log(`Target: ${targetSceneName}`);
     console.log(`Reason: ${reason}`);
+
+    // 角色昏迷、濒死或死亡时无法自行离开场景
+    const player = gameStateManager.getGameState().playerCharacter;
+    if (isIncapacitated(player.status)) {
+      gameStateManager.setSceneTransitionRejection(
+        `${player.name} is ${player.status.conditions.join(", ")} and cannot leave the scene`
+      );
+      return;
+    }
   }
 
   /**
@@ -571,17 +582,25 @@ export class DirectorAgent {
     console.log(`Current Scene: ${gameState.currentScenario.name}`);
     console.log(`Connected Scenes Available: ${connectedScenes.length}`);
 
-    const response = await generateText({
+    const parsed = await generateStructured<SceneTransitionDecisionReply>({
       runtime,
       context: prompt,
       modelClass: ModelClass.LARGE,
+      schema: sceneTransitionDecisionSchema,
+      schemaName: "Director scene transition",
     });
 
     console.log("\n=== Director Response ===");
-    console.log(response);
-
-    // 解析 JSON 响应
-    const decision = this.parseSceneTransitionDecision(response);
+    console.log(JSON.stringify(parsed));
+
+    const decision: SceneTransitionDecision = {
+      shouldTransition: parsed.shouldTransition,
+      targetSceneId: parsed.targetSceneId || null,
+      reasoning: parsed.reasoning,
+      urgency: parsed.urgency || "low",
+      transitionType: parsed.transitionType || "player-initiated",
+      suggestedTransitionNarrative: parsed.suggestedTransitionNarrative || "",
+    };
     
     // 验证目标场景 ID
     if (decision.shouldTransition && decision.targetSceneId) {
@@ -596,43 +615,6 @@ export class DirectorAgent {
     return decision;
   }
 
-  /**
-   * 解析场景切换决策 JSON
-   */
-  private parseSceneTransitionDecision(response: string): SceneTransitionDecision {
-    try {
-      // 尝试提取 JSON
-      const jsonMatch = response.match(/```json\s*([\s\S]*?)\s*```/) || 
-                       response.match(/\{[\s\S]*\}/);
-      
-      if (!jsonMatch) {
-        throw new Error("No JSON found in response");
-      }
-
-      const jsonStr = jsonMatch[1] || jsonMatch[0];
-      const parsed = JSON.parse(jsonStr);
-
-      return {
-        shouldTransition: parsed.shouldTransition || false,
-        targetSceneId: parsed.targetSceneId || null,
-        reasoning: parsed.reasoning || "No reasoning provided",
-        urgency: parsed.urgency || "low",
-        transitionType: parsed.transitionType || "player-initiated",
-        suggestedTransitionNarrative: parsed.suggestedTransitionNarrative || "",
-      };
-    } catch (error) {
-      console.error("Failed to parse scene transition decision:", error);
-      return {
-        shouldTransition: false,
-        targetSceneId: null,
-        reasoning: "Failed to parse director response",
-        urgency: "low",
-        transitionType: "player-initiated",
-        suggestedTransitionNarrative: "",
-      };
-    }
-  }
-
   /**
    * 决策并自动执行场景切换（如果决策为 true）
    */
@@ -0,0 +1,55 @@
+import type { OutputSchema } from "../../../models/index.js";
+
+/**
+ * Shape of the Director's progression decision
+ */
+export const progressionDecisionSchema: OutputSchema = {
+  type: "object",
+  properties: {
+    shouldProgress: { type: "boolean" },
+    targetSnapshotId: { type: "string", nullable: true },
+    estimatedShortActions: { type: "number", nullable: true },
+    increaseShortActionCapBy: { type: "number", nullable: true },
+    reasoning: { type: "string" },
+  },
+  required: ["shouldProgress", "reasoning"],
+};
+
+/**
+ * Shape of the Director's scene transition decision
+ */
+export const sceneTransitionDecisionSchema: OutputSchema = {
+  type: "object",
+  properties: {
+    shouldTransition: { type: "boolean" },
+    targetSceneId: { type: "string", nullable: true },
+    reasoning: { type: "string" },
+    urgency: { type: "string", enum: ["low", "medium", "high"] },
+    transitionType: { type: "string", enum: ["immediate", "gradual", "player-initiated"] },
+    suggestedTransitionNarrative: { type: "string", nullable: true },
+  },
+  required: ["shouldTransition", "reasoning"],
+};
+
+/**
+ * The Director's progression decision, as validated by progressionDecisionSchema
+ */
+export interface ProgressionDecisionReply {
+  shouldProgress: boolean;
+  targetSnapshotId?: string | null;
+  estimatedShortActions?: number | null;
+  increaseShortActionCapBy?: number | null;
+  reasoning: string;
+}
+
+/**
+ * The Director's scene transition decision, as validated by sceneTransitionDecisionSchema
+ */
+export interface SceneTransitionDecisionReply {
+  shouldTransition: boolean;
+  targetSceneId?: string | null;
+  reasoning: string;
+  urgency?: "low" | "medium" | "high";
+  transitionType?: "immediate" | "gradual" | "player-initiated";
+  suggestedTransitionNarrative?: string | null;
+}
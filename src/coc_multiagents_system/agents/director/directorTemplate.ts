@@ -71,7 +71,13 @@ Monitor game progress and determine when to advance the story while respecting p
 {{/if}}
 
 ## 📊 Game State
-**Player**: HP {{gameStats.playerStatus.hp}}/{{gameStats.playerStatus.maxHp}} | Sanity {{gameStats.playerStatus.sanity}}/{{gameStats.playerStatus.maxSanity}}
+**Party**:
+{{#each gameStats.partyStatus}}
+- {{this.name}}: HP {{this.hp}}/{{this.maxHp}} | Sanity {{this.sanity}}/{{this.maxSanity}}{{#if this.incapacitated}} | ⚠️ incapacitated ({{#each this.conditions}}{{this}}{{#unless @last}}, {{/unless}}{{/each}}){{/if}}
+{{/each}}
+{{#if gameStats.partyIncapacitated}}
+⚠️ **Whole party incapacitated**: do not progress to a new scene; the story stays with their immediate fate (rescue, capture or death).
+{{/if}}
 **Progress**: {{gameStats.totalCluesDiscovered}} clues found | {{gameStats.visitedScenarioCount}} scenes visited
 **Latest Query**: "{{latestUserQuery}}"
 
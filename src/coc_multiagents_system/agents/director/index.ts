@@ -1,3 +1,4 @@
 export { getDirectorTemplate, getSceneTransitionTemplate } from './directorTemplate.js';
 export { DirectorAgent, type ConnectedSceneInfo, type SceneTransitionDecision, type SceneTransitionResult } from './directorAgent.js';
+export { progressionDecisionSchema, sceneTransitionDecisionSchema } from './directorSchema.js';
 export { ProgressionMonitor } from './progressionMonitor.js';
\ No newline at end of file
@@ -1,4 +1,5 @@
 import type { GameState, GameStateManager, ActionResult } from "../../../state.js";
+import { isIncapacitated } from "../../mechanics/index.js";
 
 /**
  * Progression Monitor - 监听游戏状态变化，判断是否需要启动 Director Agent
@@ -48,23 +49,28 @@ export class ProgressionMonitor {
   }
 
   /**
-   * 检查所有玩家是否都达到场景短行动上限
+   * 检查调查员小队是否都达到场景短行动上限
    * 上限规则：短行动计数达到当前场景上限（estimatedShortActions），默认3
+   * 昏迷、濒死或死亡的调查员无法行动，不计入
    */
   private checkAllPlayersReachedActionCap(gameState: GameState): boolean {
     const playerTimeConsumption = gameState.scenarioTimeState.playerTimeConsumption;
     const shortActionCap = this.getShortActionCap(gameState);
     
     // 如果没有任何玩家行动记录，不触发
-    const playerIds = Object.keys(playerTimeConsumption);
-    if (playerIds.length === 0) {
+    if (Object.keys(playerTimeConsumption).length === 0) {
       return false;
     }
 
-    // 所有有记录的玩家：短行动达到上限才算达标
-    return playerIds.every(playerId => {
-      const playerTime = playerTimeConsumption[playerId];
-      return playerTime.totalShortActions >= shortActionCap;
+    // 小队中每个能行动的调查员（按名字记录）：短行动达到上限才算达标，尚未行动的计为 0
+    const investigators = [gameState.playerCharacter, ...(gameState.party || [])]
+      .filter(investigator => !isIncapacitated(investigator.status));
+    if (investigators.length === 0) {
+      return false;
+    }
+    return investigators.every(investigator => {
+      const playerTime = playerTimeConsumption[investigator.name];
+      return (playerTime?.totalShortActions ?? 0) >= shortActionCap;
     });
   }
 
@@ -1,2 +1,3 @@
 export { KeeperAgent } from './keeperAgent.js';
-export { getKeeperTemplate } from './keeperTemplate.js';
\ No newline at end of file
+export { getKeeperTemplate } from './keeperTemplate.js';
+export { keeperOutputSchema } from './keeperSchema.js';
\ No newline at end of file
@@ -2,12 +2,16 @@ import { getKeeperTemplate } from "./keeperTemplate.js";
 import { composeTemplate } from "../../../template.js";
 import type { GameState, ActionResult, ActionAnalysis } from "../../../state.js";
 import { GameStateManager } from "../../../state.js";
-import type { CharacterProfile, NPCProfile } from "../models/gameTypes.js";
+import type { CharacterCondition, CharacterProfile, NPCProfile, OpposedCheckResult, SkillCheckResult } from "../models/gameTypes.js";
 import {
   ModelProviderName,
   ModelClass,
-  generateText,
+  generateStructured,
 } from "../../../models/index.js";
+import { describeConditions, formatInventoryItem } from "../../mechanics/index.js";
+import { type ClueRevelations, type KeeperReply, keeperOutputSchema } from "./keeperSchema.js";
+
+const HEALTH_CONDITIONS: CharacterCondition[] = ["major_wound", "unconscious", "dying", "stabilised", "dead"];
 
 interface KeeperRuntime {
   modelProvider: ModelProviderName;
@@ -25,9 +29,10 @@ const createRuntime = (): KeeperRuntime => ({
 export class KeeperAgent {
 
   /**
-   * Generate narrative description with clue revelation based on current game state and user query
+   * Generate narrative description with clue revelation based on current game state and user query.
+   * roundSize > 1 narrates the last roundSize actions together, as one collect round.
    */
-  async generateNarrative(characterInput: string, gameStateManager: GameStateManager): Promise<{narrative: string, clueRevelations: any, updatedGameState: GameState}> {
+  async generateNarrative(characterInput: string, gameStateManager: GameStateManager, roundSize = 1): Promise<{narrative: string, clueRevelations: any, updatedGameState: GameState}> {
     const runtime = createRuntime();
     const gameState = gameStateManager.getGameState();
     
@@ -36,6 +41,16 @@ export class KeeperAgent {
     
     // 2. 获取最新的完整的action result
     const latestCompleteActionResult = this.getLatestCompleteActionResult(gameState);
+
+    // 2b. 集体回合：本回合所有调查员的行动结果（按结算顺序）
+    const roundActionResults = roundSize > 1
+      ? gameState.temporaryInfo.actionResults.slice(-roundSize)
+      : [];
+
+    // 2c. 本次叙述的行动：集体回合取全部，否则取最新一条
+    const narratedResults = roundActionResults.length > 0
+      ? roundActionResults
+      : latestCompleteActionResult ? [latestCompleteActionResult] : [];
     
     // 3. 获取场景中所有角色的完整属性
     const allSceneCharacters = this.extractAllSceneCharactersWithCompleteAttributes(gameState);
@@ -51,6 +66,32 @@ export class KeeperAgent {
     const isTransition = gameState.temporaryInfo.transition;
     const previousScenarioInfo = isTransition ? this.extractPreviousScenarioInfo(gameState) : null;
     
+    // 5b. 检测推骰（pushed roll）结果
+    const pushedRolls = narratedResults.flatMap(result => this.extractPushedRoll(result) ?? []);
+
+    // 5c. 提取对抗检定结果
+    const opposedChecks = narratedResults.flatMap(result => this.extractOpposedChecks(result));
+
+    // 5d. 战斗轮信息（先攻顺序、NPC自动行动、战斗结束原因）
+    const combat = this.extractCombatInfo(gameState);
+
+    // 5e. 伤势状态（重伤、昏迷、濒死、死亡）及治疗与恢复
+    const healthEvents = gameState.temporaryInfo.healthEvents || [];
+    const woundedCharacters = this.extractWoundedCharacters(gameState);
+
+    // 5e2. 其他状态（倒地、束缚、眩晕、致盲、醉酒、疲惫、疯狂）及本回合变化
+    const conditionEvents = gameState.temporaryInfo.conditionEvents || [];
+    const conditionedCharacters = this.extractConditionedCharacters(gameState);
+
+    // 5f. 理智检定结果（SAN损失、临时/不定性疯狂、疯狂发作）
+    const sanityChecks = narratedResults.flatMap(result => result.sanityChecks || []);
+
+    // 5g. 花费幸运值（把失败的检定变为成功）
+    const luckSpends = narratedResults.flatMap(result => result.luckSpend ?? []);
+
+    // 5h. 追逐轨道（地点、障碍、各方位置、本轮移动、追逐结束原因）
+    const chase = this.extractChaseInfo(gameState);
+
     // 6. 检测场景转换被拒绝的情况
     const sceneTransitionRejection = gameState.temporaryInfo.sceneTransitionRejection;
     
@@ -59,10 +100,13 @@ export class KeeperAgent {
     
     // Prepare template context (JSON-packed to keep template concise)
     const playerCharacterComplete = this.extractCompletePlayerCharacter(gameState.playerCharacter);
+    // 本回合不行动的其他调查员
+    const partyComplete = (gameState.party || []).map(member => this.extractCompleteCharacterAttributes(member));
     const templateContext = {
       characterInput,
       completeScenarioInfo,
       latestCompleteActionResult,
+      roundActionResults,
       playerCharacterComplete,
       allSceneCharacters,
       actionRelatedNpcs,
@@ -72,11 +116,26 @@ export class KeeperAgent {
       isTransition,
       previousScenarioInfo,
       sceneTransitionRejection,
+      pushedRolls,
+      opposedChecks,
+      combat,
+      healthEvents,
+      woundedCharacters,
+      showWounds: healthEvents.length > 0 || woundedCharacters.length > 0,
+      conditionEvents,
+      conditionedCharacters,
+      showConditions: conditionEvents.length > 0 || conditionedCharacters.length > 0,
+      sanityChecks,
+      luckSpends,
+      chase,
       scenarioContextJson: this.safeStringify(completeScenarioInfo),
       latestActionResultJson: latestCompleteActionResult
         ? this.safeStringify(latestCompleteActionResult)
         : "null",
+      roundActionResultsJson: this.safeStringify(roundActionResults),
       playerCharacterJson: this.safeStringify(playerCharacterComplete),
+      hasParty: partyComplete.length > 0,
+      partyJson: this.safeStringify(partyComplete),
       sceneCharactersJson: this.safeStringify(allSceneCharacters),
       actionRelatedNpcsJson: this.safeStringify(actionRelatedNpcs),
       previousScenarioJson: previousScenarioInfo 
@@ -87,27 +146,22 @@ export class KeeperAgent {
     // 使用模板和LLM生成叙事和线索揭示
     const prompt = composeTemplate(template, {}, templateContext, "handlebars");
 
-    const response = await generateText({
+    // 按 schema 校验 LLM 的 JSON 响应，无法修复时抛出 StructuredOutputError，不把原始文本当作叙事
+    const parsedResponse = await generateStructured<KeeperReply>({
       runtime,
       context: prompt,
       modelClass: ModelClass.MEDIUM,
+      schema: keeperOutputSchema,
+      schemaName: "Keeper",
     });
-
-    // 解析LLM的JSON响应
-    let parsedResponse;
-    try {
-      parsedResponse = JSON.parse(response);
-    } catch (error) {
-      console.error("Failed to parse keeper response as JSON:", error);
-      return {
-        narrative: response,
-        clueRevelations: { scenarioClues: [], npcClues: [], npcSecrets: [] },
-        updatedGameState: gameState
-      };
-    }
+    const clueRevelations: ClueRevelations = {
+      scenarioClues: parsedResponse.clueRevelations?.scenarioClues ?? [],
+      npcClues: parsedResponse.clueRevelations?.npcClues ?? [],
+      npcSecrets: parsedResponse.clueRevelations?.npcSecrets ?? [],
+    };
 
     // 更新游戏状态中的线索状态
-    const updatedGameState = this.updateClueStates(gameState, parsedResponse.clueRevelations, gameStateManager);
+    const updatedGameState = this.updateClueStates(gameState, clueRevelations, gameStateManager);
 
     // 清除 transition 标志（已经在叙事中处理过了）
     if (gameState.temporaryInfo.transition) {
@@ -120,8 +174,8 @@ export class KeeperAgent {
     }
 
     return {
-      narrative: parsedResponse.narrative || response,
-      clueRevelations: parsedResponse.clueRevelations || { scenarioClues: [], npcClues: [], npcSecrets: [] },
+      narrative: parsedResponse.narrative,
+      clueRevelations,
       updatedGameState
     };
   }
@@ -201,6 +255,104 @@ export class KeeperAgent {
     };
   }
 
+  /**
+   * 提取一次行动中的推骰结果（如有）
+   */
+  private extractPushedRoll(latestActionResult: ActionResult | null): SkillCheckResult | null {
+    if (!latestActionResult) return null;
+
+    const pushed = latestActionResult.diceRolls.find(
+      (roll) => roll.kind === "skill_check" && roll.pushed
+    );
+    return pushed && pushed.kind === "skill_check" ? pushed : null;
+  }
+
+  /**
+   * 提取一次行动中的对抗检定结果
+   */
+  private extractOpposedChecks(latestActionResult: ActionResult | null): OpposedCheckResult[] {
+    if (!latestActionResult) return [];
+
+    return latestActionResult.diceRolls.flatMap((roll) =>
+      roll.kind === "opposed_check" ? [roll] : []
+    );
+  }
+
+  /**
+   * 提取当前战斗遭遇的信息（如有）
+   */
+  private extractCombatInfo(gameState: GameState) {
+    const encounter = gameState.combat;
+    if (!encounter) return null;
+
+    return {
+      round: encounter.round,
+      order: encounter.order.map(c => ({
+        name: c.name,
+        side: c.side,
+        initiative: c.initiative,
+        status: c.status,
+      })),
+      events: encounter.events.map(e => e.summary),
+      ended: Boolean(encounter.endedReason),
+      endedReason: encounter.endedReason,
+    };
+  }
+
+  /**
+   * 提取当前追逐的轨道与各方位置（如有）
+   */
+  private extractChaseInfo(gameState: GameState) {
+    const chase = gameState.chase;
+    if (!chase) return null;
+
+    return {
+      round: chase.round,
+      track: chase.track.map(location => ({
+        index: location.index,
+        name: location.name,
+        obstacle: location.obstacle
+          ? `${location.obstacle.type}: ${location.obstacle.name}`
+          : null,
+        occupants: chase.participants
+          .filter(p => p.position === location.index)
+          .map(p => `${p.name} (${p.role}${p.status === "active" ? "" : `, ${p.status}`})`),
+      })),
+      events: chase.events.map(e => e.summary),
+      ended: Boolean(chase.endedReason),
+      endedReason: chase.endedReason,
+    };
+  }
+
+  /**
+   * 提取带有伤势状态的角色（重伤、昏迷、濒死、已稳定、死亡）
+   */
+  private extractWoundedCharacters(gameState: GameState) {
+    return [gameState.playerCharacter, ...(gameState.party || []), ...gameState.npcCharacters]
+      .map(character => ({
+        name: character.name,
+        hp: character.status.hp,
+        maxHp: character.status.maxHp,
+        conditions: (character.status.conditions || []).filter(c => HEALTH_CONDITIONS.includes(c)),
+      }))
+      .filter(character => character.conditions.length > 0);
+  }
+
+  /**
+   * 提取带有伤势以外状态的角色，附带效果和剩余时间
+   */
+  private extractConditionedCharacters(gameState: GameState) {
+    return [gameState.playerCharacter, ...(gameState.party || []), ...gameState.npcCharacters]
+      .map(character => ({
+        name: character.name,
+        conditions: describeConditions({
+          ...character.status,
+          conditions: (character.status.conditions || []).filter(c => !HEALTH_CONDITIONS.includes(c)),
+        }),
+      }))
+      .filter(character => character.conditions.length > 0);
+  }
+
   /**
    * 3. 提取场景中所有角色的完整属性
    */
@@ -234,8 +386,9 @@ export class KeeperAgent {
     // 收集相关的NPC名称
     const relatedNpcNames = new Set<string>();
     
-    // 添加action result中的角色（如果是NPC）
-    if (actionCharacterName && actionCharacterName !== gameState.playerCharacter.name) {
+    // 添加action result中的角色（如果是NPC，而不是任何一名调查员）
+    const investigatorNames = [gameState.playerCharacter, ...(gameState.party || [])].map(c => c.name);
+    if (actionCharacterName && !investigatorNames.includes(actionCharacterName)) {
       relatedNpcNames.add(actionCharacterName);
     }
     
@@ -326,7 +479,7 @@ export class KeeperAgent {
       },
       
       // 物品
-      inventory: character.inventory || [],
+      inventory: (character.inventory || []).map(formatInventoryItem),
       
       // 线索（如果是NPC）
       clues: npcData.clues || [],
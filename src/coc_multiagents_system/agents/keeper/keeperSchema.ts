@@ -0,0 +1,51 @@
+import type { OutputSchema } from "../../../models/index.js";
+
+/**
+ * Shape of the Keeper's reply: the narrative and the clues it reveals
+ */
+export const keeperOutputSchema: OutputSchema = {
+  type: "object",
+  properties: {
+    narrative: { type: "string" },
+    clueRevelations: {
+      type: "object",
+      properties: {
+        scenarioClues: { type: "array", items: { type: "string" } },
+        npcClues: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: { npcId: { type: "string" }, clueId: { type: "string" } },
+            required: ["npcId", "clueId"],
+          },
+        },
+        npcSecrets: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: { npcId: { type: "string" }, secretIndex: { type: "integer" } },
+            required: ["npcId", "secretIndex"],
+          },
+        },
+      },
+    },
+  },
+  required: ["narrative"],
+};
+
+/**
+ * Clues, NPC clues and NPC secrets the narrative reveals
+ */
+export interface ClueRevelations {
+  scenarioClues: string[];
+  npcClues: { npcId: string; clueId: string }[];
+  npcSecrets: { npcId: string; secretIndex: number }[];
+}
+
+/**
+ * The Keeper's reply, as validated by keeperOutputSchema
+ */
+export interface KeeperReply {
+  narrative: string;
+  clueRevelations?: Partial<ClueRevelations>;
+}
@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createCharacter } from "../../../mechanics/__tests__/helpers.js";
+import { type CollectRound, type RoundDeclaration, RoundCollector } from "../roundCollector.js";
+
+const harvey = createCharacter();
+const lucia = createCharacter({ id: "investigator-2", name: "Lucia Vargas" });
+
+const declaration = (character: typeof harvey, turnId: string): RoundDeclaration => ({
+  turnId,
+  characterId: character.id,
+  characterName: character.name,
+  input: "I search the study",
+});
+
+describe("RoundCollector", () => {
+  let closed: CollectRound[];
+  let collector: RoundCollector;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    closed = [];
+    collector = new RoundCollector((round) => closed.push(round));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("opens a round on the first action and waits for the rest of the party", () => {
+    const round = collector.declare("s1", declaration(harvey, "t1"), [harvey, lucia], 60_000);
+
+    expect(round.waitingFor).toEqual([{ characterId: "investigator-2", characterName: "Lucia Vargas" }]);
+    expect(collector.findRound("t1")?.roundId).toBe(round.roundId);
+    expect(collector.hasDeclared("s1", harvey.id)).toBe(true);
+    expect(collector.hasDeclared("s1", lucia.id)).toBe(false);
+    expect(closed).toEqual([]);
+  });
+
+  it("closes the round once everyone able to act has declared", () => {
+    collector.declare("s1", declaration(harvey, "t1"), [harvey, lucia], 60_000);
+    const round = collector.declare("s1", declaration(lucia, "t2"), [harvey, lucia], 60_000);
+
+    expect(round.waitingFor).toEqual([]);
+    expect(closed).toHaveLength(1);
+    expect(closed[0].declarations.map((d) => d.turnId)).toEqual(["t1", "t2"]);
+    expect(collector.getRound("s1")).toBeNull();
+
+    vi.advanceTimersByTime(60_000);
+    expect(closed).toHaveLength(1);
+  });
+
+  it("closes with what was declared when the timeout runs out", () => {
+    collector.declare("s1", declaration(harvey, "t1"), [harvey, lucia], 60_000);
+
+    vi.advanceTimersByTime(59_999);
+    expect(closed).toEqual([]);
+    vi.advanceTimersByTime(1);
+    expect(closed).toHaveLength(1);
+    expect(closed[0].waitingFor.map((w) => w.characterName)).toEqual(["Lucia Vargas"]);
+  });
+
+  it("refuses a second action from the same investigator in a round", () => {
+    collector.declare("s1", declaration(harvey, "t1"), [harvey, lucia], 60_000);
+
+    expect(() => collector.declare("s1", declaration(harvey, "t2"), [harvey, lucia], 60_000)).toThrow(
+      /already declared/,
+    );
+  });
+
+  it("keeps sessions apart, and drops a cancelled round without closing it", () => {
+    collector.declare("s1", declaration(harvey, "t1"), [harvey, lucia], 60_000);
+    collector.declare("s2", declaration(harvey, "t2"), [harvey, lucia], 60_000);
+
+    expect(collector.cancel("s1")?.declarations).toHaveLength(1);
+    vi.advanceTimersByTime(60_000);
+    expect(closed.map((round) => round.sessionId)).toEqual(["s2"]);
+    expect(collector.cancel("s1")).toBeNull();
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { TurnCancelledError, TurnQueue } from "../turnQueue.js";
+
+const deferred = () => {
+  let resolve!: () => void;
+  const promise = new Promise<void>((done) => {
+    resolve = done;
+  });
+  return { promise, resolve };
+};
+
+describe("TurnQueue", () => {
+  it("runs a session's jobs one at a time, in order", async () => {
+    const queue = new TurnQueue();
+    const gate = deferred();
+    const log: string[] = [];
+
+    const first = queue.enqueue("s1", ["t1"], async () => {
+      log.push("t1 start");
+      await gate.promise;
+      log.push("t1 end");
+      return 1;
+    });
+    const second = queue.enqueue("s1", ["t2", "t3"], async () => {
+      log.push("t2 start");
+      return 2;
+    });
+
+    await Promise.resolve();
+    expect(queue.getQueue("s1")).toEqual([
+      { turnIds: ["t1"], position: 0 },
+      { turnIds: ["t2", "t3"], position: 1 },
+    ]);
+    expect(queue.getPosition("t3")).toBe(1);
+
+    gate.resolve();
+    expect(await Promise.all([first, second])).toEqual([1, 2]);
+    expect(log).toEqual(["t1 start", "t1 end", "t2 start"]);
+    expect(queue.getQueue("s1")).toEqual([]);
+    expect(queue.getPosition("t1")).toBeNull();
+  });
+
+  it("keeps going after a job fails, and does not hold up other sessions", async () => {
+    const queue = new TurnQueue();
+    const gate = deferred();
+
+    const blocked = queue.enqueue("s1", ["t1"], () => gate.promise);
+    const failed = queue.enqueue("s1", ["t2"], async () => {
+      throw new Error("model down");
+    });
+    const next = queue.enqueue("s1", ["t3"], async () => "ok");
+
+    expect(await queue.enqueue("s2", ["u1"], async () => "other")).toBe("other");
+    gate.resolve();
+    await blocked;
+    await expect(failed).rejects.toThrow("model down");
+    expect(await next).toBe("ok");
+  });
+
+  it("cancels the waiting jobs but lets the running one finish", async () => {
+    const queue = new TurnQueue();
+    const gate = deferred();
+    let ran = false;
+
+    const running = queue.enqueue("s1", ["t1"], async () => {
+      await gate.promise;
+      return "done";
+    });
+    const waiting = queue.enqueue("s1", ["t2"], async () => {
+      ran = true;
+    });
+    const round = queue.enqueue("s1", ["t3", "t4"], async () => {
+      ran = true;
+    });
+
+    expect(queue.cancelWaiting("s1", "Session reset")).toEqual(["t2", "t3", "t4"]);
+    await expect(waiting).rejects.toBeInstanceOf(TurnCancelledError);
+    await expect(round).rejects.toThrow("Session reset");
+
+    gate.resolve();
+    expect(await running).toBe("done");
+    expect(ran).toBe(false);
+    expect(queue.cancelWaiting("s1", "Session reset")).toEqual([]);
+  });
+});
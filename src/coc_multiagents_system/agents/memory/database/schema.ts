@@ -1,12 +1,34 @@
 /**
  * Unified Database Schema for CoC Multi-Agent System
- * Stores rules, skills, weapons, and memory data
+ * Stores rules, skills, weapons, occupations, and memory data
  */
 
 import Database from "better-sqlite3";
 type DBInstance = InstanceType<typeof Database>;
 import path from "path";
 import { fileURLToPath } from "url";
+import { normalizeInventory } from "../../../mechanics/inventory.js";
+import type { GameState } from "../../../../state.js";
+import type { CharacterStatus } from "../../models/gameTypes.js";
+import type { DiceRollLogEntry } from "../rollLogManager.js";
+
+/**
+ * A row of the dice_rolls table
+ */
+interface DiceRollRow {
+  roll_id: number;
+  session_id: string;
+  turn_id: string | null;
+  sequence: number;
+  roll_kind: DiceRollLogEntry["kind"];
+  roller: string | null;
+  expression: string;
+  raw_dice: string;
+  outcome: string;
+  rng_seed: string | null;
+  rng_state: number | null;
+  created_at: string;
+}
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -80,6 +102,21 @@ export class CoCDatabase {
             );
         `);
 
+    // Occupations table
+    this.db.exec(`
+            CREATE TABLE IF NOT EXISTS occupations (
+                name TEXT PRIMARY KEY,
+                description TEXT NOT NULL,
+                skills TEXT NOT NULL, -- JSON array of occupational skill names
+                skill_choices TEXT, -- JSON array of { count, from } (from null = any skill)
+                credit_rating_min INTEGER NOT NULL,
+                credit_rating_max INTEGER NOT NULL,
+                skill_points TEXT NOT NULL, -- formula, e.g. "EDU*4"
+                era TEXT,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+            );
+        `);
+
     // Sanity triggers table
     this.db.exec(`
             CREATE TABLE IF NOT EXISTS sanity_triggers (
@@ -118,7 +155,7 @@ export class CoCDatabase {
                 location TEXT,
                 
                 -- Status and timing
-                status TEXT NOT NULL DEFAULT 'processing', -- 'processing' | 'completed' | 'error'
+                status TEXT NOT NULL DEFAULT 'processing', -- 'collecting' | 'queued' | 'processing' | 'completed' | 'error'
                 error_message TEXT,
                 started_at DATETIME NOT NULL,
                 completed_at DATETIME,
@@ -130,6 +167,26 @@ export class CoCDatabase {
             CREATE INDEX IF NOT EXISTS idx_turns_started ON game_turns(started_at);
         `);
 
+    // Dice Rolls table - audit log of every roll, replayable from seed + rng_state
+    this.db.exec(`
+            CREATE TABLE IF NOT EXISTS dice_rolls (
+                roll_id INTEGER PRIMARY KEY AUTOINCREMENT,
+                session_id TEXT NOT NULL,
+                turn_id TEXT,
+                sequence INTEGER NOT NULL,   -- order of the roll within its turn
+                roll_kind TEXT NOT NULL,     -- 'skill_check' | 'opposed_check' | 'roll'
+                roller TEXT,                 -- character making the roll
+                expression TEXT NOT NULL,    -- e.g. "1d100 Spot Hidden (hard)", "1d6+1d4"
+                raw_dice TEXT NOT NULL,      -- every die rolled (JSON)
+                outcome TEXT NOT NULL,       -- full structured result (JSON)
+                rng_seed TEXT,
+                rng_state INTEGER,           -- generator state before the step that made the roll; a step's rolls replay in sequence
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+            );
+            CREATE INDEX IF NOT EXISTS idx_dice_rolls_session ON dice_rolls(session_id);
+            CREATE INDEX IF NOT EXISTS idx_dice_rolls_turn ON dice_rolls(turn_id, sequence);
+        `);
+
     // Game events table
     this.db.exec(`
             CREATE TABLE IF NOT EXISTS game_events (
@@ -191,7 +248,7 @@ export class CoCDatabase {
                 name TEXT NOT NULL,
                 attributes TEXT NOT NULL, -- JSON blob of attributes (STR, DEX, etc.)
                 status TEXT NOT NULL, -- JSON blob of HP/Sanity/Luck/etc.
-                inventory TEXT, -- JSON array of strings
+                inventory TEXT, -- JSON array of inventory items (older rows: item names)
                 skills TEXT, -- JSON map of skillName -> value
                 notes TEXT,
                 is_npc INTEGER DEFAULT 0, -- 0 for PC, 1 for NPC
@@ -202,6 +259,7 @@ export class CoCDatabase {
                 background TEXT,
                 goals TEXT, -- JSON array
                 secrets TEXT, -- JSON array
+                experience_checks TEXT, -- JSON array of skills ticked for improvement
                 updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
             );
             CREATE INDEX IF NOT EXISTS idx_characters_name ON characters(name);
@@ -218,6 +276,7 @@ export class CoCDatabase {
       "background TEXT",
       "goals TEXT",
       "secrets TEXT",
+      "experience_checks TEXT",
     ];
     for (const column of columnsToAdd) {
       try {
@@ -595,7 +654,7 @@ export class CoCDatabase {
       checkpointName: row.checkpoint_name,
       checkpointType: row.checkpoint_type,
       description: row.description,
-      gameState: JSON.parse(row.game_state),
+      gameState: this.migrateGameState(JSON.parse(row.game_state)),
       metadata: {
         gameDay: row.game_day,
         gameTime: row.game_time,
@@ -608,6 +667,22 @@ export class CoCDatabase {
     };
   }
 
+  /**
+   * Bring a checkpoint saved by an older version up to date: inventories
+   * saved as item names become items, a lone investigator becomes a party,
+   * and a game without a turn mode resolves each turn on its own
+   */
+  private migrateGameState(gameState: GameState): GameState {
+    gameState.party = gameState.party || [];
+    gameState.collectRound = gameState.collectRound ?? null;
+    for (const character of [gameState.playerCharacter, ...gameState.party, ...(gameState.npcCharacters || [])]) {
+      if (character) {
+        character.inventory = normalizeInventory(character.inventory);
+      }
+    }
+    return gameState;
+  }
+
   /**
    * List all checkpoints for a session
    */
@@ -666,14 +741,15 @@ export class CoCDatabase {
     characterName?: string,
     sceneId?: string,
     sceneName?: string,
-    location?: string
+    location?: string,
+    status = "processing"
   ): void {
     const database = this.db;
     const stmt = database.prepare(`
       INSERT INTO game_turns (
         turn_id, session_id, turn_number, character_input, character_id, character_name,
         scene_id, scene_name, location, status, started_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'processing', CURRENT_TIMESTAMP)
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
     `);
     
     stmt.run(
@@ -685,10 +761,25 @@ export class CoCDatabase {
       characterName || null,
       sceneId || null,
       sceneName || null,
-      location || null
+      location || null,
+      status
     );
   }
 
+  /**
+   * Move a waiting turn on to another status; a turn that starts processing
+   * is timed from then
+   */
+  setTurnStatus(turnId: string, status: string): void {
+    const database = this.db;
+    database.prepare(`
+      UPDATE game_turns 
+      SET status = ?,
+          started_at = CASE WHEN ? = 'processing' THEN CURRENT_TIMESTAMP ELSE started_at END
+      WHERE turn_id = ?
+    `).run(status, status, turnId);
+  }
+
   /**
    * Update turn with processing results
    */
@@ -834,6 +925,91 @@ export class CoCDatabase {
     return (row?.max_turn || 0) + 1;
   }
 
+  /**
+   * Record a single dice roll in the audit log
+   */
+  logDiceRoll(
+    sessionId: string,
+    turnId: string | null,
+    sequence: number,
+    rollKind: string,
+    roller: string | null,
+    expression: string,
+    rawDice: unknown,
+    outcome: unknown,
+    rngSeed?: string,
+    rngState?: number
+  ): void {
+    const database = this.db;
+    const stmt = database.prepare(`
+      INSERT INTO dice_rolls (
+        session_id, turn_id, sequence, roll_kind, roller, expression,
+        raw_dice, outcome, rng_seed, rng_state
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    stmt.run(
+      sessionId,
+      turnId,
+      sequence,
+      rollKind,
+      roller,
+      expression,
+      JSON.stringify(rawDice),
+      JSON.stringify(outcome),
+      rngSeed ?? null,
+      rngState ?? null
+    );
+  }
+
+  /**
+   * Get all dice rolls made during a turn, in roll order
+   */
+  getTurnDiceRolls(turnId: string): DiceRollLogEntry[] {
+    const database = this.db;
+    const stmt = database.prepare(`
+      SELECT * FROM dice_rolls
+      WHERE turn_id = ?
+      ORDER BY sequence ASC, roll_id ASC
+    `);
+
+    const rows = stmt.all(turnId) as DiceRollRow[];
+    return rows.map(row => this.rowToDiceRoll(row));
+  }
+
+  /**
+   * Get the most recent dice rolls for a session
+   */
+  getSessionDiceRolls(sessionId: string, limit = 100): DiceRollLogEntry[] {
+    const database = this.db;
+    const stmt = database.prepare(`
+      SELECT * FROM dice_rolls
+      WHERE session_id = ?
+      ORDER BY roll_id DESC
+      LIMIT ?
+    `);
+
+    const rows = stmt.all(sessionId, limit) as DiceRollRow[];
+    return rows.map(row => this.rowToDiceRoll(row));
+  }
+
+  private rowToDiceRoll(row: DiceRollRow): DiceRollLogEntry {
+    return {
+      rollId: row.roll_id,
+      sessionId: row.session_id,
+      turnId: row.turn_id,
+      sequence: row.sequence,
+      kind: row.roll_kind,
+      roller: row.roller,
+      expression: row.expression,
+      rawDice: JSON.parse(row.raw_dice),
+      outcome: JSON.parse(row.outcome),
+      rngSeed: row.rng_seed,
+      rngState: row.rng_state,
+      createdAt: row.created_at,
+    };
+  }
+
   /**
    * Get pending (processing) turns for a session
    */
@@ -841,7 +1017,7 @@ export class CoCDatabase {
     const database = this.db;
     const stmt = database.prepare(`
       SELECT * FROM game_turns 
-      WHERE session_id = ? AND status = 'processing'
+      WHERE session_id = ? AND status IN ('collecting', 'queued', 'processing')
       ORDER BY turn_number ASC
     `);
     
@@ -854,4 +1030,29 @@ export class CoCDatabase {
       clueRevelations: row.clue_revelations ? JSON.parse(row.clue_revelations) : null,
     }));
   }
+
+  /**
+   * Persist a character's skills, status and experience checks so
+   * development carries across sessions
+   */
+  saveCharacterProgress(
+    characterId: string,
+    skills: Record<string, number>,
+    status: CharacterStatus,
+    experienceChecks: string[]
+  ): void {
+    const database = this.db;
+    const stmt = database.prepare(`
+      UPDATE characters
+      SET skills = ?, status = ?, experience_checks = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE character_id = ?
+    `);
+
+    stmt.run(
+      JSON.stringify(skills),
+      JSON.stringify(status),
+      JSON.stringify(experienceChecks),
+      characterId
+    );
+  }
 }
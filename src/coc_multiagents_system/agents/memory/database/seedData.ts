@@ -1,6 +1,6 @@
 /**
  * Seed data for CoC database
- * Loads default rules, skills, weapons, and sanity triggers
+ * Loads default rules, skills, weapons, occupations, and sanity triggers
  */
 
 import type { CoCDatabase } from "./schema.js";
@@ -8,6 +8,15 @@ import type { CoCDatabase } from "./schema.js";
 export function seedDatabase(db: CoCDatabase): void {
   const database = db.getDatabase();
 
+  // Occupations came after the other tables; seed them on their own so
+  // databases seeded earlier get them too
+  const occupationCount = database
+    .prepare("SELECT COUNT(*) as count FROM occupations")
+    .get() as { count: number };
+  if (occupationCount.count === 0) {
+    db.transaction(() => seedOccupations(database));
+  }
+
   // Check if already seeded
   const count = database
     .prepare("SELECT COUNT(*) as count FROM skills")
@@ -243,6 +252,37 @@ function seedWeapons(db: any): void {
   weapons.forEach((weapon) => insertWeapon.run(...weapon));
 }
 
+function seedOccupations(db: any): void {
+  const insertOccupation = db.prepare(`
+        INSERT INTO occupations (name, description, skills, skill_choices, credit_rating_min, credit_rating_max, skill_points, era)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+  const interpersonal = ["Charm", "Fast Talk", "Intimidate", "Persuade"];
+  const survival = ["Survival (Arctic)", "Survival (Desert)", "Survival (Forest)"];
+
+  // [name, description, skills, choices, credit rating min, max, skill points]
+  const occupations: Array<[string, string, string[], Array<{ count: number; from: string[] | null }>, number, number, string]> = [
+    ["Antiquarian", "Collector and student of old and rare things", ["Appraise", "Art and Craft", "History", "Library Use", "Language (Other)", "Spot Hidden"], [{ count: 1, from: interpersonal }, { count: 1, from: null }], 30, 70, "EDU*4"],
+    ["Archaeologist", "Excavator and scholar of past civilisations", ["Appraise", "Archaeology", "History", "Language (Other)", "Library Use", "Spot Hidden", "Mechanical Repair", "Navigate"], [], 10, 40, "EDU*4"],
+    ["Author", "Writer of books, stories or articles", ["Art and Craft", "History", "Library Use", "Language (Other)", "Language (Own)", "Psychology"], [{ count: 1, from: ["Natural World", "Occult"] }, { count: 1, from: null }], 9, 30, "EDU*4"],
+    ["Dilettante", "Wealthy amateur with time for hobbies", ["Art and Craft", "Firearms (Rifle/Shotgun)", "Language (Other)", "Ride"], [{ count: 1, from: interpersonal }, { count: 3, from: null }], 50, 99, "EDU*2+APP*2"],
+    ["Doctor of Medicine", "Physician, surgeon or medical researcher", ["First Aid", "Language (Other)", "Medicine", "Psychology", "Science (Biology)", "Science (Chemistry)"], [{ count: 2, from: null }], 30, 80, "EDU*4"],
+    ["Journalist", "Reporter chasing stories for a paper", ["Art and Craft", "History", "Library Use", "Language (Own)", "Psychology"], [{ count: 1, from: interpersonal }, { count: 2, from: null }], 9, 30, "EDU*4"],
+    ["Librarian", "Keeper of a public, private or university library", ["Accounting", "Library Use", "Language (Other)", "Language (Own)"], [{ count: 4, from: null }], 9, 35, "EDU*4"],
+    ["Nurse", "Trained carer in a hospital or private practice", ["First Aid", "Listen", "Medicine", "Psychology", "Science (Biology)", "Science (Chemistry)", "Spot Hidden"], [{ count: 1, from: interpersonal }], 9, 30, "EDU*4"],
+    ["Parapsychologist", "Investigator of psychic and paranormal phenomena", ["Anthropology", "Art and Craft", "History", "Library Use", "Occult", "Language (Other)", "Psychology"], [{ count: 1, from: null }], 9, 30, "EDU*4"],
+    ["Police Detective", "Plain-clothes officer investigating serious crime", ["Firearms (Handgun)", "Law", "Listen", "Psychology", "Spot Hidden"], [{ count: 1, from: ["Art and Craft", "Disguise"] }, { count: 1, from: interpersonal }, { count: 1, from: null }], 20, 50, "EDU*2+(DEX|STR)*2"],
+    ["Private Investigator", "Detective for hire", ["Art and Craft", "Disguise", "Law", "Library Use", "Psychology", "Spot Hidden"], [{ count: 1, from: interpersonal }, { count: 1, from: null }], 9, 30, "EDU*2+(DEX|STR)*2"],
+    ["Professor", "University lecturer and researcher", ["Library Use", "Language (Other)", "Language (Own)", "Psychology"], [{ count: 4, from: null }], 20, 70, "EDU*4"],
+    ["Soldier", "Enlisted serviceman or veteran", ["Dodge", "Fighting (Brawl)", "Firearms (Rifle/Shotgun)", "Stealth"], [{ count: 1, from: ["Climb", "Swim"] }, { count: 1, from: survival }, { count: 2, from: ["First Aid", "Mechanical Repair", "Language (Other)"] }], 9, 30, "EDU*2+(DEX|STR)*2"],
+  ];
+
+  occupations.forEach(([name, description, skills, choices, crMin, crMax, skillPoints]) =>
+    insertOccupation.run(name, description, JSON.stringify(skills), JSON.stringify(choices), crMin, crMax, skillPoints, "1920s")
+  );
+}
+
 function seedSanityTriggers(db: any): void {
   const insertTrigger = db.prepare(`
         INSERT INTO sanity_triggers (trigger, sanity_loss, description)
@@ -13,5 +13,15 @@ export { CoCDatabase, seedDatabase } from "./database/index.js";
 export { ScenarioLoader } from "./scenarioloader/index.js";
 export { ModuleLoader } from "./moduleloader/index.js";
 export { TurnManager } from "./turnManager.js";
-export type { TurnInput, TurnProcessing, TurnOutput, GameTurn } from "./turnManager.js";
+export type { TurnInput, TurnProcessing, TurnOutput, GameTurn, TurnStatus } from "./turnManager.js";
+export { TurnCancelledError, TurnQueue } from "./turnQueue.js";
+export type { QueuedTurns } from "./turnQueue.js";
+export { RoundCollector } from "./roundCollector.js";
+export type { CollectRound, RoundDeclaration } from "./roundCollector.js";
+export { TurnProgressHub, isFinalTurnEvent } from "./turnProgress.js";
+export type { TurnProgressEvent } from "./turnProgress.js";
+export { SessionManager } from "./sessionManager.js";
+export type { GameSession } from "./sessionManager.js";
+export { RollLogManager } from "./rollLogManager.js";
+export type { DiceRollLogEntry, PendingRolls } from "./rollLogManager.js";
 
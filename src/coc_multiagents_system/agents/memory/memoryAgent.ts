@@ -280,24 +280,27 @@ export const createScenarioCheckpoint = async (
       }
     }
 
-    // 6. Save player character
+    // 6. Save every investigator in the party
     const playerStmt = database.prepare(`
       INSERT OR REPLACE INTO characters (
         character_id, name, attributes, status, inventory, skills, notes,
-        is_npc, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+        is_npc, experience_checks, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
     `);
 
-    playerStmt.run(
-      gameState.playerCharacter.id,
-      gameState.playerCharacter.name,
-      JSON.stringify(gameState.playerCharacter.attributes),
-      JSON.stringify(gameState.playerCharacter.status),
-      JSON.stringify(gameState.playerCharacter.inventory),
-      JSON.stringify(gameState.playerCharacter.skills),
-      gameState.playerCharacter.notes || null,
-      0 // is_npc = false
-    );
+    for (const investigator of [gameState.playerCharacter, ...(gameState.party || [])]) {
+      playerStmt.run(
+        investigator.id,
+        investigator.name,
+        JSON.stringify(investigator.attributes),
+        JSON.stringify(investigator.status),
+        JSON.stringify(investigator.inventory),
+        JSON.stringify(investigator.skills),
+        investigator.notes || null,
+        0, // is_npc = false
+        JSON.stringify(investigator.experienceChecks || [])
+      );
+    }
 
     // 7. Save all NPC characters (with full NPCProfile attributes if available)
     if (gameState.npcCharacters.length > 0) {
@@ -0,0 +1,271 @@
+/**
+ * Roll Log Manager - Persists every dice roll for audit and replay
+ *
+ * Each roll is stored with the turn it belongs to, who rolled, the expression,
+ * the raw dice and the outcome, plus the session RNG seed and the generator
+ * state before the step that made it (a tool call, an NPC action). A step's
+ * rolls share that state and are logged in the order they were made, so
+ * replaying them in sequence from it reproduces each one exactly.
+ */
+
+import type { CoCDatabase } from "./database/index.js";
+import type { ActionResult } from "../../../state.js";
+import type {
+  ChaseEvent,
+  CombatEvent,
+  DevelopmentResult,
+  DiceRollRecord,
+  HealthEvent,
+  SkillCheckResult,
+} from "../models/gameTypes.js";
+import { getHealthEventRolls } from "../../mechanics/index.js";
+
+export interface DiceRollLogEntry {
+  rollId: number;
+  sessionId: string;
+  turnId: string | null;
+  sequence: number;
+  kind: DiceRollRecord["kind"];
+  roller: string | null;
+  expression: string;
+  rawDice: unknown;
+  outcome: unknown;
+  rngSeed: string | null;
+  rngState: number | null;
+  createdAt: string;
+}
+
+/**
+ * Rolls made while a turn runs, held until the turn is kept (see recordPending)
+ */
+export type PendingRolls = {
+  sessionId: string;
+  turnId: string | null;
+  rngSeed?: string;
+} & (
+  | { kind: "action"; actionResult: ActionResult }
+  | { kind: "engine"; events: (CombatEvent | ChaseEvent)[] }
+  | { kind: "health"; healthEvents: HealthEvent[]; rngState?: number }
+);
+
+const describeCheck = (check: SkillCheckResult): string => {
+  let expression = `1d100 ${check.skill} (${check.difficulty})`;
+  if (check.bonusDice > 0) expression += ` +${check.bonusDice} bonus`;
+  if (check.penaltyDice > 0) expression += ` +${check.penaltyDice} penalty`;
+  if (check.pushed) expression += " [pushed]";
+  if (check.luckSpent) expression += ` [${check.luckSpent} Luck spent]`;
+  return expression;
+};
+
+const checkDice = (check: SkillCheckResult) => ({
+  tensDice: check.tensDice,
+  unitsDie: check.unitsDie,
+});
+
+export class RollLogManager {
+  private db: CoCDatabase;
+
+  constructor(db: CoCDatabase) {
+    this.db = db;
+  }
+
+  /**
+   * Record a single roll made by (or on behalf of) a character
+   */
+  recordRoll(
+    sessionId: string,
+    turnId: string | null,
+    sequence: number,
+    record: DiceRollRecord,
+    defaultRoller: string,
+    rngSeed?: string
+  ): void {
+    const { rngState, ...outcome } = record;
+
+    let roller: string = defaultRoller;
+    let expression: string;
+    let rawDice: unknown;
+
+    if (record.kind === "skill_check") {
+      roller = record.character;
+      expression = describeCheck(record);
+      rawDice = checkDice(record);
+    } else if (record.kind === "opposed_check") {
+      roller = record.initiator.character;
+      expression = `${describeCheck(record.initiator)} vs ${record.opponent.character} ${describeCheck(record.opponent)}`;
+      rawDice = {
+        initiator: checkDice(record.initiator),
+        opponent: checkDice(record.opponent),
+      };
+    } else {
+      expression = record.expression;
+      rawDice = record.rolls;
+    }
+
+    this.db.logDiceRoll(
+      sessionId,
+      turnId,
+      sequence,
+      record.kind,
+      roller,
+      expression,
+      rawDice,
+      outcome,
+      rngSeed,
+      rngState
+    );
+  }
+
+  /**
+   * Record every roll of an action result against the turn that produced it
+   */
+  recordActionRolls(
+    sessionId: string,
+    turnId: string | null,
+    actionResult: ActionResult,
+    rngSeed?: string
+  ): void {
+    const start = this.nextSequence(turnId);
+    actionResult.diceRolls.forEach((record, index) => {
+      this.recordRoll(
+        sessionId,
+        turnId,
+        start + index,
+        record,
+        actionResult.character,
+        rngSeed
+      );
+    });
+  }
+
+  /**
+   * Record the rolls of NPC combat actions resolved by the combat engine
+   */
+  recordCombatEvents(
+    sessionId: string,
+    turnId: string | null,
+    events: CombatEvent[],
+    rngSeed?: string
+  ): void {
+    this.recordEngineEvents(sessionId, turnId, events, rngSeed);
+  }
+
+  /**
+   * Record the speed rolls, track layout and obstacle rolls of a chase
+   */
+  recordChaseEvents(
+    sessionId: string,
+    turnId: string | null,
+    events: ChaseEvent[],
+    rngSeed?: string
+  ): void {
+    this.recordEngineEvents(sessionId, turnId, events, rngSeed);
+  }
+
+  private recordEngineEvents(
+    sessionId: string,
+    turnId: string | null,
+    events: (CombatEvent | ChaseEvent)[],
+    rngSeed?: string
+  ): void {
+    let sequence = this.nextSequence(turnId);
+    for (const event of events) {
+      for (const record of event.rolls) {
+        this.recordRoll(
+          sessionId,
+          turnId,
+          sequence++,
+          record,
+          event.actor,
+          rngSeed
+        );
+      }
+    }
+  }
+
+  /**
+   * Record the rolls behind health changes (Major Wound and dying CON rolls,
+   * weekly recovery rolls and the hit points they restore)
+   */
+  recordHealthChecks(
+    sessionId: string,
+    turnId: string | null,
+    healthEvents: HealthEvent[],
+    rngState?: number,
+    rngSeed?: string
+  ): void {
+    let sequence = this.nextSequence(turnId);
+    for (const healthEvent of healthEvents) {
+      for (const record of getHealthEventRolls([healthEvent])) {
+        this.recordRoll(
+          sessionId,
+          turnId,
+          sequence++,
+          { ...record, rngState },
+          healthEvent.characterName,
+          rngSeed
+        );
+      }
+    }
+  }
+
+  /**
+   * Record rolls held back while their turn ran, now that it is kept
+   */
+  recordPending(pending: PendingRolls): void {
+    const { sessionId, turnId, rngSeed } = pending;
+    switch (pending.kind) {
+      case "action":
+        this.recordActionRolls(sessionId, turnId, pending.actionResult, rngSeed);
+        break;
+      case "engine":
+        this.recordEngineEvents(sessionId, turnId, pending.events, rngSeed);
+        break;
+      case "health":
+        this.recordHealthChecks(sessionId, turnId, pending.healthEvents, pending.rngState, rngSeed);
+        break;
+    }
+  }
+
+  /**
+   * Record the improvement rolls of a development phase (outside any turn)
+   */
+  recordDevelopmentRolls(
+    sessionId: string,
+    development: DevelopmentResult,
+    rngState?: number,
+    rngSeed?: string
+  ): void {
+    development.rolls.forEach((record, index) => {
+      this.recordRoll(
+        sessionId,
+        null,
+        index + 1,
+        { ...record, rngState },
+        development.character,
+        rngSeed
+      );
+    });
+  }
+
+  /**
+   * Continue numbering after rolls already logged for the turn
+   */
+  private nextSequence(turnId: string | null): number {
+    return turnId ? this.db.getTurnDiceRolls(turnId).length + 1 : 1;
+  }
+
+  /**
+   * Get all rolls made during a turn, in roll order
+   */
+  getTurnRolls(turnId: string): DiceRollLogEntry[] {
+    return this.db.getTurnDiceRolls(turnId);
+  }
+
+  /**
+   * Get the most recent rolls for a session (newest first)
+   */
+  getSessionRolls(sessionId: string, limit = 100): DiceRollLogEntry[] {
+    return this.db.getSessionDiceRolls(sessionId, limit);
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Round Collector - Gathers the party's declared actions for a collect round
+ *
+ * In collect round mode the first declared action of a session opens a
+ * round. The round closes once every investigator able to act has declared
+ * an action, or when its timeout runs out with whatever has been declared;
+ * the closed round is handed on to be resolved together in one narrative.
+ */
+
+import type { CharacterProfile } from "../models/gameTypes.js";
+import { randomUUID } from "node:crypto";
+
+export interface RoundDeclaration {
+  turnId: string;
+  characterId: string;
+  characterName: string;
+  input: string;
+}
+
+export interface CollectRound {
+  roundId: string;
+  sessionId: string;
+  declarations: RoundDeclaration[];
+  waitingFor: Array<{ characterId: string; characterName: string }>;
+  closesAt: string;
+}
+
+interface OpenRound extends CollectRound {
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export class RoundCollector {
+  private rounds = new Map<string, OpenRound>();
+  private onClose: (round: CollectRound) => void;
+
+  constructor(onClose: (round: CollectRound) => void) {
+    this.onClose = onClose;
+  }
+
+  /**
+   * Add an investigator's action to the session's round, opening one if
+   * none is collecting. `expected` are the investigators able to act; once
+   * all of them have declared, the round closes at once.
+   */
+  declare(
+    sessionId: string,
+    declaration: RoundDeclaration,
+    expected: CharacterProfile[],
+    timeoutMs: number
+  ): CollectRound {
+    let round = this.rounds.get(sessionId);
+    if (round?.declarations.some(d => d.characterId === declaration.characterId)) {
+      throw new Error(`${declaration.characterName} has already declared an action this round`);
+    }
+
+    if (!round) {
+      round = {
+        roundId: `round-${Date.now()}-${randomUUID().slice(0, 8)}`,
+        sessionId,
+        declarations: [],
+        waitingFor: [],
+        closesAt: new Date(Date.now() + timeoutMs).toISOString(),
+        timer: setTimeout(() => this.close(sessionId), timeoutMs),
+      };
+      round.timer.unref?.();
+      this.rounds.set(sessionId, round);
+      console.log(`✓ Round opened: ${round.roundId} (closes in ${Math.round(timeoutMs / 1000)}s)`);
+    }
+
+    round.declarations.push(declaration);
+    const declared = new Set(round.declarations.map(d => d.characterId));
+    round.waitingFor = expected
+      .filter(character => !declared.has(character.id))
+      .map(character => ({ characterId: character.id, characterName: character.name }));
+
+    const snapshot = this.snapshot(round);
+    if (round.waitingFor.length === 0) {
+      this.close(sessionId);
+    }
+    return snapshot;
+  }
+
+  /**
+   * The round a session is collecting, or null
+   */
+  getRound(sessionId: string): CollectRound | null {
+    const round = this.rounds.get(sessionId);
+    return round ? this.snapshot(round) : null;
+  }
+
+  /**
+   * The open round a collected turn is waiting in, or null
+   */
+  findRound(turnId: string): CollectRound | null {
+    for (const round of this.rounds.values()) {
+      if (round.declarations.some(d => d.turnId === turnId)) return this.snapshot(round);
+    }
+    return null;
+  }
+
+  /**
+   * Whether the investigator has an action in the session's open round
+   */
+  hasDeclared(sessionId: string, characterId: string): boolean {
+    return this.rounds.get(sessionId)?.declarations.some(d => d.characterId === characterId) ?? false;
+  }
+
+  /**
+   * Close the session's round now and hand it on to be resolved
+   */
+  close(sessionId: string): CollectRound | null {
+    const round = this.take(sessionId);
+    if (!round) return null;
+
+    console.log(`✓ Round closed: ${round.roundId} with ${round.declarations.length} action(s)${round.waitingFor.length > 0 ? `, no action from ${round.waitingFor.map(w => w.characterName).join(", ")}` : ""}`);
+    this.onClose(round);
+    return round;
+  }
+
+  /**
+   * Drop the session's round without resolving it
+   */
+  cancel(sessionId: string): CollectRound | null {
+    return this.take(sessionId);
+  }
+
+  private take(sessionId: string): CollectRound | null {
+    const round = this.rounds.get(sessionId);
+    if (!round) return null;
+
+    clearTimeout(round.timer);
+    this.rounds.delete(sessionId);
+    return this.snapshot(round);
+  }
+
+  private snapshot(round: OpenRound): CollectRound {
+    return {
+      roundId: round.roundId,
+      sessionId: round.sessionId,
+      declarations: [...round.declarations],
+      waitingFor: [...round.waitingFor],
+      closesAt: round.closesAt,
+    };
+  }
+}
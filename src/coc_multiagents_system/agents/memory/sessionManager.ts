@@ -0,0 +1,133 @@
+/**
+ * Session Manager - Keeps one game state per play session
+ *
+ * Each game started on the server gets its own session id and game state.
+ * States are saved to a per-session checkpoint after every turn, so a session
+ * that has been idle long enough can be dropped from memory and picked up
+ * again from its checkpoint on its next request.
+ */
+
+import type { CoCDatabase } from "./database/index.js";
+import type { GameState } from "../../../state.js";
+import { randomUUID } from "node:crypto";
+
+export interface GameSession {
+  sessionId: string;
+  gameState: GameState;
+  lastActiveAt: number;
+}
+
+const DEFAULT_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+export class SessionManager {
+  private db: CoCDatabase;
+  private sessions = new Map<string, GameSession>();
+  private idleTimeoutMs: number;
+
+  constructor(db: CoCDatabase, idleTimeoutMs = DEFAULT_IDLE_TIMEOUT_MS) {
+    this.db = db;
+    this.idleTimeoutMs = idleTimeoutMs;
+  }
+
+  /**
+   * Start a session for a new game state under a fresh session id
+   */
+  createSession(gameState: GameState): GameState {
+    const sessionId = `session-${Date.now()}-${randomUUID().slice(0, 8)}`;
+    const sessionState = { ...gameState, sessionId };
+    this.saveGameState(sessionId, sessionState);
+
+    console.log(`✓ Session started: ${sessionId}`);
+    return sessionState;
+  }
+
+  /**
+   * Game state of a session, restored from its checkpoint if it was evicted
+   */
+  getGameState(sessionId: string): GameState | null {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      session.lastActiveAt = Date.now();
+      return session.gameState;
+    }
+
+    const checkpoint = this.db.loadCheckpoint(this.checkpointId(sessionId));
+    if (!checkpoint) return null;
+
+    const gameState = checkpoint.gameState as GameState;
+    this.sessions.set(sessionId, { sessionId, gameState, lastActiveAt: Date.now() });
+    console.log(`✓ Session restored from checkpoint: ${sessionId}`);
+    return gameState;
+  }
+
+  /**
+   * Store a session's game state and save it to the session checkpoint
+   */
+  saveGameState(sessionId: string, gameState: GameState): void {
+    this.sessions.set(sessionId, { sessionId, gameState, lastActiveAt: Date.now() });
+    this.persist(sessionId, gameState);
+  }
+
+  /**
+   * End a session: its state leaves memory and its checkpoint is deleted.
+   * Returns the final state, or null if the session was not running.
+   */
+  endSession(sessionId: string): GameState | null {
+    const gameState = this.getGameState(sessionId);
+    this.sessions.delete(sessionId);
+    this.db.deleteCheckpoint(this.checkpointId(sessionId));
+
+    if (gameState) {
+      console.log(`✓ Session ended: ${sessionId}`);
+    }
+    return gameState;
+  }
+
+  /**
+   * Save and drop from memory every session idle for longer than the timeout
+   */
+  evictIdle(now = Date.now()): string[] {
+    const evicted: string[] = [];
+    for (const session of this.sessions.values()) {
+      if (now - session.lastActiveAt < this.idleTimeoutMs) continue;
+
+      this.persist(session.sessionId, session.gameState);
+      this.sessions.delete(session.sessionId);
+      evicted.push(session.sessionId);
+    }
+
+    if (evicted.length > 0) {
+      console.log(`✓ Evicted ${evicted.length} idle session(s) to checkpoints: ${evicted.join(", ")}`);
+    }
+    return evicted;
+  }
+
+  /**
+   * Ids of the sessions held in memory
+   */
+  getActiveSessionIds(): string[] {
+    return [...this.sessions.keys()];
+  }
+
+  private checkpointId(sessionId: string): string {
+    return `session-state-${sessionId}`;
+  }
+
+  /**
+   * Replace the session checkpoint with the current state
+   */
+  private persist(sessionId: string, gameState: GameState): void {
+    const checkpointId = this.checkpointId(sessionId);
+    this.db.transaction(() => {
+      this.db.deleteCheckpoint(checkpointId);
+      this.db.saveCheckpoint(
+        checkpointId,
+        sessionId,
+        "Session state",
+        gameState,
+        "auto",
+        "Latest state of the session, saved after every turn"
+      );
+    });
+  }
+}
@@ -7,8 +7,15 @@
 
 import type { CoCDatabase } from "./database/index.js";
 import type { GameState } from "../../../state.js";
+import type { CharacterProfile } from "../models/gameTypes.js";
 import { randomUUID } from "crypto";
 
+/**
+ * Where a turn is: waiting for the rest of a collect round, waiting in the
+ * session's turn queue, running through the agents, or done
+ */
+export type TurnStatus = 'collecting' | 'queued' | 'processing' | 'completed' | 'error';
+
 export interface TurnInput {
   sessionId: string;
   characterInput: string;
@@ -17,6 +24,7 @@ export interface TurnInput {
   sceneId?: string;
   sceneName?: string;
   location?: string;
+  status?: TurnStatus;
 }
 
 export interface TurnProcessing {
@@ -55,7 +63,7 @@ export interface GameTurn {
   location: string | null;
   
   // Status
-  status: 'processing' | 'completed' | 'error';
+  status: TurnStatus;
   errorMessage: string | null;
   startedAt: string;
   completedAt: string | null;
@@ -85,7 +93,8 @@ export class TurnManager {
       input.characterName,
       input.sceneId,
       input.sceneName,
-      input.location
+      input.location,
+      input.status
     );
 
     console.log(`✓ Turn created: ${turnId} (Turn #${turnNumber})`);
@@ -93,24 +102,42 @@ export class TurnManager {
   }
 
   /**
-   * Create turn from current game state
+   * Create turn from current game state, for the acting investigator unless
+   * another one is given
    */
   createTurnFromGameState(
     sessionId: string,
     characterInput: string,
-    gameState: GameState
+    gameState: GameState,
+    investigator: CharacterProfile = gameState.playerCharacter,
+    status?: TurnStatus
   ): string {
     return this.createTurn({
       sessionId,
       characterInput,
-      characterId: gameState.playerCharacter.id,
-      characterName: gameState.playerCharacter.name,
+      characterId: investigator.id,
+      characterName: investigator.name,
+      status,
       sceneId: gameState.currentScenario?.id,
       sceneName: gameState.currentScenario?.name,
       location: gameState.currentScenario?.location,
     });
   }
 
+  /**
+   * A collected turn whose round has closed waits in the turn queue
+   */
+  markQueued(turnId: string): void {
+    this.db.setTurnStatus(turnId, 'queued');
+  }
+
+  /**
+   * A queued turn has reached the front of the queue and is running
+   */
+  markProcessing(turnId: string): void {
+    this.db.setTurnStatus(turnId, 'processing');
+  }
+
   /**
    * Update turn with processing results from agents
    */
@@ -179,7 +206,7 @@ export class TurnManager {
   }
 
   /**
-   * Get pending (processing) turns for a session
+   * Get pending (collecting, queued or processing) turns for a session
    */
   getPending(sessionId: string): GameTurn[] {
     return this.db.getPendingTurns(sessionId) as GameTurn[];
@@ -0,0 +1,99 @@
+/**
+ * Turn Progress - Live events of a turn as it moves through the agents
+ *
+ * The graph reports each step of a turn (the orchestrator's analysis, every
+ * dice roll in the ActionAgent's tool loop, the director's decision, the
+ * keeper's narrative) and the server reports queue changes and failures.
+ * Subscribers get the events seen so far and then each new one; a turn's
+ * events are kept for a while after it ends, for late subscribers.
+ */
+
+import type { ActionAnalysis, DirectorDecision } from "../../../state.js";
+import type { DiceRollRecord } from "../models/gameTypes.js";
+import type { TurnStatus } from "./turnManager.js";
+
+export type TurnProgressEvent =
+  | { type: "status"; turnId: string; status: TurnStatus; queuePosition: number | null }
+  | { type: "analysis"; turnId: string; actionAnalysis: ActionAnalysis | null }
+  | { type: "roll"; turnId: string; roll: DiceRollRecord }
+  | { type: "director"; turnId: string; directorDecision: DirectorDecision | null }
+  | { type: "narrative"; turnId: string; narrative: string; clueRevelations: unknown }
+  | { type: "error"; turnId: string; message: string };
+
+type TurnProgressListener = (event: TurnProgressEvent) => void;
+
+interface TurnProgress {
+  events: TurnProgressEvent[];
+  listeners: Set<TurnProgressListener>;
+  ended: boolean;
+}
+
+const DEFAULT_RETENTION_MS = 5 * 60 * 1000;
+
+/**
+ * Whether an event is the last of its turn
+ */
+export const isFinalTurnEvent = (event: TurnProgressEvent): boolean =>
+  event.type === "narrative" || event.type === "error";
+
+export class TurnProgressHub {
+  private turns = new Map<string, TurnProgress>();
+  private retentionMs: number;
+
+  constructor(retentionMs = DEFAULT_RETENTION_MS) {
+    this.retentionMs = retentionMs;
+  }
+
+  /**
+   * Send an event to the turn's subscribers and keep it for later ones.
+   * A narrative or error ends the turn; nothing is published after it.
+   */
+  publish(event: TurnProgressEvent): void {
+    const progress = this.getProgress(event.turnId);
+    if (progress.ended) return;
+
+    progress.events.push(event);
+    for (const listener of progress.listeners) {
+      listener(event);
+    }
+
+    if (isFinalTurnEvent(event)) {
+      progress.ended = true;
+      progress.listeners.clear();
+      setTimeout(() => this.turns.delete(event.turnId), this.retentionMs).unref?.();
+    }
+  }
+
+  /**
+   * Replay a turn's events so far to the listener, then send it each new one
+   * until the turn ends. Returns the function that unsubscribes it.
+   */
+  subscribe(turnId: string, listener: TurnProgressListener): () => void {
+    const progress = this.getProgress(turnId);
+    for (const event of progress.events) {
+      listener(event);
+    }
+    if (progress.ended) return () => {};
+
+    progress.listeners.add(listener);
+    return () => {
+      progress.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Whether any event of the turn is known
+   */
+  hasEvents(turnId: string): boolean {
+    return (this.turns.get(turnId)?.events.length ?? 0) > 0;
+  }
+
+  private getProgress(turnId: string): TurnProgress {
+    let progress = this.turns.get(turnId);
+    if (!progress) {
+      progress = { events: [], listeners: new Set(), ended: false };
+      this.turns.set(turnId, progress);
+    }
+    return progress;
+  }
+}
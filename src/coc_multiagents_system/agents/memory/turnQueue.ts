@@ -0,0 +1,104 @@
+/**
+ * Turn Queue - Runs one session's turns one at a time
+ *
+ * Every graph invocation for a session goes through its queue, so turns
+ * posted at the same time run one after another against the latest state
+ * instead of racing each other and overwriting the result. A job may carry
+ * several turns (a collected round); sessions do not wait for each other.
+ */
+
+interface QueuedJob {
+  turnIds: string[];
+  start: () => Promise<void>;
+  cancel: (reason: Error) => void;
+}
+
+export interface QueuedTurns {
+  turnIds: string[];
+  position: number; // 0 = running, otherwise jobs ahead of it
+}
+
+/**
+ * A waiting job dropped before it ran; whoever cancelled it reports its turns
+ */
+export class TurnCancelledError extends Error {
+  constructor(reason: string) {
+    super(reason);
+    this.name = "TurnCancelledError";
+  }
+}
+
+export class TurnQueue {
+  private queues = new Map<string, QueuedJob[]>();
+
+  /**
+   * Queue a job for a session; it runs once every job before it has finished.
+   * Resolves or rejects with the job's own outcome.
+   */
+  enqueue<T>(sessionId: string, turnIds: string[], run: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const queue = this.queues.get(sessionId) ?? [];
+      queue.push({
+        turnIds,
+        start: () => Promise.resolve().then(run).then(resolve, reject),
+        cancel: reject,
+      });
+      this.queues.set(sessionId, queue);
+
+      if (queue.length === 1) {
+        void this.runNext(sessionId);
+      }
+    });
+  }
+
+  /**
+   * Place of a turn in its session's queue, or null if it is not queued
+   */
+  getPosition(turnId: string): number | null {
+    for (const queue of this.queues.values()) {
+      const position = queue.findIndex(job => job.turnIds.includes(turnId));
+      if (position !== -1) return position;
+    }
+    return null;
+  }
+
+  /**
+   * A session's running and waiting jobs, in the order they run
+   */
+  getQueue(sessionId: string): QueuedTurns[] {
+    return (this.queues.get(sessionId) ?? []).map((job, position) => ({
+      turnIds: [...job.turnIds],
+      position,
+    }));
+  }
+
+  /**
+   * Drop a session's waiting jobs (the running one finishes); each rejects
+   * with a TurnCancelledError. Returns the turns that will not run.
+   */
+  cancelWaiting(sessionId: string, reason: string): string[] {
+    const queue = this.queues.get(sessionId);
+    if (!queue || queue.length <= 1) return [];
+
+    const dropped = queue.splice(1);
+    for (const job of dropped) {
+      job.cancel(new TurnCancelledError(reason));
+    }
+    return dropped.flatMap(job => job.turnIds);
+  }
+
+  private async runNext(sessionId: string): Promise<void> {
+    const queue = this.queues.get(sessionId);
+    const job = queue?.[0];
+    if (!queue || !job) return;
+
+    await job.start();
+    queue.shift();
+
+    if (queue.length > 0) {
+      void this.runNext(sessionId);
+    } else {
+      this.queues.delete(sessionId);
+    }
+  }
+}
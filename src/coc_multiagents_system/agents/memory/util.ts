@@ -11,12 +11,38 @@ import type {
   CharacterAttributes,
   CharacterProfile,
   CharacterStatus,
+  Occupation,
+  SanityTrigger,
   Skill,
   WeaponData,
 } from "../models/gameTypes.js";
 import type { ModuleBackground } from "../models/moduleTypes.js";
 import type { ScenarioSnapshot } from "../models/scenarioTypes.js";
 
+/**
+ * A row of the occupations table
+ */
+interface OccupationRow {
+  name: string;
+  description: string;
+  skills: string;
+  skill_choices: string | null;
+  credit_rating_min: number;
+  credit_rating_max: number;
+  skill_points: string;
+  era: string | null;
+}
+
+/**
+ * A row of the sanity_triggers table
+ */
+interface SanityTriggerRow {
+  trigger: string;
+  sanity_loss: string;
+  description: string | null;
+}
+import { normalizeInventory } from "../../mechanics/inventory.js";
+
 
 
 export interface Discovery {
@@ -230,6 +256,76 @@ export class MemoryAgent {
     }));
   }
 
+  /**
+   * Get an occupation by name (case-insensitive)
+   */
+  public getOccupation(occupationName: string): Occupation | undefined {
+    const row = this.db
+      .prepare("SELECT * FROM occupations WHERE LOWER(name) = LOWER(?)")
+      .get(occupationName.trim()) as OccupationRow | undefined;
+    return row ? this.rowToOccupation(row) : undefined;
+  }
+
+  /**
+   * Get all occupations
+   */
+  public getAllOccupations(): Occupation[] {
+    const rows = this.db
+      .prepare("SELECT * FROM occupations ORDER BY name")
+      .all() as OccupationRow[];
+    return rows.map((row) => this.rowToOccupation(row));
+  }
+
+  private rowToOccupation(row: OccupationRow): Occupation {
+    return {
+      name: row.name,
+      description: row.description,
+      skills: JSON.parse(row.skills),
+      skillChoices: row.skill_choices ? JSON.parse(row.skill_choices) : [],
+      creditRating: { min: row.credit_rating_min, max: row.credit_rating_max },
+      skillPoints: row.skill_points,
+      era: row.era || undefined,
+    };
+  }
+
+  /**
+   * Get a sanity trigger by name; falls back to a partial match either way
+   * ("dead body" finds "Seeing a dead body")
+   */
+  public getSanityTrigger(triggerName: string): SanityTrigger | undefined {
+    const exact = this.db
+      .prepare("SELECT * FROM sanity_triggers WHERE LOWER(trigger) = LOWER(?)")
+      .get(triggerName) as SanityTriggerRow | undefined;
+    const row =
+      exact ||
+      (this.db
+        .prepare(
+          `SELECT * FROM sanity_triggers
+           WHERE LOWER(trigger) LIKE ? OR ? LIKE '%' || LOWER(trigger) || '%'
+           ORDER BY LENGTH(trigger) ASC LIMIT 1`
+        )
+        .get(`%${triggerName.toLowerCase()}%`, triggerName.toLowerCase()) as SanityTriggerRow | undefined);
+    if (!row) return undefined;
+
+    return {
+      trigger: row.trigger,
+      sanityLoss: row.sanity_loss,
+      description: row.description || undefined,
+    };
+  }
+
+  /**
+   * Get all sanity triggers
+   */
+  public getAllSanityTriggers(): SanityTrigger[] {
+    const rows = this.db.prepare("SELECT * FROM sanity_triggers").all() as SanityTriggerRow[];
+    return rows.map((row) => ({
+      trigger: row.trigger,
+      sanityLoss: row.sanity_loss,
+      description: row.description || undefined,
+    }));
+  }
+
 
   /**
    * Find characters by name (case-insensitive, fuzzy match)
@@ -290,7 +386,7 @@ export class MemoryAgent {
         row.status,
         this.buildDefaultStatus()
       ),
-      inventory: this.safeParse<string[]>(row.inventory, []),
+      inventory: normalizeInventory(this.safeParse<unknown>(row.inventory, [])),
       skills: this.safeParse<Record<string, number>>(row.skills, {}),
       notes: row.notes ?? this.buildNpcNotes(row),
     };
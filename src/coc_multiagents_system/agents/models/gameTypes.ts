@@ -3,6 +3,223 @@
  */
 export type Difficulty = "regular" | "hard" | "extreme";
 
+/**
+ * Success levels of a percentile roll, ordered from worst to best
+ */
+export type SuccessLevel =
+  | "fumble"
+  | "failure"
+  | "regular"
+  | "hard"
+  | "extreme"
+  | "critical";
+
+/**
+ * Outcome of a deterministic skill or characteristic check
+ */
+export interface SkillCheckResult {
+  character: string;
+  skill: string;
+  skillValue: number; // full skill/characteristic value
+  difficulty: Difficulty;
+  target: number; // value the roll must meet for the requested difficulty
+  roll: number; // final 1d100 result after bonus/penalty dice
+  tensDice: number[]; // every tens die rolled (bonus/penalty dice included)
+  unitsDie: number;
+  bonusDice: number; // net bonus dice after cancelling penalty dice
+  penaltyDice: number; // net penalty dice after cancelling bonus dice
+  successLevel: SuccessLevel;
+  success: boolean;
+  pushed?: boolean; // true when this is a pushed re-roll of a failed check
+  luckSpent?: number; // Luck points spent to lower the roll to the target
+  conditionModifiers?: string[]; // conditions that added bonus or penalty dice to the roll
+}
+
+/**
+ * Luck spent after a failed check to turn it into a success
+ */
+export interface LuckSpendResult {
+  character: string;
+  skill: string;
+  pointsSpent: number;
+  luckBefore: number;
+  luckAfter: number;
+  originalRoll: number;
+  check: SkillCheckResult; // the check as it stands after spending
+}
+
+/**
+ * Kind of opposed contest; decides how ties and double failures resolve
+ * - standard: higher skill value wins ties
+ * - fight_back: melee attacker wins ties
+ * - dodge: defender wins ties
+ */
+export type OpposedContest = "standard" | "fight_back" | "dodge";
+
+/**
+ * Outcome of an opposed roll between two characters
+ */
+export interface OpposedCheckResult {
+  contest: OpposedContest;
+  initiator: SkillCheckResult;
+  opponent: SkillCheckResult;
+  winner: "initiator" | "opponent" | "none";
+  winnerName: string | null;
+  reason: string; // short explanation of how the winner was decided
+}
+
+/**
+ * Outcome of a plain dice expression (damage, sanity loss, etc.)
+ */
+export interface DiceRollResult {
+  expression: string;
+  rolls: number[];
+  modifier: number;
+  total: number;
+  breakdown: string;
+}
+
+/**
+ * Structured dice record stored on action results.
+ * rngState is the session RNG state before the step (tool call, NPC action)
+ * that made the roll; a step's rolls share it and replay in the order made.
+ */
+export type DiceRollRecord = (
+  | ({ kind: "skill_check" } & SkillCheckResult)
+  | ({ kind: "opposed_check" } & OpposedCheckResult)
+  | ({ kind: "roll" } & DiceRollResult)
+) & { rngState?: number };
+
+/**
+ * Persisted state of a session's seeded dice RNG
+ */
+export interface DiceState {
+  seed: string;
+  state: number; // current 32-bit generator state
+  rollCount: number; // random draws consumed so far
+}
+
+/**
+ * Which side of a fight a combatant is on
+ */
+export type CombatSide = "investigators" | "opponents";
+
+/**
+ * Whether a combatant is still taking part in the fight
+ */
+export type CombatantStatus = "active" | "fled" | "surrendered" | "fallen";
+
+/**
+ * A participant in a combat encounter, in initiative order
+ */
+export interface Combatant {
+  characterId: string;
+  name: string;
+  side: CombatSide;
+  dex: number;
+  initiative: number; // DEX, or DEX+50 with a readied firearm
+  usesFirearm: boolean;
+  status: CombatantStatus;
+}
+
+/**
+ * An automatic NPC action resolved by the combat engine
+ */
+export interface CombatEvent {
+  round: number;
+  actor: string;
+  target: string;
+  summary: string;
+  damage: number;
+  rolls: DiceRollRecord[];
+}
+
+/**
+ * Combat encounter tracked across turns: rounds, initiative and whose turn it is
+ */
+export interface CombatEncounter {
+  id: string;
+  round: number;
+  order: Combatant[];
+  turnIndex: number; // index into order of the combatant whose turn it is
+  events: CombatEvent[]; // NPC actions resolved since the investigator last acted
+  endedReason: string | null; // set when the fight is over; cleared next turn
+  startedAt: Date;
+}
+
+/**
+ * Whether a chase participant is fleeing or giving chase
+ */
+export type ChaseRole = "quarry" | "pursuer";
+
+/**
+ * Whether a participant is still running
+ */
+export type ChaseParticipantStatus = "active" | "caught" | "escaped" | "stopped";
+
+/**
+ * Something on the chase track that calls for a roll
+ * - hazard: crossed either way; failure costs 1d3 movement actions (and maybe damage)
+ * - barrier: must be passed with a success before moving on
+ */
+export interface ChaseObstacle {
+  type: "hazard" | "barrier";
+  name: string;
+  skill: string;
+  difficulty: Difficulty;
+  damage?: string; // dice expression taken on a failed roll
+}
+
+/**
+ * One location on the chase track
+ */
+export interface ChaseLocation {
+  index: number;
+  name: string;
+  obstacle: ChaseObstacle | null;
+}
+
+/**
+ * A participant in a chase, in DEX order
+ */
+export interface ChaseParticipant {
+  characterId: string;
+  name: string;
+  role: ChaseRole;
+  side: CombatSide;
+  dex: number;
+  baseMov: number; // MOV before the speed roll
+  mov: number; // MOV after the speed roll
+  position: number; // index into the track
+  movementActions: number; // left this round; negative while delayed by a hazard
+  status: ChaseParticipantStatus;
+}
+
+/**
+ * A speed roll or a participant's movement resolved by the chase engine
+ */
+export interface ChaseEvent {
+  round: number;
+  actor: string;
+  characterId: string;
+  summary: string;
+  damage: number; // taken from a failed hazard
+  rolls: DiceRollRecord[];
+}
+
+/**
+ * Chase tracked across turns: the track, who is where and whether it is over
+ */
+export interface ChaseState {
+  id: string;
+  round: number; // 0 until the first round has been run
+  track: ChaseLocation[];
+  participants: ChaseParticipant[];
+  events: ChaseEvent[]; // speed rolls and movement resolved this turn
+  endedReason: string | null; // set when the chase is over; cleared next turn
+  startedAt: Date;
+}
+
 /**
  * Weapon Data
  */
@@ -17,6 +234,116 @@ export interface WeaponData {
   era?: string;
 }
 
+/**
+ * Kinds of item a character can carry
+ */
+export type InventoryItemType =
+  | "weapon"
+  | "tool"
+  | "tome"
+  | "consumable"
+  | "evidence"
+  | "other";
+
+/**
+ * An item a character carries
+ */
+export interface InventoryItem {
+  id: string;
+  name: string;
+  quantity: number;
+  type: InventoryItemType;
+  weapon?: WeaponData; // the weapon's stats, from the character sheet or the weapons table
+  charges?: number; // uses left (lantern oil, a medical kit) or spare rounds of ammunition
+  notes?: string;
+}
+
+/**
+ * Item gained, lost or used up by a character
+ */
+export interface InventoryChange {
+  characterId: string;
+  characterName: string;
+  operation: "add" | "remove" | "consume";
+  item: InventoryItem; // the item as it now stands (or as it was, once gone)
+  quantity: number; // items added or removed, or charges/items used up
+  summary: string;
+}
+
+/**
+ * Damage of one hit, worked out from the weapon, damage bonus and armour
+ */
+export interface DamageResult {
+  attacker: string;
+  target: string | null;
+  weapon: string;
+  expression: string; // weapon dice plus any damage bonus
+  maximised: boolean; // extreme success: maximum damage
+  impaled: boolean; // extreme success with an impaling weapon: maximum plus an extra weapon roll
+  rolled: number; // damage before armour
+  armour: number;
+  damage: number; // damage after armour
+  rolls: DiceRollRecord[];
+  summary: string;
+}
+
+/**
+ * Distance to the target relative to the weapon's base range
+ * - point_blank: within a fifth of DEX in feet (one bonus die)
+ * - normal: up to the base range
+ * - long: up to twice the base range (one penalty die)
+ * - very_long: up to four times the base range (two penalty dice)
+ */
+export type RangeBand = "point_blank" | "normal" | "long" | "very_long";
+
+/**
+ * Rounds loaded in a carried firearm and whether it has jammed
+ */
+export interface FirearmState {
+  rounds: number;
+  jammed: boolean;
+}
+
+/**
+ * One shot of a firearm attack
+ */
+export interface FirearmShot {
+  check: SkillCheckResult;
+  malfunction: boolean; // the roll met the malfunction number; the shot did not fire
+  hit: boolean;
+  damage: number;
+  damageResult?: DamageResult; // how a hit's damage was worked out
+}
+
+/**
+ * Outcome of firing a weapon (one or more shots in a round)
+ */
+export interface FirearmAttackResult {
+  character: string;
+  weapon: string;
+  target: string | null;
+  range: RangeBand;
+  shots: FirearmShot[];
+  roundsBefore: number;
+  roundsAfter: number;
+  jammed: boolean;
+  damage: number; // total damage dealt by the hits
+  rolls: DiceRollRecord[]; // every roll made, in order
+  summary: string;
+}
+
+/**
+ * Outcome of spending a combat action to reload or clear a jam
+ */
+export interface ReloadResult {
+  character: string;
+  weapon: string;
+  roundsBefore: number;
+  roundsAfter: number;
+  jamCleared: boolean;
+  summary: string;
+}
+
 export interface Skill {
   name: string;
   baseValue: number;
@@ -26,6 +353,81 @@ export interface Skill {
   examples?: string[];
 }
 
+/**
+ * Occupation from the rules database, with the skills its points can go to
+ */
+export interface Occupation {
+  name: string;
+  description: string;
+  skills: string[]; // occupational skills every member of the occupation has
+  skillChoices: OccupationSkillChoice[];
+  creditRating: { min: number; max: number };
+  skillPoints: string; // formula such as "EDU*4" or "EDU*2+(DEX|STR)*2"
+  era?: string;
+}
+
+/**
+ * Further occupational skills picked by the player
+ * (e.g., two of Charm, Fast Talk, Intimidate, Persuade)
+ */
+export interface OccupationSkillChoice {
+  count: number;
+  from: string[] | null; // null: any skill
+}
+
+/**
+ * How a new investigator's characteristics are set
+ * - rolled: 3d6×5, or (2d6+6)×5 for SIZ, INT and EDU
+ * - point_buy: a fixed pool of points shared between the eight
+ */
+export type CharacteristicMethod = "rolled" | "point_buy";
+
+/**
+ * EDU improvement check made for an investigator's age
+ */
+export interface EducationImprovement {
+  roll: number;
+  eduBefore: number;
+  gain: number; // 0 when the roll did not exceed EDU
+}
+
+/**
+ * Investigator generated from dice or point-buy, ready to be saved
+ */
+export interface GeneratedInvestigator {
+  method: CharacteristicMethod;
+  age: number;
+  attributes: CharacterAttributes;
+  luck: number;
+  derived: DerivedStats;
+  skills: Record<string, number>;
+  occupation: string | null;
+  allocation: SkillAllocationResult | null; // null when skills were left at base
+  eduChecks: EducationImprovement[];
+  adjustments: string[]; // age adjustments applied, in words
+  rolls: DiceRollRecord[];
+}
+
+/**
+ * Problem with one skill (or one pool of points) on a new investigator sheet
+ */
+export interface SkillAllocationError {
+  skill: string | null; // null when the problem is the pool as a whole
+  message: string;
+}
+
+/**
+ * Outcome of checking a new investigator's skill points
+ */
+export interface SkillAllocationResult {
+  valid: boolean;
+  occupation: string;
+  occupationalSkills: string[]; // fixed skills plus the choices they filled
+  occupationalPoints: { available: number; spent: number };
+  personalPoints: { available: number; spent: number };
+  errors: SkillAllocationError[];
+}
+
 /**
  * Character Attributes and Status
  */
@@ -41,6 +443,239 @@ export interface CharacterAttributes {
   [key: string]: number;
 }
 
+/**
+ * Health conditions driven by the damage rules
+ * - major_wound: a single hit dealt at least half max HP
+ * - unconscious: knocked out (0 HP, or failed CON roll after a Major Wound)
+ * - dying: 0 HP with a Major Wound; CON roll each round or die
+ * - stabilised: dying halted by First Aid until Medicine is applied
+ * - dead: killed outright or failed a dying CON roll
+ */
+export type HealthCondition =
+  | "major_wound"
+  | "unconscious"
+  | "dying"
+  | "stabilised"
+  | "dead";
+
+/**
+ * Insanity conditions driven by the Sanity rules
+ * - temporary_insanity: lost 5+ SAN in one roll and grasped it (passed INT); wears off after 1d10 hours
+ * - indefinite_insanity: lost a fifth of the day's starting SAN within one game day
+ * - permanent_insanity: SAN reduced to 0
+ */
+export type SanityCondition =
+  | "temporary_insanity"
+  | "indefinite_insanity"
+  | "permanent_insanity";
+
+/**
+ * Physical conditions from the situation rather than the damage or Sanity rules
+ * - prone: on the ground; easier to hit in melee, harder to shoot
+ * - restrained: held, grappled or tied up
+ * - stunned: dazed by a blow or a blast; loses their actions
+ * - blinded: cannot see
+ * - intoxicated: drunk or drugged
+ * - exhausted: worn out by exertion or lack of sleep
+ */
+export type PhysicalCondition =
+  | "prone"
+  | "restrained"
+  | "stunned"
+  | "blinded"
+  | "intoxicated"
+  | "exhausted";
+
+/**
+ * Condition on a character, from the catalogue in mechanics/conditions.ts
+ */
+export type CharacterCondition =
+  | HealthCondition
+  | SanityCondition
+  | PhysicalCondition;
+
+/**
+ * Units a condition's duration is given in; hours and days run on the game clock in minutes
+ */
+export type ConditionDurationUnit =
+  | "rounds"
+  | "scenes"
+  | "minutes"
+  | "hours"
+  | "days";
+
+export interface ConditionDuration {
+  amount: number;
+  unit: ConditionDurationUnit;
+}
+
+/**
+ * Time left on a condition; it expires when remaining reaches 0
+ */
+export interface ConditionTimer {
+  condition: CharacterCondition;
+  unit: "rounds" | "scenes" | "minutes";
+  remaining: number;
+}
+
+/**
+ * Rolls a condition's bonus or penalty dice apply to
+ * - own_checks: every check the character makes
+ * - own_physical: the character's physical checks (STR, DEX, CON, Climb, Fighting, ...)
+ * - own_sight: the character's checks that need sight (Spot Hidden, Firearms, ...)
+ * - ranged_attacks_against: Firearms and Throw attacks on the character
+ * - melee_attacks_against: Fighting attacks on the character
+ */
+export type ConditionModifierScope =
+  | "own_checks"
+  | "own_physical"
+  | "own_sight"
+  | "ranged_attacks_against"
+  | "melee_attacks_against";
+
+export interface ConditionModifier {
+  scope: ConditionModifierScope;
+  bonusDice?: number;
+  penaltyDice?: number;
+}
+
+/**
+ * Catalogue entry: what a condition is called and what it does
+ */
+export interface ConditionDefinition {
+  id: CharacterCondition;
+  name: string;
+  description: string;
+  aliases: string[]; // other names the Keeper or a sheet may use ("knocked down" for prone)
+  blocksActions: boolean; // the character cannot act while it lasts
+  behaviour?: string; // how the character must be played while it lasts
+  modifiers: ConditionModifier[];
+  defaultDuration?: ConditionDuration; // when applied without one; none lasts until removed
+}
+
+/**
+ * Bonus and penalty dice conditions add to a roll, and the reasons for them
+ */
+export interface ConditionDice {
+  bonusDice: number;
+  penaltyDice: number;
+  reasons: string[];
+}
+
+/**
+ * Condition applied, removed or run out, reported to the Keeper
+ */
+export interface ConditionEvent {
+  characterId: string;
+  characterName: string;
+  condition: CharacterCondition;
+  type: "applied" | "removed" | "expired";
+  summary: string;
+}
+
+/**
+ * Skills that can treat wounds
+ */
+export type TreatmentSkill = "First Aid" | "Medicine";
+
+/**
+ * Ways to recover Sanity during downtime
+ */
+export type SanityRecoveryMethod = "psychotherapy" | "self_help";
+
+/**
+ * Where a character's recovery stands
+ */
+export interface RecoveryState {
+  treatments: TreatmentSkill[]; // already given for the current injury
+  healingMinutes: number; // game time towards the next day (or, with a Major Wound, week) of healing
+  lastPsychotherapy?: number; // game minutes of the last session (see GameState.elapsedMinutes)
+  lastSelfHelp?: number;
+}
+
+/**
+ * Change in a character's health state, reported to the Keeper and Director
+ */
+export interface HealthEvent {
+  characterId: string;
+  characterName: string;
+  type:
+    | HealthCondition
+    | "stayed_conscious"
+    | "survived_dying_check"
+    | "revived"
+    | "treated"
+    | "already_treated"
+    | "healed"
+    | "recovery_roll"
+    | "sanity_recovery";
+  summary: string;
+  check?: SkillCheckResult; // CON, treatment or therapy roll behind the change
+  roll?: DiceRollResult; // hit points restored by a recovery roll
+}
+
+/**
+ * A real-time Bout of Madness rolled on the 1d10 table; lasts 1d10 rounds
+ */
+export interface BoutOfMadness {
+  roll: number;
+  name: string;
+  description: string;
+  rounds: number;
+}
+
+/**
+ * Outcome of a Sanity roll: the loss applied and any insanity it caused
+ */
+export interface SanityCheckResult {
+  character: string;
+  trigger: string | null; // sanity_triggers entry, when the loss came from the table
+  sanityLoss: string; // loss pair such as "0/1d6" (success/failure)
+  check: SkillCheckResult; // the SAN roll
+  loss: number;
+  sanityBefore: number;
+  sanityAfter: number;
+  intCheck?: SkillCheckResult; // INT roll after losing 5+ SAN at once
+  temporaryInsanity: boolean;
+  temporaryInsanityHours?: number; // 1d10 hours of temporary insanity
+  indefiniteInsanity: boolean;
+  permanentInsanity: boolean;
+  boutOfMadness?: BoutOfMadness;
+  rolls: DiceRollRecord[]; // every roll made, in order
+  summary: string;
+}
+
+/**
+ * Sanity trigger from the rules database (e.g., "Seeing a dead body", "0/1d3")
+ */
+export interface SanityTrigger {
+  trigger: string;
+  sanityLoss: string;
+  description?: string;
+}
+
+/**
+ * Statistics worked out from the characteristics (CoC 7e)
+ */
+export interface DerivedStats {
+  hp: number;
+  mp: number;
+  sanity: number; // starting SAN (POW)
+  maxSanity: number; // 99 minus Cthulhu Mythos
+  damageBonus: string;
+  build: number;
+  mov: number;
+}
+
+/**
+ * Derived statistic on a sheet that disagrees with the rules
+ */
+export interface DerivedMismatch {
+  stat: keyof DerivedStats;
+  expected: number | string;
+  actual: number | string;
+}
+
 export interface CharacterStatus {
   hp: number;
   maxHp: number;
@@ -48,7 +683,7 @@ export interface CharacterStatus {
   maxSanity: number;
   luck: number;
   mp?: number;
-  conditions: string[];
+  conditions: CharacterCondition[];
   notes?: string;
   /**
    * Damage bonus (e.g., "0", "+1d4", "+1d6", "-1d4")
@@ -62,7 +697,27 @@ export interface CharacterStatus {
    * Movement rate
    */
   mov?: number;
-  [key: string]: number | string[] | string | undefined;
+  /**
+   * Armour points subtracted from the damage of every hit
+   */
+  armour?: number;
+  /**
+   * SAN at the start of the current game day (indefinite insanity threshold)
+   */
+  sanityAtDayStart?: number;
+  /**
+   * Game day sanityAtDayStart was recorded on
+   */
+  sanityDay?: number;
+  /**
+   * Time left on conditions that wear off; conditions without one last until removed
+   */
+  conditionTimers?: ConditionTimer[];
+  /**
+   * Treatments given for the current injury and time spent healing
+   */
+  recovery?: RecoveryState;
+  [key: string]: number | string[] | string | ConditionTimer[] | RecoveryState | undefined;
 }
 
 export interface ActionLogEntry {
@@ -75,10 +730,38 @@ export interface CharacterProfile {
   name: string;
   attributes: CharacterAttributes;
   status: CharacterStatus;
-  inventory: string[];
+  inventory: InventoryItem[];
   skills: Record<string, number>;
   notes?: string;
   actionLog?: ActionLogEntry[];
+  experienceChecks?: string[]; // skills ticked by a success, improved in the development phase
+  firearms?: Record<string, FirearmState>; // loaded rounds per carried firearm, by weapon name
+}
+
+/**
+ * One ticked skill's improvement roll in the development phase
+ */
+export interface SkillImprovement {
+  skill: string;
+  before: number;
+  roll: number; // 1d100; over the skill value (or 96+) improves it
+  improved: boolean;
+  gain: number; // 1d10 on a successful improvement roll
+  after: number;
+  sanityAward: number; // 2d6 SAN for first reaching 90%
+}
+
+/**
+ * Outcome of an investigator's development phase
+ */
+export interface DevelopmentResult {
+  characterId: string;
+  character: string;
+  improvements: SkillImprovement[];
+  sanityGained: number;
+  sanityBefore: number;
+  sanityAfter: number;
+  rolls: DiceRollRecord[];
 }
 
 /**
@@ -1,2 +1,3 @@
 export { getOrchestratorTemplate } from './orchestratorTemplate.js';
-export { OrchestratorAgent } from './orchestratorAgent.js';
\ No newline at end of file
+export { OrchestratorAgent } from './orchestratorAgent.js';
+export { orchestratorOutputSchema } from './orchestratorSchema.js';
\ No newline at end of file
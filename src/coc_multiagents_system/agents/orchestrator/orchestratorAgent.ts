@@ -1,11 +1,13 @@
 import { getOrchestratorTemplate } from "./orchestratorTemplate.js";
 import { composeTemplate } from "../../../template.js";
 import type { ActionAnalysis, GameStateManager, ActionType } from "../../../state.js";
+import type { ChaseRole } from "../models/gameTypes.js";
 import {
   ModelProviderName,
   ModelClass,
-  generateText,
+  generateStructured,
 } from "../../../models/index.js";
+import { orchestratorOutputSchema } from "./orchestratorSchema.js";
 
 interface OrchestratorRuntime {
   modelProvider: ModelProviderName;
@@ -36,41 +38,64 @@ export class OrchestratorAgent {
     const characterName = gameState.playerCharacter?.name || "Unknown";
     const scenarioLocation = gameState.currentScenario?.location || "Unknown location";
     const npcNames = gameState.npcCharacters?.map(npc => npc.name).join(", ") || "None";
+    const partyNames = gameState.party?.map(member => member.name).join(", ") || "None";
+    // Only the investigator who failed the check can push it or spend Luck on it
+    const ownCheck = <T extends { characterName: string }>(check: T | null): T | null =>
+      check && check.characterName === characterName ? check : null;
+    const pushable = ownCheck(gameState.pushableCheck ?? null);
+    const pushableCheck = pushable
+      ? `${pushable.characterName} failed ${pushable.skill} (${pushable.difficulty}) while trying to: ${pushable.action}`
+      : "None";
+    const luckOption = ownCheck(gameState.luckSpendOption ?? null);
+    const luckSpendOption = luckOption
+      ? `${luckOption.characterName} failed ${luckOption.check.skill} (rolled ${luckOption.check.roll} vs ${luckOption.check.target}); spending ${luckOption.cost} Luck would pass it`
+      : "None";
+    const chase = gameState.chase && !gameState.chase.endedReason ? gameState.chase : null;
+    const chaseStatus = chase
+      ? `Round ${chase.round}: ${chase.participants.map(p => `${p.name} (${p.role}, ${p.status})`).join(", ")}`
+      : "None";
     
     // Compose the prompt with input and game context
     const prompt = composeTemplate(template, {}, {
       input,
       characterName,
       scenarioLocation,
-      npcNames
+      npcNames,
+      partyNames,
+      pushableCheck,
+      luckSpendOption,
+      chaseStatus
     });
 
-    // Generate response using LLM
-    const response = await generateText({
+    // Generate the analysis; a reply that cannot be repaired throws
+    const parsedResponse = await generateStructured<{ actionAnalysis: any }>({
       runtime,
       context: prompt,
       modelClass: ModelClass.MEDIUM,
+      schema: orchestratorOutputSchema,
+      schemaName: "Orchestrator",
     });
 
-    // Parse the response and store action analysis
-    try {
-      const parsedResponse = JSON.parse(response);
-      if (parsedResponse.actionAnalysis) {
-        const normalizedActionAnalysis = this.normalizeActionAnalysis(
-          parsedResponse.actionAnalysis,
-          characterName
-        );
-        gameStateManager.setActionAnalysis(normalizedActionAnalysis);
-      }
-    } catch (error) {
-      console.warn("Failed to parse orchestrator response for action analysis:", error);
-    }
+    // Store the action analysis
+    const normalizedActionAnalysis = this.normalizeActionAnalysis(
+      parsedResponse.actionAnalysis,
+      characterName,
+      Boolean(pushable),
+      Boolean(luckOption)
+    );
+    gameStateManager.setActionAnalysis(normalizedActionAnalysis);
 
-    return response;
+    return JSON.stringify(parsedResponse);
   }
 
-  private normalizeActionAnalysis(rawAnalysis: any, fallbackCharacterName: string): ActionAnalysis {
+  private normalizeActionAnalysis(rawAnalysis: any, fallbackCharacterName: string, canPush: boolean, canSpendLuck: boolean): ActionAnalysis {
     const actionType = rawAnalysis.actionType as ActionType | undefined;
+    const isPush = canPush && Boolean(rawAnalysis.isPush);
+    // A check is either pushed or bought with Luck, never both
+    const isLuckSpend = canSpendLuck && !isPush && Boolean(rawAnalysis.isLuckSpend);
+    const chaseRole = rawAnalysis.chaseRole === "quarry" || rawAnalysis.chaseRole === "pursuer"
+      ? rawAnalysis.chaseRole as ChaseRole
+      : undefined;
     return {
       character: rawAnalysis.character || rawAnalysis.player || fallbackCharacterName,
       action: rawAnalysis.action || "",
@@ -79,7 +104,11 @@ export class OrchestratorAgent {
         name: rawAnalysis.target?.name ?? null,
         intent: rawAnalysis.target?.intent || ""
       },
-      requiresDice: Boolean(rawAnalysis.requiresDice)
+      requiresDice: Boolean(rawAnalysis.requiresDice) || isPush,
+      isPush,
+      pushJustification: isPush ? rawAnalysis.pushJustification || "" : undefined,
+      isLuckSpend,
+      chaseRole: actionType === "chase" ? chaseRole : undefined
     };
   }
 
@@ -0,0 +1,36 @@
+import type { OutputSchema } from "../../../models/index.js";
+
+/**
+ * Shape of the Orchestrator's reply: the analysis of the player's input
+ */
+export const orchestratorOutputSchema: OutputSchema = {
+  type: "object",
+  properties: {
+    actionAnalysis: {
+      type: "object",
+      properties: {
+        character: { type: "string" },
+        action: { type: "string" },
+        actionType: {
+          type: "string",
+          enum: ["exploration", "social", "stealth", "combat", "chase", "mental", "environmental", "narrative"],
+        },
+        target: {
+          type: "object",
+          nullable: true,
+          properties: {
+            name: { type: "string", nullable: true },
+            intent: { type: "string", nullable: true },
+          },
+        },
+        requiresDice: { type: "boolean" },
+        isPush: { type: "boolean" },
+        pushJustification: { type: "string", nullable: true },
+        isLuckSpend: { type: "boolean" },
+        chaseRole: { type: "string", enum: ["quarry", "pursuer"], nullable: true },
+      },
+      required: ["action", "actionType", "requiresDice"],
+    },
+  },
+  required: ["actionAnalysis"],
+};
@@ -10,9 +10,22 @@ You classify the player's latest input into a structured action analysis. Do NOT
 "{{input}}"
 
 ## Game Context
-- Character: {{characterName}}
+- Character: {{characterName}} (the investigator acting this turn)
+- Rest of the party: {{partyNames}}
 - Location: {{scenarioLocation}}
 - Available NPCs: {{npcNames}}
+- Pushable failed check: {{pushableCheck}}
+- Luck spend option: {{luckSpendOption}}
+- Chase in progress: {{chaseStatus}}
+
+## Pushed Rolls
+If a pushable failed check is listed above and the player is retrying that same task with extra effort, risk or a new approach ("I try again, harder", "I tear the room apart this time"), set "isPush" to true and summarise how they justify it in "pushJustification". Otherwise "isPush" is false.
+
+## Spending Luck
+If a Luck spend option is listed above and the player chooses to spend Luck to pass that failed check ("I spend my Luck", "use Luck to make it"), set "isLuckSpend" to true. A check is either pushed or bought with Luck, never both. Otherwise "isLuckSpend" is false.
+
+## Chases
+If the player flees from someone or gives chase to someone, the actionType is "chase". Set "chaseRole" to "quarry" when the investigator is fleeing and "pursuer" when they are chasing, and name the other side in "target". While a chase is in progress, keeping on running or pursuing is still "chase"; stopping, hiding or turning to fight ends it. Otherwise "chaseRole" is null.
 
 ## Action Types
 - exploration | social | stealth | combat | chase | mental | environmental | narrative
@@ -24,7 +37,11 @@ You classify the player's latest input into a structured action analysis. Do NOT
     "action": "what action the character wants to perform",
     "actionType": "exploration|social|stealth|combat|chase|mental|environmental|narrative",
     "target": { "name": "target name if applicable", "intent": "what the character wants to achieve" },
-    "requiresDice": true
+    "requiresDice": true,
+    "isPush": false,
+    "pushJustification": "",
+    "isLuckSpend": false,
+    "chaseRole": null
   }
 }`;
 }
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import type { WeaponData } from "../../agents/models/gameTypes.js";
+import { getWaitingInvestigator, resolveCombatAttack, startEncounter } from "../combat.js";
+import { createCharacter, dieValue, percentileValues, scriptedRng } from "./helpers.js";
+
+const revolver: WeaponData = {
+  name: ".38 Revolver",
+  skill: "Firearms (Handgun)",
+  damage: "1d10",
+  range: "15 yards",
+  attacksPerRound: 1,
+  ammo: 6,
+  malfunction: 100,
+};
+
+const gunman = createCharacter({ id: "npc-1", name: "Gunman", skills: { "Firearms (Handgun)": 50 } });
+const target = createCharacter();
+
+describe("resolveCombatAttack with a firearm", () => {
+  it("uses a round and damages the target on a hit", () => {
+    const rng = scriptedRng(...percentileValues(40), dieValue(7, 10));
+    const { event, damagedId, firearm } = resolveCombatAttack(gunman, target, true, 1, rng, { attacker: revolver });
+
+    expect(damagedId).toBe(target.id);
+    expect(event.damage).toBe(7);
+    expect(firearm).toEqual({ weapon: revolver, state: { rounds: 5, jammed: false } });
+  });
+
+  it("jams on a roll at the weapon's malfunction number", () => {
+    const rng = scriptedRng(...percentileValues(100));
+    const { damagedId, firearm } = resolveCombatAttack(gunman, target, true, 1, rng, { attacker: revolver });
+
+    expect(damagedId).toBeNull();
+    expect(firearm?.state).toEqual({ rounds: 6, jammed: true });
+  });
+
+  it("spends the turn reloading an empty gun", () => {
+    const empty = { ...gunman, firearms: { [revolver.name]: { rounds: 0, jammed: false } } };
+    const { event, firearm } = resolveCombatAttack(empty, target, true, 1, scriptedRng(), { attacker: revolver });
+
+    expect(event.rolls).toEqual([]);
+    expect(firearm?.state).toEqual({ rounds: 6, jammed: false });
+  });
+});
+
+describe("getWaitingInvestigator", () => {
+  const quick = createCharacter({ id: "investigator-2", name: "Rita Young", attributes: { ...target.attributes, DEX: 80 } });
+  const encounter = startEncounter([target, quick], [gunman]);
+
+  it("waits on the investigator whose turn it is", () => {
+    expect(getWaitingInvestigator(encounter, target.id)?.characterId).toBe(quick.id);
+    expect(getWaitingInvestigator(encounter, quick.id)).toBeNull();
+  });
+
+  it("waits on nobody once the fight is over", () => {
+    expect(getWaitingInvestigator({ ...encounter, endedReason: "opponents defeated" }, target.id)).toBeNull();
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import type { CharacterStatus } from "../../agents/models/gameTypes.js";
+import {
+  applyCondition,
+  CONDITION_IDS,
+  CONDITIONS,
+  canAct,
+  getConditionDice,
+  normalizeConditions,
+  resolveConditionId,
+  tickConditions,
+} from "../conditions.js";
+
+const status = (overrides: Partial<CharacterStatus> = {}): CharacterStatus => ({
+  hp: 10,
+  maxHp: 10,
+  sanity: 50,
+  maxSanity: 99,
+  luck: 50,
+  conditions: [],
+  ...overrides,
+});
+
+describe("CONDITIONS", () => {
+  it("keys every definition by its own id, with no alias claimed twice", () => {
+    const aliases = CONDITION_IDS.flatMap((id) => CONDITIONS[id].aliases);
+
+    for (const id of CONDITION_IDS) expect(CONDITIONS[id].id).toBe(id);
+    expect(new Set(aliases).size).toBe(aliases.length);
+  });
+
+  it("stops action only for the incapacitating conditions", () => {
+    expect(CONDITION_IDS.filter((id) => CONDITIONS[id].blocksActions).sort()).toEqual(
+      ["dead", "dying", "permanent_insanity", "stunned", "unconscious"],
+    );
+  });
+});
+
+describe("resolveConditionId", () => {
+  it("matches ids, names and aliases in any case or spacing", () => {
+    expect(resolveConditionId("major_wound")).toBe("major_wound");
+    expect(resolveConditionId("Temporary Insanity")).toBe("temporary_insanity");
+    expect(resolveConditionId("Knocked-Down")).toBe("prone");
+    expect(resolveConditionId("tied up")).toBe("restrained");
+  });
+
+  it.each(["insane", "mad", "bleeding"])("leaves %j unresolved", (name) => {
+    expect(resolveConditionId(name)).toBeNull();
+  });
+
+  it("reports the names it cannot place, once per condition", () => {
+    expect(normalizeConditions(["Prone", "fallen", "insane", 3])).toEqual({
+      conditions: ["prone"],
+      unknown: ["insane"],
+    });
+  });
+});
+
+describe("tickConditions", () => {
+  it("expires a condition when its timer runs out in its own unit", () => {
+    const stunned = applyCondition(status(), "stunned");
+
+    expect(tickConditions(stunned, "minutes", 10).expired).toEqual([]);
+    const { status: after, expired } = tickConditions(stunned, "rounds");
+    expect(expired).toEqual(["stunned"]);
+    expect(after).toMatchObject({ conditions: [], conditionTimers: [] });
+    expect(canAct(stunned)).toBe(false);
+    expect(canAct(after)).toBe(true);
+  });
+
+  it("counts hours in game minutes and keeps untimed conditions", () => {
+    const drunk = applyCondition(applyCondition(status(), "prone"), "intoxicated", { amount: 1, unit: "hours" });
+
+    const halfway = tickConditions(drunk, "minutes", 30);
+    expect(halfway.status.conditionTimers).toEqual([{ condition: "intoxicated", unit: "minutes", remaining: 30 }]);
+    const { status: after, expired } = tickConditions(halfway.status, "minutes", 30);
+    expect(expired).toEqual(["intoxicated"]);
+    expect(after.conditions).toEqual(["prone"]);
+  });
+
+  it("drops timers for conditions already removed", () => {
+    const timed = status({ conditionTimers: [{ condition: "exhausted", unit: "minutes", remaining: 60 }] });
+
+    expect(tickConditions(timed, "rounds")).toEqual({ status: { ...timed, conditionTimers: [] }, expired: [] });
+  });
+});
+
+describe("getConditionDice", () => {
+  it("puts a condition's own modifiers on the character's checks", () => {
+    const dice = getConditionDice(status({ conditions: ["blinded", "prone"] }), "Spot Hidden");
+
+    expect(dice).toEqual({ bonusDice: 0, penaltyDice: 2, reasons: ["Blinded: +2 penalty dice"] });
+    expect(getConditionDice(status({ conditions: ["blinded"] }), "Listen").penaltyDice).toBe(0);
+  });
+
+  it("puts a target's modifiers only on attacks against them", () => {
+    const prone = status({ conditions: ["prone"] });
+
+    expect(getConditionDice(status(), "Firearms (Handgun)", prone)).toEqual({
+      bonusDice: 0,
+      penaltyDice: 1,
+      reasons: ["target Prone: +1 penalty die"],
+    });
+    expect(getConditionDice(status(), "Fighting (Brawl)", prone).bonusDice).toBe(1);
+    expect(getConditionDice(status(), "Dodge", prone)).toEqual({ bonusDice: 0, penaltyDice: 0, reasons: [] });
+  });
+
+  it("adds the roller's and the target's dice together", () => {
+    const dice = getConditionDice(
+      status({ conditions: ["restrained"] }),
+      "Fighting (Brawl)",
+      status({ conditions: ["restrained"] }),
+    );
+
+    expect(dice).toMatchObject({ bonusDice: 1, penaltyDice: 1 });
+  });
+});
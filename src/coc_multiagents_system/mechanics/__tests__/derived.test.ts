@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { calculateDerivedStats, checkDerivedStats, getDamageBonusAndBuild, getMovementRate } from "../derived.js";
+
+const attributes = { STR: 50, CON: 60, DEX: 70, APP: 50, POW: 60, SIZ: 65, INT: 70, EDU: 80 };
+
+describe("getDamageBonusAndBuild", () => {
+  it("reads the table at its boundaries", () => {
+    expect(getDamageBonusAndBuild(30, 34)).toEqual({ damageBonus: "-2", build: -2 });
+    expect(getDamageBonusAndBuild(30, 35)).toEqual({ damageBonus: "-1", build: -1 });
+    expect(getDamageBonusAndBuild(60, 64)).toEqual({ damageBonus: "0", build: 0 });
+    expect(getDamageBonusAndBuild(60, 65)).toEqual({ damageBonus: "+1d4", build: 1 });
+    expect(getDamageBonusAndBuild(100, 104)).toEqual({ damageBonus: "+1d6", build: 2 });
+    expect(getDamageBonusAndBuild(140, 144)).toEqual({ damageBonus: "+2d6", build: 3 });
+  });
+
+  it("adds 1d6 and +1 Build for every 80 points past 284", () => {
+    expect(getDamageBonusAndBuild(150, 135)).toEqual({ damageBonus: "+3d6", build: 4 });
+    expect(getDamageBonusAndBuild(200, 164)).toEqual({ damageBonus: "+3d6", build: 4 });
+    expect(getDamageBonusAndBuild(200, 165)).toEqual({ damageBonus: "+4d6", build: 5 });
+  });
+});
+
+describe("getMovementRate", () => {
+  it("compares DEX and STR with SIZ", () => {
+    expect(getMovementRate({ ...attributes, STR: 40, DEX: 40, SIZ: 60 })).toBe(7);
+    expect(getMovementRate({ ...attributes, STR: 70, DEX: 70, SIZ: 60 })).toBe(9);
+    expect(getMovementRate({ ...attributes, STR: 70, DEX: 40, SIZ: 60 })).toBe(8);
+  });
+
+  it("takes 1 MOV per decade from the 40s", () => {
+    expect(getMovementRate(attributes, 39)).toBe(8);
+    expect(getMovementRate(attributes, 40)).toBe(7);
+    expect(getMovementRate(attributes, 65)).toBe(5);
+    expect(getMovementRate(attributes, 89)).toBe(3);
+  });
+});
+
+describe("calculateDerivedStats", () => {
+  it("works out every statistic from the characteristics", () => {
+    expect(calculateDerivedStats(attributes, 35)).toEqual({
+      hp: 12,
+      mp: 12,
+      sanity: 60,
+      maxSanity: 99,
+      damageBonus: "0",
+      build: 0,
+      mov: 8,
+    });
+  });
+
+  it("caps Sanity by Cthulhu Mythos", () => {
+    expect(calculateDerivedStats({ ...attributes, POW: 90 }, 35, 15)).toMatchObject({ sanity: 84, maxSanity: 84 });
+  });
+});
+
+describe("checkDerivedStats", () => {
+  it("reports disagreeing statistics and ignores missing or differently spelt ones", () => {
+    const derived = calculateDerivedStats(attributes, 35);
+    const mismatches = checkDerivedStats(derived, { hp: 14, damageBonus: "+0", build: null, mov: "8" });
+
+    expect(mismatches).toEqual([{ stat: "hp", expected: 12, actual: 14 }]);
+  });
+});
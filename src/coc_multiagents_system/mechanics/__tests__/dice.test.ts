@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { getMaxDiceTotal, parseDiceExpression, rollDiceExpression, rollPercentile } from "../dice.js";
+import { dieValue, scriptedRng } from "./helpers.js";
+
+describe("parseDiceExpression", () => {
+  it("parses dice, keep and constant terms with their signs", () => {
+    expect(parseDiceExpression("2D6 + 1d4kh1 - 3")).toEqual([
+      { type: "dice", sign: 1, count: 2, sides: 6, keep: undefined, bonusDice: 0, penaltyDice: 0 },
+      { type: "dice", sign: 1, count: 1, sides: 4, keep: { mode: "highest", count: 1 }, bonusDice: 0, penaltyDice: 0 },
+      { type: "constant", sign: -1, value: 3 },
+    ]);
+  });
+
+  it("reads d% as d100 and takes bonus and penalty dice on 1d100", () => {
+    expect(parseDiceExpression("d%")[0]).toMatchObject({ count: 1, sides: 100 });
+    expect(parseDiceExpression("1d100b2")[0]).toMatchObject({ bonusDice: 2, penaltyDice: 0 });
+    expect(parseDiceExpression("1d100p1")[0]).toMatchObject({ bonusDice: 0, penaltyDice: 1 });
+  });
+
+  it("caps the kept dice at the dice rolled", () => {
+    expect(parseDiceExpression("2d6kl5")[0]).toMatchObject({ keep: { mode: "lowest", count: 2 } });
+  });
+
+  it.each(["", "abc", "2d", "0d6", "1d0", "4d6kh0", "2d100b1", "1d6b1", "101d6", "1d6++2"])(
+    "rejects %j",
+    (expression) => {
+      expect(() => parseDiceExpression(expression)).toThrow();
+    }
+  );
+});
+
+describe("getMaxDiceTotal", () => {
+  it("adds the highest face of every kept die and the constants", () => {
+    expect(getMaxDiceTotal("1d8+1d4+2")).toBe(14);
+    expect(getMaxDiceTotal("4d6kh3")).toBe(18);
+    expect(getMaxDiceTotal("1d6-1d4")).toBe(5);
+  });
+});
+
+describe("rollDiceExpression", () => {
+  it("totals the kept dice and the modifier", () => {
+    const rng = scriptedRng(dieValue(5, 6), dieValue(2, 6), dieValue(3, 4));
+    const result = rollDiceExpression("2d6+1d4-1", rng);
+
+    expect(result.rolls).toEqual([5, 2, 3]);
+    expect(result.modifier).toBe(-1);
+    expect(result.total).toBe(9);
+    expect(result.breakdown).toBe("2d6[5,2] + 1d4[3] - 1 = 9");
+  });
+
+  it("keeps only the highest dice and notes the dropped ones", () => {
+    const rng = scriptedRng(dieValue(1, 6), dieValue(6, 6), dieValue(4, 6), dieValue(3, 6));
+    const result = rollDiceExpression("4d6kh3", rng);
+
+    expect(result.total).toBe(13);
+    expect(result.breakdown).toBe("4d6kh3[6,4,3] (rolled 1,6,4,3) = 13");
+  });
+});
+
+describe("rollPercentile", () => {
+  it("keeps the lowest tens die with a bonus die", () => {
+    const rng = scriptedRng(dieValue(4, 10), dieValue(8, 10), dieValue(3, 10));
+    const result = rollPercentile(1, 0, rng);
+
+    expect(result.tensDice).toEqual([70, 20]);
+    expect(result.roll).toBe(23);
+  });
+
+  it("keeps the highest tens die with a penalty die", () => {
+    const rng = scriptedRng(dieValue(4, 10), dieValue(8, 10), dieValue(3, 10));
+    expect(rollPercentile(0, 1, rng).roll).toBe(73);
+  });
+
+  it("cancels bonus and penalty dice one for one", () => {
+    const rng = scriptedRng(dieValue(4, 10), dieValue(8, 10));
+    const result = rollPercentile(1, 1, rng);
+
+    expect(result.tensDice).toHaveLength(1);
+    expect(result).toMatchObject({ roll: 73, bonusDice: 0, penaltyDice: 0 });
+  });
+
+  it("reads 00 and 0 as 100", () => {
+    const rng = scriptedRng(dieValue(1, 10), dieValue(1, 10));
+    expect(rollPercentile(0, 0, rng).roll).toBe(100);
+  });
+});
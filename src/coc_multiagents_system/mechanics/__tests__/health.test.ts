@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+import type { CharacterStatus } from "../../agents/models/gameTypes.js";
+import { getHealthEventRolls, resolveDamage, resolveDyingCheck, resolveTreatment } from "../health.js";
+import { MINUTES_PER_WEEK, resolveNaturalHealing } from "../recovery.js";
+import { createCharacter, dieValue, percentileRng, percentileValues, scriptedRng } from "./helpers.js";
+
+const withStatus = (status: Partial<CharacterStatus>) => {
+  const character = createCharacter();
+  return { ...character, status: { ...character.status, ...status } };
+};
+
+describe("resolveDamage", () => {
+  it("kills outright when one hit deals at least max HP", () => {
+    const { status, events } = resolveDamage(withStatus({}), 12);
+
+    expect(status.hp).toBe(0);
+    expect(status.conditions).toEqual(["dead"]);
+    expect(events.map((e) => e.type)).toEqual(["dead"]);
+  });
+
+  it("makes half max HP in one hit a Major Wound that needs a CON roll", () => {
+    const conscious = resolveDamage(withStatus({}), 6, percentileRng(30));
+    expect(conscious.status).toMatchObject({ hp: 6, conditions: ["major_wound"] });
+    expect(conscious.events.map((e) => e.type)).toEqual(["major_wound", "stayed_conscious"]);
+
+    const out = resolveDamage(withStatus({}), 6, percentileRng(80));
+    expect(out.status.conditions).toEqual(["major_wound", "unconscious"]);
+    expect(out.events.map((e) => e.type)).toEqual(["major_wound", "unconscious"]);
+  });
+
+  it("leaves a smaller hit as plain damage", () => {
+    const { status, events } = resolveDamage(withStatus({}), 5);
+
+    expect(status).toMatchObject({ hp: 7, conditions: [] });
+    expect(events).toEqual([]);
+  });
+
+  it("knocks out at 0 HP without a Major Wound", () => {
+    const { status, events } = resolveDamage(withStatus({ hp: 3 }), 4);
+
+    expect(status).toMatchObject({ hp: 0, conditions: ["unconscious"] });
+    expect(events.map((e) => e.type)).toEqual(["unconscious"]);
+  });
+
+  it("leaves a character dying at 0 HP with a Major Wound", () => {
+    const { status, events } = resolveDamage(withStatus({ hp: 5 }), 6);
+
+    expect(status.hp).toBe(0);
+    expect(status.conditions).toEqual(["major_wound", "unconscious", "dying"]);
+    expect(events.map((e) => e.type)).toEqual(["major_wound", "dying"]);
+  });
+
+  it("does not touch the character it was given", () => {
+    const character = withStatus({});
+    resolveDamage(character, 12);
+
+    expect(character.status).toMatchObject({ hp: 12, conditions: [] });
+  });
+});
+
+describe("resolveDyingCheck", () => {
+  it("kills a dying character who fails CON", () => {
+    const dying = withStatus({ hp: 0, conditions: ["major_wound", "unconscious", "dying"] });
+
+    expect(resolveDyingCheck(dying, percentileRng(30)).events.map((e) => e.type)).toEqual(["survived_dying_check"]);
+    expect(resolveDyingCheck(dying, percentileRng(80)).status.conditions).toContain("dead");
+  });
+});
+
+describe("resolveTreatment", () => {
+  it("lets First Aid help once per injury", () => {
+    const first = resolveTreatment(withStatus({ hp: 8 }), "First Aid");
+    expect(first.status.hp).toBe(9);
+    expect(first.status.recovery?.treatments).toEqual(["First Aid"]);
+
+    const again = resolveTreatment({ ...createCharacter(), status: first.status }, "First Aid");
+    expect(again.status.hp).toBe(9);
+    expect(again.events.map((e) => e.type)).toEqual(["already_treated"]);
+  });
+
+  it("allows treatment again after a new injury", () => {
+    const treated = resolveTreatment(withStatus({ hp: 8 }), "First Aid");
+    const hurt = resolveDamage({ ...createCharacter(), status: treated.status }, 2);
+    expect(hurt.status.recovery?.treatments).toEqual([]);
+
+    const retreated = resolveTreatment({ ...createCharacter(), status: hurt.status }, "First Aid");
+    expect(retreated.status.hp).toBe(8);
+    expect(retreated.events.map((e) => e.type)).toEqual(["treated"]);
+  });
+
+  it("counts First Aid and Medicine separately", () => {
+    const firstAid = resolveTreatment(withStatus({ hp: 8 }), "First Aid");
+    const medicine = resolveTreatment(
+      { ...createCharacter(), status: firstAid.status },
+      "Medicine",
+      scriptedRng(dieValue(2, 3))
+    );
+
+    expect(medicine.status.hp).toBe(11);
+    expect(medicine.status.recovery?.treatments).toEqual(["First Aid", "Medicine"]);
+  });
+
+  it("stabilises the dying with First Aid and ends stabilisation with Medicine", () => {
+    const dying = withStatus({ hp: 0, conditions: ["major_wound", "unconscious", "dying"] });
+    const stabilised = resolveTreatment(dying, "First Aid");
+
+    expect(stabilised.status.hp).toBe(1);
+    expect(stabilised.status.conditions).toEqual(["major_wound", "unconscious", "stabilised"]);
+
+    const treated = resolveTreatment(
+      { ...createCharacter(), status: stabilised.status },
+      "Medicine",
+      scriptedRng(dieValue(3, 3))
+    );
+    expect(treated.status.hp).toBe(4);
+    expect(treated.status.conditions).toEqual(["major_wound", "unconscious"]);
+  });
+});
+
+describe("resolveNaturalHealing", () => {
+  it("keeps the weekly recovery roll and the hit points it restores", () => {
+    const wounded = withStatus({ hp: 4, conditions: ["major_wound"] });
+    const { status, events } = resolveNaturalHealing(
+      wounded,
+      MINUTES_PER_WEEK,
+      scriptedRng(...percentileValues(40), dieValue(2, 3))
+    );
+
+    expect(status.hp).toBe(6);
+    expect(getHealthEventRolls(events)).toMatchObject([
+      { kind: "skill_check", skill: "CON", roll: 40 },
+      { kind: "roll", expression: "1d3", total: 2 },
+    ]);
+  });
+});
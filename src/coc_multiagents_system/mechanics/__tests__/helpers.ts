@@ -0,0 +1,62 @@
+/**
+ * Test helpers: a scripted RNG that produces chosen die faces, and a
+ * character sheet to roll against
+ */
+
+import type { CharacterProfile } from "../../agents/models/gameTypes.js";
+import type { DiceRng } from "../rng.js";
+
+/**
+ * RNG value that makes rollDie(sides) come up `face`
+ */
+export const dieValue = (face: number, sides: number): number =>
+  (face - 1 + 0.5) / sides;
+
+/**
+ * RNG values for a plain 1d100 roll: the units die, then the tens die
+ * ("00" + "0" reads as 100)
+ */
+export const percentileValues = (roll: number): number[] => {
+  const units = roll % 10;
+  const tens = roll === 100 ? 0 : Math.floor(roll / 10);
+  return [dieValue(units + 1, 10), dieValue(tens + 1, 10)];
+};
+
+/**
+ * RNG that returns the given values in order and fails when they run out
+ */
+export const scriptedRng = (...values: number[]): DiceRng => {
+  const queue = [...values];
+  return {
+    next: () => {
+      const value = queue.shift();
+      if (value === undefined) {
+        throw new Error("Scripted RNG ran out of values");
+      }
+      return value;
+    },
+  };
+};
+
+/**
+ * RNG whose 1d100 rolls come up as the given results, in order
+ */
+export const percentileRng = (...rolls: number[]): DiceRng =>
+  scriptedRng(...rolls.flatMap(percentileValues));
+
+export const createCharacter = (overrides: Partial<CharacterProfile> = {}): CharacterProfile => ({
+  id: "investigator-1",
+  name: "Harvey Walters",
+  attributes: { STR: 50, CON: 60, DEX: 55, APP: 50, POW: 60, SIZ: 65, INT: 70, EDU: 80 },
+  status: {
+    hp: 12,
+    maxHp: 12,
+    sanity: 60,
+    maxSanity: 99,
+    luck: 50,
+    conditions: [],
+  },
+  inventory: [],
+  skills: { "Spot Hidden": 60, "Library Use": 40, Dodge: 27 },
+  ...overrides,
+});
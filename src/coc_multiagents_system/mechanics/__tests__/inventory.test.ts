@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import type { InventoryItem } from "../../agents/models/gameTypes.js";
+import {
+  addInventoryItem,
+  consumeInventoryItem,
+  normalizeInventory,
+  parseItemText,
+  removeInventoryItem,
+} from "../inventory.js";
+
+const flares: InventoryItem = { id: "item-flare", name: "Flare", quantity: 3, type: "consumable" };
+const lantern: InventoryItem = { id: "item-lantern", name: "Lantern", quantity: 1, type: "tool", charges: 2 };
+
+describe("parseItemText", () => {
+  it("reads a count before an x or a plural, or after the name", () => {
+    expect(parseItemText("3 sticks of dynamite")).toEqual({ name: "sticks of dynamite", quantity: 3 });
+    expect(parseItemText("2x Flare")).toEqual({ name: "Flare", quantity: 2 });
+    expect(parseItemText("2 × Flare")).toEqual({ name: "Flare", quantity: 2 });
+    expect(parseItemText("Matches x12")).toEqual({ name: "Matches", quantity: 12 });
+    expect(parseItemText("Flares (4)")).toEqual({ name: "Flares", quantity: 4 });
+  });
+
+  it.each(["45 automatic", "12 gauge shotgun", "38 Special", "1 glass vial"])("keeps %j whole", (text) => {
+    expect(parseItemText(text)).toEqual({ name: text, quantity: 1 });
+  });
+});
+
+describe("normalizeInventory", () => {
+  it("migrates plain item names without losing any", () => {
+    const inventory = normalizeInventory(["45 automatic", "2x Flare", "Notebook"]);
+
+    expect(inventory.map(({ name, quantity, type }) => ({ name, quantity, type }))).toEqual([
+      { name: "45 automatic", quantity: 1, type: "other" },
+      { name: "Flare", quantity: 2, type: "consumable" },
+      { name: "Notebook", quantity: 1, type: "tome" },
+    ]);
+  });
+
+  it("keeps stored items and their ids, skipping entries without a name", () => {
+    expect(normalizeInventory([flares, { quantity: 2 }, ""])).toEqual([flares]);
+  });
+});
+
+describe("addInventoryItem", () => {
+  it("stacks an item of the same name and type", () => {
+    const { inventory, item } = addInventoryItem([flares], "2 × flare");
+
+    expect(inventory).toHaveLength(1);
+    expect(item).toMatchObject({ id: "item-flare", quantity: 5 });
+  });
+
+  it("keeps items with charges apart", () => {
+    const { inventory, item } = addInventoryItem([lantern], { name: "Lantern", type: "tool", charges: 5 });
+
+    expect(inventory).toHaveLength(2);
+    expect(item.id).toBe("item-lantern-2");
+  });
+});
+
+describe("removeInventoryItem", () => {
+  it("takes out some, or without a quantity all, of an item", () => {
+    expect(removeInventoryItem([flares], "Flare", 2).inventory).toEqual([{ ...flares, quantity: 1 }]);
+    expect(removeInventoryItem([flares], "flare").inventory).toEqual([]);
+  });
+
+  it("refuses more than is carried, or what is not carried", () => {
+    expect(() => removeInventoryItem([flares], "Flare", 4)).toThrow(/Only 3/);
+    expect(() => removeInventoryItem([flares], "Rope")).toThrow(/not in the inventory/);
+  });
+});
+
+describe("consumeInventoryItem", () => {
+  it("spends charges and keeps the empty item", () => {
+    const { inventory } = consumeInventoryItem([lantern], "Lantern", 2);
+
+    expect(inventory).toEqual([{ ...lantern, charges: 0 }]);
+    expect(() => consumeInventoryItem(inventory, "Lantern")).toThrow(/only 0 charge/);
+  });
+
+  it("uses up the items themselves when there are no charges", () => {
+    expect(consumeInventoryItem([flares], "Flare").item.quantity).toBe(2);
+    expect(() => consumeInventoryItem([flares], "Flare", 0)).toThrow(/Invalid amount/);
+  });
+});
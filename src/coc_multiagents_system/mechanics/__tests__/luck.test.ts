@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { createLuckSpendOption, getLuckCost, isLuckSpendable, resolveLuckRoll, resolveLuckSpend } from "../luck.js";
+import { resolveSkillCheck } from "../skillCheck.js";
+import { createCharacter, percentileRng } from "./helpers.js";
+
+const character = createCharacter();
+
+const check = (skill: string, roll: number) => resolveSkillCheck({ character, skill, rng: percentileRng(roll) });
+
+describe("Luck spending", () => {
+  it("costs the margin of failure", () => {
+    expect(getLuckCost(check("Library Use", 52))).toBe(12);
+  });
+
+  it("cannot be spent on successes, fumbles, Luck, Sanity or pushed rolls", () => {
+    expect(isLuckSpendable(check("Library Use", 52))).toBe(true);
+    expect(isLuckSpendable(check("Library Use", 30))).toBe(false);
+    expect(isLuckSpendable(check("Library Use", 97))).toBe(false);
+    expect(isLuckSpendable(check("Luck", 70))).toBe(false);
+    expect(isLuckSpendable(check("Sanity", 70))).toBe(false);
+    expect(isLuckSpendable({ ...check("Library Use", 52), pushed: true })).toBe(false);
+  });
+
+  it("is only offered when the character can afford it", () => {
+    const failed = check("Library Use", 85);
+    expect(createLuckSpendOption(failed, character, "Research", "exploration")).toMatchObject({ cost: 45 });
+
+    const unlucky = createCharacter({ status: { ...character.status, luck: 20 } });
+    expect(createLuckSpendOption(failed, unlucky, "Research", "exploration")).toBeNull();
+  });
+
+  it("turns the check into a success at its target and deducts the Luck", () => {
+    const option = createLuckSpendOption(check("Library Use", 52), character, "Research", "exploration");
+    if (!option) throw new Error("expected a Luck spend option");
+
+    const { status, result } = resolveLuckSpend(option, character);
+    expect(status.luck).toBe(38);
+    expect(character.status.luck).toBe(50);
+    expect(result).toMatchObject({ pointsSpent: 12, luckBefore: 50, luckAfter: 38, originalRoll: 52 });
+    expect(result.check).toMatchObject({ roll: 40, success: true, successLevel: "regular", luckSpent: 12 });
+  });
+
+  it("refuses a spend the character can no longer afford", () => {
+    const option = createLuckSpendOption(check("Library Use", 52), character, "Research", "exploration");
+    if (!option) throw new Error("expected a Luck spend option");
+
+    const spent = createCharacter({ status: { ...character.status, luck: 5 } });
+    expect(() => resolveLuckSpend(option, spent)).toThrow(/5 Luck/);
+  });
+});
+
+describe("resolveLuckRoll", () => {
+  it("has the unluckiest member of the group make a group roll", () => {
+    const lucky = createCharacter({ id: "a", name: "Lucky", status: { ...character.status, luck: 70 } });
+    const unlucky = createCharacter({ id: "b", name: "Unlucky", status: { ...character.status, luck: 30 } });
+
+    const result = resolveLuckRoll([lucky, unlucky], "regular", percentileRng(45));
+    expect(result).toMatchObject({ character: "Unlucky", skill: "Luck", target: 30, success: false });
+  });
+
+  it("needs at least one character", () => {
+    expect(() => resolveLuckRoll([])).toThrow();
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { resolveOpposedCheck } from "../opposedCheck.js";
+import { createCharacter, percentileRng } from "./helpers.js";
+
+const investigator = createCharacter({ skills: { "Fighting (Brawl)": 50, Dodge: 40 } });
+const cultist = createCharacter({
+  id: "npc-cultist",
+  name: "Cultist",
+  skills: { "Fighting (Brawl)": 50, Dodge: 30 },
+});
+
+describe("resolveOpposedCheck", () => {
+  it("gives the win to the better success level", () => {
+    const result = resolveOpposedCheck({
+      initiator: { character: investigator, skill: "Fighting (Brawl)" },
+      opponent: { character: cultist, skill: "Fighting (Brawl)" },
+      rng: percentileRng(40, 20),
+    });
+
+    expect(result).toMatchObject({ winner: "opponent", winnerName: "Cultist", reason: "hard beats regular" });
+  });
+
+  it("has no winner when both sides fail", () => {
+    const result = resolveOpposedCheck({
+      initiator: { character: investigator, skill: "Fighting (Brawl)" },
+      opponent: { character: cultist, skill: "Fighting (Brawl)" },
+      rng: percentileRng(80, 90),
+    });
+
+    expect(result).toMatchObject({ winner: "none", winnerName: null });
+  });
+
+  it("breaks a standard tie with the higher skill", () => {
+    const result = resolveOpposedCheck({
+      initiator: { character: investigator, skill: "Dodge" },
+      opponent: { character: cultist, skill: "Dodge" },
+      rng: percentileRng(25, 28),
+    });
+
+    expect(result).toMatchObject({ winner: "initiator", reason: "Tie broken by higher skill" });
+  });
+
+  it("calls a standard tie with equal skills a stalemate", () => {
+    const result = resolveOpposedCheck({
+      initiator: { character: investigator, skill: "Fighting (Brawl)" },
+      opponent: { character: cultist, skill: "Fighting (Brawl)" },
+      rng: percentileRng(40, 45),
+    });
+
+    expect(result).toMatchObject({ winner: "none", winnerName: null });
+    expect(result.reason).toMatch(/stalemate/);
+  });
+
+  it("gives a tie to the attacker against Fight Back", () => {
+    const result = resolveOpposedCheck({
+      initiator: { character: investigator, skill: "Fighting (Brawl)" },
+      opponent: { character: cultist, skill: "Fighting (Brawl)" },
+      contest: "fight_back",
+      rng: percentileRng(40, 45),
+    });
+
+    expect(result).toMatchObject({ winner: "initiator", reason: "Tie goes to the attacker" });
+  });
+
+  it("gives a tie to the defender against a Dodge", () => {
+    const result = resolveOpposedCheck({
+      initiator: { character: investigator, skill: "Fighting (Brawl)" },
+      opponent: { character: cultist, skill: "Dodge" },
+      contest: "dodge",
+      rng: percentileRng(40, 30),
+    });
+
+    expect(result).toMatchObject({ winner: "opponent", reason: "Tie goes to the dodging defender" });
+  });
+});
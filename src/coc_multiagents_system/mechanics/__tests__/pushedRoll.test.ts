@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { createPushableCheck, isPushableCheck, resolvePushedRoll } from "../pushedRoll.js";
+import { resolveSkillCheck } from "../skillCheck.js";
+import { createCharacter, percentileRng } from "./helpers.js";
+
+const character = createCharacter();
+
+const failedCheck = (skill = "Library Use", roll = 70) =>
+  resolveSkillCheck({ character, skill, rng: percentileRng(roll) });
+
+describe("isPushableCheck", () => {
+  it("allows a failed investigation check to be pushed", () => {
+    expect(isPushableCheck(failedCheck(), "exploration")).toBe(true);
+  });
+
+  it("refuses successes, fumbles, combat, Luck, Sanity and pushed rolls", () => {
+    expect(isPushableCheck(failedCheck("Library Use", 30), "exploration")).toBe(false);
+    expect(isPushableCheck(failedCheck("Library Use", 100), "exploration")).toBe(false);
+    expect(isPushableCheck(failedCheck(), "combat")).toBe(false);
+    expect(isPushableCheck(failedCheck("Luck", 70), "exploration")).toBe(false);
+    expect(isPushableCheck(failedCheck("Sanity", 70), "exploration")).toBe(false);
+    expect(isPushableCheck({ ...failedCheck(), pushed: true }, "exploration")).toBe(false);
+  });
+});
+
+describe("resolvePushedRoll", () => {
+  it("re-rolls with the original skill, difficulty and dice and marks the roll pushed", () => {
+    const check = resolveSkillCheck({
+      character,
+      skill: "Spot Hidden",
+      difficulty: "hard",
+      rng: percentileRng(45),
+    });
+    const pushable = createPushableCheck(check, character, "Search the study", "exploration");
+
+    expect(pushable).toMatchObject({ skill: "Spot Hidden", difficulty: "hard", originalRoll: 45 });
+
+    const pushed = resolvePushedRoll(pushable, character, percentileRng(25));
+    expect(pushed).toMatchObject({ skill: "Spot Hidden", difficulty: "hard", roll: 25, success: true, pushed: true });
+    expect(isPushableCheck({ ...pushed, success: false }, "exploration")).toBe(false);
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { rollDiceExpression } from "../dice.js";
+import { createDiceState, SeededDiceRng } from "../rng.js";
+
+describe("SeededDiceRng", () => {
+  it("replays the same rolls from the same seed and state", () => {
+    const first = new SeededDiceRng(createDiceState("session-seed"));
+    const rolls = Array.from({ length: 5 }, () => rollDiceExpression("1d100", first).total);
+
+    const replay = new SeededDiceRng(createDiceState("session-seed"));
+    expect(Array.from({ length: 5 }, () => rollDiceExpression("1d100", replay).total)).toEqual(rolls);
+    expect(first.getState()).toEqual(replay.getState());
+  });
+
+  it("carries on from a stored state", () => {
+    const rng = new SeededDiceRng(createDiceState("session-seed"));
+    rollDiceExpression("3d6", rng);
+    const stored = rng.getState();
+    const next = rollDiceExpression("1d100", rng).total;
+
+    expect(rollDiceExpression("1d100", new SeededDiceRng(stored)).total).toBe(next);
+    expect(stored.rollCount).toBe(3);
+  });
+});
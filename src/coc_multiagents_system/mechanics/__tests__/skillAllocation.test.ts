@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import type { Occupation, Skill } from "../../agents/models/gameTypes.js";
+import { evaluateSkillPointFormula, getSkillBase, validateSkillAllocation } from "../skillAllocation.js";
+
+const attributes = { STR: 50, CON: 60, DEX: 60, APP: 50, POW: 60, SIZ: 65, INT: 60, EDU: 70 };
+
+const skill = (name: string, baseValue: number): Skill => ({
+  name,
+  baseValue,
+  description: "",
+  category: "",
+  uncommon: false,
+});
+
+const baseSkills: Skill[] = [
+  skill("Library Use", 20),
+  skill("History", 5),
+  skill("Spot Hidden", 25),
+  skill("Credit Rating", 0),
+  skill("Persuade", 10),
+  skill("Charm", 15),
+  skill("Art and Craft", 5),
+  skill("Language (Other)", 1),
+  skill("Cthulhu Mythos", 0),
+];
+
+const antiquarian: Occupation = {
+  name: "Antiquarian",
+  description: "",
+  skills: ["Library Use", "History", "Spot Hidden", "Art and Craft"],
+  skillChoices: [{ count: 1, from: ["Charm", "Persuade"] }],
+  creditRating: { min: 30, max: 70 },
+  skillPoints: "EDU*4",
+};
+
+describe("evaluateSkillPointFormula", () => {
+  it("multiplies characteristics and takes the best of a choice", () => {
+    expect(evaluateSkillPointFormula("EDU*4", attributes)).toBe(280);
+    expect(evaluateSkillPointFormula("EDU×2 + (DEX|STR)×2", attributes)).toBe(260);
+  });
+
+  it("rejects formulas it cannot read", () => {
+    expect(() => evaluateSkillPointFormula("EDU^2", attributes)).toThrow(/Unrecognised/);
+    expect(() => evaluateSkillPointFormula("LUCK*2", attributes)).toThrow(/Unknown characteristic/);
+  });
+});
+
+describe("getSkillBase", () => {
+  it("derives Dodge and Language (Own) and matches specialisations", () => {
+    expect(getSkillBase("Dodge", baseSkills, attributes)).toBe(30);
+    expect(getSkillBase("Language (Own)", baseSkills, attributes)).toBe(70);
+    expect(getSkillBase("Art and Craft (Painting)", baseSkills, attributes)).toBe(5);
+    expect(getSkillBase("Language (Latin)", baseSkills, attributes)).toBe(1);
+    expect(getSkillBase("Piloting", baseSkills, attributes)).toBeUndefined();
+  });
+});
+
+describe("validateSkillAllocation", () => {
+  it("accepts a sheet that fits the occupation and the points", () => {
+    const result = validateSkillAllocation({
+      attributes,
+      occupation: antiquarian,
+      baseSkills,
+      skills: {
+        "Library Use": 80,
+        History: 75,
+        "Spot Hidden": 60,
+        "Art and Craft (Painting)": 40,
+        Persuade: 50,
+        "Credit Rating": 40,
+        "Language (Latin)": 50,
+        Charm: 40,
+      },
+    });
+
+    expect(result.errors).toEqual([]);
+    expect(result.valid).toBe(true);
+    expect(result.occupationalPoints).toEqual({ available: 280, spent: 280 });
+    expect(result.personalPoints).toEqual({ available: 120, spent: 74 });
+    expect(result.occupationalSkills).not.toContain("Charm");
+  });
+
+  it("flags skills below base, above 99, unknown or Cthulhu Mythos raised", () => {
+    const result = validateSkillAllocation({
+      attributes,
+      occupation: antiquarian,
+      baseSkills,
+      skills: { "Library Use": 10, History: 100, Piloting: 30, "Cthulhu Mythos": 5, "Credit Rating": 40 },
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map((e) => e.skill)).toEqual(["Library Use", "History", "Piloting", "Cthulhu Mythos"]);
+  });
+
+  it("flags Credit Rating outside the occupation's range", () => {
+    const result = validateSkillAllocation({
+      attributes,
+      occupation: antiquarian,
+      baseSkills,
+      skills: { "Credit Rating": 80 },
+    });
+
+    expect(result.errors).toEqual([expect.objectContaining({ skill: "Credit Rating" })]);
+  });
+
+  it("flags more points than the occupation and personal interest allow", () => {
+    const result = validateSkillAllocation({
+      attributes,
+      occupation: antiquarian,
+      baseSkills,
+      skills: {
+        "Library Use": 99,
+        History: 99,
+        "Spot Hidden": 99,
+        "Credit Rating": 70,
+        Charm: 99,
+        "Language (Latin)": 99,
+      },
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([expect.objectContaining({ skill: null })]);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { determineSuccessLevel, getDifficultyTarget, resolveSkillCheck, resolveSkillValue } from "../skillCheck.js";
+import { createCharacter, percentileRng } from "./helpers.js";
+
+describe("determineSuccessLevel", () => {
+  it("grades a roll against the full, half and fifth value", () => {
+    expect(determineSuccessLevel(12, 60)).toBe("extreme");
+    expect(determineSuccessLevel(13, 60)).toBe("hard");
+    expect(determineSuccessLevel(30, 60)).toBe("hard");
+    expect(determineSuccessLevel(31, 60)).toBe("regular");
+    expect(determineSuccessLevel(60, 60)).toBe("regular");
+    expect(determineSuccessLevel(61, 60)).toBe("failure");
+  });
+
+  it("makes 01 a critical whatever the skill", () => {
+    expect(determineSuccessLevel(1, 5)).toBe("critical");
+    expect(determineSuccessLevel(1, 90, 18)).toBe("critical");
+  });
+
+  it("makes 100 a fumble even with a required value of 50 or more", () => {
+    expect(determineSuccessLevel(100, 99)).toBe("fumble");
+  });
+
+  it("makes 96-99 a fumble only when the required value is below 50", () => {
+    expect(determineSuccessLevel(96, 40)).toBe("fumble");
+    expect(determineSuccessLevel(99, 49)).toBe("fumble");
+    expect(determineSuccessLevel(95, 40)).toBe("failure");
+    expect(determineSuccessLevel(96, 60)).toBe("failure");
+  });
+
+  it("uses the required value, not the skill, for the fumble range", () => {
+    // Skill 80 at hard difficulty needs 40 or less
+    expect(determineSuccessLevel(97, 80, 40)).toBe("fumble");
+    expect(determineSuccessLevel(97, 98, 98)).toBe("regular");
+  });
+});
+
+describe("getDifficultyTarget", () => {
+  it("halves for hard and fifths for extreme, rounding down", () => {
+    expect(getDifficultyTarget(55)).toBe(55);
+    expect(getDifficultyTarget(55, "hard")).toBe(27);
+    expect(getDifficultyTarget(55, "extreme")).toBe(11);
+  });
+});
+
+describe("resolveSkillValue", () => {
+  it("finds skills, characteristics by alias, Luck and Sanity", () => {
+    const character = createCharacter();
+
+    expect(resolveSkillValue(character, "spot hidden")).toEqual({ name: "Spot Hidden", value: 60 });
+    expect(resolveSkillValue(character, "Education")).toEqual({ name: "EDU", value: 80 });
+    expect(resolveSkillValue(character, "luck")).toEqual({ name: "Luck", value: 50 });
+    expect(resolveSkillValue(character, "SAN")).toEqual({ name: "Sanity", value: 60 });
+    expect(resolveSkillValue(character, "Piloting")).toBeNull();
+  });
+});
+
+describe("resolveSkillCheck", () => {
+  it("succeeds only at or above the requested difficulty", () => {
+    const character = createCharacter();
+    const hard = resolveSkillCheck({ character, skill: "Spot Hidden", difficulty: "hard", rng: percentileRng(45) });
+
+    expect(hard).toMatchObject({ target: 30, roll: 45, successLevel: "regular", success: false });
+
+    const regular = resolveSkillCheck({ character, skill: "Spot Hidden", rng: percentileRng(45) });
+    expect(regular).toMatchObject({ target: 60, successLevel: "regular", success: true });
+  });
+
+  it("throws for a skill the character does not have", () => {
+    expect(() => resolveSkillCheck({ character: createCharacter(), skill: "Piloting (Aircraft)" })).toThrow(
+      /Unknown skill/
+    );
+  });
+});
@@ -0,0 +1,532 @@
+/**
+ * Chases
+ * CoC 7e chases run over a track of locations:
+ * - every participant makes a CON speed roll: extreme success +1 MOV, failure -1 MOV
+ * - a quarry faster than every pursuer escapes before the chase begins
+ * - each round, participants move in DEX order with 1 movement action plus
+ *   one per point of MOV above the slowest participant
+ * - a hazard is crossed either way, but failing its roll costs 1d3 movement
+ *   actions (and damage for some hazards)
+ * - a barrier must be passed with a success before moving on
+ * - a pursuer reaching the quarry's location catches them; a quarry running
+ *   off the end of the track escapes
+ */
+
+import type {
+  CharacterProfile,
+  ChaseEvent,
+  ChaseLocation,
+  ChaseObstacle,
+  ChaseParticipant,
+  ChaseParticipantStatus,
+  ChaseRole,
+  ChaseState,
+  CombatSide,
+  DiceRollRecord,
+} from "../agents/models/gameTypes.js";
+import { rollDiceExpression } from "./dice.js";
+import { isIncapacitated } from "./health.js";
+import type { DiceRng } from "./rng.js";
+import { resolveSkillCheck } from "./skillCheck.js";
+
+/**
+ * MOV of an average human, used when a character has none recorded
+ */
+export const DEFAULT_MOV = 8;
+
+/**
+ * Locations between the pursuers and the quarry when the chase starts
+ */
+export const QUARRY_HEAD_START = 2;
+
+/**
+ * Locations the quarry must cross beyond its start to escape
+ */
+export const TRACK_LENGTH_AHEAD = 6;
+
+const LOCATION_NAMES = [
+  "Street corner",
+  "Narrow alley",
+  "Market square",
+  "Back yard",
+  "Footbridge",
+  "Warehouse lot",
+  "Railway cutting",
+  "Churchyard",
+  "Dockside",
+  "Tenement stairwell",
+];
+
+const HAZARDS: ChaseObstacle[] = [
+  { type: "hazard", name: "Crowd", skill: "Dodge", difficulty: "regular" },
+  {
+    type: "hazard",
+    name: "Loose cobbles",
+    skill: "DEX",
+    difficulty: "regular",
+  },
+  {
+    type: "hazard",
+    name: "Broken glass",
+    skill: "Dodge",
+    difficulty: "regular",
+    damage: "1d3",
+  },
+  {
+    type: "hazard",
+    name: "Open ditch",
+    skill: "Jump",
+    difficulty: "regular",
+    damage: "1d3",
+  },
+];
+
+const BARRIERS: ChaseObstacle[] = [
+  {
+    type: "barrier",
+    name: "High fence",
+    skill: "Climb",
+    difficulty: "regular",
+  },
+  { type: "barrier", name: "Locked gate", skill: "STR", difficulty: "regular" },
+  { type: "barrier", name: "Brick wall", skill: "Climb", difficulty: "hard" },
+  {
+    type: "barrier",
+    name: "Narrow window",
+    skill: "DEX",
+    difficulty: "regular",
+  },
+];
+
+/**
+ * Copy of the character with base chase skills filled in
+ */
+const withChaseBaseSkills = (
+  character: CharacterProfile
+): CharacterProfile => ({
+  ...character,
+  skills: {
+    Climb: 20,
+    Jump: 20,
+    Dodge: Math.floor((character.attributes?.DEX ?? 50) / 2),
+    ...character.skills,
+  },
+});
+
+const pick = <T>(
+  list: T[],
+  rng: DiceRng | undefined,
+  rolls: DiceRollRecord[]
+): T => {
+  const roll = rollDiceExpression(`1d${list.length}`, rng);
+  rolls.push({ kind: "roll", ...roll });
+  return list[roll.total - 1];
+};
+
+/**
+ * Build a chase participant from a character profile
+ */
+export const createChaseParticipant = (
+  character: CharacterProfile,
+  role: ChaseRole,
+  side: CombatSide,
+  position: number
+): ChaseParticipant => {
+  const mov = character.status.mov ?? DEFAULT_MOV;
+  return {
+    characterId: character.id,
+    name: character.name,
+    role,
+    side,
+    dex: character.attributes?.DEX ?? 50,
+    baseMov: mov,
+    mov,
+    position,
+    movementActions: 0,
+    status:
+      character.status.hp <= 0 || isIncapacitated(character.status)
+        ? "stopped"
+        : "active",
+  };
+};
+
+/**
+ * CON speed roll: extreme success adds 1 MOV for the chase, failure loses 1
+ */
+export const resolveSpeedRoll = (
+  participant: ChaseParticipant,
+  character: CharacterProfile,
+  rng?: DiceRng
+): { participant: ChaseParticipant; event: ChaseEvent } => {
+  const check = resolveSkillCheck({ character, skill: "CON", rng });
+  const extreme =
+    check.successLevel === "extreme" || check.successLevel === "critical";
+  const change = extreme ? 1 : check.success ? 0 : -1;
+  const mov = Math.max(1, participant.baseMov + change);
+
+  return {
+    participant: { ...participant, mov },
+    event: {
+      round: 0,
+      actor: participant.name,
+      characterId: participant.characterId,
+      summary: `${participant.name} speed roll CON ${check.roll} vs ${check.target} (${check.successLevel}): MOV ${participant.baseMov} → ${mov}`,
+      damage: 0,
+      rolls: [{ kind: "skill_check", ...check }],
+    },
+  };
+};
+
+/**
+ * Lay out the track. Locations up to clearUntil hold the participants'
+ * starting positions and have no obstacles.
+ */
+export const buildChaseTrack = (
+  length: number,
+  clearUntil: number,
+  rng?: DiceRng
+): { track: ChaseLocation[]; rolls: DiceRollRecord[] } => {
+  const rolls: DiceRollRecord[] = [];
+  const track: ChaseLocation[] = [];
+  let names: string[] = [];
+
+  for (let index = 0; index < length; index++) {
+    // Draw names without repeats until the list runs out
+    if (names.length === 0) names = [...LOCATION_NAMES];
+    const name = pick(names, rng, rolls);
+    names = names.filter((n) => n !== name);
+    let obstacle: ChaseObstacle | null = null;
+    if (index > clearUntil) {
+      const roll = rollDiceExpression("1d10", rng);
+      rolls.push({ kind: "roll", ...roll });
+      if (roll.total >= 9) obstacle = pick(BARRIERS, rng, rolls);
+      else if (roll.total >= 6) obstacle = pick(HAZARDS, rng, rolls);
+    }
+    track.push({ index, name, obstacle });
+  }
+  return { track, rolls };
+};
+
+/**
+ * Sort participants into DEX order; ties go to investigators
+ */
+const sortChaseOrder = (participants: ChaseParticipant[]): ChaseParticipant[] =>
+  [...participants].sort(
+    (a, b) =>
+      b.dex - a.dex ||
+      (a.side === b.side ? 0 : a.side === "investigators" ? -1 : 1)
+  );
+
+/**
+ * Set up a chase: speed rolls, the track and starting positions.
+ * Pursuers start at the first location, the quarry a short head start ahead.
+ */
+export const startChase = (
+  investigators: CharacterProfile[],
+  opponents: CharacterProfile[],
+  investigatorRole: ChaseRole,
+  rng?: DiceRng
+): ChaseState => {
+  const opponentRole: ChaseRole =
+    investigatorRole === "quarry" ? "pursuer" : "quarry";
+  const events: ChaseEvent[] = [];
+  const join = (
+    characters: CharacterProfile[],
+    role: ChaseRole,
+    side: CombatSide
+  ): ChaseParticipant[] =>
+    characters.map((character) => {
+      const participant = createChaseParticipant(
+        character,
+        role,
+        side,
+        role === "quarry" ? QUARRY_HEAD_START : 0
+      );
+      if (participant.status !== "active") return participant;
+      const speed = resolveSpeedRoll(participant, character, rng);
+      events.push(speed.event);
+      return speed.participant;
+    });
+  const participants = [
+    ...join(investigators, investigatorRole, "investigators"),
+    ...join(opponents, opponentRole, "opponents"),
+  ];
+
+  const { track, rolls } = buildChaseTrack(
+    QUARRY_HEAD_START + TRACK_LENGTH_AHEAD + 1,
+    QUARRY_HEAD_START,
+    rng
+  );
+  events.unshift({
+    round: 0,
+    actor: "Keeper",
+    characterId: "",
+    summary: `Chase track: ${track
+      .map((l) =>
+        l.obstacle
+          ? `${l.name} [${l.obstacle.type}: ${l.obstacle.name}]`
+          : l.name
+      )
+      .join(" → ")}`,
+    damage: 0,
+    rolls,
+  });
+
+  let chase: ChaseState = {
+    id: `chase-${Date.now()}`,
+    round: 0,
+    track,
+    participants: sortChaseOrder(participants),
+    events,
+    endedReason: null,
+    startedAt: new Date(),
+  };
+
+  // A quarry faster than every pursuer is away before the chase begins
+  const active = (role: ChaseRole) =>
+    chase.participants.filter((p) => p.role === role && p.status === "active");
+  const fastestPursuer = Math.max(0, ...active("pursuer").map((p) => p.mov));
+  for (const quarry of active("quarry")) {
+    if (quarry.mov > fastestPursuer) {
+      chase = setChaseParticipantStatus(chase, quarry.characterId, "escaped");
+      chase.events.push({
+        round: 0,
+        actor: quarry.name,
+        characterId: quarry.characterId,
+        summary: `${quarry.name} (MOV ${quarry.mov}) outpaces every pursuer (MOV ${fastestPursuer}) and escapes at once`,
+        damage: 0,
+        rolls: [],
+      });
+    }
+  }
+
+  return { ...chase, endedReason: getChaseEndReason(chase) };
+};
+
+/**
+ * Find a participant by character id or name (case-insensitive)
+ */
+export const findChaseParticipant = (
+  chase: ChaseState,
+  idOrName: string
+): ChaseParticipant | undefined => {
+  const lower = idOrName.toLowerCase();
+  return chase.participants.find(
+    (p) =>
+      p.characterId.toLowerCase() === lower || p.name.toLowerCase() === lower
+  );
+};
+
+/**
+ * Change a participant's status (caught, escaped, stopped)
+ */
+export const setChaseParticipantStatus = (
+  chase: ChaseState,
+  idOrName: string,
+  status: ChaseParticipantStatus
+): ChaseState => {
+  const target = findChaseParticipant(chase, idOrName);
+  if (!target) return chase;
+
+  return {
+    ...chase,
+    participants: chase.participants.map((p) =>
+      p === target ? { ...p, status } : p
+    ),
+  };
+};
+
+/**
+ * Movement actions per round: 1, plus 1 per point of MOV above the slowest
+ */
+export const getMovementActions = (
+  participant: ChaseParticipant,
+  slowestMov: number
+): number => 1 + Math.max(0, participant.mov - slowestMov);
+
+/**
+ * Start a new round: hand out movement actions. Unused actions are lost, but
+ * a delay from a failed hazard carries over.
+ */
+export const beginChaseRound = (chase: ChaseState): ChaseState => {
+  const active = chase.participants.filter((p) => p.status === "active");
+  const slowest = Math.min(...active.map((p) => p.mov));
+
+  return {
+    ...chase,
+    round: chase.round + 1,
+    participants: chase.participants.map((p) =>
+      p.status === "active"
+        ? {
+            ...p,
+            movementActions:
+              Math.min(0, p.movementActions) + getMovementActions(p, slowest),
+          }
+        : p
+    ),
+  };
+};
+
+/**
+ * The closest quarry still running at or ahead of a pursuer
+ */
+const findNearestQuarry = (
+  chase: ChaseState,
+  pursuer: ChaseParticipant
+): ChaseParticipant | undefined =>
+  chase.participants
+    .filter(
+      (p) =>
+        p.role === "quarry" &&
+        p.status === "active" &&
+        p.position >= pursuer.position
+    )
+    .sort((a, b) => a.position - b.position)[0];
+
+/**
+ * Spend a participant's movement actions for the round: move along the
+ * track, roll for obstacles, and catch the quarry or escape off the end
+ */
+export const resolveChaseTurn = (
+  start: ChaseState,
+  characterId: string,
+  character: CharacterProfile,
+  rng?: DiceRng
+): { chase: ChaseState; event: ChaseEvent | null } => {
+  let chase = start;
+  const entry = findChaseParticipant(chase, characterId);
+  if (!entry || entry.status !== "active") return { chase, event: null };
+
+  const runner = withChaseBaseSkills(character);
+  const lastIndex = chase.track.length - 1;
+  const rolls: DiceRollRecord[] = [];
+  const notes: string[] = [];
+  let damage = 0;
+  const participant = { ...entry };
+  const startPosition = participant.position;
+
+  while (participant.movementActions > 0 && participant.status === "active") {
+    if (participant.role === "pursuer") {
+      const quarry = findNearestQuarry(chase, participant);
+      if (!quarry) break;
+      if (quarry.position === participant.position) {
+        chase = setChaseParticipantStatus(chase, quarry.characterId, "caught");
+        notes.push(`catches ${quarry.name}`);
+        break;
+      }
+    } else if (participant.position >= lastIndex) {
+      participant.status = "escaped";
+      break;
+    }
+
+    participant.movementActions--;
+    const next = chase.track[participant.position + 1];
+    const obstacle = next.obstacle;
+    if (obstacle) {
+      const check = resolveSkillCheck({
+        character: runner,
+        skill: obstacle.skill,
+        difficulty: obstacle.difficulty,
+        rng,
+      });
+      rolls.push({ kind: "skill_check", ...check });
+      const outcome = `${obstacle.name} (${obstacle.skill} ${check.roll} vs ${check.target})`;
+
+      if (!check.success && obstacle.type === "barrier") {
+        notes.push(`is stopped by the ${outcome}`);
+        continue;
+      }
+      if (!check.success) {
+        const delay = rollDiceExpression("1d3", rng);
+        rolls.push({ kind: "roll", ...delay });
+        participant.movementActions -= delay.total;
+        let note = `is delayed ${delay.total} movement actions by the ${outcome}`;
+        if (obstacle.damage) {
+          const hurt = rollDiceExpression(obstacle.damage, rng);
+          rolls.push({ kind: "roll", ...hurt });
+          damage += hurt.total;
+          note += ` and takes ${hurt.total} damage`;
+        }
+        notes.push(note);
+      } else {
+        notes.push(`gets past the ${outcome}`);
+      }
+    }
+    participant.position++;
+
+    if (participant.role === "quarry" && participant.position >= lastIndex) {
+      participant.status = "escaped";
+    }
+  }
+
+  chase = {
+    ...chase,
+    participants: chase.participants.map((p) =>
+      p.characterId === participant.characterId ? participant : p
+    ),
+  };
+
+  const moved = participant.position - startPosition;
+  const location = chase.track[participant.position];
+  const summary = [
+    `${participant.name} ${moved > 0 ? `moves ${moved} to ${location.name}` : `stays at ${location.name}`}`,
+    ...notes,
+    participant.status === "escaped" ? "and escapes" : null,
+  ]
+    .filter(Boolean)
+    .join("; ");
+
+  return {
+    chase,
+    event: {
+      round: chase.round,
+      actor: participant.name,
+      characterId: participant.characterId,
+      summary,
+      damage,
+      rolls,
+    },
+  };
+};
+
+/**
+ * How far the nearest pursuer is behind each running quarry
+ */
+export const getChaseGap = (chase: ChaseState): number | null => {
+  const active = (role: ChaseRole) =>
+    chase.participants.filter((p) => p.role === role && p.status === "active");
+  const quarries = active("quarry");
+  const pursuers = active("pursuer");
+  if (quarries.length === 0 || pursuers.length === 0) return null;
+  const lead = Math.max(...pursuers.map((p) => p.position));
+  return Math.min(...quarries.map((q) => q.position)) - lead;
+};
+
+/**
+ * Why the chase is over, or null while someone is still running
+ */
+export const getChaseEndReason = (chase: ChaseState): string | null => {
+  const byRole = (role: ChaseRole) =>
+    chase.participants.filter((p) => p.role === role);
+  const names = (list: ChaseParticipant[]) =>
+    list.map((p) => p.name).join(", ");
+
+  const quarries = byRole("quarry");
+  if (quarries.every((p) => p.status !== "active")) {
+    const caught = quarries.filter((p) => p.status === "caught");
+    const escaped = quarries.filter((p) => p.status === "escaped");
+    return [
+      caught.length > 0 ? `${names(caught)} caught` : null,
+      escaped.length > 0 ? `${names(escaped)} escaped` : null,
+      caught.length + escaped.length === 0
+        ? "The quarry can run no further"
+        : null,
+    ]
+      .filter(Boolean)
+      .join("; ");
+  }
+  if (byRole("pursuer").every((p) => p.status !== "active")) {
+    return `The pursuit is over; ${names(quarries.filter((p) => p.status === "active"))} got away`;
+  }
+  return null;
+};
@@ -0,0 +1,487 @@
+/**
+ * Combat Rounds
+ * Initiative order, turn tracking and automatic NPC attacks for CoC 7e combat.
+ * Combatants act in DEX order each round; a readied firearm acts at DEX+50.
+ * Both sides' conditions add their dice to attacks and defences.
+ */
+
+import type {
+  CharacterProfile,
+  Combatant,
+  CombatantStatus,
+  CombatEncounter,
+  CombatEvent,
+  CombatSide,
+  DiceRollRecord,
+  FirearmState,
+  OpposedContest,
+  SkillCheckResult,
+  WeaponData,
+} from "../agents/models/gameTypes.js";
+import { getConditionDice } from "./conditions.js";
+import { resolveWeaponDamage, UNARMED } from "./damage.js";
+import {
+  getCarriedWeapons,
+  getFirearmState,
+  isFirearm,
+  resolveFirearmAttack,
+  resolveReload,
+} from "./firearms.js";
+import { isIncapacitated } from "./health.js";
+import { resolveOpposedCheck } from "./opposedCheck.js";
+import type { DiceRng } from "./rng.js";
+import { resolveSkillValue } from "./skillCheck.js";
+
+const FIREARM_PATTERN =
+  /revolver|pistol|handgun|rifle|shotgun|carbine|derringer|machine gun|\bgun\b/i;
+
+/**
+ * Bonus added to DEX for initiative when the combatant has a readied firearm
+ */
+export const FIREARM_INITIATIVE_BONUS = 50;
+
+/**
+ * Stand-in for a gun that is not in the weapons table
+ */
+const DEFAULT_FIREARM: WeaponData = {
+  name: "Firearm",
+  skill: "Firearms (Handgun)",
+  damage: "1d10",
+  range: "15 yards",
+  attacksPerRound: 1,
+  ammo: 6,
+  malfunction: 100,
+};
+
+/**
+ * Weapons each side of an attack is holding; unarmed when not given
+ */
+export interface CombatArms {
+  attacker?: WeaponData;
+  defender?: WeaponData;
+}
+
+/**
+ * One resolved attack; `firearm` carries the gun's new rounds and jam state
+ * when the attacker fired or reloaded
+ */
+export interface CombatAttackResult {
+  event: CombatEvent;
+  damagedId: string | null;
+  firearm?: { weapon: WeaponData; state: FirearmState };
+}
+
+/**
+ * Whether the character carries a firearm: a weapon item fired with a
+ * Firearms skill, or an item named like one ("Revolver .38")
+ */
+export const hasReadiedFirearm = (character: CharacterProfile): boolean =>
+  (character.inventory || []).some((item) =>
+    item.weapon ? isFirearm(item.weapon) : FIREARM_PATTERN.test(item.name)
+  );
+
+/**
+ * The carried weapon a character fights with: their gun when shooting,
+ * otherwise their first melee weapon (undefined for bare hands)
+ */
+export const getReadiedWeapon = (
+  character: CharacterProfile,
+  weapons: WeaponData[],
+  usesFirearm: boolean
+): WeaponData | undefined => {
+  const carried = getCarriedWeapons(character, weapons);
+  return usesFirearm
+    ? carried.find(isFirearm)
+    : carried.find((w) => /^fighting/i.test(w.skill));
+};
+
+/**
+ * Initiative value for the round order
+ */
+export const getInitiative = (dex: number, usesFirearm: boolean): number =>
+  dex + (usesFirearm ? FIREARM_INITIATIVE_BONUS : 0);
+
+/**
+ * Build a combatant entry from a character profile
+ */
+export const createCombatant = (
+  character: CharacterProfile,
+  side: CombatSide
+): Combatant => {
+  const dex = character.attributes?.DEX ?? 50;
+  const usesFirearm = hasReadiedFirearm(character);
+  return {
+    characterId: character.id,
+    name: character.name,
+    side,
+    dex,
+    initiative: getInitiative(dex, usesFirearm),
+    usesFirearm,
+    status:
+      character.status.hp <= 0 || isIncapacitated(character.status)
+        ? "fallen"
+        : "active",
+  };
+};
+
+/**
+ * Sort combatants into initiative order.
+ * Ties go to the higher DEX, then to investigators.
+ */
+export const sortInitiativeOrder = (combatants: Combatant[]): Combatant[] =>
+  [...combatants].sort(
+    (a, b) =>
+      b.initiative - a.initiative ||
+      b.dex - a.dex ||
+      (a.side === b.side ? 0 : a.side === "investigators" ? -1 : 1)
+  );
+
+/**
+ * Open a new encounter between the investigators and their opponents
+ */
+export const startEncounter = (
+  investigators: CharacterProfile[],
+  opponents: CharacterProfile[]
+): CombatEncounter => {
+  const order = sortInitiativeOrder([
+    ...investigators.map((c) => createCombatant(c, "investigators")),
+    ...opponents.map((c) => createCombatant(c, "opponents")),
+  ]);
+
+  const firstActive = order.findIndex((c) => c.status === "active");
+  return {
+    id: `combat-${Date.now()}`,
+    round: 1,
+    order,
+    turnIndex: Math.max(0, firstActive),
+    events: [],
+    endedReason: null,
+    startedAt: new Date(),
+  };
+};
+
+/**
+ * The combatant whose turn it is, if they are still in the fight
+ */
+export const getCurrentCombatant = (
+  encounter: CombatEncounter
+): Combatant | null => {
+  const current = encounter.order[encounter.turnIndex];
+  return current?.status === "active" ? current : null;
+};
+
+/**
+ * The investigator the fight is waiting on, when it is their turn and not
+ * the acting investigator's
+ */
+export const getWaitingInvestigator = (
+  encounter: CombatEncounter,
+  actingId: string
+): Combatant | null => {
+  if (encounter.endedReason) return null;
+  const current = getCurrentCombatant(encounter);
+  return current?.side === "investigators" && current.characterId !== actingId
+    ? current
+    : null;
+};
+
+/**
+ * Find a combatant by character id or name (case-insensitive)
+ */
+export const findCombatant = (
+  encounter: CombatEncounter,
+  idOrName: string
+): Combatant | undefined => {
+  const lower = idOrName.toLowerCase();
+  return encounter.order.find(
+    (c) =>
+      c.characterId.toLowerCase() === lower || c.name.toLowerCase() === lower
+  );
+};
+
+/**
+ * Change a combatant's status (flee, surrender, fall)
+ */
+export const setCombatantStatus = (
+  encounter: CombatEncounter,
+  idOrName: string,
+  status: CombatantStatus
+): CombatEncounter => {
+  const target = findCombatant(encounter, idOrName);
+  if (!target) return encounter;
+
+  return {
+    ...encounter,
+    order: encounter.order.map((c) => (c === target ? { ...c, status } : c)),
+  };
+};
+
+/**
+ * Pass the turn to the next active combatant, starting a new round on wrap
+ */
+export const advanceCombatTurn = (
+  encounter: CombatEncounter
+): CombatEncounter => {
+  const count = encounter.order.length;
+  let index = encounter.turnIndex;
+  let round = encounter.round;
+
+  for (let step = 0; step < count; step++) {
+    index++;
+    if (index >= count) {
+      index = 0;
+      round++;
+    }
+    if (encounter.order[index].status === "active") break;
+  }
+
+  return { ...encounter, turnIndex: index, round };
+};
+
+/**
+ * Why the encounter is over, or null while both sides can still fight
+ */
+export const getCombatEndReason = (
+  encounter: CombatEncounter
+): string | null => {
+  const sideOut = (side: CombatSide) =>
+    encounter.order
+      .filter((c) => c.side === side)
+      .every((c) => c.status !== "active");
+
+  if (sideOut("opponents")) {
+    const statuses = new Set(
+      encounter.order.filter((c) => c.side === "opponents").map((c) => c.status)
+    );
+    return `All opponents are out of the fight (${[...statuses].join(", ")})`;
+  }
+  if (sideOut("investigators")) {
+    const fled = encounter.order.some(
+      (c) => c.side === "investigators" && c.status === "fled"
+    );
+    return fled
+      ? "The investigators escaped the fight"
+      : "The investigators can no longer fight";
+  }
+  return null;
+};
+
+/**
+ * Highest-rated skill whose name starts with the prefix (e.g. "fighting")
+ */
+const getBestSkill = (
+  character: CharacterProfile,
+  prefix: string
+): { name: string; value: number } | null => {
+  const [best] = Object.entries(character.skills || {})
+    .filter(([name]) => name.toLowerCase().startsWith(prefix))
+    .sort(([, a], [, b]) => b - a);
+  return best ? { name: best[0], value: best[1] } : null;
+};
+
+/**
+ * Defender's best response to a melee attack: Dodge or Fight Back
+ */
+export const chooseMeleeDefence = (
+  defender: CharacterProfile
+): { skill: string; contest: OpposedContest } => {
+  const dodge = resolveSkillValue(defender, "Dodge")?.value ?? 0;
+  const fighting = getBestSkill(defender, "fighting");
+  if (fighting && fighting.value > dodge) {
+    return { skill: fighting.name, contest: "fight_back" };
+  }
+  return { skill: "Dodge", contest: "dodge" };
+};
+
+/**
+ * Copy of the character with base Fighting (Brawl) and Dodge filled in
+ */
+const withCombatBaseSkills = (
+  character: CharacterProfile
+): CharacterProfile => ({
+  ...character,
+  skills: {
+    "Fighting (Brawl)": 25,
+    Dodge: Math.floor((character.attributes?.DEX ?? 50) / 2),
+    ...character.skills,
+  },
+});
+
+const rollDamage = (
+  attacker: CharacterProfile,
+  weapon: WeaponData,
+  check: SkillCheckResult,
+  target: CharacterProfile,
+  rolls: DiceRollRecord[],
+  rng?: DiceRng
+) => {
+  const damage = resolveWeaponDamage({ attacker, weapon, check, target, rng });
+  rolls.push(...damage.rolls);
+  return damage;
+};
+
+/**
+ * One shot through the firearms rules (ammo, malfunction, conditions).
+ * An empty or jammed gun spends the turn being reloaded or cleared instead.
+ */
+const resolveGunfire = (
+  attacker: CharacterProfile,
+  defender: CharacterProfile,
+  weapon: WeaponData,
+  round: number,
+  rng?: DiceRng
+): CombatAttackResult => {
+  const before = getFirearmState(attacker, weapon);
+  if (before.jammed || before.rounds <= 0) {
+    const { state, result } = resolveReload(attacker, weapon);
+    return {
+      event: {
+        round,
+        actor: attacker.name,
+        target: attacker.name,
+        summary: result.summary,
+        damage: 0,
+        rolls: [],
+      },
+      damagedId: null,
+      firearm: { weapon, state },
+    };
+  }
+
+  const { state, result } = resolveFirearmAttack({
+    character: attacker,
+    weapon,
+    target: defender,
+    rng,
+  });
+  return {
+    event: {
+      round,
+      actor: attacker.name,
+      target: defender.name,
+      summary: result.summary,
+      damage: result.damage,
+      rolls: result.rolls,
+    },
+    damagedId: result.shots.some((s) => s.hit) ? defender.id : null,
+    firearm: { weapon, state },
+  };
+};
+
+/**
+ * Resolve an NPC's attack on its turn.
+ * Melee is opposed by the defender's Dodge or Fight Back; a defender who wins
+ * a Fight Back deals damage instead. Gunfire goes through the firearms rules,
+ * so NPC guns run dry and jam like the investigators'.
+ * Damage comes from the weapons held, less the target's armour.
+ */
+export const resolveCombatAttack = (
+  attacker: CharacterProfile,
+  defender: CharacterProfile,
+  usesFirearm: boolean,
+  round: number,
+  rng?: DiceRng,
+  arms: CombatArms = {}
+): CombatAttackResult => {
+  const armedAttacker = withCombatBaseSkills(attacker);
+  const armedDefender = withCombatBaseSkills(defender);
+  const rolls: DiceRollRecord[] = [];
+
+  if (usesFirearm) {
+    return resolveGunfire(
+      attacker,
+      defender,
+      arms.attacker ?? DEFAULT_FIREARM,
+      round,
+      rng
+    );
+  }
+
+  const attackSkill =
+    getBestSkill(armedAttacker, "fighting")?.name ?? "Fighting (Brawl)";
+  const defence = chooseMeleeDefence(armedDefender);
+  const attackDice = getConditionDice(
+    attacker.status,
+    attackSkill,
+    defender.status
+  );
+  const defenceDice = getConditionDice(
+    defender.status,
+    defence.skill,
+    attacker.status
+  );
+  const contest = resolveOpposedCheck({
+    initiator: {
+      character: armedAttacker,
+      skill: attackSkill,
+      bonusDice: attackDice.bonusDice,
+      penaltyDice: attackDice.penaltyDice,
+    },
+    opponent: {
+      character: armedDefender,
+      skill: defence.skill,
+      bonusDice: defenceDice.bonusDice,
+      penaltyDice: defenceDice.penaltyDice,
+    },
+    contest: defence.contest,
+    rng,
+  });
+  rolls.push({ kind: "opposed_check", ...contest });
+
+  const defenceVerb = defence.contest === "dodge" ? "dodges" : "fights back";
+  if (contest.winner === "initiator") {
+    const damage = rollDamage(
+      attacker,
+      arms.attacker ?? UNARMED,
+      contest.initiator,
+      defender,
+      rolls,
+      rng
+    );
+    return {
+      event: {
+        round,
+        actor: attacker.name,
+        target: defender.name,
+        summary: `${attacker.name} hits ${defender.name} (${attackSkill}) for ${damage.damage} damage (${damage.summary}); ${defender.name} ${defenceVerb} and fails`,
+        damage: damage.damage,
+        rolls,
+      },
+      damagedId: defender.id,
+    };
+  }
+
+  if (contest.winner === "opponent" && defence.contest === "fight_back") {
+    const damage = rollDamage(
+      defender,
+      arms.defender ?? UNARMED,
+      contest.opponent,
+      attacker,
+      rolls,
+      rng
+    );
+    return {
+      event: {
+        round,
+        actor: attacker.name,
+        target: defender.name,
+        summary: `${attacker.name} attacks ${defender.name}, who fights back and deals ${damage.damage} damage (${damage.summary})`,
+        damage: damage.damage,
+        rolls,
+      },
+      damagedId: attacker.id,
+    };
+  }
+
+  return {
+    event: {
+      round,
+      actor: attacker.name,
+      target: defender.name,
+      summary: `${attacker.name} attacks ${defender.name}, who ${defenceVerb} and avoids harm`,
+      damage: 0,
+      rolls,
+    },
+    damagedId: null,
+  };
+};
@@ -0,0 +1,455 @@
+/**
+ * Conditions
+ * Typed catalogue of the states a character can be in, and what they do:
+ * - some stop the character acting at all (unconscious, dying, stunned, ...)
+ * - some add bonus or penalty dice: to the character's own checks, or to
+ *   attacks made against them (prone: a penalty die to shoot, a bonus die to
+ *   strike in melee)
+ * - insanity constrains how the character must be played
+ * - a condition lasts for a number of combat rounds, scenes or game minutes
+ *   (hours and days are counted in minutes), or until it is removed; timed
+ *   conditions expire as the rounds, scenes or game clock run down
+ */
+
+import type {
+  CharacterCondition,
+  CharacterStatus,
+  ConditionDefinition,
+  ConditionDice,
+  ConditionDuration,
+  ConditionDurationUnit,
+  ConditionModifierScope,
+  ConditionTimer,
+  PhysicalCondition,
+  SkillCheckResult,
+} from "../agents/models/gameTypes.js";
+
+export const CONDITIONS: Record<CharacterCondition, ConditionDefinition> = {
+  major_wound: {
+    id: "major_wound",
+    name: "Major Wound",
+    description:
+      "Took half their maximum HP or more in one hit; reaching 0 HP means dying",
+    aliases: ["badly wounded", "seriously wounded"],
+    blocksActions: false,
+    modifiers: [],
+  },
+  unconscious: {
+    id: "unconscious",
+    name: "Unconscious",
+    description: "Knocked out; aware of nothing and cannot act",
+    aliases: ["knocked out", "passed out", "out cold", "fainted"],
+    blocksActions: true,
+    modifiers: [],
+  },
+  dying: {
+    id: "dying",
+    name: "Dying",
+    description:
+      "At 0 HP with a Major Wound; rolls CON each round or dies until First Aid stabilises them",
+    aliases: ["mortally wounded"],
+    blocksActions: true,
+    modifiers: [],
+  },
+  stabilised: {
+    id: "stabilised",
+    name: "Stabilised",
+    description: "Dying halted by First Aid; needs Medicine to recover",
+    aliases: ["stabilized", "stable"],
+    blocksActions: false,
+    modifiers: [],
+  },
+  dead: {
+    id: "dead",
+    name: "Dead",
+    description: "Killed",
+    aliases: ["killed", "deceased"],
+    blocksActions: true,
+    modifiers: [],
+  },
+  temporary_insanity: {
+    id: "temporary_insanity",
+    name: "Temporary Insanity",
+    description: "Lost 5+ SAN at once and grasped the horror",
+    aliases: ["temporarily insane", "temporary madness"],
+    blocksActions: false,
+    behaviour:
+      "Acts under a phobia or mania and is prone to delusions the Keeper describes; any further SAN loss brings a Bout of Madness",
+    modifiers: [],
+  },
+  indefinite_insanity: {
+    id: "indefinite_insanity",
+    name: "Indefinite Insanity",
+    description: "Lost a fifth of their SAN in one game day",
+    aliases: ["indefinitely insane", "indefinite madness"],
+    blocksActions: false,
+    behaviour:
+      "Plagued by a lasting phobia or mania and delusions for months, until treated; any further SAN loss brings a Bout of Madness",
+    modifiers: [],
+  },
+  permanent_insanity: {
+    id: "permanent_insanity",
+    name: "Permanent Insanity",
+    description: "SAN reduced to 0; lost to madness for good",
+    aliases: ["permanently insane"],
+    blocksActions: true,
+    behaviour: "No longer an investigator; the Keeper plays them",
+    modifiers: [],
+  },
+  prone: {
+    id: "prone",
+    name: "Prone",
+    description:
+      "On the ground; standing up takes their movement for the round",
+    aliases: ["knocked down", "lying down", "on the ground", "fallen"],
+    blocksActions: false,
+    modifiers: [
+      { scope: "ranged_attacks_against", penaltyDice: 1 },
+      { scope: "melee_attacks_against", bonusDice: 1 },
+    ],
+  },
+  restrained: {
+    id: "restrained",
+    name: "Restrained",
+    description:
+      "Held, grappled or tied up; can only try to break free (STR or Fighting)",
+    aliases: ["grappled", "held", "pinned", "tied up", "bound"],
+    blocksActions: false,
+    modifiers: [
+      { scope: "own_physical", penaltyDice: 1 },
+      { scope: "melee_attacks_against", bonusDice: 1 },
+    ],
+  },
+  stunned: {
+    id: "stunned",
+    name: "Stunned",
+    description: "Dazed by a blow or a blast; loses their actions",
+    aliases: ["dazed", "stupefied"],
+    blocksActions: true,
+    modifiers: [],
+    defaultDuration: { amount: 1, unit: "rounds" },
+  },
+  blinded: {
+    id: "blinded",
+    name: "Blinded",
+    description: "Cannot see",
+    aliases: ["blind", "cannot see", "can't see"],
+    blocksActions: false,
+    modifiers: [{ scope: "own_sight", penaltyDice: 2 }],
+  },
+  intoxicated: {
+    id: "intoxicated",
+    name: "Intoxicated",
+    description: "Drunk or drugged",
+    aliases: ["drunk", "drugged", "inebriated"],
+    blocksActions: false,
+    modifiers: [{ scope: "own_checks", penaltyDice: 1 }],
+    defaultDuration: { amount: 4, unit: "hours" },
+  },
+  exhausted: {
+    id: "exhausted",
+    name: "Exhausted",
+    description: "Worn out by exertion or lack of sleep; needs a night's rest",
+    aliases: ["fatigued", "tired", "exhaustion"],
+    blocksActions: false,
+    modifiers: [{ scope: "own_physical", penaltyDice: 1 }],
+    defaultDuration: { amount: 8, unit: "hours" },
+  },
+};
+
+export const CONDITION_IDS = Object.keys(CONDITIONS) as CharacterCondition[];
+
+/**
+ * Conditions the Keeper applies from the situation; health and insanity
+ * conditions come only from the damage and Sanity rules
+ */
+export const PHYSICAL_CONDITIONS: PhysicalCondition[] = [
+  "prone",
+  "restrained",
+  "stunned",
+  "blinded",
+  "intoxicated",
+  "exhausted",
+];
+
+export const CONDITION_DURATION_UNITS: ConditionDurationUnit[] = [
+  "rounds",
+  "scenes",
+  "minutes",
+  "hours",
+  "days",
+];
+
+const MINUTES_PER_UNIT: Partial<Record<ConditionDuration["unit"], number>> = {
+  hours: 60,
+  days: 24 * 60,
+};
+
+const PHYSICAL_SKILL_PATTERN =
+  /^(str|dex|con|climb|jump|swim|dodge|stealth|throw|fighting|sleight of hand|ride|drive auto|pilot)/i;
+const SIGHT_SKILL_PATTERN =
+  /^(spot hidden|firearms|throw|navigate|track|library use|drive auto|pilot|read lips|art and craft)/i;
+const RANGED_ATTACK_PATTERN = /^(firearms|throw)/i;
+const MELEE_ATTACK_PATTERN = /^fighting/i;
+
+const toKey = (name: string): string =>
+  name
+    .trim()
+    .toLowerCase()
+    .replace(/[\s-]+/g, "_");
+
+/**
+ * The catalogue condition a name refers to ("Knocked down" → prone), or null
+ */
+export const resolveConditionId = (name: string): CharacterCondition | null => {
+  const key = toKey(name);
+  return (
+    CONDITION_IDS.find(
+      (id) =>
+        id === key ||
+        toKey(CONDITIONS[id].name) === key ||
+        CONDITIONS[id].aliases.some((alias) => toKey(alias) === key)
+    ) ?? null
+  );
+};
+
+/**
+ * Sheet or model conditions as catalogue ids; names that match nothing are
+ * returned separately so the caller can report them
+ */
+export const normalizeConditions = (
+  values: unknown
+): { conditions: CharacterCondition[]; unknown: string[] } => {
+  const conditions: CharacterCondition[] = [];
+  const unknown: string[] = [];
+  for (const value of Array.isArray(values) ? values : []) {
+    if (typeof value !== "string" || !value.trim()) continue;
+    const id = resolveConditionId(value);
+    if (!id) unknown.push(value);
+    else if (!conditions.includes(id)) conditions.push(id);
+  }
+  return { conditions, unknown };
+};
+
+/**
+ * A duration as a timer: hours and days become game minutes
+ */
+export const toConditionTimer = (
+  condition: CharacterCondition,
+  duration: ConditionDuration
+): ConditionTimer => {
+  if (!(duration.amount > 0)) {
+    throw new Error(
+      `Invalid duration for ${condition}: ${duration.amount} ${duration.unit}`
+    );
+  }
+  const factor = MINUTES_PER_UNIT[duration.unit];
+  return factor
+    ? {
+        condition,
+        unit: "minutes",
+        remaining: Math.ceil(duration.amount * factor),
+      }
+    : {
+        condition,
+        unit: duration.unit as ConditionTimer["unit"],
+        remaining: Math.ceil(duration.amount),
+      };
+};
+
+/**
+ * Status with the condition applied. A duration (or the catalogue default)
+ * starts a timer; applying it again restarts the timer.
+ */
+export const applyCondition = (
+  status: CharacterStatus,
+  condition: CharacterCondition,
+  duration?: ConditionDuration | null
+): CharacterStatus => {
+  const lasting = duration ?? CONDITIONS[condition].defaultDuration;
+  const timers = (status.conditionTimers || []).filter(
+    (t) => t.condition !== condition
+  );
+  return {
+    ...status,
+    conditions: (status.conditions || []).includes(condition)
+      ? [...status.conditions]
+      : [...(status.conditions || []), condition],
+    conditionTimers: lasting
+      ? [...timers, toConditionTimer(condition, lasting)]
+      : timers,
+  };
+};
+
+/**
+ * Status with the condition and its timer removed
+ */
+export const removeCondition = (
+  status: CharacterStatus,
+  condition: CharacterCondition
+): CharacterStatus => ({
+  ...status,
+  conditions: (status.conditions || []).filter((c) => c !== condition),
+  conditionTimers: (status.conditionTimers || []).filter(
+    (t) => t.condition !== condition
+  ),
+});
+
+/**
+ * Run down the timers counted in one unit; conditions whose time is up are
+ * removed. Timers for conditions removed some other way are dropped.
+ */
+export const tickConditions = (
+  status: CharacterStatus,
+  unit: ConditionTimer["unit"],
+  amount = 1
+): { status: CharacterStatus; expired: CharacterCondition[] } => {
+  const conditions = status.conditions || [];
+  const expired: CharacterCondition[] = [];
+  const timers: ConditionTimer[] = [];
+
+  for (const timer of status.conditionTimers || []) {
+    if (!conditions.includes(timer.condition)) continue;
+    if (timer.unit !== unit) {
+      timers.push(timer);
+      continue;
+    }
+    const remaining = timer.remaining - amount;
+    if (remaining > 0) timers.push({ ...timer, remaining });
+    else expired.push(timer.condition);
+  }
+
+  return {
+    status: {
+      ...status,
+      conditions: conditions.filter((c) => !expired.includes(c)),
+      conditionTimers: timers,
+    },
+    expired,
+  };
+};
+
+/**
+ * Conditions on the character that stop them acting
+ */
+export const getBlockingConditions = (
+  status: CharacterStatus
+): CharacterCondition[] =>
+  (status.conditions || []).filter((c) => CONDITIONS[c]?.blocksActions);
+
+/**
+ * Whether the character can act at all
+ */
+export const canAct = (status: CharacterStatus): boolean =>
+  getBlockingConditions(status).length === 0;
+
+const appliesTo = (scope: ConditionModifierScope, skill: string): boolean => {
+  switch (scope) {
+    case "own_checks":
+      return true;
+    case "own_physical":
+      return PHYSICAL_SKILL_PATTERN.test(skill);
+    case "own_sight":
+      return SIGHT_SKILL_PATTERN.test(skill);
+    case "ranged_attacks_against":
+      return RANGED_ATTACK_PATTERN.test(skill);
+    case "melee_attacks_against":
+      return MELEE_ATTACK_PATTERN.test(skill);
+  }
+};
+
+const countText = (count: number, singular: string, plural: string): string =>
+  `${count} ${count === 1 ? singular : plural}`;
+
+const diceText = (bonusDice = 0, penaltyDice = 0): string =>
+  [
+    bonusDice ? `+${countText(bonusDice, "bonus die", "bonus dice")}` : null,
+    penaltyDice
+      ? `+${countText(penaltyDice, "penalty die", "penalty dice")}`
+      : null,
+  ]
+    .filter(Boolean)
+    .join(", ");
+
+/**
+ * Bonus and penalty dice the conditions put on a roll: the roller's own
+ * conditions, and when the roll is an attack, the target's
+ */
+export const getConditionDice = (
+  status: CharacterStatus,
+  skill: string,
+  targetStatus?: CharacterStatus | null
+): ConditionDice => {
+  const dice: ConditionDice = { bonusDice: 0, penaltyDice: 0, reasons: [] };
+  const add = (condition: CharacterCondition, own: boolean): void => {
+    const definition = CONDITIONS[condition];
+    for (const modifier of definition?.modifiers || []) {
+      const against = modifier.scope.endsWith("_against");
+      if (against === own || !appliesTo(modifier.scope, skill)) continue;
+      dice.bonusDice += modifier.bonusDice ?? 0;
+      dice.penaltyDice += modifier.penaltyDice ?? 0;
+      dice.reasons.push(
+        `${own ? "" : "target "}${definition.name}: ${diceText(modifier.bonusDice, modifier.penaltyDice)}`
+      );
+    }
+  };
+
+  for (const condition of status.conditions || []) add(condition, true);
+  for (const condition of targetStatus?.conditions || []) {
+    add(condition, false);
+  }
+  return dice;
+};
+
+/**
+ * The check with the conditions behind its extra dice noted on it
+ */
+export const withConditionModifiers = (
+  check: SkillCheckResult,
+  dice: ConditionDice
+): SkillCheckResult =>
+  dice.reasons.length > 0
+    ? { ...check, conditionModifiers: dice.reasons }
+    : check;
+
+/**
+ * Time left on a condition, or null when it lasts until removed
+ */
+export const formatConditionTime = (
+  status: CharacterStatus,
+  condition: CharacterCondition
+): string | null => {
+  const timer = (status.conditionTimers || []).find(
+    (t) => t.condition === condition
+  );
+  if (!timer) return null;
+  if (timer.unit === "rounds") {
+    return `${countText(timer.remaining, "round", "rounds")} left`;
+  }
+  if (timer.unit === "scenes") {
+    return `${countText(timer.remaining, "scene", "scenes")} left`;
+  }
+  if (timer.remaining >= 120) {
+    return `${Math.round(timer.remaining / 60)} hours left`;
+  }
+  return `${countText(timer.remaining, "minute", "minutes")} left`;
+};
+
+/**
+ * One line per condition on the character: its effects and time left
+ */
+export const describeConditions = (status: CharacterStatus): string[] =>
+  (status.conditions || []).map((condition) => {
+    const definition = CONDITIONS[condition];
+    if (!definition) return condition;
+    const effects = [
+      definition.blocksActions ? "cannot act" : null,
+      ...definition.modifiers.map(
+        (m) =>
+          `${m.scope.replace(/_/g, " ")}: ${diceText(m.bonusDice, m.penaltyDice)}`
+      ),
+      definition.behaviour ?? null,
+      formatConditionTime(status, condition),
+    ].filter(Boolean);
+    return `${definition.name} (${condition}) — ${definition.description}${effects.length > 0 ? `; ${effects.join("; ")}` : ""}`;
+  });
@@ -0,0 +1,159 @@
+/**
+ * Weapon Damage
+ * CoC 7e damage for a successful attack:
+ * - roll the weapon's damage dice (shotguns by range band)
+ * - melee weapons add the attacker's full damage bonus, thrown weapons half
+ * - an extreme success deals maximum damage; with an impaling weapon (blades,
+ *   spears, bullets) it also adds an extra roll of the weapon's dice
+ * - the target's armour is subtracted from every hit
+ */
+
+import type {
+  CharacterProfile,
+  DamageResult,
+  DiceRollRecord,
+  RangeBand,
+  SkillCheckResult,
+  WeaponData,
+} from "../agents/models/gameTypes.js";
+import { getMaxDiceTotal, rollDiceExpression } from "./dice.js";
+import type { DiceRng } from "./rng.js";
+
+export interface WeaponDamageRequest {
+  attacker: CharacterProfile;
+  weapon: WeaponData;
+  check: SkillCheckResult; // the successful attack roll
+  target?: CharacterProfile | null;
+  range?: RangeBand;
+  rng?: DiceRng;
+}
+
+/**
+ * Bare hands, used when no weapon is named or carried
+ */
+export const UNARMED: WeaponData = {
+  name: "Unarmed",
+  skill: "Fighting (Brawl)",
+  damage: "1d3",
+  range: "touch",
+  attacksPerRound: 1,
+};
+
+const IMPALING_PATTERN =
+  /knife|dagger|sword|rapier|sabre|spear|bayonet|arrow|bolt|javelin|trident|stiletto/i;
+
+/**
+ * Whether an extreme success with the weapon impales.
+ * Bullets impale; shotgun pellets and blunt weapons do not.
+ */
+export const isImpalingWeapon = (weapon: WeaponData): boolean => {
+  if (/^firearms/i.test(weapon.skill)) return !/shotgun/i.test(weapon.name);
+  return IMPALING_PATTERN.test(weapon.name);
+};
+
+/**
+ * Weapon dice at the range band; shotguns list one per band ("4d6/2d6/1d6"),
+ * and notes like "2d6 (burn)" are dropped
+ */
+export const getRangeDamage = (
+  weapon: WeaponData,
+  range: RangeBand = "normal"
+): string => {
+  const bands = weapon.damage
+    .split("/")
+    .map((d) => d.replace(/\(.*\)/, "").trim());
+  const index = range === "very_long" ? 2 : range === "long" ? 1 : 0;
+  return bands[Math.min(index, bands.length - 1)];
+};
+
+/**
+ * Half a damage bonus, for thrown weapons ("+1d6" → "+1d3", "+2d6" → "+1d6").
+ * A negative bonus applies in full.
+ */
+export const halveDamageBonus = (bonus: string): string => {
+  const match = bonus.trim().match(/^\+?(\d*)d(\d+)$/i);
+  if (!match) return bonus;
+  const count = Number.parseInt(match[1] || "1", 10);
+  const sides = Number.parseInt(match[2], 10);
+  return count > 1
+    ? `+${Math.floor(count / 2)}d${sides}`
+    : `+1d${Math.max(1, Math.floor(sides / 2))}`;
+};
+
+/**
+ * Damage bonus the weapon adds: full for melee, half for thrown, none for guns
+ */
+export const getWeaponDamageBonus = (
+  attacker: CharacterProfile,
+  weapon: WeaponData
+): string | null => {
+  const bonus = attacker.status.damageBonus?.trim();
+  if (!bonus || bonus === "0" || bonus === "+0") return null;
+  if (/^fighting/i.test(weapon.skill)) return bonus;
+  if (/^throw/i.test(weapon.skill)) return halveDamageBonus(bonus);
+  return null;
+};
+
+const withBonus = (dice: string, bonus: string | null): string =>
+  bonus
+    ? `${dice}${bonus.startsWith("-") ? "" : "+"}${bonus.replace(/^\+/, "")}`
+    : dice;
+
+/**
+ * Work out the damage of a successful attack
+ */
+export const resolveWeaponDamage = (
+  request: WeaponDamageRequest
+): DamageResult => {
+  const { attacker, weapon, check, target, rng } = request;
+  const dice = getRangeDamage(weapon, request.range);
+  const expression = withBonus(dice, getWeaponDamageBonus(attacker, weapon));
+  const rolls: DiceRollRecord[] = [];
+
+  const maximised =
+    check.successLevel === "extreme" || check.successLevel === "critical";
+  const impaled = maximised && isImpalingWeapon(weapon);
+
+  let rolled: number;
+  if (maximised) {
+    rolled = getMaxDiceTotal(expression);
+    if (impaled) {
+      const extra = rollDiceExpression(dice, rng);
+      rolls.push({ kind: "roll", ...extra });
+      rolled += extra.total;
+    }
+  } else {
+    const roll = rollDiceExpression(expression, rng);
+    rolls.push({ kind: "roll", ...roll });
+    rolled = roll.total;
+  }
+  rolled = Math.max(0, rolled);
+
+  const armour = Math.max(0, target?.status.armour ?? 0);
+  const damage = Math.max(0, rolled - armour);
+  const detail = impaled
+    ? "impales: maximum damage plus an extra weapon roll"
+    : maximised
+      ? "extreme success: maximum damage"
+      : null;
+
+  return {
+    attacker: attacker.name,
+    target: target?.name ?? null,
+    weapon: weapon.name,
+    expression,
+    maximised,
+    impaled,
+    rolled,
+    armour,
+    damage,
+    rolls,
+    summary: [
+      `${weapon.name} (${expression}) deals ${rolled}`,
+      detail,
+      armour > 0 ? `armour ${armour} leaves ${damage}` : null,
+    ]
+      .filter(Boolean)
+      .join("; "),
+  };
+};
@@ -0,0 +1,171 @@
+/**
+ * Derived Statistics
+ * CoC 7e values worked out from the characteristics:
+ * - HP: (CON + SIZ) / 10, MP: POW / 5, both rounded down
+ * - starting SAN equals POW; maximum SAN is 99 minus Cthulhu Mythos
+ * - Damage Bonus and Build from STR + SIZ; every 80 points past 284 add
+ *   another 1d6 and +1 Build
+ * - MOV 7 when DEX and STR are both below SIZ, 9 when both are above, else 8;
+ *   investigators lose 1 MOV for each decade of age from their 40s
+ */
+
+import type {
+  CharacterAttributes,
+  CharacterStatus,
+  DerivedMismatch,
+  DerivedStats,
+} from "../agents/models/gameTypes.js";
+import { normalizeConditions } from "./conditions.js";
+
+/**
+ * Damage Bonus and Build by STR + SIZ, up to 284
+ */
+const DAMAGE_BONUS_TABLE: Array<{
+  max: number;
+  damageBonus: string;
+  build: number;
+}> = [
+  { max: 64, damageBonus: "-2", build: -2 },
+  { max: 84, damageBonus: "-1", build: -1 },
+  { max: 124, damageBonus: "0", build: 0 },
+  { max: 164, damageBonus: "+1d4", build: 1 },
+  { max: 204, damageBonus: "+1d6", build: 2 },
+  { max: 284, damageBonus: "+2d6", build: 3 },
+];
+
+/**
+ * Damage Bonus and Build from STR + SIZ
+ */
+export const getDamageBonusAndBuild = (
+  str: number,
+  siz: number
+): { damageBonus: string; build: number } => {
+  const total = str + siz;
+  const row = DAMAGE_BONUS_TABLE.find((r) => total <= r.max);
+  if (row) return { damageBonus: row.damageBonus, build: row.build };
+
+  const extra = Math.ceil((total - 284) / 80);
+  return { damageBonus: `+${2 + extra}d6`, build: 3 + extra };
+};
+
+/**
+ * Movement rate from DEX, STR and SIZ, less the age penalty
+ */
+export const getMovementRate = (
+  attributes: CharacterAttributes,
+  age?: number
+): number => {
+  const { STR, DEX, SIZ } = attributes;
+  let mov = 8;
+  if (DEX < SIZ && STR < SIZ) mov = 7;
+  if (DEX > SIZ && STR > SIZ) mov = 9;
+
+  const decades = age && age >= 40 ? Math.floor(age / 10) - 3 : 0;
+  return Math.max(1, mov - Math.min(decades, 5));
+};
+
+/**
+ * Every derived statistic for a set of characteristics
+ */
+export const calculateDerivedStats = (
+  attributes: CharacterAttributes,
+  age?: number,
+  cthulhuMythos = 0
+): DerivedStats => ({
+  hp: Math.floor((attributes.CON + attributes.SIZ) / 10),
+  mp: Math.floor(attributes.POW / 5),
+  sanity: Math.min(attributes.POW, 99 - cthulhuMythos),
+  maxSanity: 99 - cthulhuMythos,
+  ...getDamageBonusAndBuild(attributes.STR, attributes.SIZ),
+  mov: getMovementRate(attributes, age),
+});
+
+/**
+ * Fresh status for a character with the derived statistics
+ */
+export const createDerivedStatus = (
+  derived: DerivedStats,
+  luck = 50
+): CharacterStatus => ({
+  hp: derived.hp,
+  maxHp: derived.hp,
+  sanity: derived.sanity,
+  maxSanity: derived.maxSanity,
+  luck,
+  mp: derived.mp,
+  damageBonus: derived.damageBonus,
+  build: derived.build,
+  mov: derived.mov,
+  conditions: [],
+});
+
+/**
+ * Damage bonus in one spelling ("+1D4" → "+1d4", "+0" → "0")
+ */
+const normalizeDamageBonus = (bonus: string): string => {
+  const trimmed = bonus.replace(/\s+/g, "").toLowerCase();
+  if (/^[+-]?0$/.test(trimmed) || trimmed === "none") return "0";
+  return /^[+-]/.test(trimmed) ? trimmed : `+${trimmed}`;
+};
+
+/**
+ * Derived statistics on a sheet that disagree with the rules.
+ * Statistics the sheet leaves out are not checked.
+ */
+export const checkDerivedStats = (
+  derived: DerivedStats,
+  sheet: Partial<Record<keyof DerivedStats, number | string | null>>
+): DerivedMismatch[] => {
+  const mismatches: DerivedMismatch[] = [];
+  for (const stat of Object.keys(derived) as Array<keyof DerivedStats>) {
+    const actual = sheet[stat];
+    if (actual === undefined || actual === null || actual === "") continue;
+
+    const expected = derived[stat];
+    const same =
+      stat === "damageBonus"
+        ? normalizeDamageBonus(String(actual)) ===
+          normalizeDamageBonus(String(expected))
+        : Number(actual) === expected;
+    if (!same) mismatches.push({ stat, expected, actual });
+  }
+  return mismatches;
+};
+
+/**
+ * One-line description of the mismatches, for errors and logs
+ */
+export const formatDerivedMismatches = (
+  mismatches: DerivedMismatch[]
+): string =>
+  mismatches
+    .map((m) => `${m.stat} is ${m.actual}, expected ${m.expected}`)
+    .join("; ");
+
+/**
+ * Status for a loaded sheet: the sheet's values over the derived ones, with
+ * the sheet's maximums checked against the rules. Conditions are matched to
+ * the catalogue; ones it does not know are dropped.
+ */
+export const deriveSheetStatus = (
+  attributes: CharacterAttributes,
+  sheetStatus: Partial<CharacterStatus> = {},
+  age?: number,
+  cthulhuMythos = 0
+): { status: CharacterStatus; mismatches: DerivedMismatch[] } => {
+  const derived = calculateDerivedStats(attributes, age, cthulhuMythos);
+  const mismatches = checkDerivedStats(derived, {
+    hp: sheetStatus.maxHp ?? sheetStatus.hp,
+    damageBonus: sheetStatus.damageBonus,
+    build: sheetStatus.build,
+    mov: sheetStatus.mov,
+  });
+  return {
+    status: {
+      ...createDerivedStatus(derived),
+      ...sheetStatus,
+      conditions: normalizeConditions(sheetStatus.conditions).conditions,
+    },
+    mismatches,
+  };
+};
@@ -0,0 +1,134 @@
+/**
+ * Experience Checks and Development
+ * A skill that succeeds in play is ticked. In the development phase at the
+ * end of a session, each ticked skill rolls 1d100: a roll over the current
+ * value (or 96+) improves it by 1d10. Reaching 90% awards 2d6 Sanity.
+ */
+
+import type {
+  CharacterProfile,
+  DevelopmentResult,
+  DiceRollRecord,
+  SkillCheckResult,
+  SkillImprovement,
+} from "../agents/models/gameTypes.js";
+import { rollDiceExpression } from "./dice.js";
+import type { DiceRng } from "./rng.js";
+
+/**
+ * Skills that never receive experience checks
+ */
+const NO_EXPERIENCE_SKILLS = ["cthulhu mythos", "credit rating"];
+
+/**
+ * Skill value that earns a Sanity reward when first reached
+ */
+export const SKILL_MASTERY_THRESHOLD = 90;
+
+/**
+ * Rolls of 96+ always improve the skill
+ */
+const ALWAYS_IMPROVES = 96;
+
+/**
+ * Whether a check earns the character's skill an experience tick.
+ * Only successful skill rolls count: not characteristics, Luck or Sanity,
+ * and not checks bought with Luck.
+ */
+export const earnsExperienceCheck = (
+  character: CharacterProfile,
+  check: SkillCheckResult
+): boolean => {
+  if (!check.success || check.luckSpent) return false;
+  if (check.character !== character.name) return false;
+  if (NO_EXPERIENCE_SKILLS.includes(check.skill.toLowerCase())) return false;
+  return Object.hasOwn(character.skills || {}, check.skill);
+};
+
+/**
+ * Tick every skill that succeeded in the given rolls
+ */
+export const tickExperienceChecks = (
+  character: CharacterProfile,
+  rolls: DiceRollRecord[]
+): string[] => {
+  const ticked = new Set(character.experienceChecks || []);
+  for (const record of rolls) {
+    const checks =
+      record.kind === "skill_check"
+        ? [record]
+        : record.kind === "opposed_check"
+          ? [record.initiator, record.opponent]
+          : [];
+    for (const check of checks) {
+      if (earnsExperienceCheck(character, check)) ticked.add(check.skill);
+    }
+  }
+  return [...ticked];
+};
+
+/**
+ * Roll improvement for every ticked skill and clear the ticks
+ */
+export const resolveDevelopmentPhase = (
+  character: CharacterProfile,
+  rng?: DiceRng
+): { character: CharacterProfile; result: DevelopmentResult } => {
+  const skills = { ...character.skills };
+  const status = { ...character.status };
+  const improvements: SkillImprovement[] = [];
+  const rolls: DiceRollRecord[] = [];
+
+  for (const skill of character.experienceChecks || []) {
+    const before = skills[skill];
+    if (typeof before !== "number") continue;
+
+    const improvementRoll = rollDiceExpression("1d100", rng);
+    rolls.push({ kind: "roll", ...improvementRoll });
+    const roll = improvementRoll.total;
+    const improved = roll > before || roll >= ALWAYS_IMPROVES;
+
+    let gain = 0;
+    if (improved) {
+      const gainRoll = rollDiceExpression("1d10", rng);
+      rolls.push({ kind: "roll", ...gainRoll });
+      gain = gainRoll.total;
+    }
+    const after = before + gain;
+    skills[skill] = after;
+
+    let sanityAward = 0;
+    if (before < SKILL_MASTERY_THRESHOLD && after >= SKILL_MASTERY_THRESHOLD) {
+      const award = rollDiceExpression("2d6", rng);
+      rolls.push({ kind: "roll", ...award });
+      sanityAward = award.total;
+    }
+
+    improvements.push({
+      skill,
+      before,
+      roll,
+      improved,
+      gain,
+      after,
+      sanityAward,
+    });
+  }
+
+  const sanityBefore = status.sanity;
+  const sanityGained = improvements.reduce((sum, i) => sum + i.sanityAward, 0);
+  status.sanity = Math.min(status.maxSanity, sanityBefore + sanityGained);
+
+  return {
+    character: { ...character, skills, status, experienceChecks: [] },
+    result: {
+      characterId: character.id,
+      character: character.name,
+      improvements,
+      sanityGained: status.sanity - sanityBefore,
+      sanityBefore,
+      sanityAfter: status.sanity,
+      rolls,
+    },
+  };
+};
@@ -0,0 +1,242 @@
+/**
+ * Dice primitives for the CoC 7e rules engine
+ *
+ * Expression syntax (case-insensitive, whitespace ignored):
+ * - NdS: roll N dice with S sides ("d%" is an alias for d100)
+ * - NdSkhK / NdSklK: keep the highest / lowest K dice
+ * - 1d100bN / 1d100pN: percentile roll with N bonus / penalty dice
+ * - terms joined with + or -, e.g. "1d6+1d4+2", "2d6-1"
+ */
+
+import type { DiceRollResult } from "../agents/models/gameTypes.js";
+import { type DiceRng, mathRandomRng } from "./rng.js";
+
+/**
+ * Roll a single die with the given number of sides (1..sides)
+ */
+export const rollDie = (sides: number, rng: DiceRng = mathRandomRng): number =>
+  Math.floor(rng.next() * sides) + 1;
+
+/**
+ * Half value of a skill or characteristic (hard difficulty)
+ */
+export const halfValue = (value: number): number => Math.floor(value / 2);
+
+/**
+ * Fifth value of a skill or characteristic (extreme difficulty)
+ */
+export const fifthValue = (value: number): number => Math.floor(value / 5);
+
+export interface PercentileRoll {
+  roll: number; // final 1..100 result
+  tensDice: number[]; // every tens die rolled (0, 10, ... 90)
+  unitsDie: number; // 0..9
+  bonusDice: number;
+  penaltyDice: number;
+}
+
+/**
+ * Roll 1d100 with CoC bonus/penalty dice.
+ * Bonus and penalty dice cancel one for one; the remaining extra tens dice are
+ * rolled and the best (bonus) or worst (penalty) result is kept.
+ */
+export const rollPercentile = (
+  bonusDice = 0,
+  penaltyDice = 0,
+  rng: DiceRng = mathRandomRng
+): PercentileRoll => {
+  const netBonus = Math.max(0, bonusDice - penaltyDice);
+  const netPenalty = Math.max(0, penaltyDice - bonusDice);
+
+  const unitsDie = rollDie(10, rng) - 1;
+  const tensDice = Array.from(
+    { length: 1 + netBonus + netPenalty },
+    () => (rollDie(10, rng) - 1) * 10
+  );
+
+  // "00" on the tens die plus "0" on the units die reads as 100
+  const candidates = tensDice.map((tens) => tens + unitsDie || 100);
+  const roll =
+    netBonus > 0
+      ? Math.min(...candidates)
+      : netPenalty > 0
+        ? Math.max(...candidates)
+        : candidates[0];
+
+  return {
+    roll,
+    tensDice,
+    unitsDie,
+    bonusDice: netBonus,
+    penaltyDice: netPenalty,
+  };
+};
+
+export type DiceTerm =
+  | {
+      type: "dice";
+      sign: 1 | -1;
+      count: number;
+      sides: number;
+      keep?: { mode: "highest" | "lowest"; count: number };
+      bonusDice: number;
+      penaltyDice: number;
+    }
+  | { type: "constant"; sign: 1 | -1; value: number };
+
+const DICE_TERM_PATTERN = /^(\d*)d(\d+|%)(?:(kh|kl)(\d+))?(?:([bp])(\d+))?$/;
+const MAX_DICE_PER_TERM = 100;
+
+/**
+ * Parse a dice expression into signed terms
+ */
+export const parseDiceExpression = (expression: string): DiceTerm[] => {
+  const cleaned = expression.toLowerCase().replace(/\s/g, "");
+  if (!cleaned) {
+    throw new Error("Missing dice expression");
+  }
+
+  const tokens = cleaned.match(/[+-]?[^+-]+/g);
+  if (!tokens || tokens.join("") !== cleaned) {
+    throw new Error(`Invalid dice expression: ${expression}`);
+  }
+
+  return tokens.map((token): DiceTerm => {
+    const sign: 1 | -1 = token.startsWith("-") ? -1 : 1;
+    const body = token.replace(/^[+-]/, "");
+
+    if (/^\d+$/.test(body)) {
+      return { type: "constant", sign, value: Number.parseInt(body, 10) };
+    }
+
+    const match = body.match(DICE_TERM_PATTERN);
+    if (!match) {
+      throw new Error(`Invalid dice expression: ${expression}`);
+    }
+
+    const count = Number.parseInt(match[1] || "1", 10);
+    const sides = match[2] === "%" ? 100 : Number.parseInt(match[2], 10);
+    if (count < 1 || count > MAX_DICE_PER_TERM || sides < 1) {
+      throw new Error(`Invalid dice expression: ${expression}`);
+    }
+
+    if (match[3] && Number.parseInt(match[4], 10) < 1) {
+      throw new Error(`Invalid dice expression: ${expression}`);
+    }
+
+    const keep = match[3]
+      ? {
+          mode: match[3] === "kh" ? ("highest" as const) : ("lowest" as const),
+          count: Math.min(Number.parseInt(match[4], 10), count),
+        }
+      : undefined;
+
+    const extraDice = match[5] ? Number.parseInt(match[6], 10) : 0;
+    if (extraDice > 0 && (sides !== 100 || count !== 1)) {
+      throw new Error(
+        `Bonus/penalty dice only apply to a single 1d100: ${expression}`
+      );
+    }
+
+    return {
+      type: "dice",
+      sign,
+      count,
+      sides,
+      keep,
+      bonusDice: match[5] === "b" ? extraDice : 0,
+      penaltyDice: match[5] === "p" ? extraDice : 0,
+    };
+  });
+};
+
+/**
+ * Highest total a dice expression can produce
+ */
+export const getMaxDiceTotal = (expression: string): number =>
+  parseDiceExpression(expression).reduce((total, term) => {
+    if (term.type === "constant") return total + term.sign * term.value;
+    if (term.sign < 0) return total - (term.keep?.count ?? term.count);
+    return total + (term.keep?.count ?? term.count) * term.sides;
+  }, 0);
+
+/**
+ * Roll a single dice term, returning every die rolled and the ones kept
+ */
+const rollTerm = (
+  term: Extract<DiceTerm, { type: "dice" }>,
+  rng: DiceRng
+): { rolled: number[]; kept: number[] } => {
+  if (term.sides === 100 && (term.bonusDice > 0 || term.penaltyDice > 0)) {
+    const percentile = rollPercentile(term.bonusDice, term.penaltyDice, rng);
+    return { rolled: [percentile.roll], kept: [percentile.roll] };
+  }
+
+  const rolled = Array.from({ length: term.count }, () =>
+    rollDie(term.sides, rng)
+  );
+  if (!term.keep) {
+    return { rolled, kept: rolled };
+  }
+
+  const sorted = [...rolled].sort((a, b) =>
+    term.keep?.mode === "highest" ? b - a : a - b
+  );
+  return { rolled, kept: sorted.slice(0, term.keep.count) };
+};
+
+const formatTermNotation = (term: Extract<DiceTerm, { type: "dice" }>) => {
+  let notation = `${term.count}d${term.sides}`;
+  if (term.keep) {
+    notation += `${term.keep.mode === "highest" ? "kh" : "kl"}${term.keep.count}`;
+  }
+  if (term.bonusDice > 0) notation += `b${term.bonusDice}`;
+  if (term.penaltyDice > 0) notation += `p${term.penaltyDice}`;
+  return notation;
+};
+
+/**
+ * Roll a full dice expression such as "1d6+1d4+2", "4d6kh3" or "1d100p1"
+ */
+export const rollDiceExpression = (
+  expression: string,
+  rng: DiceRng = mathRandomRng
+): DiceRollResult => {
+  const terms = parseDiceExpression(expression);
+
+  const rolls: number[] = [];
+  const parts: string[] = [];
+  let modifier = 0;
+  let total = 0;
+
+  terms.forEach((term, index) => {
+    const prefix =
+      index === 0 ? (term.sign < 0 ? "-" : "") : term.sign < 0 ? " - " : " + ";
+
+    if (term.type === "constant") {
+      modifier += term.sign * term.value;
+      total += term.sign * term.value;
+      parts.push(`${prefix}${term.value}`);
+      return;
+    }
+
+    const { rolled, kept } = rollTerm(term, rng);
+    const subtotal = kept.reduce((sum, value) => sum + value, 0);
+    rolls.push(...kept.map((value) => term.sign * value));
+    total += term.sign * subtotal;
+
+    const dropped =
+      rolled.length > kept.length ? ` (rolled ${rolled.join(",")})` : "";
+    parts.push(
+      `${prefix}${formatTermNotation(term)}[${kept.join(",")}]${dropped}`
+    );
+  });
+
+  return {
+    expression,
+    rolls,
+    modifier,
+    total,
+    breakdown: `${parts.join("")} = ${total}`,
+  };
+};
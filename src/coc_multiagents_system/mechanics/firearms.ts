@@ -0,0 +1,295 @@
+/**
+ * Firearms
+ * CoC 7e gunfire over the weapons table:
+ * - each shot is a Firearms skill check; a roll at or above the weapon's
+ *   malfunction number jams it and the shot does not fire
+ * - point blank gives a bonus die; long range one penalty die, very long two
+ * - firing more than one shot in a round (up to attacksPerRound) puts a
+ *   penalty die on every shot
+ * - every shot fired uses a round; an empty or jammed weapon cannot fire
+ * - each hit does the weapon's damage (see damage.ts); bullets impale
+ * - reloading (or clearing a jam) takes the character's combat action
+ * - the shooter's and the target's conditions add their dice (a prone target
+ *   is harder to hit; see conditions.ts)
+ */
+
+import type {
+  CharacterProfile,
+  DiceRollRecord,
+  FirearmAttackResult,
+  FirearmShot,
+  FirearmState,
+  RangeBand,
+  ReloadResult,
+  WeaponData,
+} from "../agents/models/gameTypes.js";
+import { getConditionDice, withConditionModifiers } from "./conditions.js";
+import { resolveWeaponDamage } from "./damage.js";
+import type { DiceRng } from "./rng.js";
+import { resolveSkillCheck } from "./skillCheck.js";
+
+export interface FirearmAttackRequest {
+  character: CharacterProfile;
+  weapon: WeaponData;
+  target?: CharacterProfile | null;
+  range?: RangeBand;
+  shots?: number; // shots fired this round; capped at the weapon's attacksPerRound
+  rng?: DiceRng;
+}
+
+/**
+ * Bonus and penalty dice for each range band
+ */
+export const RANGE_BAND_DICE: Record<
+  RangeBand,
+  { bonusDice: number; penaltyDice: number }
+> = {
+  point_blank: { bonusDice: 1, penaltyDice: 0 },
+  normal: { bonusDice: 0, penaltyDice: 0 },
+  long: { bonusDice: 0, penaltyDice: 1 },
+  very_long: { bonusDice: 0, penaltyDice: 2 },
+};
+
+export const RANGE_BANDS = Object.keys(RANGE_BAND_DICE) as RangeBand[];
+
+/**
+ * Penalty dice on every shot when firing more than one in a round
+ */
+export const MULTIPLE_SHOTS_PENALTY = 1;
+
+/**
+ * Base values of the Firearms specialisations
+ */
+const FIREARMS_BASE_SKILLS: Record<string, number> = {
+  "Firearms (Handgun)": 20,
+  "Firearms (Rifle/Shotgun)": 25,
+  "Firearms (Submachine Gun)": 15,
+};
+
+/**
+ * Whether the weapon is fired with a Firearms skill
+ */
+export const isFirearm = (weapon: WeaponData): boolean =>
+  /^firearms/i.test(weapon.skill);
+
+const tokens = (name: string): string[] =>
+  name
+    .toLowerCase()
+    .split(/[\s,]+/)
+    .filter(Boolean);
+
+/**
+ * Match an item name ("Revolver .38", "Colt .45 Automatic") to the weapons
+ * table: an exact name first, then the weapon whose every word appears in it
+ */
+export const matchWeapon = (
+  itemName: string,
+  weapons: WeaponData[]
+): WeaponData | undefined => {
+  const lower = itemName.trim().toLowerCase();
+  const exact = weapons.find((w) => w.name.toLowerCase() === lower);
+  if (exact) return exact;
+
+  const itemTokens = new Set(tokens(itemName));
+  return weapons
+    .filter((w) => tokens(w.name).every((t) => itemTokens.has(t)))
+    .sort((a, b) => tokens(b.name).length - tokens(a.name).length)[0];
+};
+
+/**
+ * Weapons in the character's inventory: an item's own weapon stats, or its
+ * name matched to the weapons table
+ */
+export const getCarriedWeapons = (
+  character: CharacterProfile,
+  weapons: WeaponData[]
+): WeaponData[] =>
+  (character.inventory || [])
+    .map((item) => item.weapon ?? matchWeapon(item.name, weapons))
+    .filter((w): w is WeaponData => Boolean(w));
+
+/**
+ * Firearms in the character's inventory
+ */
+export const getCarriedFirearms = (
+  character: CharacterProfile,
+  weapons: WeaponData[]
+): WeaponData[] => {
+  const carried = getCarriedWeapons(character, weapons).filter(isFirearm);
+  return [...new Map(carried.map((w) => [w.name, w])).values()];
+};
+
+/**
+ * Loaded rounds and jam state; an untracked weapon starts fully loaded
+ */
+export const getFirearmState = (
+  character: CharacterProfile,
+  weapon: WeaponData
+): FirearmState =>
+  character.firearms?.[weapon.name] ?? {
+    rounds: weapon.ammo ?? 0,
+    jammed: false,
+  };
+
+/**
+ * Copy of the character with the Firearms base skills filled in
+ */
+const withFirearmsBaseSkills = (
+  character: CharacterProfile
+): CharacterProfile => ({
+  ...character,
+  skills: { ...FIREARMS_BASE_SKILLS, ...character.skills },
+});
+
+/**
+ * Fire one or more shots at a target
+ */
+export const resolveFirearmAttack = (
+  request: FirearmAttackRequest
+): { state: FirearmState; result: FirearmAttackResult } => {
+  const { character, weapon, rng } = request;
+  const range = request.range ?? "normal";
+  const before = getFirearmState(character, weapon);
+
+  if (!isFirearm(weapon)) {
+    throw new Error(`${weapon.name} is not a firearm`);
+  }
+  if (before.jammed) {
+    throw new Error(
+      `${character.name}'s ${weapon.name} is jammed; clear it before firing`
+    );
+  }
+  if (before.rounds <= 0) {
+    throw new Error(
+      `${character.name}'s ${weapon.name} is empty; reload before firing`
+    );
+  }
+
+  const shotsWanted = Math.min(
+    Math.max(1, Math.floor(request.shots ?? 1)),
+    Math.max(1, weapon.attacksPerRound),
+    before.rounds
+  );
+  const target = request.target ?? null;
+  const dice = RANGE_BAND_DICE[range];
+  const conditionDice = getConditionDice(
+    character.status,
+    weapon.skill,
+    target?.status
+  );
+  const bonusDice = dice.bonusDice + conditionDice.bonusDice;
+  const penaltyDice =
+    dice.penaltyDice +
+    conditionDice.penaltyDice +
+    (shotsWanted > 1 ? MULTIPLE_SHOTS_PENALTY : 0);
+  const shooter = withFirearmsBaseSkills(character);
+
+  const state = { ...before };
+  const shots: FirearmShot[] = [];
+  const rolls: DiceRollRecord[] = [];
+
+  for (let i = 0; i < shotsWanted; i++) {
+    const check = withConditionModifiers(
+      resolveSkillCheck({
+        character: shooter,
+        skill: weapon.skill,
+        bonusDice,
+        penaltyDice,
+        rng,
+      }),
+      conditionDice
+    );
+    rolls.push({ kind: "skill_check", ...check });
+
+    if (
+      typeof weapon.malfunction === "number" &&
+      check.roll >= weapon.malfunction
+    ) {
+      state.jammed = true;
+      shots.push({ check, malfunction: true, hit: false, damage: 0 });
+      break;
+    }
+
+    state.rounds--;
+    if (!check.success) {
+      shots.push({ check, malfunction: false, hit: false, damage: 0 });
+      continue;
+    }
+    const damageResult = resolveWeaponDamage({
+      attacker: character,
+      weapon,
+      check,
+      target,
+      range,
+      rng,
+    });
+    rolls.push(...damageResult.rolls);
+    shots.push({
+      check,
+      malfunction: false,
+      hit: true,
+      damage: damageResult.damage,
+      damageResult,
+    });
+  }
+
+  const hits = shots.filter((s) => s.hit);
+  const damage = hits.reduce((sum, s) => sum + s.damage, 0);
+  const summary = [
+    `${character.name} fires ${shots.filter((s) => !s.malfunction).length} shot(s) from the ${weapon.name}${target ? ` at ${target.name}` : ""} (${[range.replace("_", " "), ...conditionDice.reasons].join("; ")})`,
+    ...shots.map((s, i) =>
+      s.malfunction
+        ? `shot ${i + 1}: ${s.check.roll} meets malfunction ${weapon.malfunction}, the weapon jams`
+        : `shot ${i + 1}: ${s.check.roll} vs ${s.check.target} ${s.hit ? `hits: ${s.damageResult?.summary}` : "misses"}`
+    ),
+    `${state.rounds} round(s) left`,
+  ].join("; ");
+
+  return {
+    state,
+    result: {
+      character: character.name,
+      weapon: weapon.name,
+      target: target?.name ?? null,
+      range,
+      shots,
+      roundsBefore: before.rounds,
+      roundsAfter: state.rounds,
+      jammed: state.jammed,
+      damage,
+      rolls,
+      summary,
+    },
+  };
+};
+
+/**
+ * Spend the combat action on the weapon: clear a jam, or reload it fully
+ */
+export const resolveReload = (
+  character: CharacterProfile,
+  weapon: WeaponData
+): { state: FirearmState; result: ReloadResult } => {
+  if (!isFirearm(weapon)) {
+    throw new Error(`${weapon.name} is not a firearm`);
+  }
+  const before = getFirearmState(character, weapon);
+  const jamCleared = before.jammed;
+  const state: FirearmState = jamCleared
+    ? { ...before, jammed: false }
+    : { rounds: weapon.ammo ?? before.rounds, jammed: false };
+
+  return {
+    state,
+    result: {
+      character: character.name,
+      weapon: weapon.name,
+      roundsBefore: before.rounds,
+      roundsAfter: state.rounds,
+      jamCleared,
+      summary: jamCleared
+        ? `${character.name} clears the jam in the ${weapon.name} (${state.rounds} round(s) loaded)`
+        : `${character.name} reloads the ${weapon.name} (${before.rounds} → ${state.rounds} rounds)`,
+    },
+  };
+};
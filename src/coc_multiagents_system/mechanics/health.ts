@@ -0,0 +1,383 @@
+/**
+ * Hit Points, Major Wounds and Dying
+ * CoC 7e damage handling as a state machine over CharacterStatus.conditions:
+ * - damage >= max HP in one hit kills outright
+ * - damage >= half max HP in one hit is a Major Wound (CON roll or pass out)
+ * - 0 HP is unconsciousness, or dying when the character has a Major Wound
+ * - a dying character rolls CON every round; First Aid stabilises, Medicine treats
+ * - First Aid and Medicine each help once per injury; a new injury lets them
+ *   be tried again
+ */
+
+import type {
+  CharacterCondition,
+  CharacterProfile,
+  CharacterStatus,
+  DiceRollRecord,
+  HealthCondition,
+  HealthEvent,
+  RecoveryState,
+  SkillCheckResult,
+  TreatmentSkill,
+} from "../agents/models/gameTypes.js";
+import { rollDiceExpression } from "./dice.js";
+import type { DiceRng } from "./rng.js";
+import { resolveSkillCheck } from "./skillCheck.js";
+
+export interface HealthChange {
+  status: CharacterStatus;
+  events: HealthEvent[];
+}
+
+export type { TreatmentSkill };
+
+const INCAPACITATING_CONDITIONS: HealthCondition[] = [
+  "unconscious",
+  "dying",
+  "dead",
+];
+
+/**
+ * Medicine restores 1d3 hit points
+ */
+const MEDICINE_HEALING = "1d3";
+
+export const hasCondition = (
+  status: CharacterStatus,
+  condition: CharacterCondition
+): boolean => (status.conditions || []).includes(condition);
+
+/**
+ * Whether the character can no longer act (unconscious, dying or dead)
+ */
+export const isIncapacitated = (status: CharacterStatus): boolean =>
+  INCAPACITATING_CONDITIONS.some((condition) =>
+    hasCondition(status, condition)
+  );
+
+/**
+ * The rolls behind health events: CON, treatment and recovery rolls, and the
+ * hit points a recovery roll restores, in the order they were made
+ */
+export const getHealthEventRolls = (events: HealthEvent[]): DiceRollRecord[] =>
+  events.flatMap((event) => [
+    ...(event.check ? [{ kind: "skill_check" as const, ...event.check }] : []),
+    ...(event.roll ? [{ kind: "roll" as const, ...event.roll }] : []),
+  ]);
+
+/**
+ * Treatments given for the current injury and time spent healing it
+ */
+export const getRecoveryState = (status: CharacterStatus): RecoveryState => ({
+  treatments: [],
+  healingMinutes: 0,
+  ...status.recovery,
+});
+
+const withConditions = (
+  conditions: CharacterCondition[],
+  add: HealthCondition[],
+  remove: HealthCondition[] = []
+): CharacterCondition[] => [
+  ...conditions.filter(
+    (c) =>
+      !remove.includes(c as HealthCondition) &&
+      !add.includes(c as HealthCondition)
+  ),
+  ...add,
+];
+
+const copyStatus = (character: CharacterProfile): CharacterStatus => ({
+  ...character.status,
+  conditions: [...(character.status.conditions || [])],
+});
+
+const createEvent = (
+  character: CharacterProfile,
+  type: HealthEvent["type"],
+  summary: string,
+  check?: SkillCheckResult
+): HealthEvent => ({
+  characterId: character.id,
+  characterName: character.name,
+  type,
+  summary,
+  check,
+});
+
+const rollCon = (
+  character: CharacterProfile,
+  rng?: DiceRng
+): SkillCheckResult => resolveSkillCheck({ character, skill: "CON", rng });
+
+/**
+ * Apply a single hit of damage and work out the resulting health state
+ */
+export const resolveDamage = (
+  character: CharacterProfile,
+  amount: number,
+  rng?: DiceRng
+): HealthChange => {
+  const status = copyStatus(character);
+  if (amount <= 0 || hasCondition(status, "dead")) {
+    return { status, events: [] };
+  }
+  // A new injury can be treated again and starts healing from now
+  status.recovery = {
+    ...getRecoveryState(status),
+    treatments: [],
+    healingMinutes: 0,
+  };
+
+  if (amount >= status.maxHp) {
+    status.hp = 0;
+    status.conditions = withConditions(
+      status.conditions,
+      ["dead"],
+      ["dying", "stabilised", "unconscious"]
+    );
+    return {
+      status,
+      events: [
+        createEvent(
+          character,
+          "dead",
+          `${character.name} is killed outright (${amount} damage vs ${status.maxHp} max HP)`
+        ),
+      ],
+    };
+  }
+
+  const events: HealthEvent[] = [];
+  const majorWound = amount * 2 >= status.maxHp;
+  status.hp = Math.max(0, status.hp - amount);
+
+  if (majorWound) {
+    status.conditions = withConditions(status.conditions, ["major_wound"]);
+    events.push(
+      createEvent(
+        character,
+        "major_wound",
+        `${character.name} suffers a Major Wound (${amount} damage)`
+      )
+    );
+  }
+
+  if (status.hp === 0) {
+    if (hasCondition(status, "major_wound")) {
+      status.conditions = withConditions(
+        status.conditions,
+        ["unconscious", "dying"],
+        ["stabilised"]
+      );
+      events.push(
+        createEvent(
+          character,
+          "dying",
+          `${character.name} collapses at 0 HP with a Major Wound and is dying`
+        )
+      );
+    } else {
+      status.conditions = withConditions(status.conditions, ["unconscious"]);
+      events.push(
+        createEvent(
+          character,
+          "unconscious",
+          `${character.name} is knocked unconscious at 0 HP`
+        )
+      );
+    }
+    return { status, events };
+  }
+
+  if (majorWound && !hasCondition(status, "unconscious")) {
+    const check = rollCon({ ...character, status }, rng);
+    if (!check.success) {
+      status.conditions = withConditions(status.conditions, ["unconscious"]);
+      events.push(
+        createEvent(
+          character,
+          "unconscious",
+          `${character.name} fails a CON roll (${check.roll} vs ${check.target}) and passes out from the Major Wound`,
+          check
+        )
+      );
+    } else {
+      events.push(
+        createEvent(
+          character,
+          "stayed_conscious",
+          `${character.name} makes a CON roll (${check.roll} vs ${check.target}) and stays conscious`,
+          check
+        )
+      );
+    }
+  }
+
+  return { status, events };
+};
+
+/**
+ * Per-round CON roll for a dying character; failure is death
+ */
+export const resolveDyingCheck = (
+  character: CharacterProfile,
+  rng?: DiceRng
+): HealthChange => {
+  const status = copyStatus(character);
+  if (
+    !hasCondition(status, "dying") ||
+    hasCondition(status, "stabilised") ||
+    hasCondition(status, "dead")
+  ) {
+    return { status, events: [] };
+  }
+
+  const check = rollCon(character, rng);
+  if (check.success) {
+    return {
+      status,
+      events: [
+        createEvent(
+          character,
+          "survived_dying_check",
+          `${character.name} clings to life (CON ${check.roll} vs ${check.target})`,
+          check
+        ),
+      ],
+    };
+  }
+
+  status.conditions = withConditions(status.conditions, ["dead"], ["dying"]);
+  return {
+    status,
+    events: [
+      createEvent(
+        character,
+        "dead",
+        `${character.name} dies from their wounds (CON ${check.roll} vs ${check.target})`,
+        check
+      ),
+    ],
+  };
+};
+
+/**
+ * Restore hit points; a dying character brought above 0 HP is no longer dying
+ */
+export const resolveHealing = (
+  character: CharacterProfile,
+  amount: number
+): HealthChange => {
+  const status = copyStatus(character);
+  if (amount <= 0 || hasCondition(status, "dead")) {
+    return { status, events: [] };
+  }
+
+  status.hp = Math.min(status.maxHp, status.hp + amount);
+  if (status.hp > 0 && hasCondition(status, "dying")) {
+    status.conditions = withConditions(status.conditions, [], ["dying"]);
+  }
+  return { status, events: [] };
+};
+
+/**
+ * Apply a successful First Aid or Medicine check to the patient, once per injury.
+ * First Aid stabilises the dying, revives the unconscious or restores 1 HP;
+ * Medicine also ends stabilisation and restores 1d3 HP.
+ */
+export const resolveTreatment = (
+  patient: CharacterProfile,
+  skill: TreatmentSkill,
+  rng?: DiceRng
+): HealthChange => {
+  const status = copyStatus(patient);
+  if (hasCondition(status, "dead")) {
+    return { status, events: [] };
+  }
+
+  const recovery = getRecoveryState(status);
+  if (recovery.treatments.includes(skill)) {
+    return {
+      status,
+      events: [
+        createEvent(
+          patient,
+          "already_treated",
+          `${patient.name} has already had ${skill} for this injury; it cannot help again until they are hurt anew`
+        ),
+      ],
+    };
+  }
+  status.recovery = {
+    ...recovery,
+    treatments: [...recovery.treatments, skill],
+  };
+
+  if (skill === "First Aid") {
+    if (hasCondition(status, "dying")) {
+      status.hp = Math.min(status.maxHp, status.hp + 1);
+      status.conditions = withConditions(
+        status.conditions,
+        ["stabilised"],
+        ["dying"]
+      );
+      return {
+        status,
+        events: [
+          createEvent(
+            patient,
+            "stabilised",
+            `${patient.name} is stabilised by First Aid and needs Medicine`
+          ),
+        ],
+      };
+    }
+    if (hasCondition(status, "unconscious")) {
+      status.conditions = withConditions(
+        status.conditions,
+        [],
+        ["unconscious"]
+      );
+      return {
+        status,
+        events: [
+          createEvent(
+            patient,
+            "revived",
+            `${patient.name} is brought round by First Aid`
+          ),
+        ],
+      };
+    }
+    status.hp = Math.min(status.maxHp, status.hp + 1);
+    return {
+      status,
+      events: [
+        createEvent(
+          patient,
+          "treated",
+          `${patient.name} recovers 1 HP from First Aid`
+        ),
+      ],
+    };
+  }
+
+  const healing = rollDiceExpression(MEDICINE_HEALING, rng).total;
+  status.hp = Math.min(status.maxHp, status.hp + healing);
+  status.conditions = withConditions(
+    status.conditions,
+    [],
+    ["dying", "stabilised"]
+  );
+  return {
+    status,
+    events: [
+      createEvent(
+        patient,
+        "treated",
+        `${patient.name} is treated with Medicine and recovers ${healing} HP`
+      ),
+    ],
+  };
+};
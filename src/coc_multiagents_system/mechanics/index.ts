@@ -0,0 +1,19 @@
+export * from "./dice.js";
+export * from "./rng.js";
+export * from "./skillCheck.js";
+export * from "./pushedRoll.js";
+export * from "./opposedCheck.js";
+export * from "./combat.js";
+export * from "./health.js";
+export * from "./sanity.js";
+export * from "./luck.js";
+export * from "./development.js";
+export * from "./chase.js";
+export * from "./firearms.js";
+export * from "./damage.js";
+export * from "./derived.js";
+export * from "./skillAllocation.js";
+export * from "./investigator.js";
+export * from "./conditions.js";
+export * from "./inventory.js";
+export * from "./recovery.js";
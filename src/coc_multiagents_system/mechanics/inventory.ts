@@ -0,0 +1,336 @@
+/**
+ * Inventory
+ * Items a character carries, with quantities, types and weapon stats:
+ * - an item with weapon stats, or named in the weapons table, is linked to
+ *   them; otherwise its type comes from its name (tome, consumable, weapon, ...)
+ * - item names like "3 sticks of dynamite" or "Flares (4)" carry a quantity
+ * - adding an item of the same name and type stacks it
+ * - only what is carried can be removed or used up: consuming spends a
+ *   charge when the item has charges, otherwise one of the items
+ * - inventories saved as plain item names migrate to items unchanged
+ */
+
+import type {
+  InventoryItem,
+  InventoryItemType,
+  WeaponData,
+} from "../agents/models/gameTypes.js";
+import { matchWeapon } from "./firearms.js";
+
+/**
+ * An item to add: everything but the name is optional
+ */
+export interface NewInventoryItem {
+  name: string;
+  quantity?: number;
+  type?: InventoryItemType;
+  weapon?: WeaponData;
+  charges?: number;
+  notes?: string;
+}
+
+export const INVENTORY_ITEM_TYPES: InventoryItemType[] = [
+  "weapon",
+  "tool",
+  "tome",
+  "consumable",
+  "evidence",
+  "other",
+];
+
+/**
+ * Item types by name, checked in order
+ */
+const ITEM_TYPE_PATTERNS: Array<[InventoryItemType, RegExp]> = [
+  [
+    "tome",
+    /\b(tome|book|grimoire|journal|diary|manuscript|scroll|codex|necronomicon|notebook)s?\b/i,
+  ],
+  [
+    "consumable",
+    /\b(ammo|ammunition|rounds|bullets|cartridges|shells|matches|candles?|oil|bandages?|rations?|food|flasks?|whiske?y|gin|brandy|laudanum|morphine|cigarettes?|tobacco|flares?)\b/i,
+  ],
+  [
+    "evidence",
+    /\b(photographs?|photos?|letters?|clippings?|telegrams?|maps?|keys?|ledgers?|receipts?|evidence)\b/i,
+  ],
+  [
+    "weapon",
+    /\b(revolver|pistol|handgun|rifle|shotgun|carbine|derringer|gun|knife|dagger|sword|sabre|club|axe|hatchet|spear|bow|crossbow|blackjack|knuckles|machete|bayonet|dynamite|grenade)s?\b/i,
+  ],
+  [
+    "tool",
+    /\b(kit|lantern|lamp|flashlight|torch|rope|crowbar|lockpicks?|camera|compass|binoculars|shovel|hammer|toolbox|magnifying glass|pen|pencil)\b/i,
+  ],
+];
+
+/**
+ * Type of an item from its weapon stats or its name
+ */
+export const inferItemType = (
+  name: string,
+  weapon?: WeaponData
+): InventoryItemType => {
+  if (weapon) return "weapon";
+  return (
+    ITEM_TYPE_PATTERNS.find(([, pattern]) => pattern.test(name))?.[0] ?? "other"
+  );
+};
+
+/**
+ * A name starting with a plural word ("sticks of dynamite", "Flares")
+ */
+const PLURAL_WORD = /^\p{L}+(?<![siu])s\b/iu;
+
+/**
+ * Split a quantity off an item name: "3 sticks of dynamite", "2x Flare",
+ * "Matches x12", "Flares (4)"
+ */
+export const parseItemText = (
+  text: string
+): { name: string; quantity: number } => {
+  const trimmed = text.trim();
+  // A leading number is a count only before an "x" or a plural; in
+  // "45 automatic" or "12 gauge shotgun" it is part of the name
+  const leading = trimmed.match(/^(\d{1,2})\s*([x×])?\s+(.+)$/i);
+  if (leading && (leading[2] || PLURAL_WORD.test(leading[3]))) {
+    return {
+      name: leading[3].trim(),
+      quantity: Number.parseInt(leading[1], 10),
+    };
+  }
+  const trailing = trimmed.match(/^(.+?)\s*(?:[x×]\s*(\d+)|\((\d+)\))$/i);
+  if (trailing) {
+    return {
+      name: trailing[1].trim(),
+      quantity: Number.parseInt(trailing[2] ?? trailing[3], 10),
+    };
+  }
+  return { name: trimmed, quantity: 1 };
+};
+
+const slug = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "") || "item";
+
+/**
+ * An id for a new item that no item in the inventory has yet
+ */
+const nextItemId = (inventory: InventoryItem[], name: string): string => {
+  const base = `item-${slug(name)}`;
+  const taken = new Set(inventory.map((item) => item.id));
+  if (!taken.has(base)) return base;
+  let n = 2;
+  while (taken.has(`${base}-${n}`)) n++;
+  return `${base}-${n}`;
+};
+
+const toCount = (value: unknown, fallback: number): number => {
+  const n = Math.floor(Number(value));
+  return Number.isFinite(n) && n >= 0 ? n : fallback;
+};
+
+/**
+ * A full item from a name or a partial item, typed and linked to the weapons
+ * table where its name matches
+ */
+export const createInventoryItem = (
+  inventory: InventoryItem[],
+  item: NewInventoryItem | string,
+  weapons: WeaponData[] = []
+): InventoryItem => {
+  const fields: NewInventoryItem =
+    typeof item === "string" ? parseItemText(item) : item;
+  const name = String(fields.name ?? "").trim();
+  if (!name) {
+    throw new Error("An item needs a name");
+  }
+  const weapon = fields.weapon ?? matchWeapon(name, weapons);
+  const type = INVENTORY_ITEM_TYPES.includes(fields.type as InventoryItemType)
+    ? (fields.type as InventoryItemType)
+    : inferItemType(name, weapon);
+
+  return {
+    id: nextItemId(inventory, name),
+    name,
+    quantity: Math.max(1, toCount(fields.quantity, 1)),
+    type,
+    ...(weapon ? { weapon } : {}),
+    ...(fields.charges !== undefined
+      ? { charges: toCount(fields.charges, 0) }
+      : {}),
+    ...(fields.notes ? { notes: String(fields.notes) } : {}),
+  };
+};
+
+/**
+ * A stored inventory as items: plain names (older sheets and saves) are
+ * migrated, items are checked and given ids where they lack one
+ */
+export const normalizeInventory = (
+  values: unknown,
+  weapons: WeaponData[] = []
+): InventoryItem[] => {
+  const inventory: InventoryItem[] = [];
+  for (const value of Array.isArray(values) ? values : []) {
+    if (typeof value === "string") {
+      if (value.trim())
+        inventory.push(createInventoryItem(inventory, value, weapons));
+      continue;
+    }
+    if (!value || typeof value !== "object" || !value.name) continue;
+
+    const item = createInventoryItem(
+      inventory,
+      value as NewInventoryItem,
+      weapons
+    );
+    const id = typeof value.id === "string" ? value.id : "";
+    inventory.push(
+      id && !inventory.some((i) => i.id === id) ? { ...item, id } : item
+    );
+  }
+  return inventory;
+};
+
+/**
+ * Find a carried item by id, then by name, then by part of its name
+ */
+export const findInventoryItem = (
+  inventory: InventoryItem[],
+  idOrName: string
+): InventoryItem | undefined => {
+  const lower = idOrName.trim().toLowerCase();
+  if (!lower) return undefined;
+  return (
+    inventory.find((item) => item.id.toLowerCase() === lower) ??
+    inventory.find((item) => item.name.toLowerCase() === lower) ??
+    inventory.find((item) => item.name.toLowerCase().includes(lower))
+  );
+};
+
+const getCarriedItem = (
+  inventory: InventoryItem[],
+  idOrName: string
+): InventoryItem => {
+  const item = findInventoryItem(inventory, idOrName);
+  if (!item) {
+    throw new Error(`${idOrName} is not in the inventory`);
+  }
+  return item;
+};
+
+const replaceItem = (
+  inventory: InventoryItem[],
+  item: InventoryItem,
+  updated: InventoryItem | null
+): InventoryItem[] =>
+  updated
+    ? inventory.map((i) => (i === item ? updated : i))
+    : inventory.filter((i) => i !== item);
+
+/**
+ * Inventory with an item added; stacks on a carried item of the same name
+ * and type unless either tracks charges
+ */
+export const addInventoryItem = (
+  inventory: InventoryItem[],
+  item: NewInventoryItem | string,
+  weapons: WeaponData[] = []
+): { inventory: InventoryItem[]; item: InventoryItem } => {
+  const created = createInventoryItem(inventory, item, weapons);
+  const stack = inventory.find(
+    (i) =>
+      i.name.toLowerCase() === created.name.toLowerCase() &&
+      i.type === created.type &&
+      i.charges === undefined &&
+      created.charges === undefined
+  );
+  if (!stack) {
+    return { inventory: [...inventory, created], item: created };
+  }
+
+  const stacked = { ...stack, quantity: stack.quantity + created.quantity };
+  return { inventory: replaceItem(inventory, stack, stacked), item: stacked };
+};
+
+/**
+ * Inventory with some (or, without a quantity, all) of a carried item taken out
+ */
+export const removeInventoryItem = (
+  inventory: InventoryItem[],
+  idOrName: string,
+  quantity?: number
+): { inventory: InventoryItem[]; item: InventoryItem; quantity: number } => {
+  const item = getCarriedItem(inventory, idOrName);
+  const count = quantity === undefined ? item.quantity : toCount(quantity, 0);
+  if (count < 1) {
+    throw new Error(`Invalid quantity to remove: ${quantity}`);
+  }
+  if (count > item.quantity) {
+    throw new Error(`Only ${item.quantity} × ${item.name} carried`);
+  }
+
+  const left = item.quantity - count;
+  return {
+    inventory: replaceItem(
+      inventory,
+      item,
+      left > 0 ? { ...item, quantity: left } : null
+    ),
+    item: { ...item, quantity: left },
+    quantity: count,
+  };
+};
+
+/**
+ * Inventory with a carried item used up: charges when it has them (an empty
+ * item is kept, to be refilled), otherwise the items themselves
+ */
+export const consumeInventoryItem = (
+  inventory: InventoryItem[],
+  idOrName: string,
+  amount = 1
+): { inventory: InventoryItem[]; item: InventoryItem; quantity: number } => {
+  const item = getCarriedItem(inventory, idOrName);
+  const count = toCount(amount, 0);
+  if (count < 1) {
+    throw new Error(`Invalid amount to use: ${amount}`);
+  }
+
+  if (item.charges === undefined) {
+    return removeInventoryItem(inventory, item.id, count);
+  }
+  if (count > item.charges) {
+    throw new Error(
+      `${item.name} has only ${item.charges} charge(s) left; cannot use ${count}`
+    );
+  }
+  const updated = { ...item, charges: item.charges - count };
+  return {
+    inventory: replaceItem(inventory, item, updated),
+    item: updated,
+    quantity: count,
+  };
+};
+
+/**
+ * Item as text that parses back to the same name and quantity ("2 × Flare")
+ */
+export const formatInventoryItem = (item: InventoryItem): string =>
+  item.quantity > 1 ? `${item.quantity} × ${item.name}` : item.name;
+
+/**
+ * Item with its type, charges, weapon stats and notes, for prompts
+ */
+export const describeInventoryItem = (item: InventoryItem): string => {
+  const details = [
+    item.type,
+    item.weapon ? `${item.weapon.skill}, damage ${item.weapon.damage}` : null,
+    item.charges !== undefined ? `${item.charges} charge(s) left` : null,
+    item.notes ?? null,
+  ].filter(Boolean);
+  return `${formatInventoryItem(item)} [${item.id}] (${details.join("; ")})`;
+};
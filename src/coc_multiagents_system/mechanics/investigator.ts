@@ -0,0 +1,426 @@
+/**
+ * Investigator Generation
+ * CoC 7e creation from start to finish:
+ * - characteristics rolled (STR, CON, DEX, APP, POW 3d6×5; SIZ, INT, EDU
+ *   (2d6+6)×5) or bought from a pool of 460 points, each 15–90
+ * - Luck 3d6×5 (rolled twice, keeping the higher, for 15–19 year olds)
+ * - age adjustments: the young lose EDU and STR/SIZ; from 40 on, physical
+ *   characteristics and APP fall while EDU gets more improvement checks
+ * - derived statistics follow from the adjusted characteristics
+ * - occupation and personal interest points can be spread automatically
+ */
+
+import type {
+  CharacterAttributes,
+  CharacteristicMethod,
+  DiceRollRecord,
+  EducationImprovement,
+  GeneratedInvestigator,
+  Occupation,
+  Skill,
+} from "../agents/models/gameTypes.js";
+import { calculateDerivedStats } from "./derived.js";
+import { rollDiceExpression } from "./dice.js";
+import { type DiceRng, mathRandomRng } from "./rng.js";
+import {
+  evaluateSkillPointFormula,
+  getPersonalInterestPoints,
+  getSkillBase,
+  validateSkillAllocation,
+} from "./skillAllocation.js";
+
+export interface InvestigatorRequest {
+  method?: CharacteristicMethod; // defaults to rolled
+  characteristics?: Partial<CharacterAttributes>; // point-buy spend
+  age?: number; // defaults to DEFAULT_AGE
+  occupation?: Occupation | null; // spread skill points for this occupation
+  baseSkills?: Skill[]; // the skills table; needed to spread skill points
+  rng?: DiceRng;
+}
+
+export const CHARACTERISTICS = [
+  "STR",
+  "CON",
+  "SIZ",
+  "DEX",
+  "APP",
+  "INT",
+  "POW",
+  "EDU",
+] as const;
+
+export const POINT_BUY_TOTAL = 460;
+export const POINT_BUY_MIN = 15;
+export const POINT_BUY_MAX = 90;
+
+export const MIN_AGE = 15;
+export const MAX_AGE = 89;
+export const DEFAULT_AGE = 30;
+
+/**
+ * Highest value skills are raised to when points are spread automatically
+ */
+export const GENERATED_SKILL_CAP = 75;
+
+const ROLL_FORMULAS: Record<(typeof CHARACTERISTICS)[number], string> = {
+  STR: "3d6",
+  CON: "3d6",
+  SIZ: "2d6+6",
+  DEX: "3d6",
+  APP: "3d6",
+  INT: "2d6+6",
+  POW: "3d6",
+  EDU: "2d6+6",
+};
+
+/**
+ * Age adjustments by bracket (Investigator Handbook, "Age")
+ */
+const AGE_BRACKETS: Array<{
+  maxAge: number;
+  eduChecks: number;
+  physicalLoss: number; // spread over STR, CON and DEX
+  appLoss: number;
+}> = [
+  { maxAge: 19, eduChecks: 0, physicalLoss: 0, appLoss: 0 },
+  { maxAge: 39, eduChecks: 1, physicalLoss: 0, appLoss: 0 },
+  { maxAge: 49, eduChecks: 2, physicalLoss: 5, appLoss: 5 },
+  { maxAge: 59, eduChecks: 3, physicalLoss: 10, appLoss: 10 },
+  { maxAge: 69, eduChecks: 4, physicalLoss: 20, appLoss: 15 },
+  { maxAge: 79, eduChecks: 4, physicalLoss: 40, appLoss: 20 },
+  { maxAge: MAX_AGE, eduChecks: 4, physicalLoss: 80, appLoss: 25 },
+];
+
+/**
+ * Skills an automatic spread favours for "any skill" choices and personal
+ * interests: the ones investigators lean on most
+ */
+const FAVOURED_SKILLS = [
+  "Spot Hidden",
+  "Listen",
+  "Library Use",
+  "Dodge",
+  "Stealth",
+  "Psychology",
+  "Persuade",
+  "Fast Talk",
+  "First Aid",
+  "Drive Auto",
+  "Fighting (Brawl)",
+  "Firearms (Handgun)",
+  "Occult",
+  "History",
+  "Climb",
+  "Locksmith",
+];
+
+/**
+ * Number of personal interest skills an automatic spread raises
+ */
+const PERSONAL_INTEREST_SKILLS = 4;
+
+/**
+ * Roll one value with its formula ×5
+ */
+const rollTimesFive = (
+  formula: string,
+  rolls: DiceRollRecord[],
+  rng: DiceRng
+): number => {
+  const roll = rollDiceExpression(formula, rng);
+  rolls.push({ kind: "roll", ...roll });
+  return roll.total * 5;
+};
+
+/**
+ * Roll all eight characteristics
+ */
+export const rollCharacteristics = (
+  rng: DiceRng = mathRandomRng
+): { attributes: CharacterAttributes; rolls: DiceRollRecord[] } => {
+  const rolls: DiceRollRecord[] = [];
+  const attributes = {} as CharacterAttributes;
+  for (const key of CHARACTERISTICS) {
+    attributes[key] = rollTimesFive(ROLL_FORMULAS[key], rolls, rng);
+  }
+  return { attributes, rolls };
+};
+
+/**
+ * Check a point-buy spend and return it as characteristics
+ */
+export const resolvePointBuy = (
+  characteristics: Partial<CharacterAttributes>
+): CharacterAttributes => {
+  const problems: string[] = [];
+  const attributes = {} as CharacterAttributes;
+  for (const key of CHARACTERISTICS) {
+    const value = characteristics[key];
+    if (typeof value !== "number" || !Number.isInteger(value)) {
+      problems.push(`${key} is missing`);
+      continue;
+    }
+    if (value < POINT_BUY_MIN || value > POINT_BUY_MAX) {
+      problems.push(
+        `${key} is ${value}; each characteristic must be ${POINT_BUY_MIN}-${POINT_BUY_MAX}`
+      );
+    }
+    attributes[key] = value;
+  }
+  const total = CHARACTERISTICS.reduce(
+    (sum, key) => sum + (attributes[key] ?? 0),
+    0
+  );
+  if (problems.length === 0 && total !== POINT_BUY_TOTAL) {
+    problems.push(
+      `characteristics total ${total}; point-buy spends exactly ${POINT_BUY_TOTAL}`
+    );
+  }
+  if (problems.length > 0) {
+    throw new Error(`Invalid point-buy: ${problems.join("; ")}`);
+  }
+  return attributes;
+};
+
+/**
+ * Take points from the highest of the given characteristics, one at a time,
+ * so the loss is spread evenly
+ */
+const spreadLoss = (
+  attributes: CharacterAttributes,
+  keys: string[],
+  amount: number
+): void => {
+  for (let i = 0; i < amount; i++) {
+    const highest = keys.reduce((a, b) =>
+      attributes[b] > attributes[a] ? b : a
+    );
+    if (attributes[highest] <= 1) return;
+    attributes[highest]--;
+  }
+};
+
+/**
+ * Adjust characteristics for the investigator's age
+ */
+export const applyAgeAdjustments = (
+  start: CharacterAttributes,
+  age: number,
+  rng: DiceRng = mathRandomRng
+): {
+  attributes: CharacterAttributes;
+  eduChecks: EducationImprovement[];
+  adjustments: string[];
+  rolls: DiceRollRecord[];
+} => {
+  if (!Number.isInteger(age) || age < MIN_AGE || age > MAX_AGE) {
+    throw new Error(`Age must be a whole number from ${MIN_AGE} to ${MAX_AGE}`);
+  }
+  const attributes = { ...start };
+  const bracket = AGE_BRACKETS.find((b) => age <= b.maxAge) ?? AGE_BRACKETS[0];
+  const adjustments: string[] = [];
+  const eduChecks: EducationImprovement[] = [];
+  const rolls: DiceRollRecord[] = [];
+
+  if (age < 20) {
+    spreadLoss(attributes, ["STR", "SIZ"], 5);
+    attributes.EDU = Math.max(1, attributes.EDU - 5);
+    adjustments.push("-5 split between STR and SIZ", "-5 EDU");
+  }
+  if (bracket.physicalLoss > 0) {
+    spreadLoss(attributes, ["STR", "CON", "DEX"], bracket.physicalLoss);
+    attributes.APP = Math.max(1, attributes.APP - bracket.appLoss);
+    adjustments.push(
+      `-${bracket.physicalLoss} split between STR, CON and DEX`,
+      `-${bracket.appLoss} APP`
+    );
+  }
+
+  for (let i = 0; i < bracket.eduChecks; i++) {
+    const check = rollDiceExpression("1d100", rng);
+    rolls.push({ kind: "roll", ...check });
+    const eduBefore = attributes.EDU;
+    let gain = 0;
+    if (check.total > eduBefore) {
+      const improvement = rollDiceExpression("1d10", rng);
+      rolls.push({ kind: "roll", ...improvement });
+      gain = Math.min(99, eduBefore + improvement.total) - eduBefore;
+      attributes.EDU += gain;
+    }
+    eduChecks.push({ roll: check.total, eduBefore, gain });
+  }
+  if (eduChecks.length > 0) {
+    const gained = eduChecks.reduce((sum, c) => sum + c.gain, 0);
+    adjustments.push(
+      `${eduChecks.length} EDU improvement check(s): +${gained} EDU`
+    );
+  }
+
+  return { attributes, eduChecks, adjustments, rolls };
+};
+
+/**
+ * Fisher-Yates shuffle with the session's dice
+ */
+const shuffle = <T>(items: T[], rng: DiceRng): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(rng.next() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/**
+ * Raise the skills in turn, 5 points at a time, until the points run out or
+ * every one reaches the cap. Returns the points left over.
+ */
+const spreadPoints = (
+  skills: Record<string, number>,
+  targets: string[],
+  points: number,
+  cap: number
+): number => {
+  let left = points;
+  let raised = true;
+  while (left > 0 && raised) {
+    raised = false;
+    for (const skill of targets) {
+      const step = Math.min(5, cap - skills[skill], left);
+      if (step <= 0) continue;
+      skills[skill] += step;
+      left -= step;
+      raised = true;
+      if (left === 0) break;
+    }
+  }
+  return left;
+};
+
+/**
+ * Every skill at its base value
+ */
+export const getBaseSkillValues = (
+  baseSkills: Skill[],
+  attributes: CharacterAttributes
+): Record<string, number> =>
+  Object.fromEntries(
+    baseSkills.map((skill) => [
+      skill.name,
+      getSkillBase(skill.name, baseSkills, attributes) ?? skill.baseValue,
+    ])
+  );
+
+/**
+ * Spread occupation and personal interest points automatically: Credit
+ * Rating to the middle of its range, occupation points over the
+ * occupation's skills (choices drawn at random), then personal interest
+ * points over a few of the skills investigators use most
+ */
+export const allocateSkillPoints = (
+  attributes: CharacterAttributes,
+  occupation: Occupation,
+  baseSkills: Skill[],
+  rng: DiceRng = mathRandomRng
+): Record<string, number> => {
+  const skills = getBaseSkillValues(baseSkills, attributes);
+  const known = (name: string) =>
+    Object.hasOwn(skills, name) &&
+    name !== "Credit Rating" &&
+    name !== "Cthulhu Mythos";
+
+  const targets = occupation.skills.filter(known);
+  for (const choice of occupation.skillChoices) {
+    const pool = (choice.from ?? FAVOURED_SKILLS).filter(
+      (name) => known(name) && !targets.includes(name)
+    );
+    targets.push(...shuffle(pool, rng).slice(0, choice.count));
+  }
+
+  let occupationPoints = evaluateSkillPointFormula(
+    occupation.skillPoints,
+    attributes
+  );
+  const { min, max } = occupation.creditRating;
+  const creditRating = Math.min(
+    Math.max(min, Math.floor((min + max) / 2)),
+    Math.max(min, occupationPoints)
+  );
+  skills["Credit Rating"] = creditRating;
+  occupationPoints = Math.max(0, occupationPoints - creditRating);
+  spreadPoints(skills, targets, occupationPoints, GENERATED_SKILL_CAP);
+
+  const interests = shuffle(
+    FAVOURED_SKILLS.filter((name) => known(name) && !targets.includes(name)),
+    rng
+  ).slice(0, PERSONAL_INTEREST_SKILLS);
+  const left = spreadPoints(
+    skills,
+    interests,
+    getPersonalInterestPoints(attributes),
+    GENERATED_SKILL_CAP
+  );
+  spreadPoints(skills, targets, left, GENERATED_SKILL_CAP);
+
+  return skills;
+};
+
+/**
+ * Generate a complete investigator
+ */
+export const generateInvestigator = (
+  request: InvestigatorRequest = {}
+): GeneratedInvestigator => {
+  const rng = request.rng ?? mathRandomRng;
+  const method = request.method ?? "rolled";
+  const age = request.age ?? DEFAULT_AGE;
+  const rolls: DiceRollRecord[] = [];
+
+  let start: CharacterAttributes;
+  if (method === "point_buy") {
+    start = resolvePointBuy(request.characteristics ?? {});
+  } else {
+    const rolled = rollCharacteristics(rng);
+    start = rolled.attributes;
+    rolls.push(...rolled.rolls);
+  }
+
+  const aged = applyAgeAdjustments(start, age, rng);
+  rolls.push(...aged.rolls);
+  const attributes = aged.attributes;
+
+  let luck = rollTimesFive("3d6", rolls, rng);
+  if (age < 20) {
+    luck = Math.max(luck, rollTimesFive("3d6", rolls, rng));
+  }
+
+  const occupation = request.occupation ?? null;
+  const baseSkills = request.baseSkills ?? [];
+  if (occupation && baseSkills.length === 0) {
+    throw new Error("The skills table is needed to spread skill points");
+  }
+  const skills = occupation
+    ? allocateSkillPoints(attributes, occupation, baseSkills, rng)
+    : getBaseSkillValues(baseSkills, attributes);
+  const allocation = occupation
+    ? validateSkillAllocation({ attributes, occupation, skills, baseSkills })
+    : null;
+
+  return {
+    method,
+    age,
+    attributes,
+    luck,
+    derived: calculateDerivedStats(
+      attributes,
+      age,
+      skills["Cthulhu Mythos"] ?? 0
+    ),
+    skills,
+    occupation: occupation?.name ?? null,
+    allocation,
+    eduChecks: aged.eduChecks,
+    adjustments: aged.adjustments,
+    rolls,
+  };
+};
@@ -0,0 +1,122 @@
+/**
+ * Luck
+ * After a failed check the player may spend Luck points equal to the margin
+ * of failure to turn it into a success. Luck cannot be spent on Luck, Sanity
+ * or pushed rolls, nor to save a fumble. Luck rolls stand in for
+ * environmental chance; a group Luck roll is made by the unluckiest member.
+ */
+
+import type {
+  CharacterProfile,
+  CharacterStatus,
+  Difficulty,
+  LuckSpendResult,
+  SkillCheckResult,
+} from "../agents/models/gameTypes.js";
+import type { ActionType, LuckSpendOption } from "../../state.js";
+import type { DiceRng } from "./rng.js";
+import { determineSuccessLevel, resolveSkillCheck } from "./skillCheck.js";
+
+/**
+ * Rolls Luck can never be spent on
+ */
+const NON_LUCK_SPENDABLE_SKILLS = ["luck", "sanity"];
+
+/**
+ * Luck points needed to lower the roll to the check's target
+ */
+export const getLuckCost = (check: SkillCheckResult): number =>
+  Math.max(0, check.roll - check.target);
+
+/**
+ * Whether Luck may be spent on a resolved check
+ */
+export const isLuckSpendable = (check: SkillCheckResult): boolean => {
+  if (check.success || check.pushed) return false;
+  if (check.successLevel === "fumble") return false;
+  return !NON_LUCK_SPENDABLE_SKILLS.includes(check.skill.toLowerCase());
+};
+
+/**
+ * Build the GameState record of a failed check the character can afford to
+ * buy into a success, or null when Luck cannot (or cannot afford to) be spent
+ */
+export const createLuckSpendOption = (
+  check: SkillCheckResult,
+  character: CharacterProfile,
+  action: string,
+  actionType: ActionType
+): LuckSpendOption | null => {
+  const cost = getLuckCost(check);
+  if (!isLuckSpendable(check) || cost > character.status.luck) return null;
+
+  return {
+    characterId: character.id,
+    characterName: character.name,
+    check,
+    cost,
+    action,
+    actionType,
+    timestamp: new Date(),
+  };
+};
+
+/**
+ * Spend the Luck offered by the option: the roll drops to the target and the
+ * check succeeds at its requested difficulty
+ */
+export const resolveLuckSpend = (
+  option: LuckSpendOption,
+  character: CharacterProfile
+): { status: CharacterStatus; result: LuckSpendResult } => {
+  const { check, cost } = option;
+  if (cost > character.status.luck) {
+    throw new Error(
+      `${character.name} has ${character.status.luck} Luck; ${cost} needed`
+    );
+  }
+
+  const roll = check.target;
+  const status = { ...character.status, luck: character.status.luck - cost };
+  return {
+    status,
+    result: {
+      character: character.name,
+      skill: check.skill,
+      pointsSpent: cost,
+      luckBefore: character.status.luck,
+      luckAfter: status.luck,
+      originalRoll: check.roll,
+      check: {
+        ...check,
+        roll,
+        successLevel: determineSuccessLevel(roll, check.skillValue, roll),
+        success: true,
+        luckSpent: cost,
+      },
+    },
+  };
+};
+
+/**
+ * Roll Luck for environmental chance. With several characters this is a
+ * group Luck roll, made by whoever has the lowest Luck.
+ */
+export const resolveLuckRoll = (
+  characters: CharacterProfile[],
+  difficulty: Difficulty = "regular",
+  rng?: DiceRng
+): SkillCheckResult => {
+  if (characters.length === 0) {
+    throw new Error("A Luck roll needs at least one character");
+  }
+  const roller = characters.reduce((lowest, character) =>
+    character.status.luck < lowest.status.luck ? character : lowest
+  );
+  return resolveSkillCheck({
+    character: roller,
+    skill: "Luck",
+    difficulty,
+    rng,
+  });
+};
@@ -0,0 +1,111 @@
+/**
+ * Opposed Check Resolver
+ * Both sides roll; the better success level wins, with CoC 7e tie-breaks
+ */
+
+import type {
+  CharacterProfile,
+  OpposedCheckResult,
+  OpposedContest,
+  SkillCheckResult,
+} from "../agents/models/gameTypes.js";
+import type { DiceRng } from "./rng.js";
+import { compareSuccessLevels, resolveSkillCheck } from "./skillCheck.js";
+
+export interface OpposedSide {
+  character: CharacterProfile;
+  skill: string;
+  bonusDice?: number;
+  penaltyDice?: number;
+}
+
+export interface OpposedCheckRequest {
+  initiator: OpposedSide;
+  opponent: OpposedSide;
+  contest?: OpposedContest;
+  rng?: DiceRng;
+}
+
+const rollSide = (side: OpposedSide, rng?: DiceRng): SkillCheckResult =>
+  resolveSkillCheck({
+    character: side.character,
+    skill: side.skill,
+    difficulty: "regular",
+    bonusDice: side.bonusDice,
+    penaltyDice: side.penaltyDice,
+    rng,
+  });
+
+/**
+ * Decide the winner of two already-rolled checks
+ */
+export const decideOpposedWinner = (
+  initiator: SkillCheckResult,
+  opponent: SkillCheckResult,
+  contest: OpposedContest = "standard"
+): Pick<OpposedCheckResult, "winner" | "reason"> => {
+  if (!initiator.success && !opponent.success) {
+    return { winner: "none", reason: "Both sides failed" };
+  }
+
+  const levelDiff = compareSuccessLevels(
+    initiator.successLevel,
+    opponent.successLevel
+  );
+  if (levelDiff > 0) {
+    return {
+      winner: "initiator",
+      reason: `${initiator.successLevel} beats ${opponent.successLevel}`,
+    };
+  }
+  if (levelDiff < 0) {
+    return {
+      winner: "opponent",
+      reason: `${opponent.successLevel} beats ${initiator.successLevel}`,
+    };
+  }
+
+  switch (contest) {
+    case "fight_back":
+      return { winner: "initiator", reason: "Tie goes to the attacker" };
+    case "dodge":
+      return { winner: "opponent", reason: "Tie goes to the dodging defender" };
+    default:
+      if (initiator.skillValue > opponent.skillValue) {
+        return { winner: "initiator", reason: "Tie broken by higher skill" };
+      }
+      if (opponent.skillValue > initiator.skillValue) {
+        return { winner: "opponent", reason: "Tie broken by higher skill" };
+      }
+      return {
+        winner: "none",
+        reason: "Equal success level and skill: stalemate, roll again",
+      };
+  }
+};
+
+/**
+ * Roll an opposed check for both sides and report the winner
+ */
+export const resolveOpposedCheck = (
+  request: OpposedCheckRequest
+): OpposedCheckResult => {
+  const contest = request.contest ?? "standard";
+  const initiator = rollSide(request.initiator, request.rng);
+  const opponent = rollSide(request.opponent, request.rng);
+  const { winner, reason } = decideOpposedWinner(initiator, opponent, contest);
+
+  return {
+    contest,
+    initiator,
+    opponent,
+    winner,
+    winnerName:
+      winner === "initiator"
+        ? initiator.character
+        : winner === "opponent"
+          ? opponent.character
+          : null,
+    reason,
+  };
+};
@@ -0,0 +1,80 @@
+/**
+ * Pushed Roll Workflow
+ * A failed non-combat check may be pushed once, on the following turn,
+ * with the same skill and difficulty. Failing a pushed roll invites a dire
+ * consequence from the Keeper.
+ */
+
+import type {
+  CharacterProfile,
+  SkillCheckResult,
+} from "../agents/models/gameTypes.js";
+import type { ActionType, PushableCheck } from "../../state.js";
+import type { DiceRng } from "./rng.js";
+import { resolveSkillCheck } from "./skillCheck.js";
+
+/**
+ * Action types whose failed checks can never be pushed
+ */
+const NON_PUSHABLE_ACTION_TYPES: ActionType[] = ["combat"];
+
+/**
+ * Rolls that can never be pushed regardless of action type
+ */
+const NON_PUSHABLE_SKILLS = ["luck", "sanity"];
+
+/**
+ * Whether a resolved check may be offered as a push on the next turn
+ */
+export const isPushableCheck = (
+  check: SkillCheckResult,
+  actionType: ActionType | undefined
+): boolean => {
+  if (check.success || check.pushed) return false;
+  // Fumbles already carry their own consequence and cannot be pushed
+  if (check.successLevel === "fumble") return false;
+  if (actionType && NON_PUSHABLE_ACTION_TYPES.includes(actionType)) {
+    return false;
+  }
+  return !NON_PUSHABLE_SKILLS.includes(check.skill.toLowerCase());
+};
+
+/**
+ * Build the GameState record of a failed check that can be pushed
+ */
+export const createPushableCheck = (
+  check: SkillCheckResult,
+  character: CharacterProfile,
+  action: string,
+  actionType: ActionType
+): PushableCheck => ({
+  characterId: character.id,
+  characterName: character.name,
+  skill: check.skill,
+  difficulty: check.difficulty,
+  bonusDice: check.bonusDice,
+  penaltyDice: check.penaltyDice,
+  originalRoll: check.roll,
+  action,
+  actionType,
+  timestamp: new Date(),
+});
+
+/**
+ * Re-roll a previously failed check as a pushed roll (same skill and difficulty)
+ */
+export const resolvePushedRoll = (
+  pushable: PushableCheck,
+  character: CharacterProfile,
+  rng?: DiceRng
+): SkillCheckResult => ({
+  ...resolveSkillCheck({
+    character,
+    skill: pushable.skill,
+    difficulty: pushable.difficulty,
+    bonusDice: pushable.bonusDice,
+    penaltyDice: pushable.penaltyDice,
+    rng,
+  }),
+  pushed: true,
+});
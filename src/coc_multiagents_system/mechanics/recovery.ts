@@ -0,0 +1,275 @@
+/**
+ * Recovery
+ * CoC 7e healing and Sanity recovery over game time:
+ * - without a Major Wound a character heals 1 HP for each day that passes
+ * - with a Major Wound there is no daily healing; instead a recovery roll
+ *   (CON) each week heals 1d3 HP, or 2d3 HP and ends the Major Wound on an
+ *   extreme success. The Major Wound also ends once HP are back to full
+ * - a dying character heals nothing until stabilised; the dead not at all
+ * - psychotherapy: once a month, a therapist's Psychoanalysis roll restores
+ *   1d3 SAN; a fumble costs 1d6 SAN
+ * - self-help: once a month, a roll of a skill tied to the character's core
+ *   concept (POW when none is given) restores 1d6 SAN; a failure costs 1 SAN
+ * - Sanity never recovers above maximum SAN, nor from 0
+ */
+
+import type {
+  CharacterProfile,
+  CharacterStatus,
+  DiceRollResult,
+  HealthEvent,
+  SanityRecoveryMethod,
+  SkillCheckResult,
+} from "../agents/models/gameTypes.js";
+import { rollDiceExpression } from "./dice.js";
+import { getRecoveryState, type HealthChange, hasCondition } from "./health.js";
+import type { DiceRng } from "./rng.js";
+import { resolveSkillCheck } from "./skillCheck.js";
+
+export interface SanityRecoveryRequest {
+  character: CharacterProfile;
+  method: SanityRecoveryMethod;
+  elapsedMinutes: number; // game clock at the session
+  therapist?: CharacterProfile; // psychotherapy: who rolls Psychoanalysis
+  skill?: string; // self-help: skill tied to the character's core concept
+  rng?: DiceRng;
+}
+
+export const SANITY_RECOVERY_METHODS: SanityRecoveryMethod[] = [
+  "psychotherapy",
+  "self_help",
+];
+
+export const MINUTES_PER_DAY = 24 * 60;
+export const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+const MINUTES_PER_MONTH = 30 * MINUTES_PER_DAY;
+
+const copyStatus = (character: CharacterProfile): CharacterStatus => ({
+  ...character.status,
+  conditions: [...(character.status.conditions || [])],
+});
+
+const createEvent = (
+  character: CharacterProfile,
+  type: HealthEvent["type"],
+  summary: string,
+  check?: SkillCheckResult,
+  roll?: DiceRollResult
+): HealthEvent => ({
+  characterId: character.id,
+  characterName: character.name,
+  type,
+  summary,
+  check,
+  roll,
+});
+
+/**
+ * Restore hit points; a character back above 0 HP wakes up and is no longer dying
+ */
+const heal = (status: CharacterStatus, amount: number): number => {
+  const before = status.hp;
+  status.hp = Math.min(status.maxHp, status.hp + amount);
+  if (status.hp > 0) {
+    status.conditions = status.conditions.filter(
+      (c) => c !== "unconscious" && c !== "dying"
+    );
+  }
+  return status.hp - before;
+};
+
+const endMajorWound = (status: CharacterStatus): void => {
+  status.conditions = status.conditions.filter(
+    (c) => c !== "major_wound" && c !== "stabilised"
+  );
+};
+
+/**
+ * Heal a character over game time: a recovery roll for each week with a
+ * Major Wound, then 1 HP for each day. Time short of a full day (or week)
+ * carries over to the next call; time spent unhurt does not.
+ */
+export const resolveNaturalHealing = (
+  character: CharacterProfile,
+  minutes: number,
+  rng?: DiceRng
+): HealthChange => {
+  const status = copyStatus(character);
+  if (
+    minutes <= 0 ||
+    hasCondition(status, "dead") ||
+    (hasCondition(status, "dying") && !hasCondition(status, "stabilised"))
+  ) {
+    return { status, events: [] };
+  }
+
+  const recovery = getRecoveryState(status);
+  if (status.hp >= status.maxHp && !hasCondition(status, "major_wound")) {
+    if (recovery.healingMinutes > 0) {
+      status.recovery = { ...recovery, healingMinutes: 0 };
+    }
+    return { status, events: [] };
+  }
+
+  const events: HealthEvent[] = [];
+  let healingMinutes = recovery.healingMinutes + minutes;
+
+  while (
+    hasCondition(status, "major_wound") &&
+    healingMinutes >= MINUTES_PER_WEEK
+  ) {
+    healingMinutes -= MINUTES_PER_WEEK;
+    const check = resolveSkillCheck({
+      character: { ...character, status },
+      skill: "CON",
+      rng,
+    });
+    if (!check.success) {
+      events.push(
+        createEvent(
+          character,
+          "recovery_roll",
+          `${character.name}'s Major Wound does not mend this week (CON ${check.roll} vs ${check.target})`,
+          check
+        )
+      );
+      continue;
+    }
+
+    const extreme =
+      check.successLevel === "extreme" || check.successLevel === "critical";
+    const roll = rollDiceExpression(extreme ? "2d3" : "1d3", rng);
+    const healed = heal(status, roll.total);
+    if (extreme || status.hp >= status.maxHp) endMajorWound(status);
+    events.push(
+      createEvent(
+        character,
+        "recovery_roll",
+        `${character.name} recovers ${healed} HP over the week (CON ${check.roll} vs ${check.target})${hasCondition(status, "major_wound") ? "" : "; the Major Wound has healed"}`,
+        check,
+        roll
+      )
+    );
+  }
+
+  if (!hasCondition(status, "major_wound")) {
+    const days = Math.floor(healingMinutes / MINUTES_PER_DAY);
+    healingMinutes -= days * MINUTES_PER_DAY;
+    const healed = heal(status, days);
+    if (healed > 0) {
+      events.push(
+        createEvent(
+          character,
+          "healed",
+          `${character.name} heals ${healed} HP over ${days} day(s) of rest (HP ${status.hp}/${status.maxHp})`
+        )
+      );
+    }
+    if (status.hp >= status.maxHp) healingMinutes = 0;
+  }
+
+  status.recovery = { ...getRecoveryState(status), healingMinutes };
+  return { status, events };
+};
+
+/**
+ * Game minutes until the character can use a Sanity recovery method again
+ */
+export const getSanityRecoveryWait = (
+  status: CharacterStatus,
+  method: SanityRecoveryMethod,
+  elapsedMinutes: number
+): number => {
+  const recovery = getRecoveryState(status);
+  const last =
+    method === "psychotherapy"
+      ? recovery.lastPsychotherapy
+      : recovery.lastSelfHelp;
+  if (last === undefined) return 0;
+  return Math.max(0, last + MINUTES_PER_MONTH - elapsedMinutes);
+};
+
+/**
+ * A month's psychotherapy or self-help for a character
+ */
+export const resolveSanityRecovery = (
+  request: SanityRecoveryRequest
+): HealthChange => {
+  const { character, method, elapsedMinutes, therapist, rng } = request;
+  if (!SANITY_RECOVERY_METHODS.includes(method)) {
+    throw new Error(
+      `Unknown Sanity recovery method: ${method}; use ${SANITY_RECOVERY_METHODS.join(" or ")}`
+    );
+  }
+  if (hasCondition(character.status, "dead")) {
+    throw new Error(`${character.name} is dead`);
+  }
+  if (character.status.sanity <= 0) {
+    throw new Error(
+      `${character.name} is permanently insane; Sanity cannot be recovered`
+    );
+  }
+  if (method === "psychotherapy" && !therapist) {
+    throw new Error("Psychotherapy needs a therapist to roll Psychoanalysis");
+  }
+  const wait = getSanityRecoveryWait(character.status, method, elapsedMinutes);
+  if (wait > 0) {
+    throw new Error(
+      `${character.name} can try ${method === "psychotherapy" ? "psychotherapy" : "self-help"} only once a month; the next is possible in ${Math.ceil(wait / MINUTES_PER_DAY)} day(s)`
+    );
+  }
+
+  const status = copyStatus(character);
+  const check = resolveSkillCheck({
+    character: method === "psychotherapy" && therapist ? therapist : character,
+    skill:
+      method === "psychotherapy" ? "Psychoanalysis" : request.skill || "POW",
+    rng,
+  });
+
+  let change = 0;
+  if (check.success) {
+    change = rollDiceExpression(
+      method === "psychotherapy" ? "1d3" : "1d6",
+      rng
+    ).total;
+  } else if (method === "self_help") {
+    change = -1;
+  } else if (check.successLevel === "fumble") {
+    change = -rollDiceExpression("1d6", rng).total;
+  }
+  const before = status.sanity;
+  status.sanity = Math.max(
+    0,
+    Math.min(status.maxSanity, status.sanity + change)
+  );
+  status.recovery = {
+    ...getRecoveryState(status),
+    ...(method === "psychotherapy"
+      ? { lastPsychotherapy: elapsedMinutes }
+      : { lastSelfHelp: elapsedMinutes }),
+  };
+
+  const session =
+    method === "psychotherapy"
+      ? `psychotherapy with ${therapist?.name} (Psychoanalysis ${check.roll} vs ${check.target})`
+      : `self-help (${check.skill} ${check.roll} vs ${check.target})`;
+  const gained = status.sanity - before;
+  const outcome =
+    gained > 0
+      ? `recovers ${gained} SAN`
+      : gained < 0
+        ? `loses ${-gained} SAN`
+        : "recovers no SAN";
+  return {
+    status,
+    events: [
+      createEvent(
+        character,
+        "sanity_recovery",
+        `${character.name} ${outcome} from ${session} (SAN ${status.sanity}/${status.maxSanity})`,
+        check
+      ),
+    ],
+  };
+};
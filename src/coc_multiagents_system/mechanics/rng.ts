@@ -0,0 +1,72 @@
+/**
+ * Dice RNG
+ * Seedable, replayable random source for the rules engine. A session stores
+ * its seed and current state in GameState.dice so any roll can be reproduced
+ * from the state recorded alongside it in the roll log.
+ */
+
+import type { DiceState } from "../agents/models/gameTypes.js";
+
+export interface DiceRng {
+  /** Next float in [0, 1) */
+  next(): number;
+}
+
+/**
+ * Non-reproducible RNG used when no session RNG is supplied
+ */
+export const mathRandomRng: DiceRng = {
+  next: () => Math.random(),
+};
+
+/**
+ * Hash a seed string into a 32-bit initial state (FNV-1a)
+ */
+export const hashSeed = (seed: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Create the persisted dice state for a new session
+ */
+export const createDiceState = (seed: string): DiceState => ({
+  seed,
+  state: hashSeed(seed),
+  rollCount: 0,
+});
+
+/**
+ * Mulberry32 generator whose full state is a single 32-bit integer
+ */
+export class SeededDiceRng implements DiceRng {
+  readonly seed: string;
+  private state: number;
+  private rollCount: number;
+
+  constructor(diceState: DiceState) {
+    this.seed = diceState.seed;
+    this.state = diceState.state >>> 0;
+    this.rollCount = diceState.rollCount;
+  }
+
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    this.rollCount++;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Snapshot of the generator, suitable for storing back on GameState
+   */
+  getState(): DiceState {
+    return { seed: this.seed, state: this.state, rollCount: this.rollCount };
+  }
+}
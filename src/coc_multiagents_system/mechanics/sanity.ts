@@ -0,0 +1,288 @@
+/**
+ * Sanity Rolls and Insanity
+ * CoC 7e SAN checks over CharacterStatus.sanity and conditions:
+ * - roll SAN; lose the success or failure side of the loss pair ("0/1d6")
+ * - a fumbled SAN roll loses the maximum failure amount
+ * - losing 5+ SAN at once calls for an INT roll; success is temporary
+ *   insanity, which wears off after 1d10 hours of game time
+ * - losing a fifth of the day's starting SAN in one game day is indefinite insanity
+ * - SAN 0 is permanent insanity
+ * - becoming insane, or losing SAN while insane, brings on a Bout of Madness
+ */
+
+import type {
+  BoutOfMadness,
+  CharacterProfile,
+  CharacterStatus,
+  DiceRollRecord,
+  SanityCheckResult,
+  SanityCondition,
+} from "../agents/models/gameTypes.js";
+import {
+  fifthValue,
+  getMaxDiceTotal,
+  parseDiceExpression,
+  rollDiceExpression,
+} from "./dice.js";
+import { applyCondition } from "./conditions.js";
+import { hasCondition } from "./health.js";
+import type { DiceRng } from "./rng.js";
+import { resolveSkillCheck } from "./skillCheck.js";
+
+export interface SanityCheckRequest {
+  character: CharacterProfile;
+  sanityLoss: string; // "0/1d6", or a single expression lost either way
+  trigger?: string | null;
+  gameDay?: number; // current game day, for indefinite insanity
+  rng?: DiceRng;
+}
+
+export interface SanityChange {
+  status: CharacterStatus;
+  result: SanityCheckResult;
+}
+
+/**
+ * A single roll losing this much SAN calls for an INT roll
+ */
+export const TEMPORARY_INSANITY_LOSS = 5;
+
+/**
+ * Temporary insanity lasts 1d10 hours
+ */
+const TEMPORARY_INSANITY_HOURS = "1d10";
+
+const INSANITY_CONDITIONS: SanityCondition[] = [
+  "temporary_insanity",
+  "indefinite_insanity",
+  "permanent_insanity",
+];
+
+/**
+ * Real-time Bouts of Madness (1d10)
+ */
+const BOUTS_OF_MADNESS: Omit<BoutOfMadness, "roll" | "rounds">[] = [
+  {
+    name: "Amnesia",
+    description:
+      "Remembers nothing since last in a place of safety; events seem to have happened to someone else",
+  },
+  {
+    name: "Psychosomatic disability",
+    description:
+      "Suffers psychosomatic blindness, deafness or loss of the use of a limb",
+  },
+  {
+    name: "Violence",
+    description:
+      "Explodes in a spree of uncontrolled violence against friend and foe alike",
+  },
+  {
+    name: "Paranoia",
+    description:
+      "Everyone is out to get them; trusts no one and sees conspiracy everywhere",
+  },
+  {
+    name: "Significant person",
+    description:
+      "Mistakes someone present for a significant person from their backstory and acts on it",
+  },
+  {
+    name: "Faint",
+    description: "Faints and recovers only after the bout ends",
+  },
+  {
+    name: "Flee in panic",
+    description:
+      "Flees by any means available, even taking the only vehicle and leaving everyone behind",
+  },
+  {
+    name: "Physical hysterics",
+    description:
+      "Incapacitated by uncontrollable laughing, crying or screaming",
+  },
+  {
+    name: "Phobia",
+    description:
+      "Gains a new phobia; the object of fear is imagined present even if it is not",
+  },
+  {
+    name: "Mania",
+    description:
+      "Gains a new mania and indulges it excessively for the duration of the bout",
+  },
+];
+
+/**
+ * Split a loss pair into its success and failure expressions
+ */
+export const parseSanityLoss = (
+  sanityLoss: string
+): { success: string; failure: string } => {
+  const parts = sanityLoss.split("/").map((part) => part.trim());
+  if (parts.length > 2 || parts.some((part) => !part)) {
+    throw new Error(`Invalid sanity loss: ${sanityLoss}`);
+  }
+  // Validate both sides up front so a bad expression fails before any roll
+  for (const part of parts) parseDiceExpression(part);
+  return { success: parts[0], failure: parts[1] ?? parts[0] };
+};
+
+/**
+ * Roll a real-time Bout of Madness and its duration
+ */
+export const rollBoutOfMadness = (
+  rng?: DiceRng
+): { bout: BoutOfMadness; rolls: DiceRollRecord[] } => {
+  const table = rollDiceExpression("1d10", rng);
+  const duration = rollDiceExpression("1d10", rng);
+  return {
+    bout: {
+      ...BOUTS_OF_MADNESS[table.total - 1],
+      roll: table.total,
+      rounds: duration.total,
+    },
+    rolls: [
+      { kind: "roll", ...table },
+      { kind: "roll", ...duration },
+    ],
+  };
+};
+
+const withCondition = (
+  status: CharacterStatus,
+  condition: SanityCondition
+): void => {
+  if (!hasCondition(status, condition)) {
+    status.conditions = [...status.conditions, condition];
+  }
+};
+
+/**
+ * Roll SAN against a loss pair and work out the resulting insanity
+ */
+export const resolveSanityCheck = (
+  request: SanityCheckRequest
+): SanityChange => {
+  const { character, sanityLoss, rng } = request;
+  const pair = parseSanityLoss(sanityLoss);
+  let status: CharacterStatus = {
+    ...character.status,
+    conditions: [...(character.status.conditions || [])],
+  };
+
+  // Indefinite insanity is measured against SAN at the start of the game day
+  if (
+    status.sanityAtDayStart === undefined ||
+    (request.gameDay !== undefined && status.sanityDay !== request.gameDay)
+  ) {
+    status.sanityAtDayStart = status.sanity;
+    status.sanityDay = request.gameDay;
+  }
+  const alreadyInsane = INSANITY_CONDITIONS.some((condition) =>
+    hasCondition(status, condition)
+  );
+
+  const check = resolveSkillCheck({
+    character: { ...character, status },
+    skill: "Sanity",
+    rng,
+  });
+  const rolls: DiceRollRecord[] = [{ kind: "skill_check", ...check }];
+
+  let loss: number;
+  if (check.successLevel === "fumble") {
+    loss = getMaxDiceTotal(pair.failure);
+  } else {
+    const lossRoll = rollDiceExpression(
+      check.success ? pair.success : pair.failure,
+      rng
+    );
+    rolls.push({ kind: "roll", ...lossRoll });
+    loss = lossRoll.total;
+  }
+  loss = Math.max(0, loss);
+
+  const sanityBefore = status.sanity;
+  status.sanity = Math.max(0, sanityBefore - loss);
+
+  const permanentInsanity =
+    status.sanity === 0 && !hasCondition(status, "permanent_insanity");
+  if (permanentInsanity) withCondition(status, "permanent_insanity");
+
+  const lostToday = (status.sanityAtDayStart ?? sanityBefore) - status.sanity;
+  const indefiniteInsanity =
+    loss > 0 &&
+    !hasCondition(status, "indefinite_insanity") &&
+    lostToday >= Math.max(1, fifthValue(status.sanityAtDayStart ?? 0));
+  if (indefiniteInsanity) withCondition(status, "indefinite_insanity");
+
+  let intCheck: SanityCheckResult["intCheck"];
+  let temporaryInsanity = false;
+  let temporaryInsanityHours: number | undefined;
+  if (loss >= TEMPORARY_INSANITY_LOSS) {
+    intCheck = resolveSkillCheck({ character, skill: "INT", rng });
+    rolls.push({ kind: "skill_check", ...intCheck });
+    // Grasping the full horror is what breaks the mind
+    temporaryInsanity = intCheck.success;
+    if (temporaryInsanity) {
+      const hours = rollDiceExpression(TEMPORARY_INSANITY_HOURS, rng);
+      rolls.push({ kind: "roll", ...hours });
+      temporaryInsanityHours = hours.total;
+      status = applyCondition(status, "temporary_insanity", {
+        amount: hours.total,
+        unit: "hours",
+      });
+    }
+  }
+
+  let boutOfMadness: BoutOfMadness | undefined;
+  if (
+    temporaryInsanity ||
+    indefiniteInsanity ||
+    permanentInsanity ||
+    (alreadyInsane && loss > 0)
+  ) {
+    const bout = rollBoutOfMadness(rng);
+    boutOfMadness = bout.bout;
+    rolls.push(...bout.rolls);
+  }
+
+  const summary = [
+    `${character.name} ${check.success ? "passes" : "fails"} a Sanity roll (${check.roll} vs ${check.target}) and loses ${loss} SAN (${sanityBefore} → ${status.sanity})`,
+    check.successLevel === "fumble" ? "fumble: maximum loss" : null,
+    intCheck
+      ? temporaryInsanity
+        ? `INT ${intCheck.roll} vs ${intCheck.target}: grasps the horror and goes temporarily insane for ${temporaryInsanityHours} hours`
+        : `INT ${intCheck.roll} vs ${intCheck.target}: the mind refuses to understand, staving off insanity`
+      : null,
+    indefiniteInsanity ? "indefinitely insane" : null,
+    permanentInsanity ? "permanently insane" : null,
+    boutOfMadness
+      ? `Bout of Madness: ${boutOfMadness.name} for ${boutOfMadness.rounds} rounds`
+      : null,
+  ]
+    .filter(Boolean)
+    .join("; ");
+
+  return {
+    status,
+    result: {
+      character: character.name,
+      trigger: request.trigger ?? null,
+      sanityLoss,
+      check,
+      loss,
+      sanityBefore,
+      sanityAfter: status.sanity,
+      intCheck,
+      temporaryInsanity,
+      temporaryInsanityHours,
+      indefiniteInsanity,
+      permanentInsanity,
+      boutOfMadness,
+      rolls,
+      summary,
+    },
+  };
+};
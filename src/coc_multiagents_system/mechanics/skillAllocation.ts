@@ -0,0 +1,202 @@
+/**
+ * Skill Point Allocation
+ * CoC 7e investigator creation:
+ * - occupation points come from the occupation's formula (e.g. EDU×4, or
+ *   EDU×2 + DEX×2 or STR×2, whichever is higher) and go only to the
+ *   occupation's skills, its chosen skills and Credit Rating
+ * - personal interest points (INT×2) go to any skill
+ * - every skill starts at its base value (Dodge DEX/2, Language (Own) EDU)
+ *   and no skill may go above 99
+ * - Credit Rating must sit in the occupation's range, and Cthulhu Mythos
+ *   cannot be raised
+ */
+
+import type {
+  CharacterAttributes,
+  Occupation,
+  Skill,
+  SkillAllocationError,
+  SkillAllocationResult,
+} from "../agents/models/gameTypes.js";
+
+export interface SkillAllocationRequest {
+  attributes: CharacterAttributes;
+  occupation: Occupation;
+  skills: Record<string, number>; // final skill values on the sheet
+  baseSkills: Skill[]; // the skills table
+}
+
+export const MAX_STARTING_SKILL = 99;
+
+/**
+ * Skill points from a formula such as "EDU*4" or "EDU*2+(DEX|STR)*2";
+ * a group in brackets uses the highest of its characteristics
+ */
+export const evaluateSkillPointFormula = (
+  formula: string,
+  attributes: CharacterAttributes
+): number =>
+  formula
+    .replace(/\s+/g, "")
+    .replace(/×/g, "*")
+    .split("+")
+    .reduce((total, term) => {
+      const match = term.match(/^\(?([A-Z|]+)\)?\*(\d+)$/i);
+      if (!match) {
+        throw new Error(`Unrecognised skill point formula: ${formula}`);
+      }
+      const values = match[1].split("|").map((key) => {
+        const value = attributes[key.toUpperCase()];
+        if (typeof value !== "number") {
+          throw new Error(`Unknown characteristic ${key} in ${formula}`);
+        }
+        return value;
+      });
+      return total + Math.max(...values) * Number.parseInt(match[2], 10);
+    }, 0);
+
+/**
+ * Personal interest points: INT×2
+ */
+export const getPersonalInterestPoints = (
+  attributes: CharacterAttributes
+): number => attributes.INT * 2;
+
+/**
+ * Whether a skill on the sheet is covered by a listed skill:
+ * "Art and Craft" covers "Art and Craft (Acting)", and "Language (Other)"
+ * covers "Language (French)"
+ */
+const coversSkill = (listed: string, skill: string): boolean => {
+  const a = listed.toLowerCase();
+  const b = skill.toLowerCase();
+  if (a === b || b.startsWith(`${a} (`)) return true;
+  const generic = a.match(/^(.*) \(other\)$/);
+  return Boolean(
+    generic && b.startsWith(`${generic[1]} (`) && !b.endsWith("(own)")
+  );
+};
+
+/**
+ * Base value of a skill on the sheet, or undefined when the skill is unknown
+ */
+export const getSkillBase = (
+  skill: string,
+  baseSkills: Skill[],
+  attributes: CharacterAttributes
+): number | undefined => {
+  if (skill === "Dodge") return Math.floor(attributes.DEX / 2);
+  if (skill === "Language (Own)") return attributes.EDU;
+
+  const exact = baseSkills.find(
+    (s) => s.name.toLowerCase() === skill.toLowerCase()
+  );
+  if (exact) return exact.baseValue;
+  // A specialisation takes the base of its general or "(Other)" entry
+  return baseSkills.find((s) => coversSkill(s.name, skill))?.baseValue;
+};
+
+/**
+ * Check that a new investigator's skills fit the occupation and the points
+ */
+export const validateSkillAllocation = (
+  request: SkillAllocationRequest
+): SkillAllocationResult => {
+  const { attributes, occupation, skills, baseSkills } = request;
+  const errors: SkillAllocationError[] = [];
+  const spent: Record<string, number> = {};
+
+  for (const [skill, value] of Object.entries(skills)) {
+    const base = getSkillBase(skill, baseSkills, attributes);
+    if (base === undefined) {
+      errors.push({ skill, message: `${skill} is not a known skill` });
+      continue;
+    }
+    if (!Number.isInteger(value) || value < base) {
+      errors.push({
+        skill,
+        message: `${skill} is ${value}, below its base value of ${base}`,
+      });
+      continue;
+    }
+    if (value > MAX_STARTING_SKILL) {
+      errors.push({
+        skill,
+        message: `${skill} is ${value}; a new investigator's skills cannot exceed ${MAX_STARTING_SKILL}`,
+      });
+    }
+    if (skill === "Cthulhu Mythos" && value > base) {
+      errors.push({
+        skill,
+        message:
+          "Cthulhu Mythos cannot be raised when creating an investigator",
+      });
+    }
+    spent[skill] = value - base;
+  }
+
+  // Fixed occupational skills and Credit Rating, then each choice takes the
+  // skills it covers that had the most points put into them
+  const raised = Object.keys(spent).filter((skill) => spent[skill] > 0);
+  const occupational = new Set(
+    raised.filter(
+      (skill) =>
+        skill === "Credit Rating" ||
+        occupation.skills.some((listed) => coversSkill(listed, skill))
+    )
+  );
+  for (const choice of occupation.skillChoices) {
+    const picked = raised
+      .filter(
+        (skill) =>
+          !occupational.has(skill) &&
+          (choice.from === null ||
+            choice.from.some((listed) => coversSkill(listed, skill)))
+      )
+      .sort((a, b) => spent[b] - spent[a])
+      .slice(0, choice.count);
+    for (const skill of picked) occupational.add(skill);
+  }
+
+  const creditRating = skills["Credit Rating"] ?? 0;
+  const { min, max } = occupation.creditRating;
+  if (creditRating < min || creditRating > max) {
+    errors.push({
+      skill: "Credit Rating",
+      message: `Credit Rating is ${creditRating}; a ${occupation.name} starts between ${min} and ${max}`,
+    });
+  }
+
+  const occupationalAvailable = evaluateSkillPointFormula(
+    occupation.skillPoints,
+    attributes
+  );
+  const personalAvailable = getPersonalInterestPoints(attributes);
+  const occupationalSpent = [...occupational].reduce(
+    (sum, skill) => sum + spent[skill],
+    0
+  );
+  const totalSpent = Object.values(spent).reduce((sum, n) => sum + n, 0);
+  // Occupational skills may also take personal interest points
+  const personalSpent =
+    totalSpent - Math.min(occupationalSpent, occupationalAvailable);
+
+  if (personalSpent > personalAvailable) {
+    errors.push({
+      skill: null,
+      message: `Skills use ${totalSpent} points (${occupationalSpent} on occupation skills); a ${occupation.name} has ${occupationalAvailable} occupation points (${occupation.skillPoints}) and ${personalAvailable} personal interest points (INT*2)`,
+    });
+  }
+
+  return {
+    valid: errors.length === 0,
+    occupation: occupation.name,
+    occupationalSkills: [...occupational],
+    occupationalPoints: {
+      available: occupationalAvailable,
+      spent: occupationalSpent,
+    },
+    personalPoints: { available: personalAvailable, spent: personalSpent },
+    errors,
+  };
+};
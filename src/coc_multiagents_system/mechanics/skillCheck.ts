@@ -0,0 +1,176 @@
+/**
+ * Skill Check Resolver
+ * Deterministic CoC 7e percentile checks with success levels
+ */
+
+import type {
+  CharacterProfile,
+  Difficulty,
+  SkillCheckResult,
+  SuccessLevel,
+} from "../agents/models/gameTypes.js";
+import { fifthValue, halfValue, rollPercentile } from "./dice.js";
+import type { DiceRng } from "./rng.js";
+
+export interface SkillCheckRequest {
+  character: CharacterProfile;
+  skill: string;
+  difficulty?: Difficulty;
+  bonusDice?: number;
+  penaltyDice?: number;
+  rng?: DiceRng;
+}
+
+/**
+ * Success levels ordered from worst to best
+ */
+export const SUCCESS_LEVEL_ORDER: SuccessLevel[] = [
+  "fumble",
+  "failure",
+  "regular",
+  "hard",
+  "extreme",
+  "critical",
+];
+
+/**
+ * Long-form and alternate names for characteristics and derived values
+ */
+const CHARACTERISTIC_ALIASES: Record<string, string> = {
+  strength: "STR",
+  constitution: "CON",
+  dexterity: "DEX",
+  appearance: "APP",
+  power: "POW",
+  size: "SIZ",
+  intelligence: "INT",
+  idea: "INT",
+  education: "EDU",
+  know: "EDU",
+};
+
+/**
+ * Compare two success levels (positive when a is better than b)
+ */
+export const compareSuccessLevels = (
+  a: SuccessLevel,
+  b: SuccessLevel
+): number => SUCCESS_LEVEL_ORDER.indexOf(a) - SUCCESS_LEVEL_ORDER.indexOf(b);
+
+/**
+ * Value the roll must meet for a given difficulty
+ */
+export const getDifficultyTarget = (
+  skillValue: number,
+  difficulty: Difficulty = "regular"
+): number => {
+  switch (difficulty) {
+    case "hard":
+      return halfValue(skillValue);
+    case "extreme":
+      return fifthValue(skillValue);
+    default:
+      return skillValue;
+  }
+};
+
+/**
+ * Determine the success level of a roll against the full skill value.
+ * Fumbles: 100 always; 96-100 when the value required for success is below 50.
+ */
+export const determineSuccessLevel = (
+  roll: number,
+  skillValue: number,
+  requiredValue: number = skillValue
+): SuccessLevel => {
+  if (roll === 1) return "critical";
+  if (roll === 100 || (requiredValue < 50 && roll >= 96)) return "fumble";
+  if (roll <= fifthValue(skillValue)) return "extreme";
+  if (roll <= halfValue(skillValue)) return "hard";
+  if (roll <= skillValue) return "regular";
+  return "failure";
+};
+
+/**
+ * Look up a skill or characteristic value on a character profile.
+ * Matches skills case-insensitively, then characteristics, Luck and Sanity.
+ */
+export const resolveSkillValue = (
+  character: CharacterProfile,
+  skill: string
+): { name: string; value: number } | null => {
+  const wanted = skill.trim().toLowerCase();
+  if (!wanted) return null;
+
+  const skillEntry = Object.entries(character.skills || {}).find(
+    ([name]) => name.toLowerCase() === wanted
+  );
+  if (skillEntry) {
+    return { name: skillEntry[0], value: skillEntry[1] };
+  }
+
+  const attributeKey =
+    CHARACTERISTIC_ALIASES[wanted] ??
+    Object.keys(character.attributes || {}).find(
+      (key) => key.toLowerCase() === wanted
+    );
+  if (
+    attributeKey &&
+    typeof character.attributes?.[attributeKey] === "number"
+  ) {
+    return { name: attributeKey, value: character.attributes[attributeKey] };
+  }
+
+  if (wanted === "luck") {
+    return { name: "Luck", value: character.status.luck };
+  }
+  if (wanted === "sanity" || wanted === "san") {
+    return { name: "Sanity", value: character.status.sanity };
+  }
+
+  return null;
+};
+
+/**
+ * Roll a skill or characteristic check and grade the result
+ */
+export const resolveSkillCheck = (
+  request: SkillCheckRequest
+): SkillCheckResult => {
+  const { character, skill } = request;
+  const difficulty = request.difficulty ?? "regular";
+
+  const resolved = resolveSkillValue(character, skill);
+  if (!resolved) {
+    throw new Error(
+      `Unknown skill or characteristic for ${character.name}: ${skill}`
+    );
+  }
+
+  const percentile = rollPercentile(
+    request.bonusDice ?? 0,
+    request.penaltyDice ?? 0,
+    request.rng
+  );
+  const target = getDifficultyTarget(resolved.value, difficulty);
+  const successLevel = determineSuccessLevel(
+    percentile.roll,
+    resolved.value,
+    target
+  );
+
+  return {
+    character: character.name,
+    skill: resolved.name,
+    skillValue: resolved.value,
+    difficulty,
+    target,
+    roll: percentile.roll,
+    tensDice: percentile.tensDice,
+    unitsDie: percentile.unitsDie,
+    bonusDice: percentile.bonusDice,
+    penaltyDice: percentile.penaltyDice,
+    successLevel,
+    success: compareSuccessLevels(successLevel, difficulty) >= 0,
+  };
+};
@@ -1,4 +1,4 @@
-import { END, START, StateGraph } from "@langchain/langgraph";
+import { END, START, StateGraph, type LangGraphRunnableConfig } from "@langchain/langgraph";
 import type { CoCDatabase } from "./coc_multiagents_system/agents/memory/database/index.js";
 import type { RAGEngine } from "./rag/engine.js";
 import type { BaseMessage } from "@langchain/core/messages";
@@ -17,65 +17,213 @@ import {
 } from "./state.js";
 import { contentToString, latestHumanMessage } from "./utils.js";
 import { enrichMemoryContext } from "./coc_multiagents_system/agents/memory/memoryAgent.js";
-import { TurnManager } from "./coc_multiagents_system/agents/memory/index.js";
+import {
+  RollLogManager,
+  TurnManager,
+  type PendingRolls,
+  type RoundDeclaration,
+  type TurnProgressEvent,
+} from "./coc_multiagents_system/agents/memory/index.js";
+import { CombatManager } from "./coc_multiagents_system/agents/combat/index.js";
+import { ChaseManager } from "./coc_multiagents_system/agents/chase/index.js";
+import { createDiceState, SeededDiceRng } from "./coc_multiagents_system/mechanics/index.js";
+import { StructuredOutputError } from "./models/index.js";
+import type { DiceRollRecord } from "./coc_multiagents_system/agents/models/gameTypes.js";
 
 export interface GraphState {
   messages: BaseMessage[];
   gameState: GameState;
   turnId?: string;  // Optional: track the current turn being processed
+  round?: RoundDeclaration[];  // Optional: a collect round's declared actions, resolved in order
+  roundIndex?: number;  // Declaration of the round being resolved
+  pendingRolls?: PendingRolls[];  // Rolls made so far, logged once the keeper completes the turn
 }
 
 export const buildGraph = (db: CoCDatabase, scenarioLoader: ScenarioLoader, rag?: RAGEngine) => {
   const orchestrator = new OrchestratorAgent();
-  const actionAgent = new ActionAgent();
+  const memoryAgent = new MemoryAgent(db);
+  const actionAgent = new ActionAgent(memoryAgent);
   const keeperAgent = new KeeperAgent();
   const directorAgent = new DirectorAgent(scenarioLoader, db);
   const turnManager = new TurnManager(db);
+  const rollLog = new RollLogManager(db);
+  const combatManager = new CombatManager(memoryAgent);
+  const chaseManager = new ChaseManager();
 
-  const graph = new StateGraph<GraphState>({
-    channels: {
-      messages: { value: (x) => x as BaseMessage[] },
-      gameState: { value: (x) => x as GameState },
-      turnId: { value: (x) => x as string | undefined },
-    },
+  // Rolls are held in the run's state and logged only when the keeper
+  // completes the turn, so a failed turn leaves none in the roll log
+  const holdRolls = (state: GraphState, ...pending: PendingRolls[]): PendingRolls[] =>
+    [...(state.pendingRolls ?? []), ...pending];
+
+  // Where held rolls are logged: this pass's turn and the session's dice
+  const rollSource = (state: GraphState, gameState: GameState) => ({
+    sessionId: gameState.sessionId,
+    turnId: state.turnId ?? null,
+    rngSeed: gameState.dice?.seed,
   });
 
+  const recordPendingRolls = (pendingRolls: PendingRolls[]) => {
+    for (const pending of pendingRolls) {
+      try {
+        rollLog.recordPending(pending);
+      } catch (error) {
+        console.error(`Failed to record ${pending.kind} rolls:`, error);
+      }
+    }
+  };
+
+  // An agent reply that could not be repaired fails the turn: it is reported
+  // on the turn and the graph stops. The nodes work on a copy of the game
+  // state and hold their rolls until the keeper is done, so neither the
+  // caller's state nor the roll log keeps anything from the turn
+  const reportAgentFailure = (turnId: string | undefined, error: unknown): never => {
+    if (turnId && error instanceof StructuredOutputError) {
+      try {
+        turnManager.markError(turnId, error);
+      } catch (markError) {
+        console.error("Failed to mark turn error:", markError);
+      }
+    }
+    throw error;
+  };
+
+  // The input resolved by this pass: the current declaration of a collect
+  // round, otherwise the player's message
+  const currentInput = (state: GraphState): string =>
+    state.round?.[state.roundIndex ?? 0]?.input ?? latestHumanMessage(state.messages);
+
+  // Whether this pass resolves the turn's only declaration or a collect
+  // round's last one
+  const isLastPass = (state: GraphState): boolean =>
+    !state.round || (state.roundIndex ?? 0) + 1 >= state.round.length;
+
+  // Progress of the turn, sent to the custom stream of graph.stream()
+  const reportProgress = (config: LangGraphRunnableConfig, event: TurnProgressEvent) => {
+    config.writer?.(event);
+  };
+
+  // Declaration: every pass starts from its own copy of the game state, which
+  // the nodes change in place; the caller keeps it only from a finished run.
+  // In a collect round, the declaring investigator acts and the declaration's
+  // turn records this pass
+  const declarationNode = async (state: GraphState) => {
+    const gameState = structuredClone(state.gameState ?? initialGameState);
+    const declaration = state.round?.[state.roundIndex ?? 0];
+    if (!declaration) return { ...state, gameState };
+
+    const gsm = new GameStateManager(gameState);
+    gsm.setActingInvestigator(declaration.characterId);
+    return { ...state, gameState: gsm.getGameState() as GameState, turnId: declaration.turnId };
+  };
+
   // Orchestrator: analyze user input and write actionAnalysis into state
-  graph.addNode("orchestrator", async (state: GraphState) => {
+  const orchestratorNode = async (state: GraphState, config: LangGraphRunnableConfig) => {
     const gsm = new GameStateManager(state.gameState ?? initialGameState);
-    const userInput = latestHumanMessage(state.messages);
-    const result = await orchestrator.processInput(userInput, gsm);
+    // Events of a whole round are kept for its one narrative
+    if (!state.roundIndex) {
+      gsm.clearHealthEvents();
+      gsm.clearConditionEvents();
+    }
+    const userInput = currentInput(state);
+    await orchestrator.processInput(userInput, gsm)
+      .catch((error) => reportAgentFailure(state.turnId, error));
     
     // Update turn with action analysis if turnId exists
     if (state.turnId) {
+      const actionAnalysis = gsm.getGameState().temporaryInfo.currentActionAnalysis;
       try {
-        turnManager.updateProcessing(state.turnId, {
-          actionAnalysis: gsm.getGameState().temporaryInfo.currentActionAnalysis
-        });
+        turnManager.updateProcessing(state.turnId, { actionAnalysis });
       } catch (error) {
         console.error("Failed to update turn with action analysis:", error);
       }
+      reportProgress(config, { type: "analysis", turnId: state.turnId, actionAnalysis });
     }
     
     return { ...state, gameState: gsm.getGameState() as GameState };
-  });
+  };
 
   // Memory: enrich with rules + RAG slices, log agent content
-  graph.addNode("memory", async (state: GraphState) => {
+  const memoryNode = async (state: GraphState) => {
     const gameState = state.gameState ?? initialGameState;
     const actionAnalysis =
       gameState.temporaryInfo.currentActionAnalysis as ActionAnalysis | null;
     const enriched = await enrichMemoryContext(gameState, actionAnalysis, rag);
 
     return { ...state, gameState: enriched };
-  });
+  };
+
+  // Combat: open/continue an encounter and resolve NPCs acting before the investigator
+  const combatNode = async (state: GraphState) => {
+    const gsm = new GameStateManager(state.gameState ?? initialGameState);
+    combatManager.beginTurn(gsm);
+    const gameState = gsm.getGameState() as GameState;
+    const events = gameState.combat?.events ?? [];
+
+    return {
+      ...state,
+      gameState,
+      pendingRolls: holdRolls(state, { ...rollSource(state, gameState), kind: "engine", events }),
+    };
+  };
+
+  // Chase: set up or continue a chase and move everyone along the track for this round
+  const chaseNode = async (state: GraphState) => {
+    const gsm = new GameStateManager(state.gameState ?? initialGameState);
+    chaseManager.beginTurn(gsm);
+    const gameState = gsm.getGameState() as GameState;
+    const events = gameState.chase?.events ?? [];
+
+    return {
+      ...state,
+      gameState,
+      pendingRolls: holdRolls(state, { ...rollSource(state, gameState), kind: "engine", events }),
+    };
+  };
 
   // Action: execute action agent using current game state
-  graph.addNode("action", async (state: GraphState) => {
+  const actionNode = async (state: GraphState, config: LangGraphRunnableConfig) => {
     const gameState = state.gameState ?? initialGameState;
     const runtime = {}; // ActionAgent expects runtime but only passes through generateText; keep empty placeholder
-    const userInput = latestHumanMessage(state.messages);
-    const updated = await actionAgent.processAction(runtime, gameState, userInput);
+    const userInput = currentInput(state);
+    const previousResult = gameState.temporaryInfo.actionResults.at(-1);
+    const turnId = state.turnId;
+
+    // In combat, an investigator acting out of initiative order is turned
+    // away; the fight waits for the investigator whose turn it is
+    if (combatManager.rejectOutOfTurnAction(new GameStateManager(gameState))) {
+      return { ...state, gameState };
+    }
+    const onRoll = turnId
+      ? (roll: DiceRollRecord) => reportProgress(config, { type: "roll", turnId, roll })
+      : undefined;
+    const updated = await actionAgent.processAction(runtime, gameState, userInput, onRoll)
+      .catch((error) => reportAgentFailure(state.turnId, error));
+
+    // Hold this action's dice rolls for the roll log
+    const pending: PendingRolls[] = [];
+    const source = rollSource(state, updated as GameState);
+    const latestResult = (updated as GameState).temporaryInfo?.actionResults?.at(-1);
+    if (latestResult && latestResult !== previousResult) {
+      pending.push({ ...source, kind: "action", actionResult: latestResult });
+    }
+
+    // In combat, the remaining NPCs act before the investigator's next turn
+    const gsm = new GameStateManager(updated as GameState);
+    const eventsBefore = gsm.getGameState().combat?.events.length ?? 0;
+    combatManager.endInvestigatorTurn(gsm);
+    const events = gsm.getGameState().combat?.events.slice(eventsBefore) ?? [];
+    pending.push({ ...source, kind: "engine", events });
+
+    // Out of combat, a dying character rolls CON once per turn; a collect
+    // round counts as one turn, so only its last pass rolls
+    if (!gsm.getGameState().combat && isLastPass(state)) {
+      const current = gsm.getGameState() as GameState;
+      const rng = new SeededDiceRng(current.dice ?? createDiceState(current.sessionId));
+      const rngState = rng.getState().state;
+      const dyingChecks = gsm.resolveDyingChecks(rng);
+      gsm.setDiceState(rng.getState());
+      pending.push({ ...source, kind: "health", healthEvents: dyingChecks, rngState });
+    }
     
     // Update turn with action results if turnId exists
     if (state.turnId) {
@@ -88,21 +236,32 @@ export const buildGraph = (db: CoCDatabase, scenarioLoader: ScenarioLoader, rag?
       }
     }
     
-    return { ...state, gameState: updated as GameState };
-  });
+    return { ...state, gameState: updated as GameState, pendingRolls: holdRolls(state, ...pending) };
+  };
 
   // Director: handle scene change requests from action agent
-  graph.addNode("director", async (state: GraphState) => {
+  const directorNode = async (state: GraphState, config: LangGraphRunnableConfig) => {
     const gsm = new GameStateManager(state.gameState ?? initialGameState);
     const sceneChangeRequest = gsm.getGameState().temporaryInfo.sceneChangeRequest;
     
-    // If there's a scene change request, execute it
+    // If there's a scene change request, execute it; days skipped heal wounds
+    let pendingRolls = state.pendingRolls;
     if (sceneChangeRequest?.shouldChange && sceneChangeRequest.targetSceneName) {
+      const before = gsm.getGameState() as GameState;
+      const rngState = before.dice?.state;
+      const healthEventCount = before.temporaryInfo.healthEvents?.length ?? 0;
       await directorAgent.handleActionDrivenSceneChange(
         gsm, 
         sceneChangeRequest.targetSceneName,
         sceneChangeRequest.reason
       );
+      const after = gsm.getGameState() as GameState;
+      pendingRolls = holdRolls(state, {
+        ...rollSource(state, after),
+        kind: "health",
+        healthEvents: after.temporaryInfo.healthEvents?.slice(healthEventCount) ?? [],
+        rngState,
+      });
     }
     
     // Clear the request
@@ -110,50 +269,94 @@ export const buildGraph = (db: CoCDatabase, scenarioLoader: ScenarioLoader, rag?
     
     // Update turn with director decision if turnId exists
     if (state.turnId) {
+      const directorDecision = gsm.getGameState().temporaryInfo.directorDecision;
       try {
-        turnManager.updateProcessing(state.turnId, {
-          directorDecision: gsm.getGameState().temporaryInfo.directorDecision
-        });
+        turnManager.updateProcessing(state.turnId, { directorDecision });
       } catch (error) {
         console.error("Failed to update turn with director decision:", error);
       }
+      reportProgress(config, { type: "director", turnId: state.turnId, directorDecision });
     }
     
-    return { ...state, gameState: gsm.getGameState() as GameState };
-  });
+    return { ...state, gameState: gsm.getGameState() as GameState, pendingRolls };
+  };
+
+  // Next declaration: move on to the round's next declared action
+  const nextDeclarationNode = async (state: GraphState) => {
+    return { ...state, roundIndex: (state.roundIndex ?? 0) + 1 };
+  };
 
-  // Keeper: produce narrative and update clues
-  graph.addNode("keeper", async (state: GraphState) => {
+  // Keeper: produce narrative and update clues; a collect round gets one
+  // narrative for all of its actions
+  const keeperNode = async (state: GraphState, config: LangGraphRunnableConfig) => {
     const gsm = new GameStateManager(state.gameState ?? initialGameState);
-    const userInput = latestHumanMessage(state.messages);
-    const result = await keeperAgent.generateNarrative(userInput, gsm);
+    const userInput = state.round
+      ? state.round.map(declaration => `${declaration.characterName}: ${declaration.input}`).join("\n")
+      : latestHumanMessage(state.messages);
+    const result = await keeperAgent.generateNarrative(userInput, gsm, state.round?.length ?? 1)
+      .catch((error) => reportAgentFailure(state.turnId, error));
+
+    // The turn is kept: log the rolls it made
+    recordPendingRolls(state.pendingRolls ?? []);
     
-    // Complete turn with keeper narrative if turnId exists
-    if (state.turnId) {
+    // Complete the turn (or every turn of the round) with keeper narrative
+    const turnIds = state.round
+      ? state.round.map(declaration => declaration.turnId)
+      : state.turnId ? [state.turnId] : [];
+    for (const turnId of turnIds) {
       try {
-        turnManager.completeTurn(state.turnId, {
+        turnManager.completeTurn(turnId, {
           keeperNarrative: result.narrative,
           clueRevelations: result.clueRevelations
         });
       } catch (error) {
         console.error("Failed to complete turn:", error);
-        turnManager.markError(state.turnId, error as Error);
+        turnManager.markError(turnId, error as Error);
       }
+      reportProgress(config, {
+        type: "narrative",
+        turnId,
+        narrative: result.narrative,
+        clueRevelations: result.clueRevelations,
+      });
     }
     
     return {
       ...state,
       gameState: result.updatedGameState,
+      pendingRolls: [],
     };
-  });
+  };
 
   // Wiring
-  graph.addEdge(START as any, "orchestrator" as any);
-  graph.addEdge("orchestrator" as any, "memory" as any);
-  graph.addEdge("memory" as any, "action" as any);
-  graph.addEdge("action" as any, "director" as any);
-  graph.addEdge("director" as any, "keeper" as any);
-  graph.addEdge("keeper" as any, END as any);
-
-  return graph.compile();
+  return new StateGraph<GraphState>({
+    channels: {
+      messages: { value: (x) => x as BaseMessage[] },
+      gameState: { value: (x) => x as GameState },
+      turnId: { value: (_current: string | undefined, next: string | undefined) => next },
+      round: { value: (_current: RoundDeclaration[] | undefined, next: RoundDeclaration[] | undefined) => next },
+      roundIndex: { value: (_current: number | undefined, next: number | undefined) => next },
+      pendingRolls: { value: (_current: PendingRolls[] | undefined, next: PendingRolls[] | undefined) => next },
+    },
+  })
+    .addNode("declaration", declarationNode)
+    .addNode("orchestrator", orchestratorNode)
+    .addNode("memory", memoryNode)
+    .addNode("combat", combatNode)
+    .addNode("chase", chaseNode)
+    .addNode("action", actionNode)
+    .addNode("director", directorNode)
+    .addNode("nextDeclaration", nextDeclarationNode)
+    .addNode("keeper", keeperNode)
+    .addEdge(START, "declaration")
+    .addEdge("declaration", "orchestrator")
+    .addEdge("orchestrator", "memory")
+    .addEdge("memory", "combat")
+    .addEdge("combat", "chase")
+    .addEdge("chase", "action")
+    .addEdge("action", "director")
+    .addConditionalEdges("director", (state: GraphState) => isLastPass(state) ? "keeper" : "nextDeclaration")
+    .addEdge("nextDeclaration", "declaration")
+    .addEdge("keeper", END)
+    .compile();
 };
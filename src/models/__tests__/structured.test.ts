@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { parseJsonText, parseStructuredOutput, validateOutput } from "../structured.js";
+import type { OutputSchema } from "../types.js";
+
+const reply: OutputSchema = {
+  type: "object",
+  required: ["action", "count"],
+  properties: {
+    action: { type: "string", enum: ["attack", "flee"] },
+    count: { type: "integer" },
+    range: { type: "number" },
+    target: { type: "string", nullable: true },
+    tags: { type: "array", items: { type: "string" } },
+  },
+};
+
+describe("parseJsonText", () => {
+  it("reads bare JSON and JSON in a code fence", () => {
+    expect(parseJsonText(' {"a": 1} ')).toEqual({ a: 1 });
+    expect(parseJsonText('```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+    expect(parseJsonText('Here you go:\n```\n{"a": [1, 2]}\n```\nDone.')).toEqual({ a: [1, 2] });
+  });
+
+  it("finds the object in text around it", () => {
+    expect(parseJsonText('Sure! {"a": {"b": true}} Hope that helps.')).toEqual({ a: { b: true } });
+  });
+
+  it("throws when there is no object or it is malformed", () => {
+    expect(() => parseJsonText("no json here")).toThrow(/not JSON/);
+    expect(() => parseJsonText('```json\n{"a": 1,}\n```')).toThrow(/not valid JSON/);
+  });
+});
+
+describe("validateOutput", () => {
+  it("accepts a matching value", () => {
+    expect(validateOutput({ action: "flee", count: 2, range: 1.5, target: null, tags: ["x"] }, reply)).toEqual([]);
+  });
+
+  it("reports missing fields, wrong types and wrong enum values by path", () => {
+    expect(validateOutput({ action: "hide", tags: ["x", 3] }, reply)).toEqual([
+      "reply.count: is required",
+      'reply.action: must be one of "attack", "flee", got "hide"',
+      "reply.tags[1]: expected string, got integer",
+    ]);
+  });
+
+  it("takes an integer as a number but not a fraction as an integer", () => {
+    expect(validateOutput({ action: "attack", count: 1, range: 3 }, reply)).toEqual([]);
+    expect(validateOutput({ action: "attack", count: 1.5 }, reply)).toEqual(["reply.count: expected integer, got number"]);
+  });
+
+  it("allows null only where the schema is nullable", () => {
+    expect(validateOutput({ action: "attack", count: 1, range: null }, reply)).toEqual([
+      "reply.range: expected number, got null",
+    ]);
+  });
+
+  it("accepts a value matching any branch of anyOf, else reports the branch of its own type", () => {
+    const schema: OutputSchema = {
+      anyOf: [
+        { type: "string" },
+        { type: "object", required: ["item", "quantity"], properties: { item: { type: "string" }, quantity: { type: "integer" } } },
+      ],
+    };
+
+    expect(validateOutput("Flare", schema)).toEqual([]);
+    expect(validateOutput({ item: "Flare", quantity: 2 }, schema)).toEqual([]);
+    expect(validateOutput({ item: "Flare" }, schema)).toEqual(["reply.quantity: is required"]);
+  });
+});
+
+describe("parseStructuredOutput", () => {
+  it("returns the value or the parse and validation errors", () => {
+    expect(parseStructuredOutput('```json\n{"action": "flee", "count": 0}\n```', reply)).toEqual({
+      value: { action: "flee", count: 0 },
+    });
+    expect(parseStructuredOutput('{"action": "flee"}', reply)).toEqual({ errors: ["reply.count: is required"] });
+    expect(parseStructuredOutput("I flee!", reply)).toMatchObject({ errors: [expect.stringMatching(/not JSON/)] });
+  });
+});
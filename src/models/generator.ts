@@ -6,8 +6,9 @@
 import { ChatOpenAI } from "@langchain/openai";
 import { ChatAnthropic } from "@langchain/anthropic";
 import { ChatGoogleGenerativeAI } from "@langchain/google-genai";
+import type { AIMessage } from "@langchain/core/messages";
 import { models } from "./configuration.js";
-import { ModelClass, ModelProviderName, GenerationOptions, ModelSettings } from "./types.js";
+import { ModelClass, ModelProviderName, GenerationOptions, ModelSettings, ModelRuntime, ToolGenerationOptions } from "./types.js";
 
 /**
  * Model class usage guidelines:
@@ -117,6 +118,86 @@ export function createChatModel(
   }
 }
 
+/**
+ * Providers whose chat models can bind tools natively
+ */
+const TOOL_CALLING_PROVIDERS: ModelProviderName[] = [
+  ModelProviderName.OPENAI,
+  ModelProviderName.ANTHROPIC,
+  ModelProviderName.GOOGLE,
+];
+
+/**
+ * Gets the provider from the environment variable, the runtime, or defaults to OpenAI
+ */
+export function resolveProvider(runtime?: ModelRuntime): ModelProviderName {
+  const envProvider = process.env.MODEL_PROVIDER as ModelProviderName;
+  return envProvider || runtime?.modelProvider || ModelProviderName.OPENAI;
+}
+
+/**
+ * Whether the provider in use supports native tool calling.
+ * DISABLE_TOOL_CALLING=true keeps agents on their JSON tool protocol.
+ */
+export function supportsToolCalling(runtime: ModelRuntime): boolean {
+  if (process.env.DISABLE_TOOL_CALLING === "true") return false;
+  return TOOL_CALLING_PROVIDERS.includes(resolveProvider(runtime));
+}
+
+/**
+ * Generates a reply with tools bound to the model; the reply either calls
+ * tools (AIMessage.tool_calls) or answers in its content
+ */
+export async function generateWithTools(options: ToolGenerationOptions): Promise<AIMessage> {
+  const {
+    runtime,
+    messages,
+    tools,
+    modelClass = ModelClass.MEDIUM,
+    maxRetries = 3
+  } = options;
+
+  const provider = resolveProvider(runtime);
+  if (!TOOL_CALLING_PROVIDERS.includes(provider)) {
+    throw new Error(`Provider ${provider} does not support tool calling`);
+  }
+  const effectiveModelClass = resolveModelClass(runtime, modelClass);
+  const chatModel = createChatModel(provider, effectiveModelClass).bindTools(tools);
+
+  let lastError: Error | null = null;
+
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    try {
+      console.log(
+        `🤖 Generating with ${tools.length} tools (attempt ${attempt}/${maxRetries}) using ${provider}/${effectiveModelClass}`
+      );
+
+      const response: AIMessage = await chatModel.invoke(messages);
+
+      if (!response?.content && !response?.tool_calls?.length) {
+        throw new Error("Empty response from model");
+      }
+
+      console.log(`✅ Generated ${response.tool_calls?.length ? `${response.tool_calls.length} tool call(s)` : "a reply"} successfully`);
+      return response;
+
+    } catch (error) {
+      lastError = error as Error;
+      console.error(
+        `❌ Generation attempt ${attempt} failed:`,
+        error
+      );
+
+      if (attempt < maxRetries) {
+        const delay = Math.pow(2, attempt) * 1000; // Exponential backoff
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  throw new Error(`Failed to generate with tools after ${maxRetries} attempts: ${lastError?.message}`);
+}
+
 /**
  * Generates text using the appropriate model class for CoC scenarios
  */
@@ -129,9 +210,7 @@ export async function generateText(options: GenerationOptions): Promise<string>
     maxRetries = 3
   } = options;
 
-  // Get provider from environment variable, runtime, or default to OpenAI
-  const envProvider = process.env.MODEL_PROVIDER as ModelProviderName;
-  const provider = envProvider || runtime.modelProvider || ModelProviderName.OPENAI;
+  const provider = resolveProvider(runtime);
   
   // Resolve effective model class
   const effectiveModelClass = resolveModelClass(runtime, modelClass);
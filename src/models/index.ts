@@ -6,12 +6,20 @@
 export * from "./types.js";
 export * from "./configuration.js";
 export * from "./generator.js";
+export * from "./structured.js";
 
 // Re-export commonly used items for convenience
 export { ModelClass, ModelProviderName } from "./types.js";
 export {
   generateText,
+  generateWithTools,
+  supportsToolCalling,
   resolveModelClass,
   getModelSettings,
   createChatModel,
-} from "./generator.js";
\ No newline at end of file
+} from "./generator.js";
+export {
+  generateStructured,
+  validateOutput,
+  StructuredOutputError,
+} from "./structured.js";
\ No newline at end of file
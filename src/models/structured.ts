@@ -0,0 +1,159 @@
+/**
+ * CoC Agent Structured Output
+ * Validates JSON replies against an agent's schema and asks the model to
+ * repair a reply that does not match
+ */
+
+import { generateText } from "./generator.js";
+import type { OutputSchema, StructuredGenerationOptions } from "./types.js";
+
+/**
+ * A model reply that could not be parsed or validated, even after repairs
+ */
+export class StructuredOutputError extends Error {
+  constructor(
+    public readonly schemaName: string,
+    public readonly errors: string[],
+    public readonly response: string
+  ) {
+    super(`${schemaName} reply did not match its schema: ${errors.join("; ")}`);
+    this.name = "StructuredOutputError";
+  }
+}
+
+/**
+ * JSON object in a model reply, allowing a surrounding code fence or text
+ * around the object. Throws when there is none.
+ */
+export function parseJsonText(text: string): unknown {
+  const trimmed = text.trim();
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)\s*```/i);
+  const body = fenced ? fenced[1] : trimmed;
+  try {
+    return JSON.parse(body);
+  } catch (error) {
+    const start = body.indexOf("{");
+    const end = body.lastIndexOf("}");
+    if (start === -1 || end <= start) {
+      throw new Error(`Reply is not JSON: ${(error as Error).message}`);
+    }
+    try {
+      return JSON.parse(body.slice(start, end + 1));
+    } catch (inner) {
+      throw new Error(`Reply is not valid JSON: ${(inner as Error).message}`);
+    }
+  }
+}
+
+const typeOf = (value: unknown): string => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+};
+
+/**
+ * Everything about a value that does not match the schema, as
+ * "path: problem" lines; an empty list means the value is valid
+ */
+export function validateOutput(value: unknown, schema: OutputSchema, path = "reply"): string[] {
+  if (schema.anyOf) {
+    const branches = schema.anyOf.map((branch) => validateOutput(value, branch, path));
+    if (branches.some((errors) => errors.length === 0)) return [];
+    // a branch of the value's own type says more about what is wrong
+    const typed = branches.filter((errors) => !errors[0].startsWith(`${path}: expected `));
+    return (typed.length > 0 ? typed : branches).reduce((best, errors) =>
+      errors.length < best.length ? errors : best
+    );
+  }
+
+  if (value === null && schema.nullable) return [];
+  const actual = typeOf(value);
+  if (schema.type) {
+    const matches =
+      actual === schema.type ||
+      (schema.type === "number" && actual === "integer");
+    if (!matches) return [`${path}: expected ${schema.type}, got ${actual}`];
+  }
+  if (schema.enum && !schema.enum.includes(value as string | number | boolean)) {
+    return [`${path}: must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}, got ${JSON.stringify(value)}`];
+  }
+
+  const errors: string[] = [];
+  if (actual === "object" && schema.type === "object") {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (record[key] === undefined) errors.push(`${path}.${key}: is required`);
+    }
+    for (const [key, property] of Object.entries(schema.properties ?? {})) {
+      if (record[key] !== undefined) {
+        errors.push(...validateOutput(record[key], property, `${path}.${key}`));
+      }
+    }
+  }
+  if (actual === "array" && schema.items) {
+    (value as unknown[]).forEach((item, index) => {
+      errors.push(...validateOutput(item, schema.items as OutputSchema, `${path}[${index}]`));
+    });
+  }
+  return errors;
+}
+
+/**
+ * Parse and validate a reply: the value, or what is wrong with it
+ */
+export function parseStructuredOutput<T>(
+  text: string,
+  schema: OutputSchema
+): { value: T } | { errors: string[] } {
+  let value: unknown;
+  try {
+    value = parseJsonText(text);
+  } catch (error) {
+    return { errors: [(error as Error).message] };
+  }
+  const errors = validateOutput(value, schema);
+  return errors.length > 0 ? { errors } : { value: value as T };
+}
+
+/**
+ * Prompt asking the model to answer again, with what was wrong with its reply
+ */
+export function buildRepairPrompt(errors: string[], response: string): string {
+  return `Your previous reply could not be used:
+${errors.map((error) => `- ${error}`).join("\n")}
+
+Previous reply:
+${response.slice(0, 2000)}
+
+Reply again with only the corrected JSON object, in the format described above and nothing else.`;
+}
+
+/**
+ * Generates a JSON reply that matches the schema. A malformed reply is sent
+ * back to the model with its validation errors up to maxRepairs times; after
+ * that a StructuredOutputError is thrown.
+ */
+export async function generateStructured<T>(options: StructuredGenerationOptions): Promise<T> {
+  const { schema, schemaName, maxRepairs = 2, ...generation } = options;
+
+  let context = generation.context;
+  let response = "";
+  let errors: string[] = [];
+
+  for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+    response = await generateText({ ...generation, context });
+    const parsed = parseStructuredOutput<T>(response, schema);
+    if ("value" in parsed) {
+      return parsed.value;
+    }
+
+    errors = parsed.errors;
+    console.warn(
+      `⚠️ ${schemaName} reply did not match its schema (attempt ${attempt + 1}/${maxRepairs + 1}): ${errors.join("; ")}`
+    );
+    context = `${generation.context}\n\n${buildRepairPrompt(errors, response)}`;
+  }
+
+  throw new StructuredOutputError(schemaName, errors, response);
+}
@@ -3,6 +3,9 @@
  * Model selection system with small/medium/large categorization
  */
 
+import type { ToolDefinition } from "@langchain/core/language_models/base";
+import type { BaseMessage } from "@langchain/core/messages";
+
 /**
  * Model size/type classification for different tasks
  */
@@ -85,4 +88,45 @@ export interface GenerationOptions {
   modelClass?: ModelClass;
   customSystemPrompt?: string;
   maxRetries?: number;
+}
+
+/**
+ * What the generators read from an agent's runtime
+ */
+export interface ModelRuntime {
+  modelProvider?: ModelProviderName;
+}
+
+/**
+ * Generation options for calls that may use tools
+ */
+export interface ToolGenerationOptions {
+  runtime: ModelRuntime;
+  messages: BaseMessage[];
+  tools: ToolDefinition[]; // OpenAI function format: { type: "function", function: { name, description, parameters } }
+  modelClass?: ModelClass;
+  maxRetries?: number;
+}
+
+/**
+ * JSON schema subset that agent replies are validated against
+ */
+export interface OutputSchema {
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  properties?: Record<string, OutputSchema>;
+  required?: string[];
+  items?: OutputSchema;
+  enum?: Array<string | number | boolean>;
+  nullable?: boolean;
+  anyOf?: OutputSchema[]; // valid when any one matches
+  description?: string;
+}
+
+/**
+ * Generation options for calls whose reply must match a schema
+ */
+export interface StructuredGenerationOptions extends GenerationOptions {
+  schema: OutputSchema;
+  schemaName: string; // names the reply in logs and errors, e.g. "Keeper"
+  maxRepairs?: number; // re-prompts with the validation errors (default 2)
 }
\ No newline at end of file
@@ -1,6 +1,35 @@
-import type { CharacterProfile } from "./coc_multiagents_system/agents/models/gameTypes.js";
-import type { ScenarioSnapshot } from "./coc_multiagents_system/agents/models/scenarioTypes.js";
+import type { CharacterCondition, CharacterProfile, ChaseRole, ChaseState, CombatEncounter, ConditionDuration, ConditionEvent, ConditionTimer, DamageResult, DiceRollRecord, DevelopmentResult, DiceState, Difficulty, FirearmAttackResult, FirearmState, HealthEvent, InventoryChange, InventoryItem, LuckSpendResult, RangeBand, ReloadResult, SanityCheckResult, SanityRecoveryMethod, SkillCheckResult, WeaponData } from "./coc_multiagents_system/agents/models/gameTypes.js";
+import type { ScenarioSnapshot, ScenarioTimePoint } from "./coc_multiagents_system/agents/models/scenarioTypes.js";
 import { actionRules } from "./coc_multiagents_system/rules/index.js";
+import { createDiceState, type DiceRng, SeededDiceRng } from "./coc_multiagents_system/mechanics/rng.js";
+import {
+  getHealthEventRolls,
+  resolveDamage,
+  resolveDyingCheck,
+  resolveHealing,
+  resolveTreatment,
+  type HealthChange,
+  type TreatmentSkill,
+} from "./coc_multiagents_system/mechanics/health.js";
+import { resolveSanityCheck } from "./coc_multiagents_system/mechanics/sanity.js";
+import { resolveNaturalHealing, resolveSanityRecovery } from "./coc_multiagents_system/mechanics/recovery.js";
+import {
+  applyCondition,
+  CONDITIONS,
+  formatConditionTime,
+  removeCondition,
+  tickConditions,
+} from "./coc_multiagents_system/mechanics/conditions.js";
+import { resolveDevelopmentPhase, tickExperienceChecks } from "./coc_multiagents_system/mechanics/development.js";
+import { resolveFirearmAttack, resolveReload } from "./coc_multiagents_system/mechanics/firearms.js";
+import { resolveWeaponDamage } from "./coc_multiagents_system/mechanics/damage.js";
+import {
+  addInventoryItem,
+  consumeInventoryItem,
+  formatInventoryItem,
+  removeInventoryItem,
+  type NewInventoryItem,
+} from "./coc_multiagents_system/mechanics/inventory.js";
 
 export type AgentId = "keeper" | "memory" | "action";
 
@@ -25,6 +54,39 @@ export interface ActionAnalysis {
     intent: string;
   };
   requiresDice: boolean;  // Whether dice roll is required
+  isPush?: boolean;  // Player is pushing the previous failed check
+  pushJustification?: string;  // How the player justifies the push
+  isLuckSpend?: boolean;  // Player spends Luck to pass the previous failed check
+  chaseRole?: ChaseRole;  // For chase actions: is the investigator fleeing (quarry) or giving chase (pursuer)
+}
+
+/**
+ * A failed non-combat check that may be pushed on the next turn
+ */
+export interface PushableCheck {
+  characterId: string;
+  characterName: string;
+  skill: string;
+  difficulty: Difficulty;
+  bonusDice: number;
+  penaltyDice: number;
+  originalRoll: number;
+  action: string;               // The action that failed
+  actionType: ActionType;
+  timestamp: Date;
+}
+
+/**
+ * A failed check the player may turn into a success by spending Luck on the next turn
+ */
+export interface LuckSpendOption {
+  characterId: string;
+  characterName: string;
+  check: SkillCheckResult;      // The failed check as rolled
+  cost: number;                 // Luck points needed (roll minus target)
+  action: string;               // The action that failed
+  actionType: ActionType;
+  timestamp: Date;
 }
 
 export interface SceneChangeRequest {
@@ -53,17 +115,32 @@ export interface VisitedScenarioBasic {
   };
 }
 
+/**
+ * Collect round mode: the party's actions are gathered and resolved together
+ */
+export interface CollectRoundSettings {
+  timeoutSeconds: number;  // How long a round waits for every investigator to declare an action
+}
+
 export interface GameState {
   sessionId: string;
   phase: Phase;
   currentScenario: ScenarioSnapshot | null;
   visitedScenarios: VisitedScenarioBasic[];
   timeOfDay: string;
+  elapsedMinutes: number;  // Game time since the session began; timed conditions run down with it
   tension: number;
   openThreads: string[];
   discoveredClues: string[];
-  playerCharacter: CharacterProfile;
+  playerCharacter: CharacterProfile;  // The investigator acting this turn
+  party: CharacterProfile[];  // The rest of the investigator party, waiting for their turns
   npcCharacters: CharacterProfile[];
+  pushableCheck: PushableCheck | null;  // Last failed check, pushable on the next turn only
+  luckSpendOption: LuckSpendOption | null;  // Last failed check Luck can buy, on the next turn only
+  dice: DiceState;  // Seeded dice RNG for this session; every roll advances it
+  combat: CombatEncounter | null;  // Active (or just-ended) combat encounter, kept across turns
+  chase: ChaseState | null;  // Active (or just-ended) chase, kept across turns
+  collectRound: CollectRoundSettings | null;  // Set when the table plays in collect rounds; null resolves each turn on its own
   scenarioTimeState: {
     sceneStartTime: string;     // 场景开始时的游戏时间
     playerTimeConsumption: Record<string, {  // 各玩家的时间消耗记录
@@ -81,6 +158,8 @@ export interface GameState {
     sceneChangeRequest: SceneChangeRequest | null;
     transition: boolean;  // Indicates if a scene change just occurred
     sceneTransitionRejection: SceneTransitionRejection | null;  // Director rejected scene transition
+    healthEvents: HealthEvent[];  // Major Wounds, unconsciousness, dying and treatment this turn
+    conditionEvents: ConditionEvent[];  // Conditions applied, removed or expired this turn
   };
 }
 
@@ -126,11 +205,19 @@ export const initialGameState: GameState = {
   currentScenario: null,
   visitedScenarios: [],
   timeOfDay: "Evening",
+  elapsedMinutes: 0,
   tension: 1,
   openThreads: [],
   discoveredClues: [],
   playerCharacter: defaultPlayerCharacter,
+  party: [],
   npcCharacters: [],
+  pushableCheck: null,
+  luckSpendOption: null,
+  dice: createDiceState("session-local"),
+  combat: null,
+  chase: null,
+  collectRound: null,
   scenarioTimeState: {
     sceneStartTime: "Evening",
     playerTimeConsumption: {},
@@ -145,11 +232,33 @@ export const initialGameState: GameState = {
     sceneChangeRequest: null,
     transition: false,
     sceneTransitionRejection: null,
+    healthEvents: [],
+    conditionEvents: [],
   },
 };
 
 export type TimeConsumption = "instant" | "short" | "scene";
 
+/**
+ * Game minutes each kind of action moves the clock on; combat rounds are
+ * counted separately
+ */
+export const TIME_CONSUMPTION_MINUTES: Record<TimeConsumption, number> = {
+  instant: 0,
+  short: 10,
+  scene: 60,
+};
+
+/**
+ * Game minutes between two scene time points: by their timestamps, or by
+ * whole days when the timestamps are missing or out of order
+ */
+const minutesBetween = (from: ScenarioTimePoint, to: ScenarioTimePoint): number => {
+  const ms = Date.parse(to?.absoluteTime) - Date.parse(from?.absoluteTime);
+  if (Number.isFinite(ms) && ms > 0) return Math.round(ms / 60000);
+  return Math.max(0, (to?.gameDay ?? 0) - (from?.gameDay ?? 0)) * 24 * 60;
+};
+
 export interface DirectorDecision {
   shouldProgress: boolean;
   targetSnapshotId?: string;  // 要推进到的具体场景快照ID
@@ -165,9 +274,28 @@ export interface ActionResult {
   location: string;
   character: string;
   result: string;
-  diceRolls: string[];
+  diceRolls: DiceRollRecord[];  // structured skill checks and dice rolls
   timeConsumption: TimeConsumption;  // 该行动消耗的时间类型
   scenarioChanges?: string[]; // List of permanent changes made to the scenario
+  sanityChecks?: SanityCheckResult[]; // SAN rolls made during the action, with any insanity
+  luckSpend?: LuckSpendResult; // Luck spent to pass the previous failed check
+  firearmAttacks?: FirearmAttackResult[]; // Shots fired during the action, with damage applied
+  reload?: ReloadResult; // Reload or jam cleared; takes the whole combat action
+  damage?: DamageResult[]; // Melee and thrown damage worked out and applied by the engine
+}
+
+/**
+ * A carried item to remove or use up: its id or name, alone or with a quantity
+ */
+export type InventoryItemRef = string | { item: string; quantity?: number };
+
+/**
+ * Inventory operations in a state update; items are added from a source
+ */
+export interface InventoryUpdate {
+  add?: Array<NewInventoryItem & { source?: string }>;
+  remove?: InventoryItemRef[];
+  consume?: InventoryItemRef[];
 }
 
 export interface AgentResult {
@@ -236,9 +364,14 @@ export class GameStateManager {
 
     const newScenario = scenarioData.snapshot;
     
-    // If we already have a current scenario, move it to visited scenarios
+    // If we already have a current scenario, move it to visited scenarios,
+    // run down conditions that last a number of scenes and move the clock
+    // on to the new scene's time (wounds heal over the days skipped)
     if (this.gameState.currentScenario) {
-      this.addVisitedScenario(this.gameState.currentScenario);
+      const previous = this.gameState.currentScenario;
+      this.addVisitedScenario(previous);
+      this.advanceConditionTimers("scenes");
+      this.advanceGameTime(minutesBetween(previous.timePoint, newScenario.timePoint));
     }
 
     // Set new current scenario
@@ -299,12 +432,24 @@ export class GameStateManager {
   /**
    * Apply state updates from action agent results
    */
-  applyActionUpdate(stateUpdate: any): void {
+  applyActionUpdate(stateUpdate: any, rng?: DiceRng): void {
     if (!stateUpdate) return;
 
     // Update player character
     if (stateUpdate.playerCharacter) {
-      this.updateCharacter(this.gameState.playerCharacter, stateUpdate.playerCharacter);
+      this.updateCharacter(this.gameState.playerCharacter, stateUpdate.playerCharacter, rng);
+    }
+
+    // Update the other investigators in the party
+    if (stateUpdate.party && Array.isArray(stateUpdate.party)) {
+      for (const memberUpdate of stateUpdate.party) {
+        const member = this.getParty().find(character =>
+          character.id === memberUpdate.id || character.name === memberUpdate.name
+        );
+        if (member) {
+          this.updateCharacter(member, memberUpdate, rng);
+        }
+      }
     }
 
     // Update NPC characters
@@ -312,7 +457,7 @@ export class GameStateManager {
       for (const npcUpdate of stateUpdate.npcCharacters) {
         const existingNpc = this.gameState.npcCharacters.find(npc => npc.id === npcUpdate.id);
         if (existingNpc) {
-          this.updateCharacter(existingNpc, npcUpdate);
+          this.updateCharacter(existingNpc, npcUpdate, rng);
         }
       }
     }
@@ -321,7 +466,7 @@ export class GameStateManager {
   /**
    * Update individual character data
    */
-  private updateCharacter(character: any, updates: any): void {
+  private updateCharacter(character: any, updates: any, rng?: DiceRng): void {
     // Update character name if provided
     if (updates.name) {
       character.name = updates.name;
@@ -330,6 +475,14 @@ export class GameStateManager {
     // Update status values (hp, sanity, mp, etc.)
     if (updates.status) {
       for (const [key, value] of Object.entries(updates.status)) {
+        // HP changes go through the damage/healing rules (Major Wounds, dying)
+        if (key === 'hp' && typeof value === 'number') {
+          this.applyHealthChange(
+            character,
+            value < 0 ? resolveDamage(character, -value, rng) : resolveHealing(character, value)
+          );
+          continue;
+        }
         if (typeof value === 'number' && key in character.status) {
           // Apply differential update (e.g., hp: -2 means subtract 2)
           character.status[key] += value;
@@ -342,6 +495,11 @@ export class GameStateManager {
       }
     }
     
+    // Inventory changes are add/remove/consume operations, never a new list
+    if (updates.inventory) {
+      this.applyInventoryUpdate(character, updates.inventory);
+    }
+
     // Update attributes if provided
     if (updates.attributes) {
       for (const [key, value] of Object.entries(updates.attributes)) {
@@ -365,14 +523,53 @@ export class GameStateManager {
     }
   }
 
+  /**
+   * Inventory operations from a state update. Operations that would conjure
+   * or lose items the rules don't allow are skipped.
+   */
+  private applyInventoryUpdate(character: CharacterProfile, update: InventoryUpdate | unknown[]): void {
+    if (Array.isArray(update)) {
+      console.warn(`GameStateManager: Ignoring an inventory list for ${character.name}; use add/remove/consume`);
+      return;
+    }
+
+    const run = (operation: () => InventoryChange): void => {
+      try {
+        operation();
+      } catch (error) {
+        console.warn(`GameStateManager: Inventory update skipped for ${character.name}: ${error instanceof Error ? error.message : error}`);
+      }
+    };
+    const refer = (entry: InventoryItemRef) => typeof entry === "string" ? { item: entry } : entry;
+    for (const item of Array.isArray(update.add) ? update.add : []) {
+      run(() => this.addInventoryItem(character.id, item, item.source));
+    }
+    for (const entry of Array.isArray(update.remove) ? update.remove : []) {
+      run(() => {
+        const { item, quantity } = refer(entry);
+        return this.removeInventoryItem(character.id, item, quantity);
+      });
+    }
+    for (const entry of Array.isArray(update.consume) ? update.consume : []) {
+      run(() => {
+        const { item, quantity } = refer(entry);
+        return this.consumeInventoryItem(character.id, item, quantity);
+      });
+    }
+  }
+
   /**
    * Add action result to temporary storage and update player time consumption
    */
   addActionResult(actionResult: ActionResult): void {
     if (!actionResult) return;
     
-    // Update player time consumption
+    // Update player time consumption and move the game clock on; wounds
+    // heal over the time taken, and the recovery rolls join the action's
     this.updatePlayerTimeConsumption(actionResult.character, actionResult.timeConsumption);
+    const rngState = (this.gameState.dice ?? createDiceState(this.gameState.sessionId)).state;
+    const { healthEvents } = this.advanceGameTime(TIME_CONSUMPTION_MINUTES[actionResult.timeConsumption] ?? 0);
+    actionResult.diceRolls.push(...getHealthEventRolls(healthEvents).map(roll => ({ ...roll, rngState })));
     
     this.gameState.temporaryInfo.actionResults.push(actionResult);
     
@@ -506,6 +703,589 @@ export class GameStateManager {
     this.gameState.temporaryInfo.currentActionAnalysis = null;
   }
 
+  /**
+   * Record a failed check that the player may push on the next turn
+   */
+  setPushableCheck(check: PushableCheck | null): void {
+    this.gameState.pushableCheck = check;
+  }
+
+  /**
+   * Clear the pushable check (pushed, or the chance to push has passed)
+   */
+  clearPushableCheck(): void {
+    this.gameState.pushableCheck = null;
+  }
+
+  /**
+   * Record a failed check the player may buy into a success with Luck on the next turn
+   */
+  setLuckSpendOption(option: LuckSpendOption | null): void {
+    this.gameState.luckSpendOption = option;
+  }
+
+  /**
+   * Clear the Luck spend option (spent, or the chance has passed)
+   */
+  clearLuckSpendOption(): void {
+    this.gameState.luckSpendOption = null;
+  }
+
+  /**
+   * Store the session dice RNG state after rolls have been made
+   */
+  setDiceState(dice: DiceState): void {
+    this.gameState.dice = dice;
+  }
+
+  /**
+   * Set the current combat encounter
+   */
+  setCombat(encounter: CombatEncounter | null): void {
+    this.gameState.combat = encounter;
+  }
+
+  /**
+   * Clear the combat encounter once the fight is over
+   */
+  clearCombat(): void {
+    this.gameState.combat = null;
+  }
+
+  /**
+   * Set the current chase
+   */
+  setChase(chase: ChaseState | null): void {
+    this.gameState.chase = chase;
+  }
+
+  /**
+   * Clear the chase once it is over
+   */
+  clearChase(): void {
+    this.gameState.chase = null;
+  }
+
+  /**
+   * Switch collect round mode on (with its timeout) or off (null)
+   */
+  setCollectRound(settings: CollectRoundSettings | null): void {
+    this.gameState.collectRound = settings;
+  }
+
+  /**
+   * The other investigators in the party (older saves have none)
+   */
+  getParty(): CharacterProfile[] {
+    if (!this.gameState.party) {
+      this.gameState.party = [];
+    }
+    return this.gameState.party;
+  }
+
+  /**
+   * Every investigator: the one acting this turn first, then the rest of the party
+   */
+  getInvestigators(): CharacterProfile[] {
+    return [this.gameState.playerCharacter, ...this.getParty()];
+  }
+
+  /**
+   * Every investigator and NPC
+   */
+  getAllCharacters(): CharacterProfile[] {
+    return [...this.getInvestigators(), ...this.gameState.npcCharacters];
+  }
+
+  /**
+   * Find an investigator by id or name (case-insensitive)
+   */
+  findInvestigator(idOrName: string): CharacterProfile | undefined {
+    const lower = idOrName.trim().toLowerCase();
+    return this.getInvestigators().find(character =>
+      character.id.toLowerCase() === lower || character.name.toLowerCase() === lower
+    );
+  }
+
+  /**
+   * Add an investigator to the party; they act once a turn is theirs
+   */
+  addInvestigator(character: CharacterProfile): void {
+    if (this.findInvestigator(character.id) || this.findInvestigator(character.name)) {
+      throw new Error(`${character.name} is already in the party`);
+    }
+    this.getParty().push(character);
+  }
+
+  /**
+   * Make an investigator the one acting this turn; the previous one rejoins
+   * the rest of the party
+   */
+  setActingInvestigator(idOrName: string): CharacterProfile {
+    const investigator = this.findInvestigator(idOrName);
+    if (!investigator) {
+      throw new Error(`No investigator named ${idOrName} in the party`);
+    }
+    if (investigator === this.gameState.playerCharacter) {
+      return investigator;
+    }
+
+    this.gameState.party = [
+      this.gameState.playerCharacter,
+      ...this.getParty().filter(member => member !== investigator),
+    ];
+    this.gameState.playerCharacter = investigator;
+    return investigator;
+  }
+
+  /**
+   * Find an investigator or an NPC by id
+   */
+  findCharacterById(characterId: string): CharacterProfile | undefined {
+    return this.getAllCharacters().find(character => character.id === characterId);
+  }
+
+  /**
+   * Find an investigator or an NPC by id or name (case-insensitive)
+   */
+  findCharacterByName(idOrName: string): CharacterProfile | undefined {
+    const lower = idOrName.trim().toLowerCase();
+    return this.getAllCharacters().find(character =>
+      character.id.toLowerCase() === lower || character.name.toLowerCase() === lower
+    );
+  }
+
+  /**
+   * Give a character an item. It has to come from somewhere: a character who
+   * hands it over (and no longer has it), or where it was found or bought.
+   */
+  addInventoryItem(
+    characterId: string,
+    item: NewInventoryItem,
+    source: string | undefined,
+    weapons: WeaponData[] = []
+  ): InventoryChange {
+    const character = this.getCharacterOrThrow(characterId);
+    const from = String(source ?? "").trim();
+    if (!from) {
+      throw new Error(`Say where ${character.name} gets ${item?.name ?? "the item"} from: a character, or where it is found`);
+    }
+
+    let added: NewInventoryItem = { ...item, notes: item.notes ?? `From ${from}` };
+    const giver = this.findCharacterByName(from);
+    if (giver && giver !== character) {
+      const taken = removeInventoryItem(giver.inventory || [], item.name, item.quantity ?? 1);
+      giver.inventory = taken.inventory;
+      const { id: _id, ...carried } = taken.item;
+      added = { ...carried, quantity: taken.quantity };
+    }
+
+    const result = addInventoryItem(character.inventory || [], added, weapons);
+    character.inventory = result.inventory;
+    const quantity = added.quantity ?? 1;
+    return this.inventoryChange(
+      character,
+      "add",
+      result.item,
+      quantity,
+      `${character.name} ${giver && giver !== character ? `takes ${quantity} × ${result.item.name} from ${giver.name}` : `gains ${quantity} × ${result.item.name} (${from})`}`
+    );
+  }
+
+  /**
+   * Take some (or all) of a carried item away from a character
+   */
+  removeInventoryItem(characterId: string, idOrName: string, quantity?: number): InventoryChange {
+    const character = this.getCharacterOrThrow(characterId);
+    const result = removeInventoryItem(character.inventory || [], idOrName, quantity);
+    character.inventory = result.inventory;
+    return this.inventoryChange(
+      character,
+      "remove",
+      result.item,
+      result.quantity,
+      `${character.name} no longer has ${result.quantity} × ${result.item.name}${result.item.quantity > 0 ? ` (${result.item.quantity} left)` : ""}`
+    );
+  }
+
+  /**
+   * Use up a carried item's charges, or the items themselves
+   */
+  consumeInventoryItem(characterId: string, idOrName: string, amount = 1): InventoryChange {
+    const character = this.getCharacterOrThrow(characterId);
+    const result = consumeInventoryItem(character.inventory || [], idOrName, amount);
+    character.inventory = result.inventory;
+    const left = result.item.charges !== undefined
+      ? `${result.item.charges} charge(s) left`
+      : `${result.item.quantity} left`;
+    return this.inventoryChange(
+      character,
+      "consume",
+      result.item,
+      result.quantity,
+      `${character.name} uses ${result.quantity} of ${formatInventoryItem({ ...result.item, quantity: 1 })} (${left})`
+    );
+  }
+
+  private getCharacterOrThrow(characterId: string): CharacterProfile {
+    const character = this.findCharacterById(characterId);
+    if (!character) {
+      throw new Error(`Unknown character: ${characterId}`);
+    }
+    return character;
+  }
+
+  private inventoryChange(
+    character: CharacterProfile,
+    operation: InventoryChange["operation"],
+    item: InventoryItem,
+    quantity: number,
+    summary: string
+  ): InventoryChange {
+    return {
+      characterId: character.id,
+      characterName: character.name,
+      operation,
+      item,
+      quantity,
+      summary,
+    };
+  }
+
+  /**
+   * Apply one hit of damage to a character (Major Wound, unconscious, dying, dead)
+   */
+  applyDamage(characterId: string, amount: number, rng?: DiceRng): HealthEvent[] {
+    const character = this.findCharacterById(characterId);
+    if (!character || amount <= 0) return [];
+    return this.applyHealthChange(character, resolveDamage(character, amount, rng));
+  }
+
+  /**
+   * Apply a successful First Aid or Medicine check to a patient
+   */
+  applyTreatment(characterId: string, skill: TreatmentSkill, rng?: DiceRng): HealthEvent[] {
+    const character = this.findCharacterById(characterId);
+    if (!character) return [];
+    return this.applyHealthChange(character, resolveTreatment(character, skill, rng));
+  }
+
+  /**
+   * Roll CON for every dying character (once per combat round, or per turn out of combat)
+   */
+  resolveDyingChecks(rng?: DiceRng): HealthEvent[] {
+    const characters = this.getAllCharacters();
+    return characters.flatMap(character =>
+      this.applyHealthChange(character, resolveDyingCheck(character, rng))
+    );
+  }
+
+  /**
+   * Roll SAN for a character against a loss pair ("0/1d6") and apply the result
+   */
+  applySanityCheck(
+    characterId: string,
+    sanityLoss: string,
+    trigger?: string | null,
+    rng?: DiceRng
+  ): SanityCheckResult | null {
+    const character = this.findCharacterById(characterId);
+    if (!character) return null;
+
+    const { status, result } = resolveSanityCheck({
+      character,
+      sanityLoss,
+      trigger,
+      gameDay: this.gameState.currentScenario?.timePoint?.gameDay,
+      rng,
+    });
+    character.status = status;
+    return result;
+  }
+
+  /**
+   * Fire a character's weapon, track its rounds and apply the hits to the target
+   */
+  applyFirearmAttack(
+    characterId: string,
+    weapon: WeaponData,
+    targetId: string | null,
+    range?: RangeBand,
+    shots?: number,
+    rng?: DiceRng
+  ): FirearmAttackResult | null {
+    const character = this.findCharacterById(characterId);
+    if (!character) return null;
+    const target = targetId ? this.findCharacterById(targetId) : undefined;
+
+    const { state, result } = resolveFirearmAttack({
+      character,
+      weapon,
+      target,
+      range,
+      shots,
+      rng,
+    });
+    this.setFirearmState(character, weapon, state);
+
+    // Each hit is its own wound, in shot order: a Major Wound or instant
+    // death is judged on one bullet's damage, not the burst's total
+    if (target) {
+      const healthEvents = result.shots.flatMap(shot =>
+        shot.hit ? this.applyDamage(target.id, shot.damage, rng) : []
+      );
+      this.addHealthOutcomes(result, healthEvents);
+    }
+    return result;
+  }
+
+  /**
+   * Work out a successful attack's damage from the weapon and apply it to the target
+   */
+  applyWeaponDamage(
+    attackerId: string,
+    targetId: string,
+    weapon: WeaponData,
+    check: SkillCheckResult,
+    range?: RangeBand,
+    rng?: DiceRng
+  ): DamageResult | null {
+    const attacker = this.findCharacterById(attackerId);
+    const target = this.findCharacterById(targetId);
+    if (!attacker || !target) return null;
+
+    const result = resolveWeaponDamage({ attacker, weapon, check, target, range, rng });
+    this.applyResolvedDamage(target.id, result, rng);
+    return result;
+  }
+
+  /**
+   * Apply engine-resolved damage, adding any Major Wound or dying outcome
+   * (and its CON roll) to the result
+   */
+  private applyResolvedDamage(
+    targetId: string,
+    result: { damage: number; summary: string; rolls: DiceRollRecord[] },
+    rng?: DiceRng
+  ): void {
+    this.addHealthOutcomes(result, this.applyDamage(targetId, result.damage, rng));
+  }
+
+  /**
+   * Add Major Wound, dying and death outcomes (and their CON rolls) to an attack's result
+   */
+  private addHealthOutcomes(
+    result: { summary: string; rolls: DiceRollRecord[] },
+    healthEvents: HealthEvent[]
+  ): void {
+    result.summary = [result.summary, ...healthEvents.map(e => e.summary)].join("; ");
+    result.rolls.push(
+      ...healthEvents.flatMap(e => e.check ? [{ kind: "skill_check" as const, ...e.check }] : [])
+    );
+  }
+
+  /**
+   * Reload a character's weapon, or clear its jam
+   */
+  reloadFirearm(characterId: string, weapon: WeaponData): ReloadResult | null {
+    const character = this.findCharacterById(characterId);
+    if (!character) return null;
+
+    const { state, result } = resolveReload(character, weapon);
+    this.setFirearmState(character, weapon, state);
+    return result;
+  }
+
+  /**
+   * Record a weapon's loaded rounds and jam state after it fired or reloaded
+   */
+  setFirearmState(character: CharacterProfile, weapon: WeaponData, state: FirearmState): void {
+    character.firearms = { ...character.firearms, [weapon.name]: state };
+  }
+
+  /**
+   * Tick each investigator's skills that succeeded in these rolls
+   */
+  markExperienceChecks(rolls: DiceRollRecord[]): void {
+    for (const investigator of this.getInvestigators()) {
+      investigator.experienceChecks = tickExperienceChecks(investigator, rolls);
+    }
+  }
+
+  /**
+   * End-of-session development: roll improvement for every skill an
+   * investigator (by default the acting one) has ticked
+   */
+  runDevelopmentPhase(rng?: DiceRng, characterId?: string): DevelopmentResult {
+    const investigator = characterId ? this.findInvestigator(characterId) : this.gameState.playerCharacter;
+    if (!investigator) {
+      throw new Error(`No investigator ${characterId} in the party`);
+    }
+
+    const { character, result } = resolveDevelopmentPhase(investigator, rng);
+    if (investigator === this.gameState.playerCharacter) {
+      this.gameState.playerCharacter = character;
+    } else {
+      this.gameState.party = this.getParty().map(member => member === investigator ? character : member);
+    }
+    return result;
+  }
+
+  /**
+   * Put a catalogue condition on a character, for a duration or until removed
+   */
+  applyCondition(
+    characterId: string,
+    condition: CharacterCondition,
+    duration?: ConditionDuration | null
+  ): ConditionEvent | null {
+    const character = this.findCharacterById(characterId);
+    if (!character) return null;
+
+    character.status = applyCondition(character.status, condition, duration);
+    const time = formatConditionTime(character.status, condition);
+    return this.recordConditionEvent(
+      character,
+      condition,
+      "applied",
+      `${character.name} is ${CONDITIONS[condition].name.toLowerCase()}${time ? ` (${time})` : ""}`
+    );
+  }
+
+  /**
+   * Take a condition off a character
+   */
+  removeCondition(characterId: string, condition: CharacterCondition): ConditionEvent | null {
+    const character = this.findCharacterById(characterId);
+    if (!character || !(character.status.conditions || []).includes(condition)) return null;
+
+    character.status = removeCondition(character.status, condition);
+    return this.recordConditionEvent(
+      character,
+      condition,
+      "removed",
+      `${character.name} is no longer ${CONDITIONS[condition].name.toLowerCase()}`
+    );
+  }
+
+  /**
+   * Run down every character's condition timers counted in this unit
+   * (a combat or chase round, a scene, game minutes) and expire the ones that run out
+   */
+  advanceConditionTimers(unit: ConditionTimer["unit"], amount = 1): ConditionEvent[] {
+    const characters = this.getAllCharacters();
+    return characters.flatMap(character => {
+      const { status, expired } = tickConditions(character.status, unit, amount);
+      character.status = status;
+      return expired.map(condition =>
+        this.recordConditionEvent(
+          character,
+          condition,
+          "expired",
+          `${character.name} is no longer ${CONDITIONS[condition].name.toLowerCase()}; it has worn off`
+        )
+      );
+    });
+  }
+
+  /**
+   * Move the game clock on; conditions timed in game time run down with it
+   * and wounds heal (see applyNaturalHealing)
+   */
+  advanceGameTime(
+    minutes: number,
+    rng?: DiceRng
+  ): { healthEvents: HealthEvent[]; conditionEvents: ConditionEvent[] } {
+    if (minutes <= 0) return { healthEvents: [], conditionEvents: [] };
+    this.gameState.elapsedMinutes = (this.gameState.elapsedMinutes ?? 0) + minutes;
+    const healthEvents = this.applyNaturalHealing(minutes, rng);
+    return { healthEvents, conditionEvents: this.advanceConditionTimers("minutes", minutes) };
+  }
+
+  /**
+   * Heal every character over game time: 1 HP a day, or a recovery roll a
+   * week with a Major Wound. Without an RNG the session's dice are used.
+   */
+  applyNaturalHealing(minutes: number, rng?: DiceRng): HealthEvent[] {
+    const seeded = rng ? null : new SeededDiceRng(this.gameState.dice ?? createDiceState(this.gameState.sessionId));
+    const characters = this.getAllCharacters();
+    const events = characters.flatMap(character =>
+      this.applyHealthChange(character, resolveNaturalHealing(character, minutes, rng ?? seeded ?? undefined))
+    );
+    if (seeded) {
+      this.setDiceState(seeded.getState());
+    }
+    return events;
+  }
+
+  /**
+   * A month's psychotherapy (with a therapist who rolls Psychoanalysis) or
+   * self-help (a roll of the given skill) for a character
+   */
+  applySanityRecovery(
+    characterId: string,
+    method: SanityRecoveryMethod,
+    options: { therapistId?: string; skill?: string } = {},
+    rng?: DiceRng
+  ): HealthEvent[] {
+    const character = this.getCharacterOrThrow(characterId);
+    const therapist = options.therapistId ? this.getCharacterOrThrow(options.therapistId) : undefined;
+    return this.applyHealthChange(
+      character,
+      resolveSanityRecovery({
+        character,
+        method,
+        elapsedMinutes: this.gameState.elapsedMinutes ?? 0,
+        therapist,
+        skill: options.skill,
+        rng,
+      })
+    );
+  }
+
+  /**
+   * Clear condition events before a new turn
+   */
+  clearConditionEvents(): void {
+    this.gameState.temporaryInfo.conditionEvents = [];
+  }
+
+  private recordConditionEvent(
+    character: CharacterProfile,
+    condition: CharacterCondition,
+    type: ConditionEvent["type"],
+    summary: string
+  ): ConditionEvent {
+    const event: ConditionEvent = {
+      characterId: character.id,
+      characterName: character.name,
+      condition,
+      type,
+      summary,
+    };
+    if (!this.gameState.temporaryInfo.conditionEvents) {
+      this.gameState.temporaryInfo.conditionEvents = [];
+    }
+    this.gameState.temporaryInfo.conditionEvents.push(event);
+    return event;
+  }
+
+  /**
+   * Clear health events before a new turn
+   */
+  clearHealthEvents(): void {
+    this.gameState.temporaryInfo.healthEvents = [];
+  }
+
+  private applyHealthChange(character: CharacterProfile, change: HealthChange): HealthEvent[] {
+    character.status = change.status;
+    if (!this.gameState.temporaryInfo.healthEvents) {
+      this.gameState.temporaryInfo.healthEvents = [];
+    }
+    this.gameState.temporaryInfo.healthEvents.push(...change.events);
+    return change.events;
+  }
+
   /**
    * Set director decision from director agent
    */